@@ -1,16 +1,19 @@
 // SPDX-License-Identifier: MIT
 pragma solidity ^0.8.24;
 
-import { FHE, euint32, ebool } from "@fhevm/solidity/lib/FHE.sol";
+import { FHE, euint32, euint64, externalEuint32, externalEuint64, ebool } from "@fhevm/solidity/lib/FHE.sol";
 import { SepoliaConfig } from "@fhevm/solidity/config/ZamaConfig.sol";
 
 contract SmartBuildingEnergyFHE is SepoliaConfig {
     struct EncryptedEnergyData {
         uint256 id;
+        address tenant;                 // Submitter; the only account allowed to reveal or decrypt
+        string systemKey;               // Registered building system the reading belongs to
         euint32 encryptedTenantUsage;   // Encrypted tenant usage
         euint32 encryptedTimestamp;     // Encrypted timestamp
         euint32 encryptedSystemLoad;    // Encrypted predicted load
         uint256 timestamp;
+        uint256 billingEpoch;           // Billing epoch that was open at submission
     }
     
     struct DecryptedEnergyData {
@@ -19,47 +22,312 @@ contract SmartBuildingEnergyFHE is SepoliaConfig {
         bool isRevealed;
     }
 
+    enum DecryptionStatus { None, Pending, Revealed }
+
+    struct DecryptionAttempt {
+        uint256 requestId;              // Oracle request of the latest attempt
+        uint256 requestedAt;
+        uint32 attempts;
+    }
+
+    struct RevealedLoadSum {
+        uint32 sum;
+        uint256 revealedAt;             // Block timestamp of the oracle callback
+        uint256 epoch;                  // 1-based reveal counter per system key
+    }
+
+    struct LoadSumWindow {
+        uint32 readings;                // Readings added since the last reveal request
+        uint32 tenants;                 // Distinct tenants among those readings
+        uint256 requests;               // Reveal requests so far; numbers the open window
+    }
+
+    struct BillingEpoch {
+        uint256 startedAt;
+        uint256 closedAt;               // Zero while the epoch is open
+    }
+
+    struct RevealedEpochTotal {
+        uint32 sum;
+        bool isRevealed;
+        uint256 requestedAt;            // Latest oracle request; zero before the first
+    }
+
+    struct EpochTotalRequest {
+        uint256 epochId;
+        string systemKey;
+    }
+
+    enum AttestationVerdict { Attested, Disputed }
+
+    struct Attestation {
+        address verifier;               // Verifier at the time; the role can change hands
+        AttestationVerdict verdict;
+        uint16 reasonCode;              // Meaning defined off-chain; zero only for attestations
+        uint256 timestamp;
+    }
+
+    enum AllocationMethod { Proportional, Shapley }
+
+    enum AllocationCheck { Pending, Matched, Mismatched }
+
+    struct SavingsPeriod {
+        uint64 periodStart;
+        uint64 periodEnd;
+        uint32 baselineKwh;             // Building consumption expected without optimization
+        uint32 actualKwh;               // Realized building consumption after optimization
+        AllocationMethod method;        // How the off-chain engine split the savings
+        uint256 recordedAt;
+        address[] tenants;              // Shares stay encrypted, one per tenant in tenantSavings
+        ebool sharesMatch;              // Whether the encrypted shares add up to the savings
+        AllocationCheck check;          // Oracle answer to sharesMatch
+        uint256 checkRequestedAt;       // Latest oracle request of the check
+    }
+
+    struct CreditPeriod {
+        euint32 baseline;               // Encrypted usage the tenant is expected to stay under
+        euint64 usage;                  // Encrypted usage since the period started; too wide to wrap
+        uint256 startedAt;              // Zero while no period is open
+    }
+
+    struct SavingsCredit {
+        euint32 lastCredit;             // Credit of the most recently closed period
+        euint32 totalCredits;           // Running total over all closed periods
+        uint256 computedAt;
+    }
+
+    struct Tariff {
+        string config;                  // Tariff JSON, parsed and validated by the SDK
+        uint64 effectiveFrom;
+        uint256 publishedAt;
+    }
+
+    struct TenantSavings {
+        euint64 savingsWh;              // Readable by the tenant alone
+        bool allocated;
+    }
+
+    /// @notice Readings per batch that fit in one 2048-bit input proof (3 x euint32 each)
+    uint256 public constant MAX_BATCH_SIZE = 21;
+
+    /// @notice Tenants per savings allocation that fit in one 2048-bit input proof (euint64 each)
+    uint256 public constant MAX_ALLOCATION_TENANTS = 32;
+
+    /// @notice New readings a system needs between two load sum reveals
+    uint32 public constant MIN_LOAD_SUM_REVEAL_READINGS = 5;
+
+    /// @notice Distinct tenants those new readings must come from
+    uint32 public constant MIN_LOAD_SUM_REVEAL_TENANTS = 3;
+
+    /// @notice How long an unanswered reveal request blocks a retry of the same reading or epoch total
+    uint256 public constant DECRYPTION_RETRY_DELAY = 5 minutes;
+
+    /// @notice Billing epoch length until the owner configures another
+    uint256 public constant DEFAULT_BILLING_EPOCH_DURATION = 30 days;
+
+    address public owner;
+    address public buildingManager;
+    address public verifier;
+
     uint256 public dataCount;
     mapping(uint256 => EncryptedEnergyData) public encryptedData;
     mapping(uint256 => DecryptedEnergyData) public decryptedData;
 
     mapping(string => euint32) private encryptedLoadSum;
+    mapping(string => RevealedLoadSum[]) private revealedLoadSums;
+    mapping(string => LoadSumWindow) private loadSumWindows;
+    // Window (requests + 1) of each tenant's latest reading per system; zero means none
+    mapping(string => mapping(address => uint256)) private loadSumContributions;
+    mapping(string => bool) private registeredSystems;
     string[] private systemList;
 
-    mapping(uint256 => uint256) private requestToDataId;
+    SavingsPeriod[] private savingsPeriods;
+    mapping(uint256 => mapping(address => TenantSavings)) private tenantSavings;
+
+    Tariff[] private tariffs;
 
-    event EnergyDataSubmitted(uint256 indexed id, uint256 timestamp);
-    event DecryptionRequested(uint256 indexed id);
-    event EnergyDataDecrypted(uint256 indexed id);
+    BillingEpoch[] private billingEpochs;
+    uint256 public billingEpochDuration;
+    mapping(uint256 => mapping(string => euint32)) private epochLoadSums;
+    mapping(uint256 => mapping(address => euint32)) private epochTenantUsage;
+    mapping(uint256 => mapping(string => RevealedEpochTotal)) private revealedEpochTotals;
+
+    mapping(address => CreditPeriod) private creditPeriods;
+    mapping(address => SavingsCredit) private savingsCredits;
+
+    mapping(uint256 => uint256) private requestToDataId;
+    mapping(uint256 => DecryptionAttempt) private decryptionAttempts;
+    mapping(uint256 => Attestation[]) private attestations;
+    mapping(uint256 => string) private requestToSystemKey;
+    mapping(uint256 => EpochTotalRequest) private requestToEpochTotal;
+    mapping(uint256 => uint256) private requestToSavingsPeriod;
+
+    event EnergyDataSubmitted(uint256 indexed id, address indexed tenant, string systemKey, uint256 timestamp);
+    event EnergyDataBatchSubmitted(
+        address indexed tenant,
+        string systemKey,
+        uint256 firstId,
+        uint256 lastId,
+        uint256 timestamp
+    );
+    event DecryptionRequested(uint256 indexed id, uint256 requestId);
+    event EnergyDataDecrypted(uint256 indexed id, uint256 requestId);
+    event BuildingManagerUpdated(address indexed manager);
+    event VerifierUpdated(address indexed verifier);
+    event ReadingAttested(uint256 indexed id, address indexed verifier, uint16 reasonCode);
+    event ReadingDisputed(uint256 indexed id, address indexed verifier, uint16 reasonCode);
+    event SystemRegistered(string systemKey);
+    event LoadSumDecryptionRequested(string systemKey, uint256 indexed requestId);
+    event LoadSumRevealed(string systemKey, uint256 indexed epoch, uint32 sum, uint256 revealedAt);
+    event SavingsAllocated(
+        uint256 indexed periodId,
+        uint64 periodStart,
+        uint64 periodEnd,
+        uint32 savingsKwh,
+        AllocationMethod method
+    );
+    event TenantSavingsAllocated(uint256 indexed periodId, address indexed tenant);
+    event SavingsCheckRequested(uint256 indexed periodId, uint256 requestId);
+    event SavingsAllocationChecked(uint256 indexed periodId, bool sharesMatch);
+    event TariffPublished(uint256 indexed tariffId, uint64 effectiveFrom);
+    event BillingEpochDurationUpdated(uint256 duration);
+    event BillingEpochStarted(uint256 indexed epochId, uint256 startedAt);
+    event BillingEpochClosed(uint256 indexed epochId, uint256 startedAt, uint256 closedAt);
+    event EpochTotalDecryptionRequested(uint256 indexed epochId, string systemKey, uint256 requestId);
+    event EpochTotalRevealed(uint256 indexed epochId, string systemKey, uint32 sum);
+    event CreditPeriodStarted(address indexed tenant, uint256 startedAt);
+    event SavingsCreditComputed(address indexed tenant, uint256 periodStart, uint256 computedAt);
+
+    modifier onlyOwner() {
+        require(msg.sender == owner, "Only owner");
+        _;
+    }
 
     modifier onlyTenant(uint256 dataId) {
+        require(encryptedData[dataId].tenant == msg.sender, "Not the tenant");
+        _;
+    }
+
+    modifier onlyBuildingManager() {
+        require(msg.sender == buildingManager, "Only building manager");
+        _;
+    }
+
+    modifier onlyVerifier() {
+        require(msg.sender == verifier, "Only verifier");
         _;
     }
 
-    /// @notice Submit new encrypted energy data
+    constructor() {
+        owner = msg.sender;
+        buildingManager = msg.sender;
+        emit BuildingManagerUpdated(msg.sender);
+        verifier = msg.sender;
+        emit VerifierUpdated(msg.sender);
+        registerSystem("central_system");
+
+        billingEpochDuration = DEFAULT_BILLING_EPOCH_DURATION;
+        emit BillingEpochDurationUpdated(DEFAULT_BILLING_EPOCH_DURATION);
+        openBillingEpoch();
+    }
+
+    /// @notice Set the account allowed to reveal aggregate loads
+    function setBuildingManager(address manager) public onlyOwner {
+        require(manager != address(0), "Invalid manager");
+        buildingManager = manager;
+        emit BuildingManagerUpdated(manager);
+    }
+
+    /// @notice Set the account allowed to attest or dispute readings (e.g. the metering authority)
+    function setVerifier(address newVerifier) public onlyOwner {
+        require(newVerifier != address(0), "Invalid verifier");
+        verifier = newVerifier;
+        emit VerifierUpdated(newVerifier);
+    }
+
+    /// @notice Register a building system (HVAC zone, lighting circuit, elevator bank, ...)
+    function registerSystem(string memory systemKey) public onlyOwner {
+        require(bytes(systemKey).length != 0, "Invalid system");
+        require(!registeredSystems[systemKey], "System already registered");
+
+        registeredSystems[systemKey] = true;
+        systemList.push(systemKey);
+
+        emit SystemRegistered(systemKey);
+    }
+
+    /// @notice Get all registered system keys in registration order
+    function getSystems() public view returns (string[] memory) {
+        return systemList;
+    }
+
+    /// @notice Check whether a system key has been registered
+    function isSystemRegistered(string memory systemKey) public view returns (bool) {
+        return registeredSystems[systemKey];
+    }
+
+    /// @notice Submit new encrypted energy data for a registered system
+    /// @dev Handles and proof come from a client-side encrypted input bound to this contract and msg.sender
     function submitEncryptedEnergyData(
-        euint32 encryptedTenantUsage,
-        euint32 encryptedTimestamp,
-        euint32 encryptedSystemLoad
+        string calldata systemKey,
+        externalEuint32 tenantUsageInput,
+        externalEuint32 timestampInput,
+        externalEuint32 systemLoadInput,
+        bytes calldata inputProof
     ) public {
-        dataCount += 1;
-        uint256 newId = dataCount;
+        require(registeredSystems[systemKey], "System not found");
 
-        encryptedData[newId] = EncryptedEnergyData({
-            id: newId,
-            encryptedTenantUsage: encryptedTenantUsage,
-            encryptedTimestamp: encryptedTimestamp,
-            encryptedSystemLoad: encryptedSystemLoad,
-            timestamp: block.timestamp
-        });
+        (uint256 newId, euint32 encryptedTenantUsage) = storeReading(
+            systemKey, tenantUsageInput, timestampInput, systemLoadInput, inputProof
+        );
 
-        decryptedData[newId] = DecryptedEnergyData({
-            tenantUsage: 0,
-            systemLoad: 0,
-            isRevealed: false
-        });
+        // Aggregate while still encrypted so the operator never needs per-tenant reveals
+        addToLoadSum(systemKey, encryptedTenantUsage, 1);
+        addToBillingEpoch(systemKey, encryptedTenantUsage);
+        euint32[] memory usages = new euint32[](1);
+        usages[0] = encryptedTenantUsage;
+        addToCreditPeriod(usages);
 
-        emit EnergyDataSubmitted(newId, block.timestamp);
+        emit EnergyDataSubmitted(newId, msg.sender, systemKey, block.timestamp);
+    }
+
+    /// @notice Submit several encrypted readings for one system in a single transaction
+    /// @dev All handles share one input proof, so a batch is bounded by the 2048-bit proof
+    /// limit (MAX_BATCH_SIZE readings of three euint32). Ids are assigned consecutively and
+    /// reported by a single EnergyDataBatchSubmitted event instead of one event per reading.
+    function submitEncryptedEnergyDataBatch(
+        string calldata systemKey,
+        externalEuint32[] calldata tenantUsageInputs,
+        externalEuint32[] calldata timestampInputs,
+        externalEuint32[] calldata systemLoadInputs,
+        bytes calldata inputProof
+    ) public {
+        require(registeredSystems[systemKey], "System not found");
+        uint256 count = tenantUsageInputs.length;
+        require(count != 0, "Empty batch");
+        require(count <= MAX_BATCH_SIZE, "Batch too large");
+        require(
+            timestampInputs.length == count && systemLoadInputs.length == count,
+            "Batch length mismatch"
+        );
+
+        uint256 firstId = dataCount + 1;
+        euint32 batchUsage;
+        euint32[] memory usages = new euint32[](count);
+        for (uint256 i = 0; i < count; i++) {
+            (, euint32 encryptedTenantUsage) = storeReading(
+                systemKey, tenantUsageInputs[i], timestampInputs[i], systemLoadInputs[i], inputProof
+            );
+            batchUsage = i == 0 ? encryptedTenantUsage : FHE.add(batchUsage, encryptedTenantUsage);
+            usages[i] = encryptedTenantUsage;
+        }
+
+        // One aggregate update per batch instead of one per reading
+        addToLoadSum(systemKey, batchUsage, uint32(count));
+        addToBillingEpoch(systemKey, batchUsage);
+        addToCreditPeriod(usages);
+
+        emit EnergyDataBatchSubmitted(msg.sender, systemKey, firstId, dataCount, block.timestamp);
     }
 
     /// @notice Request decryption of energy data
@@ -67,15 +335,41 @@ contract SmartBuildingEnergyFHE is SepoliaConfig {
         EncryptedEnergyData storage dataEntry = encryptedData[dataId];
         require(!decryptedData[dataId].isRevealed, "Already decrypted");
 
-        bytes32 ;
+        // Retrying is only allowed once the previous request has had time to land
+        DecryptionAttempt storage attempt = decryptionAttempts[dataId];
+        require(
+            attempt.attempts == 0 || block.timestamp >= attempt.requestedAt + DECRYPTION_RETRY_DELAY,
+            "Decryption pending"
+        );
+
+        bytes32[] memory ciphertexts = new bytes32[](3);
         ciphertexts[0] = FHE.toBytes32(dataEntry.encryptedTenantUsage);
         ciphertexts[1] = FHE.toBytes32(dataEntry.encryptedTimestamp);
         ciphertexts[2] = FHE.toBytes32(dataEntry.encryptedSystemLoad);
 
         uint256 reqId = FHE.requestDecryption(ciphertexts, this.decryptEnergyData.selector);
         requestToDataId[reqId] = dataId;
+        attempt.requestId = reqId;
+        attempt.requestedAt = block.timestamp;
+        attempt.attempts += 1;
+
+        emit DecryptionRequested(dataId, reqId);
+    }
 
-        emit DecryptionRequested(dataId);
+    /// @notice Progress of a reading's oracle reveal and its latest request
+    function getDecryptionStatus(uint256 dataId) public view returns (
+        DecryptionStatus status,
+        uint256 requestId,
+        uint256 requestedAt,
+        uint32 attempts
+    ) {
+        DecryptionAttempt storage attempt = decryptionAttempts[dataId];
+        if (decryptedData[dataId].isRevealed) {
+            status = DecryptionStatus.Revealed;
+        } else if (attempt.attempts > 0) {
+            status = DecryptionStatus.Pending;
+        }
+        return (status, attempt.requestId, attempt.requestedAt, attempt.attempts);
     }
 
     /// @notice Callback for decrypted energy data
@@ -87,29 +381,20 @@ contract SmartBuildingEnergyFHE is SepoliaConfig {
         uint256 dataId = requestToDataId[requestId];
         require(dataId != 0, "Invalid request");
 
-        EncryptedEnergyData storage eData = encryptedData[dataId];
+        // After a retry both requests may be answered; the later callback has nothing to do
         DecryptedEnergyData storage dData = decryptedData[dataId];
-        require(!dData.isRevealed, "Already decrypted");
+        if (dData.isRevealed) return;
 
         FHE.checkSignatures(requestId, cleartexts, proof);
 
-        uint32[] memory results = abi.decode(cleartexts, (uint32[]));
+        // The oracle ABI-encodes each cleartext as its own word, in request order
+        (uint32 tenantUsage, , uint32 systemLoad) = abi.decode(cleartexts, (uint32, uint32, uint32));
 
-        dData.tenantUsage = results[0];
-        dData.systemLoad = results[2];
+        dData.tenantUsage = tenantUsage;
+        dData.systemLoad = systemLoad;
         dData.isRevealed = true;
 
-        string memory systemKey = "central_system";
-        if (FHE.isInitialized(encryptedLoadSum[systemKey]) == false) {
-            encryptedLoadSum[systemKey] = FHE.asEuint32(0);
-            systemList.push(systemKey);
-        }
-        encryptedLoadSum[systemKey] = FHE.add(
-            encryptedLoadSum[systemKey],
-            FHE.asEuint32(results[2])
-        );
-
-        emit EnergyDataDecrypted(dataId);
+        emit EnergyDataDecrypted(dataId, requestId);
     }
 
     /// @notice Get decrypted energy data
@@ -122,21 +407,65 @@ contract SmartBuildingEnergyFHE is SepoliaConfig {
         return (dataEntry.tenantUsage, dataEntry.systemLoad, dataEntry.isRevealed);
     }
 
+    /// @notice Confirm a reading against the verifier's own records
+    function attestReading(uint256 dataId, uint16 reasonCode) public onlyVerifier {
+        recordAttestation(dataId, AttestationVerdict.Attested, reasonCode);
+        emit ReadingAttested(dataId, msg.sender, reasonCode);
+    }
+
+    /// @notice Flag a reading as wrong; disputes must say why
+    function disputeReading(uint256 dataId, uint16 reasonCode) public onlyVerifier {
+        require(reasonCode != 0, "Reason required");
+        recordAttestation(dataId, AttestationVerdict.Disputed, reasonCode);
+        emit ReadingDisputed(dataId, msg.sender, reasonCode);
+    }
+
+    /// @notice Number of verdicts recorded for a reading; the last one is current
+    function getAttestationCount(uint256 dataId) public view returns (uint256) {
+        return attestations[dataId].length;
+    }
+
+    /// @notice Get a recorded verdict by its 0-based position in the reading's history
+    function getAttestation(uint256 dataId, uint256 index) public view returns (
+        address attestedBy,
+        AttestationVerdict verdict,
+        uint16 reasonCode,
+        uint256 timestamp
+    ) {
+        require(index < attestations[dataId].length, "Attestation not found");
+        Attestation storage entry = attestations[dataId][index];
+        return (entry.verifier, entry.verdict, entry.reasonCode, entry.timestamp);
+    }
+
     /// @notice Get encrypted system load sum
     function getEncryptedLoadSum(string memory systemKey) public view returns (euint32) {
         return encryptedLoadSum[systemKey];
     }
 
     /// @notice Request decryption of system load sum
-    function requestLoadSumDecryption(string memory systemKey) public {
+    /// @dev Two reveals around a single reading would expose it by subtraction, so each
+    /// reveal needs MIN_LOAD_SUM_REVEAL_READINGS new readings from MIN_LOAD_SUM_REVEAL_TENANTS
+    /// distinct tenants since the previous request.
+    function requestLoadSumDecryption(string memory systemKey) public onlyBuildingManager {
         euint32 sum = encryptedLoadSum[systemKey];
         require(FHE.isInitialized(sum), "System not found");
 
-        bytes32 ;
+        LoadSumWindow storage window = loadSumWindows[systemKey];
+        require(
+            window.readings >= MIN_LOAD_SUM_REVEAL_READINGS && window.tenants >= MIN_LOAD_SUM_REVEAL_TENANTS,
+            "Not enough new readings"
+        );
+        window.readings = 0;
+        window.tenants = 0;
+        window.requests += 1;
+
+        bytes32[] memory ciphertexts = new bytes32[](1);
         ciphertexts[0] = FHE.toBytes32(sum);
 
         uint256 reqId = FHE.requestDecryption(ciphertexts, this.decryptLoadSum.selector);
-        requestToDataId[reqId] = bytes32ToUint(keccak256(abi.encodePacked(systemKey)));
+        requestToSystemKey[reqId] = systemKey;
+
+        emit LoadSumDecryptionRequested(systemKey, reqId);
     }
 
     /// @notice Callback for decrypted load sum
@@ -145,25 +474,529 @@ contract SmartBuildingEnergyFHE is SepoliaConfig {
         bytes memory cleartexts,
         bytes memory proof
     ) public {
-        uint256 systemHash = requestToDataId[requestId];
-        string memory systemKey = getSystemFromHash(systemHash);
+        string memory systemKey = requestToSystemKey[requestId];
+        require(bytes(systemKey).length != 0, "Invalid request");
 
         FHE.checkSignatures(requestId, cleartexts, proof);
 
+        // Each request is fulfilled once; a replayed callback must not append a second entry
+        delete requestToSystemKey[requestId];
+
         uint32 sum = abi.decode(cleartexts, (uint32));
+        RevealedLoadSum[] storage history = revealedLoadSums[systemKey];
+        uint256 epoch = history.length + 1;
+        history.push(RevealedLoadSum({
+            sum: sum,
+            revealedAt: block.timestamp,
+            epoch: epoch
+        }));
+
+        emit LoadSumRevealed(systemKey, epoch, sum, block.timestamp);
+    }
+
+    /// @notice Readings and distinct tenants added to a system since its last reveal request
+    function getLoadSumRevealWindow(string memory systemKey) public view returns (
+        uint32 readings,
+        uint32 tenants
+    ) {
+        LoadSumWindow storage window = loadSumWindows[systemKey];
+        return (window.readings, window.tenants);
+    }
+
+    /// @notice Get the most recently revealed load sum of a system
+    /// @dev Returns zeros until the first reveal completes
+    function getRevealedLoadSum(string memory systemKey) public view returns (
+        uint32 sum,
+        uint256 revealedAt,
+        uint256 epoch
+    ) {
+        RevealedLoadSum[] storage history = revealedLoadSums[systemKey];
+        if (history.length == 0) {
+            return (0, 0, 0);
+        }
+        RevealedLoadSum storage latest = history[history.length - 1];
+        return (latest.sum, latest.revealedAt, latest.epoch);
+    }
+
+    /// @notice Number of completed load sum reveals of a system
+    function getLoadSumRevealCount(string memory systemKey) public view returns (uint256) {
+        return revealedLoadSums[systemKey].length;
+    }
+
+    /// @notice Get a historical load sum reveal by its epoch
+    function getLoadSumReveal(string memory systemKey, uint256 epoch) public view returns (
+        uint32 sum,
+        uint256 revealedAt
+    ) {
+        RevealedLoadSum[] storage history = revealedLoadSums[systemKey];
+        require(epoch > 0 && epoch <= history.length, "Epoch not found");
+        RevealedLoadSum storage entry = history[epoch - 1];
+        return (entry.sum, entry.revealedAt);
+    }
+
+    /// @notice Set how long billing epochs run before anyone may close them
+    /// @dev Applies to the open epoch too; the owner can still close one early
+    function setBillingEpochDuration(uint256 duration) public onlyOwner {
+        require(duration != 0, "Invalid duration");
+        billingEpochDuration = duration;
+        emit BillingEpochDurationUpdated(duration);
+    }
+
+    /// @notice Close the open billing epoch, freezing its encrypted totals, and open the next
+    /// @dev The owner may close at any time (e.g. on calendar month ends); anyone else, such
+    /// as a keeper, once the epoch has run for billingEpochDuration
+    function closeBillingEpoch() public {
+        uint256 epochId = billingEpochs.length;
+        BillingEpoch storage epoch = billingEpochs[epochId - 1];
+        require(
+            msg.sender == owner || block.timestamp >= epoch.startedAt + billingEpochDuration,
+            "Billing epoch still running"
+        );
+
+        epoch.closedAt = block.timestamp;
+        emit BillingEpochClosed(epochId, epoch.startedAt, block.timestamp);
+        openBillingEpoch();
+    }
+
+    /// @notice Id of the open billing epoch; epochs are numbered from 1
+    function currentBillingEpoch() public view returns (uint256) {
+        return billingEpochs.length;
+    }
+
+    /// @notice Get a billing epoch's bounds; closedAt is zero while it is open
+    function getBillingEpoch(uint256 epochId) public view returns (uint256 startedAt, uint256 closedAt) {
+        require(epochId > 0 && epochId <= billingEpochs.length, "Billing epoch not found");
+        BillingEpoch storage epoch = billingEpochs[epochId - 1];
+        return (epoch.startedAt, epoch.closedAt);
+    }
+
+    /// @notice Get the encrypted usage of a system within one billing epoch
+    function getEpochLoadSum(uint256 epochId, string memory systemKey) public view returns (euint32) {
+        return epochLoadSums[epochId][systemKey];
+    }
+
+    /// @notice Get a tenant's encrypted usage within one billing epoch; only the tenant may decrypt it
+    function getEpochTenantUsage(uint256 epochId, address tenant) public view returns (euint32) {
+        return epochTenantUsage[epochId][tenant];
+    }
+
+    /// @notice Request decryption of a closed billing epoch's total for one system
+    function requestEpochTotalDecryption(uint256 epochId, string memory systemKey) public onlyBuildingManager {
+        require(epochId > 0 && epochId <= billingEpochs.length, "Billing epoch not found");
+        require(billingEpochs[epochId - 1].closedAt != 0, "Billing epoch still open");
+        RevealedEpochTotal storage total = revealedEpochTotals[epochId][systemKey];
+        require(!total.isRevealed, "Already decrypted");
+        require(
+            total.requestedAt == 0 || block.timestamp >= total.requestedAt + DECRYPTION_RETRY_DELAY,
+            "Decryption pending"
+        );
+        euint32 sum = epochLoadSums[epochId][systemKey];
+        require(FHE.isInitialized(sum), "System not found");
+
+        bytes32[] memory ciphertexts = new bytes32[](1);
+        ciphertexts[0] = FHE.toBytes32(sum);
+
+        uint256 reqId = FHE.requestDecryption(ciphertexts, this.decryptEpochTotal.selector);
+        requestToEpochTotal[reqId] = EpochTotalRequest({ epochId: epochId, systemKey: systemKey });
+        total.requestedAt = block.timestamp;
+
+        emit EpochTotalDecryptionRequested(epochId, systemKey, reqId);
+    }
+
+    /// @notice Callback for a decrypted billing epoch total
+    function decryptEpochTotal(
+        uint256 requestId,
+        bytes memory cleartexts,
+        bytes memory proof
+    ) public {
+        EpochTotalRequest memory request = requestToEpochTotal[requestId];
+        require(request.epochId != 0, "Invalid request");
+
+        // After a retry both requests may be answered; the later callback has nothing to do
+        RevealedEpochTotal storage total = revealedEpochTotals[request.epochId][request.systemKey];
+        if (total.isRevealed) return;
+
+        FHE.checkSignatures(requestId, cleartexts, proof);
+        delete requestToEpochTotal[requestId];
+
+        total.sum = abi.decode(cleartexts, (uint32));
+        total.isRevealed = true;
+
+        emit EpochTotalRevealed(request.epochId, request.systemKey, total.sum);
+    }
+
+    /// @notice Get the revealed total of a system for a closed billing epoch
+    function getEpochTotal(uint256 epochId, string memory systemKey) public view returns (
+        uint32 sum,
+        bool isRevealed
+    ) {
+        RevealedEpochTotal storage total = revealedEpochTotals[epochId][systemKey];
+        return (total.sum, total.isRevealed);
+    }
+
+    /// @notice Publish a tariff that applies to usage from effectiveFrom on
+    /// @dev Versions are kept in effectiveFrom order so the tariff in force at any time is
+    /// the last one that took effect; pricing itself happens off-chain in the SDK
+    function publishTariff(string calldata config, uint64 effectiveFrom) public onlyOwner {
+        require(bytes(config).length > 0, "Invalid tariff");
+        require(
+            tariffs.length == 0 || effectiveFrom >= tariffs[tariffs.length - 1].effectiveFrom,
+            "Tariff out of order"
+        );
+
+        tariffs.push(Tariff({ config: config, effectiveFrom: effectiveFrom, publishedAt: block.timestamp }));
+        emit TariffPublished(tariffs.length, effectiveFrom);
+    }
+
+    /// @notice Number of published tariff versions
+    function getTariffCount() public view returns (uint256) {
+        return tariffs.length;
+    }
+
+    /// @notice Get a published tariff version by 1-based id
+    function getTariff(uint256 tariffId) public view returns (
+        string memory config,
+        uint64 effectiveFrom,
+        uint256 publishedAt
+    ) {
+        require(tariffId > 0 && tariffId <= tariffs.length, "Tariff not found");
+        Tariff storage tariff = tariffs[tariffId - 1];
+        return (tariff.config, tariff.effectiveFrom, tariff.publishedAt);
+    }
+
+    /// @notice Record how a billing period's savings are split among tenants
+    /// @dev Allocations are computed off-chain from tenant-revealed contributions. Only the
+    /// period's total is public: each tenant's share (in watt-hours, so fractional kWh
+    /// shares survive) arrives encrypted and only that tenant may decrypt it. Shares are
+    /// capped at the period's savings, so their sum cannot wrap, and whether they add up
+    /// exactly is settled by a public oracle check. Periods are append-only and must not
+    /// overlap, so each kWh saved is credited once.
+    function recordSavingsAllocation(
+        uint64 periodStart,
+        uint64 periodEnd,
+        uint32 baselineKwh,
+        uint32 actualKwh,
+        AllocationMethod method,
+        address[] calldata tenants,
+        externalEuint64[] calldata savingsInputs,
+        bytes calldata inputProof
+    ) public onlyBuildingManager {
+        require(periodStart < periodEnd && periodEnd <= block.timestamp, "Invalid period");
+        uint256 count = savingsPeriods.length;
+        require(count == 0 || periodStart >= savingsPeriods[count - 1].periodEnd, "Overlapping period");
+        require(actualKwh <= baselineKwh, "Invalid savings");
+        require(tenants.length == savingsInputs.length, "Allocation length mismatch");
+        require(tenants.length <= MAX_ALLOCATION_TENANTS, "Too many tenants");
+
+        uint256 periodId = count + 1;
+        uint32 savingsKwh = baselineKwh - actualKwh;
+        uint64 savingsWh = uint64(savingsKwh) * 1000;
+        euint64[] memory shares = new euint64[](tenants.length);
+        for (uint256 i = 0; i < tenants.length; i++) {
+            require(tenants[i] != address(0), "Invalid tenant");
+            TenantSavings storage entry = tenantSavings[periodId][tenants[i]];
+            require(!entry.allocated, "Duplicate tenant");
+            shares[i] = FHE.min(FHE.fromExternal(savingsInputs[i], inputProof), savingsWh);
+            FHE.allowThis(shares[i]);
+            FHE.allow(shares[i], tenants[i]);
+            entry.savingsWh = shares[i];
+            entry.allocated = true;
+        }
+
+        SavingsPeriod storage period = savingsPeriods.push();
+        period.periodStart = periodStart;
+        period.periodEnd = periodEnd;
+        period.baselineKwh = baselineKwh;
+        period.actualKwh = actualKwh;
+        period.method = method;
+        period.recordedAt = block.timestamp;
+        period.tenants = tenants;
+        period.sharesMatch = FHE.eq(sumPairwise(shares), savingsWh);
+        FHE.allowThis(period.sharesMatch);
+
+        emit SavingsAllocated(periodId, periodStart, periodEnd, savingsKwh, method);
+        for (uint256 i = 0; i < tenants.length; i++) {
+            emit TenantSavingsAllocated(periodId, tenants[i]);
+        }
+        sendSavingsCheck(periodId, period);
+    }
+
+    /// @notice Retry the oracle check of a period's shares if the last request went unanswered
+    function requestSavingsCheck(uint256 periodId) public onlyBuildingManager {
+        require(periodId > 0 && periodId <= savingsPeriods.length, "Period not found");
+        SavingsPeriod storage period = savingsPeriods[periodId - 1];
+        require(period.check == AllocationCheck.Pending, "Already decrypted");
+        require(block.timestamp >= period.checkRequestedAt + DECRYPTION_RETRY_DELAY, "Decryption pending");
+        sendSavingsCheck(periodId, period);
+    }
+
+    /// @notice Callback for the decrypted check of a period's shares
+    function checkSavingsAllocation(
+        uint256 requestId,
+        bytes memory cleartexts,
+        bytes memory proof
+    ) public {
+        uint256 periodId = requestToSavingsPeriod[requestId];
+        require(periodId != 0, "Invalid request");
+
+        // After a retry both requests may be answered; the later callback has nothing to do
+        SavingsPeriod storage period = savingsPeriods[periodId - 1];
+        if (period.check != AllocationCheck.Pending) return;
+
+        FHE.checkSignatures(requestId, cleartexts, proof);
+        delete requestToSavingsPeriod[requestId];
+
+        bool sharesMatch = abi.decode(cleartexts, (bool));
+        period.check = sharesMatch ? AllocationCheck.Matched : AllocationCheck.Mismatched;
+
+        emit SavingsAllocationChecked(periodId, sharesMatch);
+    }
+
+    /// @notice Number of billing periods with recorded savings allocations
+    function getSavingsPeriodCount() public view returns (uint256) {
+        return savingsPeriods.length;
+    }
+
+    /// @notice Get a recorded billing period, its tenants and the state of its check by 1-based id
+    function getSavingsPeriod(uint256 periodId) public view returns (
+        uint64 periodStart,
+        uint64 periodEnd,
+        uint32 baselineKwh,
+        uint32 actualKwh,
+        AllocationMethod method,
+        uint256 recordedAt,
+        address[] memory tenants,
+        AllocationCheck check
+    ) {
+        require(periodId > 0 && periodId <= savingsPeriods.length, "Period not found");
+        SavingsPeriod storage period = savingsPeriods[periodId - 1];
+        return (
+            period.periodStart,
+            period.periodEnd,
+            period.baselineKwh,
+            period.actualKwh,
+            period.method,
+            period.recordedAt,
+            period.tenants,
+            period.check
+        );
+    }
+
+    /// @notice Encrypted savings credited to one tenant in a billing period; only the tenant may decrypt it
+    function getTenantSavings(uint256 periodId, address tenant) public view returns (
+        euint64 savingsWh,
+        bool allocated
+    ) {
+        require(periodId > 0 && periodId <= savingsPeriods.length, "Period not found");
+        TenantSavings storage entry = tenantSavings[periodId][tenant];
+        return (entry.savingsWh, entry.allocated);
+    }
+
+    /// @notice Open a savings credit period for a tenant against an encrypted baseline
+    /// @dev The tenant's usage is summed homomorphically from every reading submitted
+    /// while the period is open. Baseline, usage and credit are readable by the tenant
+    /// alone; the manager only ever holds the baseline it encrypted itself.
+    function startCreditPeriod(
+        address tenant,
+        externalEuint32 baselineInput,
+        bytes calldata inputProof
+    ) public onlyBuildingManager {
+        require(tenant != address(0), "Invalid tenant");
+        CreditPeriod storage period = creditPeriods[tenant];
+        require(period.startedAt == 0, "Credit period already open");
+
+        period.baseline = FHE.fromExternal(baselineInput, inputProof);
+        period.usage = FHE.asEuint64(0);
+        period.startedAt = block.timestamp;
+        FHE.allowThis(period.baseline);
+        FHE.allow(period.baseline, tenant);
+        FHE.allowThis(period.usage);
+        FHE.allow(period.usage, tenant);
+
+        emit CreditPeriodStarted(tenant, block.timestamp);
+    }
+
+    /// @notice Close a tenant's credit period and credit max(baseline - usage, 0)
+    /// @dev The comparison and subtraction run on ciphertexts, so nobody but the tenant
+    /// learns whether the tenant saved anything, let alone how much.
+    function closeCreditPeriod(address tenant) public onlyBuildingManager {
+        CreditPeriod storage period = creditPeriods[tenant];
+        require(period.startedAt != 0, "No open credit period");
+
+        // Compared at 64 bits; the credit never exceeds the 32-bit baseline, so it narrows exactly
+        euint64 baseline = FHE.asEuint64(period.baseline);
+        euint32 credit = FHE.asEuint32(FHE.select(
+            FHE.gt(baseline, period.usage),
+            FHE.sub(baseline, period.usage),
+            FHE.asEuint64(0)
+        ));
+
+        SavingsCredit storage credits = savingsCredits[tenant];
+        credits.totalCredits = FHE.isInitialized(credits.totalCredits)
+            ? FHE.add(credits.totalCredits, credit)
+            : credit;
+        credits.lastCredit = credit;
+        credits.computedAt = block.timestamp;
+        FHE.allowThis(credits.lastCredit);
+        FHE.allow(credits.lastCredit, tenant);
+        FHE.allowThis(credits.totalCredits);
+        FHE.allow(credits.totalCredits, tenant);
+
+        emit SavingsCreditComputed(tenant, period.startedAt, block.timestamp);
+        delete creditPeriods[tenant];
+    }
+
+    /// @notice Get a tenant's open credit period; startedAt is zero when none is open
+    function getCreditPeriod(address tenant) public view returns (
+        euint32 baseline,
+        euint64 usage,
+        uint256 startedAt
+    ) {
+        CreditPeriod storage period = creditPeriods[tenant];
+        return (period.baseline, period.usage, period.startedAt);
+    }
+
+    /// @notice Get a tenant's encrypted savings credits; computedAt is zero before the first close
+    function getSavingsCredit(address tenant) public view returns (
+        euint32 lastCredit,
+        euint32 totalCredits,
+        uint256 computedAt
+    ) {
+        SavingsCredit storage credits = savingsCredits[tenant];
+        return (credits.lastCredit, credits.totalCredits, credits.computedAt);
     }
 
     // Helper functions
-    function bytes32ToUint(bytes32 b) private pure returns (uint256) {
-        return uint256(b);
+    function storeReading(
+        string calldata systemKey,
+        externalEuint32 tenantUsageInput,
+        externalEuint32 timestampInput,
+        externalEuint32 systemLoadInput,
+        bytes calldata inputProof
+    ) private returns (uint256 newId, euint32 encryptedTenantUsage) {
+        encryptedTenantUsage = FHE.fromExternal(tenantUsageInput, inputProof);
+        euint32 encryptedTimestamp = FHE.fromExternal(timestampInput, inputProof);
+        euint32 encryptedSystemLoad = FHE.fromExternal(systemLoadInput, inputProof);
+
+        // Only this contract and the submitting tenant may use the ciphertexts
+        FHE.allowThis(encryptedTenantUsage);
+        FHE.allowThis(encryptedTimestamp);
+        FHE.allowThis(encryptedSystemLoad);
+        FHE.allow(encryptedTenantUsage, msg.sender);
+        FHE.allow(encryptedTimestamp, msg.sender);
+        FHE.allow(encryptedSystemLoad, msg.sender);
+
+        dataCount += 1;
+        newId = dataCount;
+
+        encryptedData[newId] = EncryptedEnergyData({
+            id: newId,
+            tenant: msg.sender,
+            systemKey: systemKey,
+            encryptedTenantUsage: encryptedTenantUsage,
+            encryptedTimestamp: encryptedTimestamp,
+            encryptedSystemLoad: encryptedSystemLoad,
+            timestamp: block.timestamp,
+            billingEpoch: billingEpochs.length
+        });
+
+        decryptedData[newId] = DecryptedEnergyData({
+            tenantUsage: 0,
+            systemLoad: 0,
+            isRevealed: false
+        });
+    }
+
+    function openBillingEpoch() private {
+        billingEpochs.push(BillingEpoch({ startedAt: block.timestamp, closedAt: 0 }));
+        emit BillingEpochStarted(billingEpochs.length, block.timestamp);
+    }
+
+    /// @dev Only the open epoch is ever added to, so a closed epoch's totals are frozen.
+    /// System totals stay with this contract, like the running load sum, and leave only
+    /// through requestEpochTotalDecryption.
+    function addToBillingEpoch(string memory systemKey, euint32 amount) private {
+        uint256 epochId = billingEpochs.length;
+
+        euint32 systemSum = epochLoadSums[epochId][systemKey];
+        systemSum = FHE.isInitialized(systemSum) ? FHE.add(systemSum, amount) : amount;
+        epochLoadSums[epochId][systemKey] = systemSum;
+        FHE.allowThis(systemSum);
+
+        euint32 tenantUsage = epochTenantUsage[epochId][msg.sender];
+        tenantUsage = FHE.isInitialized(tenantUsage) ? FHE.add(tenantUsage, amount) : amount;
+        epochTenantUsage[epochId][msg.sender] = tenantUsage;
+        FHE.allowThis(tenantUsage);
+        FHE.allow(tenantUsage, msg.sender);
+    }
+
+    /// @dev Readings are widened before they are summed: a 32-bit sum could wrap back
+    /// below the baseline and turn a huge reading into a large credit.
+    function addToCreditPeriod(euint32[] memory usages) private {
+        CreditPeriod storage period = creditPeriods[msg.sender];
+        if (period.startedAt == 0) {
+            return;
+        }
+        euint64[] memory widened = new euint64[](usages.length);
+        for (uint256 i = 0; i < usages.length; i++) {
+            widened[i] = FHE.asEuint64(usages[i]);
+        }
+        period.usage = FHE.add(period.usage, sumPairwise(widened));
+        FHE.allowThis(period.usage);
+        FHE.allow(period.usage, msg.sender);
+    }
+
+    function recordAttestation(uint256 dataId, AttestationVerdict verdict, uint16 reasonCode) private {
+        require(dataId != 0 && dataId <= dataCount, "Reading not found");
+        // The verifier must be independent of the tenant whose reading it judges
+        require(encryptedData[dataId].tenant != msg.sender, "Cannot attest own reading");
+
+        attestations[dataId].push(Attestation({
+            verifier: msg.sender,
+            verdict: verdict,
+            reasonCode: reasonCode,
+            timestamp: block.timestamp
+        }));
     }
 
-    function getSystemFromHash(uint256 hash) private view returns (string memory) {
-        for (uint i = 0; i < systemList.length; i++) {
-            if (bytes32ToUint(keccak256(abi.encodePacked(systemList[i]))) == hash) {
-                return systemList[i];
+    /// @dev The running sum stays with this contract alone: anyone who could decrypt it
+    /// before and after a submission would learn that reading by subtraction. Aggregates
+    /// leave only through the oracle reveal, which is public and recorded.
+    function addToLoadSum(string memory systemKey, euint32 amount, uint32 readings) private {
+        if (FHE.isInitialized(encryptedLoadSum[systemKey]) == false) {
+            encryptedLoadSum[systemKey] = FHE.asEuint32(0);
+        }
+        encryptedLoadSum[systemKey] = FHE.add(encryptedLoadSum[systemKey], amount);
+        FHE.allowThis(encryptedLoadSum[systemKey]);
+
+        LoadSumWindow storage window = loadSumWindows[systemKey];
+        window.readings += readings;
+        if (loadSumContributions[systemKey][msg.sender] != window.requests + 1) {
+            loadSumContributions[systemKey][msg.sender] = window.requests + 1;
+            window.tenants += 1;
+        }
+    }
+
+    // Pairwise, so the sum's depth (and HCU per transaction) grows with log2 of the terms
+    function sumPairwise(euint64[] memory terms) private returns (euint64) {
+        if (terms.length == 0) return FHE.asEuint64(0);
+        for (uint256 width = terms.length; width > 1; width = (width + 1) / 2) {
+            for (uint256 i = 0; i < width / 2; i++) {
+                terms[i] = FHE.add(terms[2 * i], terms[2 * i + 1]);
             }
+            if (width % 2 == 1) terms[width / 2] = terms[width - 1];
         }
-        revert("System not found");
+        return terms[0];
+    }
+
+    function sendSavingsCheck(uint256 periodId, SavingsPeriod storage period) private {
+        bytes32[] memory ciphertexts = new bytes32[](1);
+        ciphertexts[0] = FHE.toBytes32(period.sharesMatch);
+
+        uint256 reqId = FHE.requestDecryption(ciphertexts, this.checkSavingsAllocation.selector);
+        requestToSavingsPeriod[reqId] = periodId;
+        period.checkRequestedAt = block.timestamp;
+
+        emit SavingsCheckRequested(periodId, reqId);
     }
 }
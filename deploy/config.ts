@@ -0,0 +1,71 @@
+// deploy/config.ts
+import { DEFAULT_SYSTEM_KEY } from "../sdk";
+
+export interface DeployConfig {
+  /** Building systems registered after deployment; `central_system` is always present. */
+  systems: string[];
+  /** Account granted aggregate reveal rights; defaults to the deployer. */
+  buildingManager?: string;
+  /** Account that attests or disputes readings; defaults to the deployer. */
+  verifier?: string;
+  /** Point `frontend/web/src/config.json` at the new deployment. */
+  updateFrontend: boolean;
+  /**
+   * RPC endpoint the dashboard reads from; defaults to the network's URL. Set it when
+   * that URL carries an API key, since the frontend config ships to every browser.
+   */
+  frontendRpcUrl?: string;
+  /** Event indexer API the dashboard should query instead of scanning the contract. */
+  indexerUrl?: string;
+}
+
+const DEFAULT_CONFIG: DeployConfig = {
+  systems: [DEFAULT_SYSTEM_KEY],
+  updateFrontend: true,
+};
+
+/** Per-network settings, keyed by the Hardhat network name. */
+export const NETWORK_CONFIG: Record<string, Partial<DeployConfig>> = {
+  // In-process network used by CI: deploy and write a manifest, but leave the dashboard alone
+  hardhat: { updateFrontend: false },
+  localhost: {},
+  sepolia: {},
+};
+
+const parseList = (value: string) =>
+  value
+    .split(",")
+    .map((item) => item.trim())
+    .filter((item) => item.length > 0);
+
+/**
+ * Resolve the deploy settings for `networkName`. Environment variables override the
+ * per-network defaults: `DEPLOY_SYSTEMS` (comma separated), `BUILDING_MANAGER`,
+ * `VERIFIER`, `UPDATE_FRONTEND` (`true`/`false`), `FRONTEND_RPC_URL` and `INDEXER_URL`.
+ */
+export function resolveDeployConfig(
+  networkName: string,
+  env: NodeJS.ProcessEnv = process.env,
+): DeployConfig {
+  const config = { ...DEFAULT_CONFIG, ...NETWORK_CONFIG[networkName] };
+
+  if (env.DEPLOY_SYSTEMS) {
+    config.systems = parseList(env.DEPLOY_SYSTEMS);
+  }
+  if (env.BUILDING_MANAGER) {
+    config.buildingManager = env.BUILDING_MANAGER;
+  }
+  if (env.VERIFIER) {
+    config.verifier = env.VERIFIER;
+  }
+  if (env.UPDATE_FRONTEND) {
+    config.updateFrontend = env.UPDATE_FRONTEND === "true";
+  }
+  if (env.FRONTEND_RPC_URL) {
+    config.frontendRpcUrl = env.FRONTEND_RPC_URL;
+  }
+  if (env.INDEXER_URL) {
+    config.indexerUrl = env.INDEXER_URL;
+  }
+  return config;
+}
@@ -0,0 +1,88 @@
+// deploy/manifest.ts
+//
+// Deployment manifests are kept apart from deploy.ts so Hardhat tasks can read them
+// without loading the deploy entry point from hardhat.config.ts.
+import fs from "fs";
+import path from "path";
+
+export const CONTRACT_NAME = "SmartBuildingEnergyFHE";
+export const MANIFEST_SCHEMA_VERSION = 1;
+
+export const PROJECT_ROOT = path.join(__dirname, "..");
+
+export interface DeployPaths {
+  /** Manifests are written to `<deploymentsDir>/<network>/`. */
+  deploymentsDir: string;
+  frontendConfig: string;
+}
+
+export const DEFAULT_PATHS: DeployPaths = {
+  deploymentsDir: path.join(PROJECT_ROOT, "deployments"),
+  frontendConfig: path.join(
+    PROJECT_ROOT,
+    "frontend",
+    "web",
+    "src",
+    "config.json",
+  ),
+};
+
+export interface DeploymentManifest {
+  schemaVersion: number;
+  /** Increments with every deployment to the same network. */
+  version: number;
+  contract: string;
+  network: string;
+  chainId: number;
+  address: string;
+  deployer: string;
+  buildingManager: string;
+  verifier: string;
+  systems: string[];
+  transactionHash: string;
+  deployBlock: number;
+  deployedAt: string;
+  abi: unknown[];
+}
+
+export const writeJson = (file: string, data: unknown) => {
+  fs.mkdirSync(path.dirname(file), { recursive: true });
+  fs.writeFileSync(file, JSON.stringify(data, null, 2) + "\n");
+};
+
+const manifestDir = (networkName: string, paths: DeployPaths) =>
+  path.join(paths.deploymentsDir, networkName);
+
+const latestManifestPath = (dir: string) =>
+  path.join(dir, `${CONTRACT_NAME}.json`);
+
+/** Latest manifest written for `networkName`, or null if it was never deployed there. */
+export function readDeploymentManifest(
+  networkName: string,
+  paths: DeployPaths = DEFAULT_PATHS,
+): DeploymentManifest | null {
+  const file = latestManifestPath(manifestDir(networkName, paths));
+  if (!fs.existsSync(file)) return null;
+  return JSON.parse(fs.readFileSync(file, "utf8")) as DeploymentManifest;
+}
+
+/** Record a deployment as the next version for its network, keeping earlier versions. */
+export function writeDeploymentManifest(
+  deployment: Omit<DeploymentManifest, "schemaVersion" | "version">,
+  paths: DeployPaths = DEFAULT_PATHS,
+): DeploymentManifest {
+  const previous = readDeploymentManifest(deployment.network, paths);
+  const manifest: DeploymentManifest = {
+    schemaVersion: MANIFEST_SCHEMA_VERSION,
+    version: (previous?.version ?? 0) + 1,
+    ...deployment,
+  };
+
+  const dir = manifestDir(deployment.network, paths);
+  writeJson(
+    path.join(dir, `${CONTRACT_NAME}.v${manifest.version}.json`),
+    manifest,
+  );
+  writeJson(latestManifestPath(dir), manifest);
+  return manifest;
+}
@@ -1,17 +1,55 @@
-import React, { useEffect, useState } from "react";
+import React, { useEffect, useRef, useState } from "react";
 import { ethers } from "ethers";
-import { getContractReadOnly, getContractWithSigner } from "./contract";
+import {
+  ATTESTATION_REASONS,
+  DEFAULT_SYSTEM_KEY,
+  DISPUTE_REASONS,
+  describeReason,
+  priceUsage,
+  type Attestation,
+  type AttestationVerdict,
+  type EpochTotal,
+  type LoadObservation,
+  type PrivateReading,
+  type PublishedTariff,
+  type RecordedSavingsPeriod,
+  type RevealedLoadSum,
+  type SmartBuildingEnergyClient
+} from "@sdk";
+import {
+  getEnergyClientReadOnly,
+  getEnergyClientWithSigner,
+  getIndexerClient,
+  queryAttestationVerdicts,
+  queryEnergyEvents,
+  querySubmissions,
+  readInBatches,
+  revealTracker,
+  subscribeEnergyEvents,
+  type LiveStatus
+} from "./contract";
+import { getFhevmInstance } from "./fhe";
 import WalletManager from "./components/WalletManager";
 import WalletSelector from "./components/WalletSelector";
+import ImportModal from "./components/ImportModal";
+import ForecastCard from "./components/ForecastCard";
+import SchedulePage from "./components/SchedulePage";
+import SavingsCard from "./components/SavingsCard";
+import EpochsCard from "./components/EpochsCard";
+import CostCard, { formatMoney } from "./components/CostCard";
+import RevealsCard from "./components/RevealsCard";
 import "./App.css";
 
 interface EnergyData {
-  id: string;
-  encryptedData: string;
+  id: number;
+  /** Null until the record is expanded when the list came from contract events. */
+  encryptedData: string | null;
   timestamp: number;
   tenant: string;
-  energyUsage: number;
-  status: "pending" | "verified" | "rejected";
+  systemKey: string;
+  billingEpoch: number | null;
+  energyUsage: number | null;
+  status: "encrypted" | "pending" | "revealed";
 }
 
 const App: React.FC = () => {
@@ -21,6 +59,8 @@ const App: React.FC = () => {
   const [provider, setProvider] = useState<ethers.BrowserProvider | null>(null);
   const [isRefreshing, setIsRefreshing] = useState(false);
   const [showCreateModal, setShowCreateModal] = useState(false);
+  const [showImportModal, setShowImportModal] = useState(false);
+  const [page, setPage] = useState<"dashboard" | "schedule">("dashboard");
   const [submitting, setSubmitting] = useState(false);
   const [walletSelectorOpen, setWalletSelectorOpen] = useState(false);
   const [transactionStatus, setTransactionStatus] = useState<{
@@ -30,21 +70,158 @@ const App: React.FC = () => {
   }>({ visible: false, status: "pending", message: "" });
   const [newEnergyData, setNewEnergyData] = useState({
     energyUsage: "",
-    buildingArea: ""
+    systemLoad: "",
+    systemKey: DEFAULT_SYSTEM_KEY
   });
   const [showTutorial, setShowTutorial] = useState(false);
-  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const [expandedId, setExpandedId] = useState<number | null>(null);
+  const [systems, setSystems] = useState<string[]>([DEFAULT_SYSTEM_KEY]);
+  const [selectedSystem, setSelectedSystem] = useState(DEFAULT_SYSTEM_KEY);
+  const [loadSumHistories, setLoadSumHistories] = useState<Record<string, RevealedLoadSum[]>>({});
+  const [awaitingAggregate, setAwaitingAggregate] = useState(false);
+  const [buildingManager, setBuildingManager] = useState("");
+  const [owner, setOwner] = useState("");
+  const [verifier, setVerifier] = useState("");
+  const [verdicts, setVerdicts] = useState<Record<number, AttestationVerdict>>({});
+  const [attestations, setAttestations] = useState<Record<number, Attestation[]>>({});
+  const [verdictReason, setVerdictReason] = useState(1);
+  const [recordingVerdict, setRecordingVerdict] = useState(false);
+  const [epochTotals, setEpochTotals] = useState<Record<string, EpochTotal[]>>({});
+  const [epochDuration, setEpochDuration] = useState(0);
+  const [tariffs, setTariffs] = useState<PublishedTariff[]>([]);
+  const [savingsPeriods, setSavingsPeriods] = useState<RecordedSavingsPeriod[]>([]);
+  // Decrypted for the connected tenant only; kept in memory and never written on-chain
+  const [privateReadings, setPrivateReadings] = useState<Record<number, PrivateReading>>({});
+  const [decryptingPrivate, setDecryptingPrivate] = useState(false);
+  const privateClientRef = useRef<SmartBuildingEnergyClient | null>(null);
+  const [liveStatus, setLiveStatus] = useState<LiveStatus>("connecting");
 
   // Calculate statistics
-  const verifiedCount = energyData.filter(d => d.status === "verified").length;
+  const revealedCount = energyData.filter(d => d.status === "revealed").length;
   const pendingCount = energyData.filter(d => d.status === "pending").length;
-  const rejectedCount = energyData.filter(d => d.status === "rejected").length;
-  const totalUsage = energyData.reduce((sum, data) => sum + data.energyUsage, 0);
+  const encryptedCount = energyData.filter(d => d.status === "encrypted").length;
+  const totalUsage = energyData.reduce((sum, data) => sum + (data.energyUsage ?? 0), 0);
+  const ownRecordCount = account
+    ? energyData.filter(d => d.tenant.toLowerCase() === account.toLowerCase()).length
+    : 0;
+  const privateUsage = (Object.values(privateReadings) as PrivateReading[]).reduce((sum, r) => sum + r.tenantUsage, 0);
+  // Price in the browser's offset, like the rest of the dashboard's local times
+  const priceOrNull = (usage: LoadObservation[]) => {
+    if (tariffs.length === 0) return null;
+    try {
+      return priceUsage(usage, tariffs, { utcOffsetMinutes: -new Date().getTimezoneOffset() });
+    } catch (e) {
+      return null;
+    }
+  };
+  const revealedCost = priceOrNull(energyData
+    .filter(d => d.energyUsage !== null)
+    .map(d => ({ timestamp: d.timestamp, kwh: d.energyUsage! })));
+  const privateCost = priceOrNull((Object.values(privateReadings) as PrivateReading[])
+    .map(r => ({ timestamp: r.timestamp, kwh: r.tenantUsage })));
+  const loadSumHistory = loadSumHistories[selectedSystem] ?? [];
+  const latestAggregate = loadSumHistory.length > 0 ? loadSumHistory[loadSumHistory.length - 1] : null;
+  const systemBreakdown = systems.map(systemKey => {
+    const records = energyData.filter(d => d.systemKey === systemKey);
+    const history = loadSumHistories[systemKey] ?? [];
+    return {
+      systemKey,
+      records: records.length,
+      revealedUsage: records.reduce((sum, data) => sum + (data.energyUsage ?? 0), 0),
+      latestAggregate: history.length > 0 ? history[history.length - 1] : null
+    };
+  });
 
   useEffect(() => {
     loadEnergyData().finally(() => setLoading(false));
   }, []);
 
+  // Keep the list, stats and chart current without waiting for a manual refresh
+  useEffect(() => subscribeEnergyEvents({
+    onSubmitted: async (client, dataIds) => {
+      try {
+        const readings = await Promise.all(dataIds.map(id => client.getReading(id)));
+        const added: EnergyData[] = readings.map(reading => ({
+          id: Number(reading.id),
+          encryptedData: reading.tenantUsageHandle,
+          timestamp: Number(reading.timestamp),
+          tenant: reading.tenant,
+          systemKey: reading.systemKey,
+          billingEpoch: reading.billingEpoch,
+          energyUsage: null,
+          status: "encrypted"
+        }));
+        setEnergyData(current => [
+          ...added.filter(data => !current.some(d => d.id === data.id)),
+          ...current
+        ].sort((a, b) => b.timestamp - a.timestamp));
+      } catch (e) {
+        console.error("Error loading submitted reading:", e);
+      }
+    },
+    onRevealRequested: (_, dataId) => {
+      setEnergyData(current => current.map(d =>
+        d.id === dataId && d.status === "encrypted" ? { ...d, status: "pending" } : d
+      ));
+    },
+    onRevealed: async (client, dataId) => {
+      revealTracker.markRevealed(dataId);
+      try {
+        const revealed = await client.getRevealedReading(dataId);
+        setEnergyData(current => current.map(d =>
+          d.id === dataId ? { ...d, status: "revealed", energyUsage: revealed.tenantUsage } : d
+        ));
+      } catch (e) {
+        console.error("Error loading revealed reading:", e);
+      }
+    },
+    onAttestation: (_, dataId, verdict) => {
+      setVerdicts(current => ({ ...current, [dataId]: verdict }));
+      // Dropping the cached history refetches it if the record is open
+      setAttestations(current => {
+        const { [dataId]: _stale, ...rest } = current;
+        return rest;
+      });
+    },
+    onResync: () => {
+      loadEnergyData();
+    }
+  }, setLiveStatus), []);
+
+  // Histories load on demand: one call per reading is too many for the whole list
+  const expandedHistoryLoaded = expandedId !== null && attestations[expandedId] !== undefined;
+  useEffect(() => {
+    if (expandedId === null || expandedHistoryLoaded) return;
+    getEnergyClientReadOnly()
+      .then(client => client?.getAttestations(expandedId))
+      .then(history => {
+        if (history) setAttestations(current => ({ ...current, [expandedId]: history }));
+      })
+      .catch(e => console.error("Error loading attestations:", e));
+  }, [expandedId, expandedHistoryLoaded]);
+
+  // Without an indexer the list is built from events, which carry no handles or epoch
+  const expandedDetailsMissing = energyData.some(d => d.id === expandedId && d.encryptedData === null);
+  useEffect(() => {
+    if (expandedId === null || !expandedDetailsMissing) return;
+    getEnergyClientReadOnly()
+      .then(client => client?.getReading(expandedId))
+      .then(reading => {
+        if (!reading) return;
+        setEnergyData(current => current.map(d =>
+          d.id === expandedId
+            ? { ...d, encryptedData: reading.tenantUsageHandle, billingEpoch: reading.billingEpoch }
+            : d
+        ));
+      })
+      .catch(e => console.error("Error loading reading details:", e));
+  }, [expandedId, expandedDetailsMissing]);
+
+  useEffect(() => {
+    setPrivateReadings({});
+    privateClientRef.current = null;
+  }, [account]);
+
   const onWalletSelect = async (wallet: any) => {
     if (!wallet.provider) return;
     try {
@@ -69,54 +246,91 @@ const App: React.FC = () => {
     setProvider(null);
   };
 
+  // The indexer answers with one request. Scanning the contract takes the rows from the
+  // submission events and calls per reading only for revealed values, a few at a time.
+  const loadRecords = async (client: SmartBuildingEnergyClient): Promise<EnergyData[]> => {
+    const indexer = getIndexerClient();
+    if (indexer) {
+      try {
+        const records = await indexer.listAllRecords();
+        return records.map(record => ({
+          id: record.id,
+          encryptedData: record.tenantUsageHandle,
+          timestamp: record.timestamp,
+          tenant: record.tenant,
+          systemKey: record.systemKey,
+          billingEpoch: record.billingEpoch,
+          energyUsage: record.tenantUsage,
+          status: record.status
+        }));
+      } catch (e) {
+        console.warn("Indexer unavailable, reading records from the contract:", e);
+      }
+    }
+    
+    const [submissions, events] = await Promise.all([querySubmissions(client), queryEnergyEvents(client)]);
+    const revealedIds = submissions.map(s => s.id).filter(id => events.decrypted.has(id));
+    const revealed = await readInBatches(revealedIds, id => client.getRevealedReading(id));
+    const usage = new Map(revealedIds.map((id, i) => [id, revealed[i]]));
+
+    return submissions.map(submission => {
+      const decrypted = usage.get(submission.id);
+      const status: EnergyData["status"] = decrypted?.isRevealed
+        ? "revealed"
+        : events.decryptionRequested.has(submission.id) ? "pending" : "encrypted";
+
+      return {
+        ...submission,
+        encryptedData: null,
+        billingEpoch: null,
+        energyUsage: decrypted?.isRevealed ? decrypted.tenantUsage : null,
+        status
+      };
+    });
+  };
+
   const loadEnergyData = async () => {
     setIsRefreshing(true);
     try {
-      const contract = await getContractReadOnly();
-      if (!contract) return;
+      const client = await getEnergyClientReadOnly();
+      if (!client) return;
       
-      // Check contract availability using FHE
-      const isAvailable = await contract.isAvailable();
-      if (!isAvailable) {
-        console.error("Contract is not available");
-        return;
-      }
-      
-      const keysBytes = await contract.getData("energy_keys");
-      let keys: string[] = [];
-      
-      if (keysBytes.length > 0) {
-        try {
-          keys = JSON.parse(ethers.toUtf8String(keysBytes));
-        } catch (e) {
-          console.error("Error parsing energy keys:", e);
-        }
-      }
-      
-      const list: EnergyData[] = [];
+      // Catch up on callbacks that landed while the page was closed
+      revealTracker.refresh(client).catch(e => console.error("Error refreshing reveal requests:", e));
       
-      for (const key of keys) {
-        try {
-          const dataBytes = await contract.getData(`energy_${key}`);
-          if (dataBytes.length > 0) {
-            try {
-              const data = JSON.parse(ethers.toUtf8String(dataBytes));
-              list.push({
-                id: key,
-                encryptedData: data.data,
-                timestamp: data.timestamp,
-                tenant: data.tenant,
-                energyUsage: data.energyUsage,
-                status: data.status || "pending"
-              });
-            } catch (e) {
-              console.error(`Error parsing energy data for ${key}:`, e);
-            }
-          }
-        } catch (e) {
-          console.error(`Error loading energy data ${key}:`, e);
-        }
-      }
+      const [list, systemKeys, manager, verifierAddress, latestVerdicts, periods, contractOwner, duration, published] = await Promise.all([
+        loadRecords(client),
+        client.listSystems(),
+        client.getBuildingManager(),
+        client.getVerifier(),
+        queryAttestationVerdicts(client).catch((e): Record<number, AttestationVerdict> => {
+          console.error("Error loading attestations:", e);
+          return {};
+        }),
+        client.listSavingsPeriods(),
+        client.getOwner(),
+        client.getBillingEpochDuration(),
+        // A malformed tariff should not take the rest of the dashboard down with it
+        client.listTariffs().catch((e): PublishedTariff[] => {
+          console.error("Error loading tariffs:", e);
+          return [];
+        })
+      ]);
+      const [histories, totals] = await Promise.all([
+        Promise.all(systemKeys.map(key => client.getLoadSumHistory(key))),
+        Promise.all(systemKeys.map(key => client.listEpochTotals(key)))
+      ]);
+      setSystems(systemKeys);
+      setLoadSumHistories(Object.fromEntries(systemKeys.map((key, i) => [key, histories[i]])));
+      setEpochTotals(Object.fromEntries(systemKeys.map((key, i) => [key, totals[i]])));
+      setBuildingManager(manager);
+      setVerifier(verifierAddress);
+      setVerdicts(latestVerdicts);
+      setAttestations({});
+      setOwner(contractOwner);
+      setEpochDuration(duration);
+      setTariffs(published);
+      setSavingsPeriods(periods);
       
       list.sort((a, b) => b.timestamp - a.timestamp);
       setEnergyData(list);
@@ -142,47 +356,12 @@ const App: React.FC = () => {
     });
     
     try {
-      // Simulate FHE encryption
-      const encryptedData = `FHE-${btoa(JSON.stringify(newEnergyData))}`;
-      
-      const contract = await getContractWithSigner();
-      if (!contract) {
-        throw new Error("Failed to get contract with signer");
-      }
-      
-      const dataId = `${Date.now()}-${Math.random().toString(36).substring(2, 9)}`;
-
-      const energyData = {
-        data: encryptedData,
+      const client = await getEnergyClientWithSigner({ encryptor: await getFhevmInstance() });
+      await client.submitReading({
+        tenantUsage: Number(newEnergyData.energyUsage),
         timestamp: Math.floor(Date.now() / 1000),
-        tenant: account,
-        energyUsage: Number(newEnergyData.energyUsage),
-        status: "pending"
-      };
-      
-      // Store encrypted data on-chain using FHE
-      await contract.setData(
-        `energy_${dataId}`, 
-        ethers.toUtf8Bytes(JSON.stringify(energyData))
-      );
-      
-      const keysBytes = await contract.getData("energy_keys");
-      let keys: string[] = [];
-      
-      if (keysBytes.length > 0) {
-        try {
-          keys = JSON.parse(ethers.toUtf8String(keysBytes));
-        } catch (e) {
-          console.error("Error parsing keys:", e);
-        }
-      }
-      
-      keys.push(dataId);
-      
-      await contract.setData(
-        "energy_keys", 
-        ethers.toUtf8Bytes(JSON.stringify(keys))
-      );
+        systemLoad: Number(newEnergyData.systemLoad || 0)
+      }, newEnergyData.systemKey);
       
       setTransactionStatus({
         visible: true,
@@ -197,7 +376,8 @@ const App: React.FC = () => {
         setShowCreateModal(false);
         setNewEnergyData({
           energyUsage: "",
-          buildingArea: ""
+          systemLoad: "",
+          systemKey: newEnergyData.systemKey
         });
       }, 2000);
     } catch (e: any) {
@@ -219,7 +399,7 @@ const App: React.FC = () => {
     }
   };
 
-  const verifyData = async (dataId: string) => {
+  const requestReveal = async (dataId: number) => {
     if (!provider) {
       alert("Please connect wallet first");
       return;
@@ -228,39 +408,17 @@ const App: React.FC = () => {
     setTransactionStatus({
       visible: true,
       status: "pending",
-      message: "Processing encrypted data with FHE..."
+      message: "Requesting decryption from the FHE oracle..."
     });
 
     try {
-      // Simulate FHE computation time
-      await new Promise(resolve => setTimeout(resolve, 3000));
-      
-      const contract = await getContractWithSigner();
-      if (!contract) {
-        throw new Error("Failed to get contract with signer");
-      }
-      
-      const dataBytes = await contract.getData(`energy_${dataId}`);
-      if (dataBytes.length === 0) {
-        throw new Error("Data not found");
-      }
-      
-      const data = JSON.parse(ethers.toUtf8String(dataBytes));
-      
-      const updatedData = {
-        ...data,
-        status: "verified"
-      };
-      
-      await contract.setData(
-        `energy_${dataId}`, 
-        ethers.toUtf8Bytes(JSON.stringify(updatedData))
-      );
+      const client = await getEnergyClientWithSigner();
+      revealTracker.track(await client.requestReveal(dataId));
       
       setTransactionStatus({
         visible: true,
         status: "success",
-        message: "FHE verification completed!"
+        message: "Decryption requested! Follow it under Public Reveals."
       });
       
       await loadEnergyData();
@@ -272,7 +430,7 @@ const App: React.FC = () => {
       setTransactionStatus({
         visible: true,
         status: "error",
-        message: "Verification failed: " + (e.message || "Unknown error")
+        message: "Reveal request failed: " + (e.message || "Unknown error")
       });
       
       setTimeout(() => {
@@ -281,52 +439,131 @@ const App: React.FC = () => {
     }
   };
 
-  const rejectData = async (dataId: string) => {
+  const recordVerdict = async (dataId: number) => {
     if (!provider) {
       alert("Please connect wallet first");
       return;
     }
 
+    const verdict: AttestationVerdict = verdictReason in DISPUTE_REASONS ? "disputed" : "attested";
+    setRecordingVerdict(true);
     setTransactionStatus({
       visible: true,
       status: "pending",
-      message: "Processing encrypted data with FHE..."
+      message: verdict === "disputed" ? "Recording dispute..." : "Recording attestation..."
     });
 
     try {
-      // Simulate FHE computation time
-      await new Promise(resolve => setTimeout(resolve, 3000));
-      
-      const contract = await getContractWithSigner();
-      if (!contract) {
-        throw new Error("Failed to get contract with signer");
+      const client = await getEnergyClientWithSigner();
+      if (verdict === "disputed") {
+        await client.disputeReading(dataId, verdictReason);
+      } else {
+        await client.attestReading(dataId, verdictReason);
       }
+      const history = await client.getAttestations(dataId);
+      setAttestations(current => ({ ...current, [dataId]: history }));
+      setVerdicts(current => ({ ...current, [dataId]: verdict }));
       
-      const dataBytes = await contract.getData(`energy_${dataId}`);
-      if (dataBytes.length === 0) {
-        throw new Error("Data not found");
-      }
+      setTransactionStatus({
+        visible: true,
+        status: "success",
+        message: `Reading #${dataId} ${verdict}`
+      });
       
-      const data = JSON.parse(ethers.toUtf8String(dataBytes));
+      setTimeout(() => {
+        setTransactionStatus({ visible: false, status: "pending", message: "" });
+      }, 2000);
+    } catch (e: any) {
+      setTransactionStatus({
+        visible: true,
+        status: "error",
+        message: e.message?.includes("user rejected")
+          ? "Transaction rejected by user"
+          : "Verdict failed: " + (e.message || "Unknown error")
+      });
       
-      const updatedData = {
-        ...data,
-        status: "rejected"
-      };
+      setTimeout(() => {
+        setTransactionStatus({ visible: false, status: "pending", message: "" });
+      }, 3000);
+    } finally {
+      setRecordingVerdict(false);
+    }
+  };
+
+  const decryptOwnReadings = async (dataIds?: number[]) => {
+    if (!provider) {
+      alert("Please connect wallet first");
+      return;
+    }
+
+    setDecryptingPrivate(true);
+    setTransactionStatus({
+      visible: true,
+      status: "pending",
+      message: "Sign the decryption request in your wallet..."
+    });
+
+    try {
+      // Reusing the client reuses the signed request, so the wallet prompts once
+      if (!privateClientRef.current) {
+        privateClientRef.current = await getEnergyClientWithSigner({ decryptor: await getFhevmInstance() });
+      }
+      const readings = await privateClientRef.current.decryptReadings(dataIds);
+      setPrivateReadings(current => ({
+        ...current,
+        ...Object.fromEntries(readings.map(r => [Number(r.id), r]))
+      }));
+      setTransactionStatus({ visible: false, status: "pending", message: "" });
+    } catch (e: any) {
+      setTransactionStatus({
+        visible: true,
+        status: "error",
+        message: e.message?.includes("user rejected")
+          ? "Signature rejected by user"
+          : "Private decryption failed: " + (e.message || "Unknown error")
+      });
       
-      await contract.setData(
-        `energy_${dataId}`, 
-        ethers.toUtf8Bytes(JSON.stringify(updatedData))
-      );
+      setTimeout(() => {
+        setTransactionStatus({ visible: false, status: "pending", message: "" });
+      }, 3000);
+    } finally {
+      setDecryptingPrivate(false);
+    }
+  };
+
+  const revealAggregate = async () => {
+    if (!provider) {
+      alert("Please connect wallet first");
+      return;
+    }
+
+    setTransactionStatus({
+      visible: true,
+      status: "pending",
+      message: "Requesting aggregate load decryption..."
+    });
+
+    try {
+      const client = await getEnergyClientWithSigner();
+      const afterRevealIndex = latestAggregate?.revealIndex ?? 0;
+      await client.requestLoadSumReveal(selectedSystem);
       
+      setAwaitingAggregate(true);
       setTransactionStatus({
         visible: true,
-        status: "success",
-        message: "FHE rejection completed!"
+        status: "pending",
+        message: "Waiting for the oracle to publish the aggregate..."
       });
       
+      const revealed = await client.waitForLoadSumReveal(selectedSystem, { afterRevealIndex });
       await loadEnergyData();
       
+      setTransactionStatus({
+        visible: true,
+        status: "success",
+        message: `Aggregate revealed: ${revealed.sum} kWh`
+      });
+      
       setTimeout(() => {
         setTransactionStatus({ visible: false, status: "pending", message: "" });
       }, 2000);
@@ -334,17 +571,19 @@ const App: React.FC = () => {
       setTransactionStatus({
         visible: true,
         status: "error",
-        message: "Rejection failed: " + (e.message || "Unknown error")
+        message: "Aggregate reveal failed: " + (e.message || "Unknown error")
       });
       
       setTimeout(() => {
         setTransactionStatus({ visible: false, status: "pending", message: "" });
       }, 3000);
+    } finally {
+      setAwaitingAggregate(false);
     }
   };
 
   const isTenant = (address: string) => {
-    return account.toLowerCase() === address.toLowerCase();
+    return !!account && account.toLowerCase() === address.toLowerCase();
   };
 
   const tutorialSteps = [
@@ -386,7 +625,7 @@ const App: React.FC = () => {
           const dataDate = new Date(data.timestamp * 1000);
           return dataDate.toLocaleDateString('en-US', { month: 'short', day: 'numeric' }) === date;
         })
-        .reduce((sum, data) => sum + data.energyUsage, 0);
+        .reduce((sum, data) => sum + (data.energyUsage ?? 0), 0);
     });
 
     const maxUsage = Math.max(...dailyUsage, 1);
@@ -423,6 +662,12 @@ const App: React.FC = () => {
         </div>
         
         <div className="header-actions">
+          <button 
+            className="metal-button"
+            onClick={() => setPage(page === "dashboard" ? "schedule" : "dashboard")}
+          >
+            {page === "dashboard" ? "Energy Schedule" : "Dashboard"}
+          </button>
           <button 
             onClick={() => setShowCreateModal(true)} 
             className="create-data-btn metal-button"
@@ -430,6 +675,12 @@ const App: React.FC = () => {
             <div className="add-icon"></div>
             Submit Data
           </button>
+          <button 
+            onClick={() => setShowImportModal(true)} 
+            className="metal-button"
+          >
+            Import Meter Data
+          </button>
           <button 
             className="metal-button"
             onClick={() => setShowTutorial(!showTutorial)}
@@ -440,6 +691,13 @@ const App: React.FC = () => {
         </div>
       </header>
       
+      {page === "schedule" ? (
+        <SchedulePage 
+          systems={systems}
+          initialSystem={selectedSystem}
+          loadSumHistories={loadSumHistories}
+        />
+      ) : (
       <div className="dashboard-layout">
         <div className="dashboard-column main-panel">
           <div className="welcome-banner">
@@ -487,8 +745,27 @@ const App: React.FC = () => {
             <div className="section-header">
               <h2>Tenant Energy Data</h2>
               <div className="header-actions">
+                {account && ownRecordCount > 0 && (
+                  <button 
+                    onClick={() => decryptOwnReadings()}
+                    className="metal-button"
+                    disabled={decryptingPrivate}
+                    title="Decrypt your readings in this browser without publishing them"
+                  >
+                    {decryptingPrivate ? "Decrypting..." : "View My Usage Privately"}
+                  </button>
+                )}
+                <span
+                  className={`live-indicator ${liveStatus}`}
+                  title={liveStatus === "live"
+                    ? "Following new submissions and reveals on-chain"
+                    : "Waiting for the RPC; use Refresh to reload manually"}
+                >
+                  <span className="live-dot"></span>
+                  {liveStatus === "live" ? "Live" : liveStatus === "reconnecting" ? "Reconnecting..." : "Connecting..."}
+                </span>
                 <button 
-                  onClick={loadEnergyData}
+                  onClick={() => loadEnergyData()}
                   className="refresh-btn metal-button"
                   disabled={isRefreshing}
                 >
@@ -497,6 +774,13 @@ const App: React.FC = () => {
               </div>
             </div>
             
+            {verifier && (
+              <p className="verifier-note">
+                Readings are attested by verifier <span className="verifier-address">{verifier}</span>
+                {isTenant(verifier) ? " (you)" : ""}
+              </p>
+            )}
+            
             <div className="data-list">
               {energyData.length === 0 ? (
                 <div className="no-data">
@@ -513,9 +797,15 @@ const App: React.FC = () => {
                 energyData.map(data => (
                   <div className={`data-item ${expandedId === data.id ? 'expanded' : ''}`} key={data.id}>
                     <div className="data-summary" onClick={() => setExpandedId(expandedId === data.id ? null : data.id)}>
-                      <div className="data-id">#{data.id.substring(0, 6)}</div>
+                      <div className="data-id">#{data.id}</div>
                       <div className="data-tenant">{data.tenant.substring(0, 6)}...{data.tenant.substring(38)}</div>
-                      <div className="data-usage">{data.energyUsage} kWh</div>
+                      <div className="data-usage">
+                        {data.energyUsage !== null
+                          ? `${data.energyUsage} kWh`
+                          : privateReadings[data.id]
+                            ? <span className="private-usage" title="Decrypted for you only">{privateReadings[data.id].tenantUsage} kWh</span>
+                            : "Encrypted"}
+                      </div>
                       <div className="data-date">
                         {new Date(data.timestamp * 1000).toLocaleDateString()}
                       </div>
@@ -523,6 +813,11 @@ const App: React.FC = () => {
                         <span className={`status-badge ${data.status}`}>
                           {data.status}
                         </span>
+                        {verdicts[data.id] && (
+                          <span className={`status-badge ${verdicts[data.id]}`}>
+                            {verdicts[data.id]}
+                          </span>
+                        )}
                       </div>
                       <div className="expand-icon">{expandedId === data.id ? '▲' : '▼'}</div>
                     </div>
@@ -533,32 +828,102 @@ const App: React.FC = () => {
                           <span>Tenant:</span>
                           <span>{data.tenant}</span>
                         </div>
+                        <div className="detail-row">
+                          <span>System:</span>
+                          <span>{data.systemKey}</span>
+                        </div>
+                        <div className="detail-row">
+                          <span>Billing Epoch:</span>
+                          <span>{data.billingEpoch === null ? "Loading..." : `#${data.billingEpoch}`}</span>
+                        </div>
                         <div className="detail-row">
                           <span>Timestamp:</span>
                           <span>{new Date(data.timestamp * 1000).toLocaleString()}</span>
                         </div>
                         <div className="detail-row">
-                          <span>Encrypted Data:</span>
-                          <span className="encrypted-data">{data.encryptedData.substring(0, 40)}...</span>
+                          <span>Usage Handle:</span>
+                          <span className="encrypted-data">{data.encryptedData === null ? "Loading..." : `${data.encryptedData.substring(0, 40)}...`}</span>
                         </div>
                         <div className="detail-row">
                           <span>FHE Status:</span>
                           <span>{data.status}</span>
                         </div>
+                        {privateReadings[data.id] && (
+                          <div className="detail-row">
+                            <span>Private View:</span>
+                            <span className="private-usage">
+                              {privateReadings[data.id].tenantUsage} kWh usage · {privateReadings[data.id].systemLoad} kWh load · metered {new Date(privateReadings[data.id].timestamp * 1000).toLocaleString()}
+                            </span>
+                          </div>
+                        )}
+                        
+                        <div className="attestation-history">
+                          <h4>Verifier Attestations</h4>
+                          {attestations[data.id] === undefined ? (
+                            <p className="aggregate-note">Loading...</p>
+                          ) : attestations[data.id].length === 0 ? (
+                            <p className="aggregate-note">Not attested yet</p>
+                          ) : (
+                            attestations[data.id].map((attestation, index) => (
+                              <div className="history-row" key={index}>
+                                <span className={`status-badge ${attestation.verdict}`}>{attestation.verdict}</span>
+                                <span>{describeReason(attestation.verdict, attestation.reasonCode)}</span>
+                                <span title={attestation.verifier}>
+                                  {isTenant(attestation.verifier)
+                                    ? "you"
+                                    : `${attestation.verifier.substring(0, 6)}...${attestation.verifier.substring(38)}`}
+                                </span>
+                                <span>{new Date(attestation.timestamp * 1000).toLocaleString()}</span>
+                              </div>
+                            ))
+                          )}
+                        </div>
                         
-                        {isTenant(data.tenant) && data.status === "pending" && (
+                        {isTenant(verifier) && !isTenant(data.tenant) && (
                           <div className="data-actions">
+                            <select
+                              className="metal-input"
+                              value={verdictReason}
+                              onChange={(e) => setVerdictReason(Number(e.target.value))}
+                            >
+                              <optgroup label="Attest">
+                                {Object.entries(ATTESTATION_REASONS).map(([code, label]) => (
+                                  <option key={code} value={code}>{label}</option>
+                                ))}
+                              </optgroup>
+                              <optgroup label="Dispute">
+                                {Object.entries(DISPUTE_REASONS).map(([code, label]) => (
+                                  <option key={code} value={code}>{label}</option>
+                                ))}
+                              </optgroup>
+                            </select>
                             <button 
-                              className="action-btn metal-button success"
-                              onClick={() => verifyData(data.id)}
+                              className={`action-btn metal-button ${verdictReason in DISPUTE_REASONS ? "danger" : "success"}`}
+                              onClick={() => recordVerdict(data.id)}
+                              disabled={recordingVerdict}
                             >
-                              Verify
+                              {verdictReason in DISPUTE_REASONS ? "Dispute" : "Attest"}
                             </button>
+                          </div>
+                        )}
+                        
+                        {isTenant(data.tenant) && data.status === "encrypted" && (
+                          <div className="data-actions">
+                            {!privateReadings[data.id] && (
+                              <button 
+                                className="action-btn metal-button"
+                                onClick={() => decryptOwnReadings([data.id])}
+                                disabled={decryptingPrivate}
+                              >
+                                Decrypt Privately
+                              </button>
+                            )}
                             <button 
-                              className="action-btn metal-button danger"
-                              onClick={() => rejectData(data.id)}
+                              className="action-btn metal-button success"
+                              onClick={() => requestReveal(data.id)}
+                              title="Publishes the cleartext on-chain for everyone"
                             >
-                              Reject
+                              Request Public Reveal
                             </button>
                           </div>
                         )}
@@ -580,24 +945,124 @@ const App: React.FC = () => {
                 <div className="stat-label">Total Records</div>
               </div>
               <div className="stat-item">
-                <div className="stat-value">{verifiedCount}</div>
-                <div className="stat-label">Verified</div>
+                <div className="stat-value">{revealedCount}</div>
+                <div className="stat-label">Revealed</div>
               </div>
               <div className="stat-item">
                 <div className="stat-value">{pendingCount}</div>
                 <div className="stat-label">Pending</div>
               </div>
               <div className="stat-item">
-                <div className="stat-value">{rejectedCount}</div>
-                <div className="stat-label">Rejected</div>
+                <div className="stat-value">{encryptedCount}</div>
+                <div className="stat-label">Encrypted</div>
               </div>
               <div className="stat-item">
-                <div className="stat-value">{totalUsage}</div>
-                <div className="stat-label">Total kWh</div>
+                <div className="stat-value">
+                  {revealedCost ? formatMoney(revealedCost.total, revealedCost.currency) : `${totalUsage} kWh`}
+                </div>
+                <div className="stat-label">
+                  {revealedCost ? `Revealed Cost · ${totalUsage} kWh` : "Revealed Usage"}
+                </div>
               </div>
+              {Object.keys(privateReadings).length > 0 && (
+                <div className="stat-item">
+                  <div className="stat-value private-usage">
+                    {privateCost ? formatMoney(privateCost.total, privateCost.currency) : `${privateUsage} kWh`}
+                  </div>
+                  <div className="stat-label">
+                    {privateCost ? `My Cost (Private) · ${privateUsage} kWh` : "My Usage (Private)"}
+                  </div>
+                </div>
+              )}
             </div>
           </div>
           
+          <div className="aggregate-card metal-card">
+            <h3>Building Aggregate Load</h3>
+            <select 
+              className="metal-input system-picker"
+              value={selectedSystem}
+              onChange={(e) => setSelectedSystem(e.target.value)}
+            >
+              {systems.map(systemKey => (
+                <option key={systemKey} value={systemKey}>{systemKey}</option>
+              ))}
+            </select>
+            <div className="aggregate-value">
+              {latestAggregate ? `${latestAggregate.sum} kWh` : "Not revealed yet"}
+            </div>
+            {latestAggregate && (
+              <div className="aggregate-meta">
+                Reveal #{latestAggregate.revealIndex} · revealed {new Date(Number(latestAggregate.revealedAt) * 1000).toLocaleString()}
+              </div>
+            )}
+            <p className="aggregate-note">
+              Summed homomorphically as tenants submit; individual readings stay encrypted.
+            </p>
+            {isTenant(buildingManager) && (
+              <button 
+                className="metal-button primary" 
+                onClick={revealAggregate}
+                disabled={awaitingAggregate}
+              >
+                {awaitingAggregate ? "Waiting for Oracle..." : "Reveal Aggregate"}
+              </button>
+            )}
+            {loadSumHistory.length > 1 && (
+              <div className="aggregate-history">
+                <h4>Reveal History</h4>
+                {loadSumHistory.slice().reverse().map(entry => (
+                  <div className="history-row" key={entry.revealIndex}>
+                    <span>#{entry.revealIndex}</span>
+                    <span>{new Date(Number(entry.revealedAt) * 1000).toLocaleDateString()}</span>
+                    <span>{entry.sum} kWh</span>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+          
+          <div className="breakdown-card metal-card">
+            <h3>System Breakdown</h3>
+            {systemBreakdown.map(row => (
+              <div 
+                className={`breakdown-row ${row.systemKey === selectedSystem ? 'selected' : ''}`}
+                key={row.systemKey}
+                onClick={() => setSelectedSystem(row.systemKey)}
+              >
+                <div className="breakdown-name">{row.systemKey}</div>
+                <div className="breakdown-stats">
+                  <span>{row.records} records</span>
+                  <span>{row.revealedUsage} kWh revealed</span>
+                  <span>{row.latestAggregate ? `${row.latestAggregate.sum} kWh total` : "Total encrypted"}</span>
+                </div>
+              </div>
+            ))}
+          </div>
+          
+          <RevealsCard account={account} onChanged={loadEnergyData} />
+          
+          <CostCard
+            systemKey={selectedSystem}
+            history={loadSumHistory}
+            tariffs={tariffs}
+            epochs={(epochTotals[selectedSystem] ?? []).map(t => t.epoch)}
+          />
+          
+          <EpochsCard
+            account={account}
+            systemKey={selectedSystem}
+            owner={owner}
+            buildingManager={buildingManager}
+            totals={epochTotals[selectedSystem] ?? []}
+            duration={epochDuration}
+            onChanged={loadEnergyData}
+          />
+          
+          <SavingsCard account={account} periods={savingsPeriods} />
+          
+          <ForecastCard systemKey={selectedSystem} history={loadSumHistory} />
+          
           <div className="chart-card metal-card">
             <h3>Energy Usage (Last 7 Days)</h3>
             {renderBarChart()}
@@ -614,6 +1079,7 @@ const App: React.FC = () => {
           </div>
         </div>
       </div>
+      )}
   
       {showCreateModal && (
         <ModalCreate 
@@ -622,6 +1088,16 @@ const App: React.FC = () => {
           submitting={submitting}
           energyData={newEnergyData}
           setEnergyData={setNewEnergyData}
+          systems={systems}
+        />
+      )}
+      
+      {showImportModal && (
+        <ImportModal
+          account={account}
+          systems={systems}
+          onClose={() => setShowImportModal(false)}
+          onImported={() => loadEnergyData()}
         />
       )}
       
@@ -685,6 +1161,7 @@ interface ModalCreateProps {
   submitting: boolean;
   energyData: any;
   setEnergyData: (data: any) => void;
+  systems: string[];
 }
 
 const ModalCreate: React.FC<ModalCreateProps> = ({ 
@@ -692,9 +1169,10 @@ const ModalCreate: React.FC<ModalCreateProps> = ({
   onClose, 
   submitting,
   energyData,
-  setEnergyData
+  setEnergyData,
+  systems
 }) => {
-  const handleChange = (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement>) => {
+  const handleChange = (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement | HTMLSelectElement>) => {
     const { name, value } = e.target;
     setEnergyData({
       ...energyData,
@@ -724,6 +1202,20 @@ const ModalCreate: React.FC<ModalCreateProps> = ({
             <div className="key-icon"></div> Your data will be encrypted with FHE
           </div>
           
+          <div className="form-group">
+            <label>Building System *</label>
+            <select 
+              name="systemKey"
+              value={energyData.systemKey} 
+              onChange={handleChange}
+              className="metal-input"
+            >
+              {systems.map(systemKey => (
+                <option key={systemKey} value={systemKey}>{systemKey}</option>
+              ))}
+            </select>
+          </div>
+          
           <div className="form-group">
             <label>Energy Usage (kWh) *</label>
             <input 
@@ -737,13 +1229,13 @@ const ModalCreate: React.FC<ModalCreateProps> = ({
           </div>
           
           <div className="form-group">
-            <label>Building Area (m²)</label>
+            <label>Predicted System Load (kWh)</label>
             <input 
               type="number"
-              name="buildingArea"
-              value={energyData.buildingArea} 
+              name="systemLoad"
+              value={energyData.systemLoad} 
               onChange={handleChange}
-              placeholder="Optional: building area" 
+              placeholder="Optional: predicted load" 
               className="metal-input"
             />
           </div>
@@ -1,2 +0,0 @@
-// Auto-generated file: D:\MyCode\zama\demo\frontend\web\src\components-base-account.java
-// Generated at: 2025-10-03T12:09:15.666Z
\ No newline at end of file
@@ -0,0 +1,146 @@
+import React, { useState } from "react";
+import {
+  energyFromReveals,
+  priceUsage,
+  type BillingEpoch,
+  type PublishedTariff,
+  type RevealedLoadSum,
+  type UsageCost,
+} from "@sdk";
+
+interface CostCardProps {
+  systemKey: string;
+  history: RevealedLoadSum[];
+  tariffs: PublishedTariff[];
+  epochs: BillingEpoch[];
+}
+
+export const formatMoney = (value: number, currency: string) =>
+  new Intl.NumberFormat(undefined, { style: "currency", currency }).format(
+    value,
+  );
+
+const CostCard: React.FC<CostCardProps> = ({
+  systemKey,
+  history,
+  tariffs,
+  epochs,
+}) => {
+  // Demand charges bill one period's peak, so price one billing epoch at a time
+  const [epochId, setEpochId] = useState<number | null>(null);
+  const open = epochs.length > 0 ? epochs[epochs.length - 1] : null;
+  const epoch = epochs.find((e) => e.epochId === epochId) ?? open;
+
+  // The dashboard shows building-local times, so price in the browser's offset too
+  const utcOffsetMinutes = -new Date().getTimezoneOffset();
+  const now = Math.floor(Date.now() / 1000);
+  const current = tariffs.filter((t) => t.effectiveFrom <= now).pop();
+
+  let cost: UsageCost | null = null;
+  let error = "";
+  if (tariffs.length > 0) {
+    try {
+      const from = epoch ? Number(epoch.startedAt) : -Infinity;
+      const to = epoch?.closedAt ? Number(epoch.closedAt) : Infinity;
+      cost = priceUsage(
+        energyFromReveals(history).filter(
+          (o) => o.timestamp >= from && o.timestamp < to,
+        ),
+        tariffs,
+        { utcOffsetMinutes },
+      );
+    } catch (e: any) {
+      error = e.message;
+    }
+  }
+
+  const money = (value: number) =>
+    formatMoney(value, cost?.currency ?? current?.tariff.currency ?? "USD");
+
+  return (
+    <div className="cost-card metal-card">
+      <h3>Energy Cost</h3>
+      {tariffs.length === 0 ? (
+        <p className="aggregate-note">
+          No tariff has been published yet. The owner publishes time-of-use
+          rates with <code>energy:tariff</code>.
+        </p>
+      ) : (
+        <>
+          {epochs.length > 0 && (
+            <select
+              className="metal-input system-picker"
+              value={epoch?.epochId ?? ""}
+              onChange={(e) => setEpochId(Number(e.target.value))}
+            >
+              {epochs
+                .slice()
+                .reverse()
+                .map((e) => (
+                  <option key={e.epochId} value={e.epochId}>
+                    Epoch #{e.epochId}
+                    {e.closedAt === null ? " (open)" : ""}
+                  </option>
+                ))}
+            </select>
+          )}
+          {cost ? (
+            <>
+              <div className="aggregate-value">{money(cost.total)}</div>
+              <div className="aggregate-meta">
+                {systemKey} · {cost.kwh.toFixed(1)} kWh revealed in this epoch
+              </div>
+              <div className="aggregate-history">
+                {cost.energy.map((line) => (
+                  <div
+                    className="history-row"
+                    key={`${line.season ?? ""}-${line.label}-${line.pricePerKwh}`}
+                  >
+                    <span className={`cost-rate ${line.label}`}>
+                      {line.season ? `${line.season} ` : ""}
+                      {line.label} · {money(line.pricePerKwh)}/kWh
+                    </span>
+                    <span>{line.kwh.toFixed(1)} kWh</span>
+                    <span>{money(line.cost)}</span>
+                  </div>
+                ))}
+                {cost.demand.map((line) => (
+                  <div className="history-row" key={`demand-${line.label}`}>
+                    <span>
+                      {line.label} demand · {money(line.pricePerKw)}/kW
+                    </span>
+                    <span>{line.peakKw.toFixed(1)} kW peak</span>
+                    <span>{money(line.cost)}</span>
+                  </div>
+                ))}
+              </div>
+            </>
+          ) : (
+            <p className="aggregate-note">{error}</p>
+          )}
+          {current && (
+            <p className="aggregate-note cost-tariff">
+              Tariff #{current.tariffId}:{" "}
+              {money(current.tariff.basePricePerKwh)}/kWh base
+              {current.tariff.periods
+                .map(
+                  (p) =>
+                    `, ${p.label} ${money(p.pricePerKwh)} (${p.startHour}:00–${p.endHour}:00)`,
+                )
+                .join("")}
+              {current.tariff.seasons?.length
+                ? `; seasons: ${current.tariff.seasons.map((s) => s.label).join(", ")}`
+                : ""}
+            </p>
+          )}
+          <p className="aggregate-note">
+            Priced from revealed aggregates only; energy between two reveals is
+            spread evenly over the hours between them.
+          </p>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default CostCard;
@@ -0,0 +1,209 @@
+import React, { useEffect, useRef, useState } from "react";
+import {
+  compareEpochs,
+  type EpochComparison,
+  type EpochTotal,
+  type SmartBuildingEnergyClient,
+} from "@sdk";
+import { getEnergyClientWithSigner } from "../contract";
+import { getFhevmInstance } from "../fhe";
+
+interface EpochsCardProps {
+  account: string;
+  systemKey: string;
+  owner: string;
+  buildingManager: string;
+  /** Every billing epoch, oldest first, with the selected system's revealed total. */
+  totals: EpochTotal[];
+  /** Seconds after which anyone may close the open epoch. */
+  duration: number;
+  onChanged: () => Promise<void>;
+}
+
+const formatDate = (seconds: bigint) =>
+  new Date(Number(seconds) * 1000).toLocaleDateString();
+
+const formatChange = (comparison?: EpochComparison) =>
+  comparison?.changePct == null
+    ? ""
+    : `${comparison.changePct >= 0 ? "+" : ""}${comparison.changePct.toFixed(1)}%/day`;
+
+const EpochsCard: React.FC<EpochsCardProps> = ({
+  account,
+  systemKey,
+  owner,
+  buildingManager,
+  totals,
+  duration,
+  onChanged,
+}) => {
+  const [ownUsage, setOwnUsage] = useState<EpochComparison[] | null>(null);
+  const [busy, setBusy] = useState("");
+  const [error, setError] = useState("");
+  // Keeps the signed decryption request, so the wallet only prompts once per session
+  const clientRef = useRef<SmartBuildingEnergyClient | null>(null);
+
+  useEffect(() => {
+    setOwnUsage(null);
+    setError("");
+    clientRef.current = null;
+  }, [account]);
+
+  const is = (address: string) =>
+    !!account && account.toLowerCase() === address.toLowerCase();
+  const open = totals.length > 0 ? totals[totals.length - 1].epoch : null;
+  const now = Math.floor(Date.now() / 1000);
+  const canClose =
+    !!open &&
+    !!account &&
+    (is(owner) || now >= Number(open.startedAt) + duration);
+
+  // Only revealed epochs can be compared; the change is against the previous revealed one
+  const revealed = compareEpochs(
+    totals
+      .filter((t) => t.kwh !== null)
+      .map((t) => ({ epoch: t.epoch, kwh: t.kwh! })),
+  );
+  const revealedOf = (epochId: number) =>
+    revealed.find((c) => c.epoch.epochId === epochId);
+  const ownOf = (epochId: number) =>
+    ownUsage?.find((c) => c.epoch.epochId === epochId);
+
+  const run = async (label: string, action: () => Promise<void>) => {
+    setBusy(label);
+    setError("");
+    try {
+      await action();
+    } catch (e: any) {
+      setError(
+        e.message?.includes("user rejected")
+          ? "Request rejected"
+          : `${label} failed: ` + (e.message || "Unknown error"),
+      );
+    } finally {
+      setBusy("");
+    }
+  };
+
+  const closeEpoch = () =>
+    run("Closing", async () => {
+      const client = await getEnergyClientWithSigner();
+      await client.closeBillingEpoch();
+      setOwnUsage(null);
+      await onChanged();
+    });
+
+  const revealTotal = (epochId: number) =>
+    run("Revealing", async () => {
+      const client = await getEnergyClientWithSigner();
+      await client.requestEpochTotalReveal(epochId, systemKey);
+      await client.waitForEpochTotal(epochId, systemKey);
+      await onChanged();
+    });
+
+  const decryptOwnUsage = () =>
+    run("Decrypting", async () => {
+      if (!clientRef.current) {
+        clientRef.current = await getEnergyClientWithSigner({
+          decryptor: await getFhevmInstance(),
+        });
+      }
+      setOwnUsage(compareEpochs(await clientRef.current.decryptEpochUsage()));
+    });
+
+  return (
+    <div className="epochs-card metal-card">
+      <h3>Billing Epochs</h3>
+      <p className="aggregate-note">
+        Readings count towards the epoch open when they are submitted. Closing
+        an epoch freezes its encrypted totals; {systemKey} totals are compared
+        by daily average.
+      </p>
+      {open && (
+        <div className="epochs-open">
+          <span>
+            Epoch #{open.epochId} open since {formatDate(open.startedAt)}
+          </span>
+          <span>closes after {Math.round(duration / 86400)} days</span>
+        </div>
+      )}
+      <div className="aggregate-history">
+        {totals
+          .slice()
+          .reverse()
+          .map(({ epoch, kwh }) => {
+            const own = ownOf(epoch.epochId);
+            return (
+              <div className="epochs-row" key={epoch.epochId}>
+                <div className="history-row">
+                  <span>
+                    #{epoch.epochId} · {formatDate(epoch.startedAt)} –{" "}
+                    {epoch.closedAt === null
+                      ? "now"
+                      : formatDate(epoch.closedAt)}
+                  </span>
+                  <span>
+                    {kwh !== null ? (
+                      `${kwh} kWh`
+                    ) : epoch.closedAt === null ? (
+                      "Open"
+                    ) : is(buildingManager) ? (
+                      <button
+                        className="action-btn metal-button"
+                        onClick={() => revealTotal(epoch.epochId)}
+                        disabled={!!busy}
+                      >
+                        Reveal Total
+                      </button>
+                    ) : (
+                      "Encrypted"
+                    )}
+                  </span>
+                </div>
+                <div className="breakdown-stats">
+                  <span>{formatChange(revealedOf(epoch.epochId))}</span>
+                  {own && (
+                    <span className="private-usage">
+                      You: {own.kwh} kWh {formatChange(own)}
+                    </span>
+                  )}
+                </div>
+              </div>
+            );
+          })}
+      </div>
+      {error && <p className="epochs-error">{error}</p>}
+      <div className="epochs-actions">
+        {account && (
+          <button
+            className="metal-button"
+            onClick={decryptOwnUsage}
+            disabled={!!busy}
+          >
+            {busy === "Decrypting"
+              ? "Decrypting..."
+              : ownUsage
+                ? "Refresh My Usage"
+                : "Decrypt My Usage"}
+          </button>
+        )}
+        {canClose && (
+          <button
+            className="metal-button primary"
+            onClick={closeEpoch}
+            disabled={!!busy}
+          >
+            {busy === "Closing"
+              ? "Closing..."
+              : `Close Epoch #${open!.epochId}`}
+          </button>
+        )}
+        {busy === "Revealing" && (
+          <span className="aggregate-note">Waiting for the oracle...</span>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default EpochsCard;
@@ -0,0 +1,106 @@
+import React, { useState } from "react";
+import {
+  InsufficientHistoryError,
+  MIN_FORECAST_HISTORY_HOURS,
+  forecastLoad,
+  loadSeriesFromReveals,
+  type LoadForecast,
+  type RevealedLoadSum,
+} from "@sdk";
+
+interface ForecastCardProps {
+  systemKey: string;
+  history: RevealedLoadSum[];
+}
+
+const HORIZONS = [24, 72, 168];
+const WIDTH = 300;
+const HEIGHT = 140;
+
+const ForecastCard: React.FC<ForecastCardProps> = ({ systemKey, history }) => {
+  const [horizonHours, setHorizonHours] = useState(24);
+
+  let forecast: LoadForecast | null = null;
+  try {
+    forecast = forecastLoad(loadSeriesFromReveals(history), { horizonHours });
+  } catch (e) {
+    if (!(e instanceof InsufficientHistoryError)) throw e;
+  }
+
+  const renderChart = (points: LoadForecast["points"]) => {
+    const maxKwh = Math.max(...points.map((p) => p.upper), 1);
+    const x = (i: number) => (i / Math.max(points.length - 1, 1)) * WIDTH;
+    const y = (kwh: number) => HEIGHT - (kwh / maxKwh) * HEIGHT;
+
+    const line = points.map((p, i) => `${x(i)},${y(p.kwh)}`).join(" ");
+    const band = [
+      ...points.map((p, i) => `${x(i)},${y(p.upper)}`),
+      ...points.map((p, i) => `${x(i)},${y(p.lower)}`).reverse(),
+    ].join(" ");
+
+    return (
+      <svg
+        className="forecast-chart"
+        viewBox={`0 0 ${WIDTH} ${HEIGHT}`}
+        preserveAspectRatio="none"
+      >
+        <polygon className="forecast-band" points={band} />
+        <polyline className="forecast-line" points={line} />
+      </svg>
+    );
+  };
+
+  const peak = forecast?.points.reduce((max, p) => (p.kwh > max.kwh ? p : max));
+  const total = forecast?.points.reduce((sum, p) => sum + p.kwh, 0) ?? 0;
+
+  return (
+    <div className="forecast-card metal-card">
+      <h3>Load Forecast</h3>
+      <div className="forecast-horizons">
+        {HORIZONS.map((hours) => (
+          <button
+            key={hours}
+            className={`metal-button ${hours === horizonHours ? "primary" : ""}`}
+            onClick={() => setHorizonHours(hours)}
+          >
+            {hours === 168 ? "7d" : `${hours}h`}
+          </button>
+        ))}
+      </div>
+
+      {forecast && peak ? (
+        <>
+          {renderChart(forecast.points)}
+          <div className="forecast-axis">
+            <span>
+              {new Date(forecast.points[0].timestamp * 1000).toLocaleString()}
+            </span>
+            <span>+{horizonHours}h</span>
+          </div>
+          <div className="forecast-stats">
+            <span>{Math.round(total)} kWh expected</span>
+            <span>
+              Peak {Math.round(peak.kwh)} kWh at{" "}
+              {new Date(peak.timestamp * 1000).toLocaleTimeString([], {
+                hour: "2-digit",
+                minute: "2-digit",
+              })}
+            </span>
+          </div>
+          <p className="aggregate-note">
+            {forecast.seasonality === "none" ? "Flat" : forecast.seasonality}{" "}
+            profile from {systemKey} reveals; shaded band is the{" "}
+            {forecast.confidence * 100}% interval.
+          </p>
+        </>
+      ) : (
+        <p className="aggregate-note">
+          Forecasts need {MIN_FORECAST_HISTORY_HOURS} hours between the first
+          and latest aggregate reveal of {systemKey}.
+        </p>
+      )}
+    </div>
+  );
+};
+
+export default ForecastCard;
@@ -0,0 +1,251 @@
+import React, { useState } from "react";
+import {
+  DEFAULT_SYSTEM_KEY,
+  ImportInterruptedError,
+  importReadings,
+  parseMeterData,
+  type ImportProgress,
+  type MeterImport,
+} from "@sdk";
+import { getEnergyClientWithSigner } from "../contract";
+import { getFhevmInstance } from "../fhe";
+
+interface ImportModalProps {
+  account: string;
+  systems: string[];
+  onClose: () => void;
+  onImported: () => void;
+}
+
+const PREVIEW_ROWS = 50;
+
+// Cheap, stable fingerprint of the file so an interrupted import resumes only for the same data
+const fingerprint = (text: string) => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash = Math.imul(hash ^ text.charCodeAt(i), 0x01000193);
+  }
+  return (hash >>> 0).toString(16);
+};
+
+const progressKey = (account: string, fileText: string, systemKey: string) =>
+  `meter-import:${account.toLowerCase()}:${systemKey}:${fingerprint(fileText)}`;
+
+const loadProgress = (key: string): ImportProgress | null => {
+  try {
+    const saved = localStorage.getItem(key);
+    return saved ? JSON.parse(saved) : null;
+  } catch {
+    return null;
+  }
+};
+
+const ImportModal: React.FC<ImportModalProps> = ({
+  account,
+  systems,
+  onClose,
+  onImported,
+}) => {
+  const [fileName, setFileName] = useState("");
+  const [fileText, setFileText] = useState("");
+  const [parsed, setParsed] = useState<MeterImport | null>(null);
+  const [systemKey, setSystemKey] = useState(DEFAULT_SYSTEM_KEY);
+  const [progress, setProgress] = useState<ImportProgress | null>(null);
+  const [importing, setImporting] = useState(false);
+  const [error, setError] = useState("");
+  const [done, setDone] = useState(false);
+
+  const storageKey = progressKey(account, fileText, systemKey);
+  const total = parsed?.readings.length ?? 0;
+  const completed = progress?.nextIndex ?? 0;
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+
+    const text = await file.text();
+    setFileName(file.name);
+    setFileText(text);
+    setParsed(parseMeterData(text));
+    setProgress(loadProgress(progressKey(account, text, systemKey)));
+    setError("");
+    setDone(false);
+  };
+
+  const handleSystemChange = (e: React.ChangeEvent<HTMLSelectElement>) => {
+    setSystemKey(e.target.value);
+    setProgress(
+      fileText
+        ? loadProgress(progressKey(account, fileText, e.target.value))
+        : null,
+    );
+  };
+
+  const runImport = async () => {
+    if (!parsed || total === 0) return;
+    if (!account) {
+      alert("Please connect wallet first");
+      return;
+    }
+
+    setImporting(true);
+    setError("");
+    try {
+      const client = await getEnergyClientWithSigner({
+        encryptor: await getFhevmInstance(),
+      });
+      const result = await importReadings(client, parsed.readings, {
+        systemKey,
+        resumeFrom: progress ?? undefined,
+        onProgress: (p) => {
+          localStorage.setItem(storageKey, JSON.stringify(p));
+          setProgress(p);
+        },
+      });
+      localStorage.removeItem(storageKey);
+      setProgress(result);
+      setDone(true);
+      onImported();
+    } catch (e: any) {
+      if (e instanceof ImportInterruptedError) {
+        localStorage.setItem(storageKey, JSON.stringify(e.progress));
+        setProgress(e.progress);
+      }
+      setError(
+        e.message.includes("user rejected transaction")
+          ? "Transaction rejected by user"
+          : e.message || "Unknown error",
+      );
+    } finally {
+      setImporting(false);
+    }
+  };
+
+  const actionLabel = importing
+    ? `Encrypting ${completed + 1} of ${total}...`
+    : completed > 0 && !done
+      ? `Resume from ${completed + 1} of ${total}`
+      : `Import ${total} Readings`;
+
+  return (
+    <div className="modal-overlay">
+      <div className="create-modal import-modal metal-card">
+        <div className="modal-header">
+          <h2>Import Meter Data</h2>
+          <button onClick={onClose} className="close-modal">
+            &times;
+          </button>
+        </div>
+
+        <div className="modal-body">
+          <div className="fhe-notice-banner">
+            <div className="key-icon"></div> Each hourly reading is encrypted
+            before it leaves your browser
+          </div>
+
+          <div className="form-group">
+            <label>Utility Export (CSV or Green Button XML) *</label>
+            <input
+              type="file"
+              accept=".csv,.xml,text/csv,application/xml"
+              onChange={handleFile}
+              disabled={importing}
+              className="metal-input"
+            />
+          </div>
+
+          <div className="form-group">
+            <label>Building System *</label>
+            <select
+              value={systemKey}
+              onChange={handleSystemChange}
+              disabled={importing}
+              className="metal-input"
+            >
+              {systems.map((key) => (
+                <option key={key} value={key}>
+                  {key}
+                </option>
+              ))}
+            </select>
+          </div>
+
+          {parsed && (
+            <>
+              <div className="import-summary">
+                {fileName}: {parsed.format === "csv" ? "CSV" : "Green Button"},{" "}
+                {total} hourly readings
+                {parsed.errors.length > 0 &&
+                  `, ${parsed.errors.length} skipped rows`}
+              </div>
+
+              {total > 0 && (
+                <div className="import-preview">
+                  <div className="import-row header">
+                    <span>Hour</span>
+                    <span>Metered</span>
+                    <span>Submitted</span>
+                  </div>
+                  {parsed.readings.slice(0, PREVIEW_ROWS).map((reading) => (
+                    <div className="import-row" key={reading.timestamp}>
+                      <span>
+                        {new Date(reading.timestamp * 1000).toLocaleString()}
+                      </span>
+                      <span>{Number(reading.kwh.toFixed(3))} kWh</span>
+                      <span>{reading.tenantUsage} kWh</span>
+                    </div>
+                  ))}
+                  {total > PREVIEW_ROWS && (
+                    <div className="import-row more">
+                      ...and {total - PREVIEW_ROWS} more
+                    </div>
+                  )}
+                </div>
+              )}
+
+              {parsed.errors.length > 0 && (
+                <div className="import-errors">
+                  {parsed.errors.map((rowError, index) => (
+                    <div key={index}>
+                      Line {rowError.line}: {rowError.message}
+                    </div>
+                  ))}
+                </div>
+              )}
+            </>
+          )}
+
+          {(importing || completed > 0) && total > 0 && (
+            <div className="import-progress">
+              <div
+                className="import-progress-bar"
+                style={{ width: `${(completed / total) * 100}%` }}
+              ></div>
+              <span>
+                {completed} / {total} submitted
+              </span>
+            </div>
+          )}
+
+          {done && <div className="import-done">All readings imported</div>}
+          {error && <div className="import-error-message">{error}</div>}
+        </div>
+
+        <div className="modal-footer">
+          <button onClick={onClose} className="cancel-btn metal-button">
+            {done ? "Close" : "Cancel"}
+          </button>
+          <button
+            onClick={runImport}
+            disabled={importing || done || total === 0}
+            className="submit-btn metal-button primary"
+          >
+            {actionLabel}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ImportModal;
@@ -0,0 +1,144 @@
+import React, { useEffect, useState } from "react";
+import {
+  DECRYPTION_RETRY_DELAY_SECONDS,
+  DecryptionPendingError,
+  type TrackedReveal,
+} from "@sdk";
+import { getEnergyClientWithSigner, revealTracker } from "../contract";
+
+interface RevealsCardProps {
+  account: string;
+  onChanged: () => Promise<void>;
+}
+
+const formatDuration = (seconds: number) => {
+  const s = Math.max(0, Math.round(seconds));
+  return s >= 60 ? `${Math.floor(s / 60)}m ${s % 60}s` : `${s}s`;
+};
+
+const STATE_LABELS: Record<TrackedReveal["state"], string> = {
+  pending: "Awaiting oracle",
+  "timed-out": "No answer",
+  revealed: "Revealed",
+};
+
+const RevealsCard: React.FC<RevealsCardProps> = ({ account, onChanged }) => {
+  const [reveals, setReveals] = useState<TrackedReveal[]>(() =>
+    revealTracker.list(),
+  );
+  const [now, setNow] = useState(() => Math.floor(Date.now() / 1000));
+  const [busy, setBusy] = useState<number | null>(null);
+  const [error, setError] = useState("");
+
+  useEffect(() => revealTracker.onChange(setReveals), []);
+
+  // Timeouts pass without a tracker change, so re-read the states while any are waiting
+  const waiting = reveals.some((r) => r.state !== "revealed");
+  useEffect(() => {
+    if (!waiting) return;
+    const timer = setInterval(() => {
+      setNow(Math.floor(Date.now() / 1000));
+      setReveals(revealTracker.list());
+    }, 1000);
+    return () => clearInterval(timer);
+  }, [waiting]);
+
+  if (reveals.length === 0) return null;
+
+  const retry = async (dataId: number) => {
+    setBusy(dataId);
+    setError("");
+    try {
+      const client = await getEnergyClientWithSigner();
+      revealTracker.track(await client.requestReveal(dataId));
+      await onChanged();
+    } catch (e: any) {
+      setError(
+        e instanceof DecryptionPendingError
+          ? `Reading #${dataId} still has a request in flight; try again once the retry opens`
+          : e.message?.includes("user rejected")
+            ? "Request rejected"
+            : "Retry failed: " + (e.message || "Unknown error"),
+      );
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  return (
+    <div className="reveals-card metal-card">
+      <h3>Public Reveals</h3>
+      <p className="aggregate-note">
+        Reveals requested from this browser, followed until the oracle publishes
+        the reading. A request without an answer can be retried after{" "}
+        {formatDuration(DECRYPTION_RETRY_DELAY_SECONDS)}.
+      </p>
+      <div className="aggregate-history">
+        {reveals.map((reveal) => {
+          const elapsed = now - reveal.requestedAt;
+          return (
+            <div className="reveals-row" key={reveal.dataId}>
+              <div className="history-row">
+                <span>Reading #{reveal.dataId}</span>
+                <span className={`status-badge ${reveal.state}`}>
+                  {STATE_LABELS[reveal.state]}
+                </span>
+              </div>
+              {reveal.state === "pending" && (
+                <div className="reveal-progress">
+                  <div
+                    className="reveal-progress-fill"
+                    style={{
+                      width: `${Math.min(100, (elapsed / DECRYPTION_RETRY_DELAY_SECONDS) * 100)}%`,
+                    }}
+                  ></div>
+                </div>
+              )}
+              <div className="breakdown-stats">
+                <span>
+                  Request{" "}
+                  {reveal.requestId.length > 10
+                    ? `${reveal.requestId.slice(0, 10)}…`
+                    : reveal.requestId}
+                  {reveal.attempts > 1 ? ` · attempt ${reveal.attempts}` : ""}
+                </span>
+                <span>
+                  {reveal.state === "revealed"
+                    ? `after ${formatDuration(reveal.revealedAt! - reveal.requestedAt)}`
+                    : `waiting ${formatDuration(elapsed)}`}
+                </span>
+              </div>
+              <div className="reveals-actions">
+                {reveal.state === "timed-out" && account && (
+                  <button
+                    className="action-btn metal-button"
+                    onClick={() => retry(reveal.dataId)}
+                    disabled={busy !== null || now < reveal.retryAt}
+                  >
+                    {busy === reveal.dataId
+                      ? "Retrying..."
+                      : now < reveal.retryAt
+                        ? `Retry in ${formatDuration(reveal.retryAt - now)}`
+                        : "Retry"}
+                  </button>
+                )}
+                {reveal.state !== "pending" && (
+                  <button
+                    className="action-btn metal-button"
+                    onClick={() => revealTracker.remove(reveal.dataId)}
+                    disabled={busy === reveal.dataId}
+                  >
+                    Dismiss
+                  </button>
+                )}
+              </div>
+            </div>
+          );
+        })}
+      </div>
+      {error && <p className="reveals-error">{error}</p>}
+    </div>
+  );
+};
+
+export default RevealsCard;
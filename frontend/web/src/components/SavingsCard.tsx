@@ -0,0 +1,205 @@
+import React, { useEffect, useRef, useState } from "react";
+import type {
+  DecryptedSavingsCredit,
+  DecryptedTenantSavings,
+  RecordedSavingsPeriod,
+  SmartBuildingEnergyClient,
+} from "@sdk";
+import { getEnergyClientWithSigner } from "../contract";
+import { getFhevmInstance } from "../fhe";
+
+interface SavingsCardProps {
+  account: string;
+  periods: RecordedSavingsPeriod[];
+}
+
+const formatKwh = (wh: number) => `${(wh / 1000).toFixed(1)} kWh`;
+
+const formatPeriod = (period: RecordedSavingsPeriod) =>
+  `${new Date(period.periodStart * 1000).toLocaleDateString()} – ${new Date(period.periodEnd * 1000).toLocaleDateString()}`;
+
+const SavingsCard: React.FC<SavingsCardProps> = ({ account, periods }) => {
+  const [credit, setCredit] = useState<DecryptedSavingsCredit | null>(null);
+  // Shares are encrypted for each tenant, so they stay unknown until the wallet decrypts them
+  const [shares, setShares] = useState<DecryptedTenantSavings[] | null>(null);
+  const [decrypting, setDecrypting] = useState(false);
+  const [creditError, setCreditError] = useState("");
+  // Keeps the signed decryption request, so the wallet only prompts once per session
+  const clientRef = useRef<SmartBuildingEnergyClient | null>(null);
+
+  useEffect(() => {
+    setCredit(null);
+    setShares(null);
+    setCreditError("");
+    clientRef.current = null;
+  }, [account]);
+
+  const decryptCredit = async () => {
+    setDecrypting(true);
+    setCreditError("");
+    try {
+      if (!clientRef.current) {
+        clientRef.current = await getEnergyClientWithSigner({
+          decryptor: await getFhevmInstance(),
+        });
+      }
+      // One after the other, so both reuse the same signed request
+      setCredit(await clientRef.current.decryptSavingsCredit());
+      setShares(await clientRef.current.decryptTenantSavings());
+    } catch (e: any) {
+      setCreditError(
+        e.message?.includes("user rejected")
+          ? "Signature rejected"
+          : "Decryption failed: " + (e.message || "Unknown error"),
+      );
+    } finally {
+      setDecrypting(false);
+    }
+  };
+
+  const shareOf = (period: RecordedSavingsPeriod) =>
+    shares?.find((s) => s.periodId === period.periodId);
+
+  const buildingWh = periods.reduce((sum, p) => sum + p.savingsKwh * 1000, 0);
+  const yourWh = shares?.reduce((sum, s) => sum + s.savingsWh, 0) ?? 0;
+
+  const describeCheck = (period: RecordedSavingsPeriod) =>
+    period.check === "matched"
+      ? ""
+      : period.check === "pending"
+        ? " · check pending"
+        : " · shares do not add up";
+
+  const renderCredit = () => (
+    <div className="savings-credit">
+      <h4>Your Encrypted Savings</h4>
+      <p className="aggregate-note">
+        Your share of each period and your credits are shared with your address
+        only. Decrypting signs a request in your wallet; nothing is published.
+      </p>
+      {credit && (
+        <div className="savings-credit-values">
+          <div className="history-row">
+            <span>Last period</span>
+            <span>
+              {credit.computedAt === 0n
+                ? "Not settled yet"
+                : `${credit.lastCredit} kWh`}
+            </span>
+          </div>
+          <div className="history-row">
+            <span>All periods</span>
+            <span>{credit.totalCredits} kWh</span>
+          </div>
+          {credit.openPeriod && (
+            <div className="history-row">
+              <span>
+                Open since{" "}
+                {new Date(
+                  Number(credit.openPeriod.startedAt) * 1000,
+                ).toLocaleDateString()}
+              </span>
+              <span>
+                {credit.openPeriod.usageKwh} / {credit.openPeriod.baselineKwh}{" "}
+                kWh
+              </span>
+            </div>
+          )}
+        </div>
+      )}
+      {creditError && <p className="savings-credit-error">{creditError}</p>}
+      <button
+        className="metal-button"
+        onClick={decryptCredit}
+        disabled={decrypting}
+      >
+        {decrypting
+          ? "Decrypting..."
+          : credit
+            ? "Refresh"
+            : "Decrypt My Savings"}
+      </button>
+    </div>
+  );
+
+  return (
+    <div className="savings-card metal-card">
+      <h3>Savings Distribution</h3>
+      {periods.length === 0 ? (
+        <p className="aggregate-note">
+          No billing period has been settled yet. The building manager records
+          each period's split once it closes.
+        </p>
+      ) : (
+        <>
+          <div className="stats-grid">
+            <div className="stat-item">
+              <div className="stat-value">{formatKwh(buildingWh)}</div>
+              <div className="stat-label">Building Savings</div>
+            </div>
+            <div className="stat-item">
+              <div className="stat-value">
+                {account && shares ? formatKwh(yourWh) : "—"}
+              </div>
+              <div className="stat-label">Your Share</div>
+            </div>
+          </div>
+          {!account && (
+            <p className="aggregate-note savings-hint">
+              Connect your wallet to see your share of each period.
+            </p>
+          )}
+          {account && !shares && (
+            <p className="aggregate-note savings-hint">
+              Only the building's total is public; decrypt below to see your own
+              share.
+            </p>
+          )}
+          <div className="aggregate-history">
+            <h4>Billing Periods</h4>
+            {periods
+              .slice()
+              .reverse()
+              .map((period) => {
+                const share = shareOf(period);
+                const percent =
+                  period.savingsKwh > 0 && share
+                    ? (share.savingsWh / (period.savingsKwh * 1000)) * 100
+                    : 0;
+                return (
+                  <div className="savings-period" key={period.periodId}>
+                    <div className="history-row">
+                      <span>
+                        #{period.periodId} · {formatPeriod(period)}
+                      </span>
+                      <span>{period.savingsKwh} kWh saved</span>
+                    </div>
+                    <div className="breakdown-stats">
+                      <span>
+                        {period.method === "shapley"
+                          ? "Shapley value"
+                          : "Proportional"}{" "}
+                        · {period.tenants.length} tenants{describeCheck(period)}
+                      </span>
+                      <span>
+                        {!account
+                          ? ""
+                          : !shares
+                            ? "Encrypted"
+                            : share
+                              ? `You: ${formatKwh(share.savingsWh)} (${percent.toFixed(1)}%)`
+                              : "No share"}
+                      </span>
+                    </div>
+                  </div>
+                );
+              })}
+          </div>
+        </>
+      )}
+      {account && renderCredit()}
+    </div>
+  );
+};
+
+export default SavingsCard;
@@ -0,0 +1,289 @@
+import React, { useState } from "react";
+import {
+  InsufficientHistoryError,
+  MIN_FORECAST_HISTORY_HOURS,
+  forecastLoad,
+  loadSeriesFromReveals,
+  optimizeSchedule,
+  type OptimizedSchedule,
+  type RevealedLoadSum,
+} from "@sdk";
+
+interface SchedulePageProps {
+  systems: string[];
+  initialSystem: string;
+  loadSumHistories: Record<string, RevealedLoadSum[]>;
+}
+
+interface ScheduleSettings {
+  horizonHours: number;
+  basePrice: number;
+  peakPrice: number;
+  peakStart: number;
+  peakEnd: number;
+  hvacSharePct: number;
+  comfortMin: number;
+  comfortMax: number;
+  baselineSetpoint: number;
+  setbackSetpoint: number;
+  lightingSharePct: number;
+  minDimPct: number;
+  occupiedStart: number;
+  occupiedEnd: number;
+}
+
+const DEFAULT_SETTINGS: ScheduleSettings = {
+  horizonHours: 24,
+  basePrice: 0.12,
+  peakPrice: 0.32,
+  peakStart: 16,
+  peakEnd: 21,
+  hvacSharePct: 45,
+  comfortMin: 21,
+  comfortMax: 25,
+  baselineSetpoint: 23,
+  setbackSetpoint: 28,
+  lightingSharePct: 20,
+  minDimPct: 70,
+  occupiedStart: 8,
+  occupiedEnd: 18,
+};
+
+const WEEKDAYS = [1, 2, 3, 4, 5];
+
+const MODE_LABELS: Record<string, string> = {
+  comfort: "Comfort",
+  "peak-relief": "Peak relief",
+  precool: "Pre-cool",
+  setback: "Setback",
+};
+
+const SchedulePage: React.FC<SchedulePageProps> = ({
+  systems,
+  initialSystem,
+  loadSumHistories,
+}) => {
+  const [systemKey, setSystemKey] = useState(initialSystem);
+  const [settings, setSettings] = useState(DEFAULT_SETTINGS);
+
+  // The dashboard shows building-local times, so schedule in the browser's offset too
+  const utcOffsetMinutes = -new Date().getTimezoneOffset();
+
+  let schedule: OptimizedSchedule | null = null;
+  let error = "";
+  try {
+    const forecast = forecastLoad(
+      loadSeriesFromReveals(loadSumHistories[systemKey] ?? []),
+      { horizonHours: settings.horizonHours },
+    );
+    const occupancy = [
+      {
+        days: WEEKDAYS,
+        startHour: settings.occupiedStart,
+        endHour: settings.occupiedEnd,
+      },
+    ];
+    schedule = optimizeSchedule(forecast.points, {
+      utcOffsetMinutes,
+      tariff: {
+        currency: "USD",
+        basePricePerKwh: settings.basePrice,
+        periods: [
+          {
+            label: "peak",
+            startHour: settings.peakStart,
+            endHour: settings.peakEnd,
+            pricePerKwh: settings.peakPrice,
+            days: WEEKDAYS,
+          },
+        ],
+      },
+      hvacZones: [
+        {
+          id: `${systemKey} HVAC`,
+          loadShare: settings.hvacSharePct / 100,
+          comfortMinC: settings.comfortMin,
+          comfortMaxC: settings.comfortMax,
+          baselineSetpointC: settings.baselineSetpoint,
+          unoccupiedSetpointC: settings.setbackSetpoint,
+          occupancy,
+        },
+      ],
+      lightingZones: [
+        {
+          id: `${systemKey} lighting`,
+          loadShare: settings.lightingSharePct / 100,
+          minOccupiedLevel: settings.minDimPct / 100,
+          occupancy,
+        },
+      ],
+    });
+  } catch (e: any) {
+    error =
+      e instanceof InsufficientHistoryError
+        ? `Schedules need a forecast, which needs ${MIN_FORECAST_HISTORY_HOURS} hours between the first and latest aggregate reveal of ${systemKey}.`
+        : e.message;
+  }
+
+  const handleChange = (
+    e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement>,
+  ) => {
+    const { name, value } = e.target;
+    setSettings({ ...settings, [name]: Number(value) });
+  };
+
+  const field = (name: keyof ScheduleSettings, label: string, step = 1) => (
+    <div className="form-group">
+      <label>{label}</label>
+      <input
+        type="number"
+        name={name}
+        step={step}
+        value={settings[name]}
+        onChange={handleChange}
+        className="metal-input"
+      />
+    </div>
+  );
+
+  const money = (value: number) => `$${value.toFixed(2)}`;
+
+  return (
+    <div className="schedule-page">
+      <div className="schedule-settings metal-card">
+        <h3>Optimization Inputs</h3>
+        <div className="form-group">
+          <label>Building System</label>
+          <select
+            value={systemKey}
+            onChange={(e) => setSystemKey(e.target.value)}
+            className="metal-input"
+          >
+            {systems.map((key) => (
+              <option key={key} value={key}>
+                {key}
+              </option>
+            ))}
+          </select>
+        </div>
+        <div className="form-group">
+          <label>Horizon</label>
+          <select
+            name="horizonHours"
+            value={settings.horizonHours}
+            onChange={handleChange}
+            className="metal-input"
+          >
+            <option value={24}>24 hours</option>
+            <option value={72}>3 days</option>
+            <option value={168}>7 days</option>
+          </select>
+        </div>
+
+        <h4>Time-of-Use Tariff ($/kWh)</h4>
+        <div className="schedule-fields">
+          {field("basePrice", "Off-peak", 0.01)}
+          {field("peakPrice", "Peak", 0.01)}
+          {field("peakStart", "Peak from (h)")}
+          {field("peakEnd", "Peak until (h)")}
+        </div>
+
+        <h4>Occupancy (weekdays)</h4>
+        <div className="schedule-fields">
+          {field("occupiedStart", "From (h)")}
+          {field("occupiedEnd", "Until (h)")}
+        </div>
+
+        <h4>HVAC</h4>
+        <div className="schedule-fields">
+          {field("hvacSharePct", "Share of load (%)")}
+          {field("baselineSetpoint", "Current setpoint (°C)", 0.5)}
+          {field("comfortMin", "Comfort min (°C)", 0.5)}
+          {field("comfortMax", "Comfort max (°C)", 0.5)}
+          {field("setbackSetpoint", "Unoccupied setback (°C)", 0.5)}
+        </div>
+
+        <h4>Lighting</h4>
+        <div className="schedule-fields">
+          {field("lightingSharePct", "Share of load (%)")}
+          {field("minDimPct", "Min occupied level (%)")}
+        </div>
+      </div>
+
+      <div className="schedule-results">
+        {schedule ? (
+          <>
+            <div className="schedule-summary">
+              <div className="stat-item metal-card">
+                <div className="stat-value">
+                  {Math.round(schedule.baselineKwh)}
+                </div>
+                <div className="stat-label">Forecast kWh</div>
+              </div>
+              <div className="stat-item metal-card">
+                <div className="stat-value">{Math.round(schedule.kwh)}</div>
+                <div className="stat-label">Optimized kWh</div>
+              </div>
+              <div className="stat-item metal-card">
+                <div className="stat-value">
+                  {Math.round(schedule.kwhSavings)}
+                </div>
+                <div className="stat-label">kWh Saved</div>
+              </div>
+              <div className="stat-item metal-card">
+                <div className="stat-value">{money(schedule.costSavings)}</div>
+                <div className="stat-label">
+                  Saved of {money(schedule.baselineCost)}
+                </div>
+              </div>
+            </div>
+
+            <div className="schedule-table metal-card">
+              <div className="schedule-row header">
+                <span>Hour</span>
+                <span>Rate</span>
+                <span>HVAC</span>
+                <span>Lighting</span>
+                <span>Forecast</span>
+                <span>Optimized</span>
+              </div>
+              {schedule.hours.map((hour) => {
+                const hvac = hour.hvac[0];
+                const lighting = hour.lighting[0];
+                return (
+                  <div
+                    className={`schedule-row ${hour.rate.label}`}
+                    key={hour.timestamp}
+                  >
+                    <span>
+                      {new Date(hour.timestamp * 1000).toLocaleString([], {
+                        weekday: "short",
+                        hour: "2-digit",
+                        minute: "2-digit",
+                      })}
+                    </span>
+                    <span>
+                      {hour.rate.label} · ${hour.rate.pricePerKwh.toFixed(2)}
+                    </span>
+                    <span className={`schedule-mode ${hvac.mode}`}>
+                      {MODE_LABELS[hvac.mode]} {hvac.setpointC}°C
+                    </span>
+                    <span>{Math.round(lighting.level * 100)}%</span>
+                    <span>{hour.baselineKwh.toFixed(1)} kWh</span>
+                    <span>{hour.kwh.toFixed(1)} kWh</span>
+                  </div>
+                );
+              })}
+            </div>
+          </>
+        ) : (
+          <div className="metal-card schedule-empty">
+            <p>{error}</p>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default SchedulePage;
@@ -1,10 +1,39 @@
 // contract.ts
 import { ethers } from "ethers";
-import abiJson from "./abi/UniversalAdapter.json";
+import { SmartBuildingEnergyFHE__factory } from "@contracts";
+import {
+  IndexerClient,
+  RevealTracker,
+  SmartBuildingEnergyClient,
+  type AttestationVerdict,
+  type EnergyClientOptions,
+  type Unsubscribe
+} from "@sdk";
 import configJson from "./config.json";
 
-export const ABI = (abiJson as any).abi || abiJson;
-export const config = configJson;
+export const ABI = SmartBuildingEnergyFHE__factory.abi;
+// `indexerUrl` is only present when the deployment was pointed at an event indexer
+export const config: typeof configJson & { indexerUrl?: string } = configJson;
+
+/** Reveals requested from this browser, kept across reloads and separately per contract. */
+export const revealTracker = new RevealTracker({
+  storage: window.localStorage,
+  storageKey: `energy-reveals:${config.contractAddress.toLowerCase()}`
+});
+
+export interface EnergyEvents {
+  decryptionRequested: Set<number>;
+  decrypted: Set<number>;
+}
+
+/** A reading as its submission event reports it; handles and billing epoch need a contract call. */
+export interface SubmittedRecord {
+  id: number;
+  tenant: string;
+  systemKey: string;
+  /** Block timestamp of the submission, unix seconds. */
+  timestamp: number;
+}
 
 const retry = async <T>(fn: () => Promise<T>, retries = 3, delay = 1000): Promise<T> => {
   try {
@@ -18,48 +47,137 @@ const retry = async <T>(fn: () => Promise<T>, retries = 3, delay = 1000): Promis
   }
 };
 
-const getTestnetProvider = async () => {
-  const rpcUrls = [
-    "https://sepolia.infura.io/v3/96406da962744120afbe0cf64c8bd7b3",
-    "https://rpc.sepolia.org",
-    "https://rpc2.sepolia.org",
-    "https://eth-sepolia.public.blastapi.io"
-  ];
-  
-  for (const url of rpcUrls) {
-    try {
-      const provider = new ethers.JsonRpcProvider(url, {
-        name: "sepolia",
-        chainId: 11155111
+// Public RPCs reject eth_getLogs over long ranges; the indexer's default chunk size
+const MAX_LOG_BLOCK_RANGE = 2_000;
+
+/** Run `query` over `fromBlock` up to the head, at most `MAX_LOG_BLOCK_RANGE` blocks at a time. */
+const queryInChunks = async <T>(
+  client: SmartBuildingEnergyClient,
+  fromBlock: number,
+  query: (from: number, to: number) => Promise<T[]>
+): Promise<T[]> => {
+  const provider = client.contract.runner?.provider ?? getReadOnlyProvider();
+  const head = await retry(() => provider.getBlockNumber());
+  const logs: T[] = [];
+  for (let from = fromBlock; from <= head; from += MAX_LOG_BLOCK_RANGE) {
+    const to = Math.min(head, from + MAX_LOG_BLOCK_RANGE - 1);
+    logs.push(...await retry(() => query(from, to)));
+  }
+  return logs;
+};
+
+// Contract reads in flight at once when a list needs one call per item
+const READ_CONCURRENCY = 8;
+
+/** Map `items` through `read`, `READ_CONCURRENCY` at a time, keeping their order. */
+export async function readInBatches<T, R>(items: T[], read: (item: T) => Promise<R>): Promise<R[]> {
+  const results: R[] = [];
+  for (let i = 0; i < items.length; i += READ_CONCURRENCY) {
+    results.push(...await Promise.all(items.slice(i, i + READ_CONCURRENCY).map(item => retry(() => read(item)))));
+  }
+  return results;
+}
+
+// The deploy script records the endpoint and chain of the deployment it points us at.
+// A new provider per call, since the live subscription destroys its own when reconnecting.
+const getReadOnlyProvider = () => {
+  if (!config.network) {
+    throw new Error("config.json names no RPC endpoint; rerun the deploy script for this network");
+  }
+  return new ethers.JsonRpcProvider(config.network, config.chainId, { staticNetwork: true });
+};
+
+export async function queryEnergyEvents(
+  client: SmartBuildingEnergyClient,
+  fromBlock: number = config.deployBlock
+): Promise<EnergyEvents> {
+  const { contract } = client;
+  const [requestedLogs, decryptedLogs] = await Promise.all([
+    queryInChunks(client, fromBlock, (from, to) =>
+      contract.queryFilter(contract.filters.DecryptionRequested, from, to)),
+    queryInChunks(client, fromBlock, (from, to) =>
+      contract.queryFilter(contract.filters.EnergyDataDecrypted, from, to))
+  ]);
+
+  return {
+    decryptionRequested: new Set(requestedLogs.map(log => Number(log.args.id))),
+    decrypted: new Set(decryptedLogs.map(log => Number(log.args.id)))
+  };
+}
+
+/** Every reading submitted since `fromBlock`, single or batched, from the submission events alone. */
+export async function querySubmissions(
+  client: SmartBuildingEnergyClient,
+  fromBlock: number = config.deployBlock
+): Promise<SubmittedRecord[]> {
+  const { contract } = client;
+  const [singleLogs, batchLogs] = await Promise.all([
+    queryInChunks(client, fromBlock, (from, to) =>
+      contract.queryFilter(contract.filters.EnergyDataSubmitted, from, to)),
+    queryInChunks(client, fromBlock, (from, to) =>
+      contract.queryFilter(contract.filters.EnergyDataBatchSubmitted, from, to))
+  ]);
+
+  const records: SubmittedRecord[] = singleLogs.map(log => ({
+    id: Number(log.args.id),
+    tenant: log.args.tenant,
+    systemKey: log.args.systemKey,
+    timestamp: Number(log.args.timestamp)
+  }));
+  // A batch is one event for a run of consecutive ids
+  batchLogs.forEach(log => {
+    for (let id = Number(log.args.firstId); id <= Number(log.args.lastId); id++) {
+      records.push({
+        id,
+        tenant: log.args.tenant,
+        systemKey: log.args.systemKey,
+        timestamp: Number(log.args.timestamp)
       });
-      
-      const blockNumber = await Promise.race([
-        provider.getBlockNumber(),
-        new Promise((_, reject) => 
-          setTimeout(() => reject(new Error("RPC timeout")), 10000)
-        )
-      ]);
-      
-      console.log(`Connected to RPC ${url}, block: ${blockNumber}`);
-      return provider;
-    } catch (error) {
-      console.warn(`RPC ${url} failed: ${error.message}`);
     }
-  }
+  });
+  return records;
+}
+
+/** The verdict in force per reading, replayed from the verifier's attestation events. */
+export async function queryAttestationVerdicts(
+  client: SmartBuildingEnergyClient,
+  fromBlock: number = config.deployBlock
+): Promise<Record<number, AttestationVerdict>> {
+  const { contract } = client;
+  const [attestedLogs, disputedLogs] = await Promise.all([
+    queryInChunks(client, fromBlock, (from, to) =>
+      contract.queryFilter(contract.filters.ReadingAttested, from, to)),
+    queryInChunks(client, fromBlock, (from, to) =>
+      contract.queryFilter(contract.filters.ReadingDisputed, from, to))
+  ]);
+
+  const logs = [
+    ...attestedLogs.map(log => ({ log, verdict: "attested" as const })),
+    ...disputedLogs.map(log => ({ log, verdict: "disputed" as const }))
+  ].sort((a, b) => a.log.blockNumber - b.log.blockNumber || a.log.index - b.log.index);
   
-  throw new Error("All RPC providers failed");
-};
+  const verdicts: Record<number, AttestationVerdict> = {};
+  logs.forEach(({ log, verdict }) => {
+    verdicts[Number(log.args.id)] = verdict;
+  });
+  return verdicts;
+}
 
 export async function getContractReadOnly() {
+  // The committed config names no deployment until the deploy script rewrites it
+  if (config.contractAddress === ethers.ZeroAddress) {
+    console.error("No deployment configured; run `npx hardhat run deploy/deploy.ts --network sepolia`");
+    return null;
+  }
   try {
-    const provider = await getTestnetProvider();
-    const contract = new ethers.Contract(config.contractAddress, ABI, provider);
-    
+    const provider = getReadOnlyProvider();
+    const contract = SmartBuildingEnergyFHE__factory.connect(config.contractAddress, provider);
+
     const code = await retry(() => provider.getCode(config.contractAddress));
     if (code === "0x") {
       return null;
     }
-    
+
     return contract;
   } catch (error) {
     console.error("Failed to create read-only contract:", error);
@@ -74,7 +192,7 @@ export async function getContractWithSigner() {
   try {
     const provider = new ethers.BrowserProvider((window as any).ethereum);
     const signer = await provider.getSigner();
-    const contract = new ethers.Contract(config.contractAddress, ABI, signer);
+    const contract = SmartBuildingEnergyFHE__factory.connect(config.contractAddress, signer);
     return contract;
   } catch (error) {
     console.error("Failed to create contract with signer:", error);
@@ -82,6 +200,130 @@ export async function getContractWithSigner() {
   }
 }
 
-export function normAddr(a: string) { 
-  return a ? a.toLowerCase() : a; 
-}
\ No newline at end of file
+export async function getEnergyClientReadOnly() {
+  const contract = await getContractReadOnly();
+  return contract ? new SmartBuildingEnergyClient(contract) : null;
+}
+
+export async function getEnergyClientWithSigner(options?: EnergyClientOptions) {
+  return new SmartBuildingEnergyClient(await getContractWithSigner(), options);
+}
+
+/** Client for the configured event indexer, or null to scan the contract instead. */
+export function getIndexerClient() {
+  return config.indexerUrl ? new IndexerClient(config.indexerUrl) : null;
+}
+
+export type LiveStatus = "connecting" | "live" | "reconnecting";
+
+export interface LiveEnergyHandlers {
+  onSubmitted: (client: SmartBuildingEnergyClient, dataIds: number[]) => void;
+  onRevealRequested: (client: SmartBuildingEnergyClient, dataId: number) => void;
+  onRevealed: (client: SmartBuildingEnergyClient, dataId: number) => void;
+  onAttestation: (client: SmartBuildingEnergyClient, dataId: number, verdict: AttestationVerdict) => void;
+  /** Called after a reconnect: events emitted while disconnected were missed. */
+  onResync: () => void;
+}
+
+const HEARTBEAT_INTERVAL_MS = 15000;
+const HEARTBEAT_TIMEOUT_MS = 10000;
+const MAX_RECONNECT_DELAY_MS = 30000;
+
+/**
+ * Follow submissions, reveals and verifier verdicts on the contract. Every heartbeat checks the RPC still
+ * answers; when it does not, the listeners are dropped and rebuilt on a fresh provider,
+ * backing off exponentially between attempts. Returns a function that stops following.
+ */
+export function subscribeEnergyEvents(
+  handlers: LiveEnergyHandlers,
+  onStatus: (status: LiveStatus) => void
+): () => void {
+  let stopped = false;
+  let wasLive = false;
+  let attempt = 0;
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  let provider: ethers.Provider | null = null;
+  let unsubscribes: Unsubscribe[] = [];
+
+  const teardown = async () => {
+    const current = unsubscribes;
+    unsubscribes = [];
+    await Promise.all(current.map(unsubscribe => unsubscribe().catch(() => {})));
+    provider?.destroy();
+    provider = null;
+  };
+
+  const scheduleReconnect = () => {
+    if (stopped) return;
+    const delay = Math.min(1000 * 2 ** attempt, MAX_RECONNECT_DELAY_MS);
+    attempt++;
+    onStatus(wasLive ? "reconnecting" : "connecting");
+    timer = setTimeout(connect, delay);
+  };
+
+  const heartbeat = () => {
+    timer = setTimeout(async () => {
+      try {
+        await Promise.race([
+          provider!.getBlockNumber(),
+          new Promise((_, reject) =>
+            setTimeout(() => reject(new Error("Heartbeat timeout")), HEARTBEAT_TIMEOUT_MS)
+          )
+        ]);
+        if (!stopped) heartbeat();
+      } catch (error) {
+        console.warn("Lost the event subscription, reconnecting:", error);
+        await teardown();
+        scheduleReconnect();
+      }
+    }, HEARTBEAT_INTERVAL_MS);
+  };
+
+  const connect = async () => {
+    if (stopped) return;
+    try {
+      const client = await getEnergyClientReadOnly();
+      if (!client) throw new Error("Contract not found");
+      provider = client.contract.runner!.provider;
+      unsubscribes = await Promise.all([
+        client.onReadingSubmitted(id => handlers.onSubmitted(client, [Number(id)])),
+        client.onBatchSubmitted(({ firstId, lastId }) =>
+          handlers.onSubmitted(
+            client,
+            Array.from({ length: Number(lastId - firstId) + 1 }, (_, i) => Number(firstId) + i)
+          )
+        ),
+        client.onRevealRequested(id => handlers.onRevealRequested(client, Number(id))),
+        client.onReadingRevealed(id => handlers.onRevealed(client, Number(id))),
+        client.onReadingAttested(id => handlers.onAttestation(client, Number(id), "attested")),
+        client.onReadingDisputed(id => handlers.onAttestation(client, Number(id), "disputed"))
+      ]);
+      if (stopped) {
+        await teardown();
+        return;
+      }
+      
+      if (wasLive) handlers.onResync();
+      wasLive = true;
+      attempt = 0;
+      onStatus("live");
+      heartbeat();
+    } catch (error) {
+      console.warn("Event subscription failed:", error);
+      await teardown();
+      scheduleReconnect();
+    }
+  };
+
+  onStatus("connecting");
+  connect();
+  return () => {
+    stopped = true;
+    clearTimeout(timer);
+    teardown();
+  };
+}
+
+export function normAddr(a: string) {
+  return a ? a.toLowerCase() : a;
+}
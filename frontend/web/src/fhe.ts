@@ -0,0 +1,34 @@
+// fhe.ts
+import {
+  createInstance,
+  initSDK,
+  SepoliaConfig,
+} from "@zama-fhe/relayer-sdk/bundle";
+import type {
+  FhevmInstance,
+  FhevmInstanceConfig,
+} from "@zama-fhe/relayer-sdk/bundle";
+
+const resolveConfig = (): FhevmInstanceConfig => {
+  const relayerUrl = import.meta.env.VITE_RELAYER_URL;
+  return {
+    ...SepoliaConfig,
+    network: (window as any).ethereum,
+    ...(relayerUrl ? { relayerUrl } : {}),
+  };
+};
+
+let instancePromise: Promise<FhevmInstance> | null = null;
+
+export function getFhevmInstance(): Promise<FhevmInstance> {
+  if (!instancePromise) {
+    instancePromise = (async () => {
+      await initSDK();
+      return createInstance(resolveConfig());
+    })();
+    instancePromise.catch(() => {
+      instancePromise = null;
+    });
+  }
+  return instancePromise;
+}
@@ -0,0 +1,7 @@
+// src/type/vite-env.d.ts
+/// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  /** Relayer endpoint; the relayer SDK's Sepolia default when unset. */
+  readonly VITE_RELAYER_URL?: string;
+}
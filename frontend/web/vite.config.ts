@@ -1,9 +1,22 @@
+import { fileURLToPath, URL } from "node:url";
 import { defineConfig } from "vite";
 import react from "@vitejs/plugin-react";
 
+// TypeChain bindings and the SDK live at the repo root; share one copy of ethers with them.
+const repoRoot = fileURLToPath(new URL("../..", import.meta.url));
+
 export default defineConfig({
   plugins: [react()],
-  define: {
-    'process.env': process.env
-  }
+  resolve: {
+    alias: {
+      "@contracts": `${repoRoot}types`,
+      "@sdk": `${repoRoot}sdk`,
+    },
+    dedupe: ["ethers"],
+  },
+  server: {
+    fs: {
+      allow: [repoRoot],
+    },
+  },
 });
@@ -0,0 +1,544 @@
+// indexer/graphql.ts
+//
+// GraphQL API over an IndexerStore: readings with their tenants, systems, billing epochs
+// and reveals, plus the revealed aggregates. Lists are Relay-style connections (`first`,
+// `after`, `pageInfo`) and take time ranges in unix seconds. Subscriptions are fed by the
+// EnergyIndexer as it writes new blocks, over the `graphql-transport-ws` protocol.
+import {
+  GraphQLError,
+  type GraphQLFieldResolver,
+  type GraphQLObjectType,
+  type GraphQLSchema,
+  buildSchema,
+  graphql,
+} from "graphql";
+import { useServer } from "graphql-ws/lib/use/ws";
+import type http from "http";
+import { WebSocketServer } from "ws";
+
+import type { IndexedRecord, RecordQuery, RecordStatus } from "../sdk";
+import type { EnergyIndexer } from "./indexer";
+import {
+  type IndexedBillingEpoch,
+  type IndexedEpochTotal,
+  type IndexedLoadSum,
+  type IndexedRange,
+  type IndexedSystem,
+  IndexerStore,
+  type RecordInsert,
+} from "./store";
+
+export const GRAPHQL_PATH = "/graphql";
+
+const TYPE_DEFS = `
+  enum RevealStatus {
+    ENCRYPTED
+    PENDING
+    REVEALED
+  }
+
+  type PageInfo {
+    hasNextPage: Boolean!
+    endCursor: String
+  }
+
+  input ReadingFilter {
+    tenant: String
+    systemKey: String
+    status: RevealStatus
+    billingEpochId: Int
+    "Submission time range in unix seconds, from inclusive and to exclusive."
+    from: Int
+    to: Int
+  }
+
+  type Reading {
+    id: Int!
+    tenant: Tenant!
+    system: BuildingSystem!
+    "Block timestamp of the submission, unix seconds."
+    timestamp: Int!
+    billingEpochId: Int!
+    billingEpoch: BillingEpoch
+    status: RevealStatus!
+    tenantUsageHandle: String!
+    timestampHandle: String!
+    systemLoadHandle: String!
+    blockNumber: Int!
+    transactionHash: String!
+    revealRequestedBlock: Int
+    "Null until the oracle has revealed the reading."
+    reveal: Reveal
+  }
+
+  type Reveal {
+    reading: Reading!
+    tenantUsage: Int!
+    systemLoad: Int!
+    blockNumber: Int!
+  }
+
+  type ReadingConnection {
+    nodes: [Reading!]!
+    totalCount: Int!
+    pageInfo: PageInfo!
+  }
+
+  type Tenant {
+    address: String!
+    readings(filter: ReadingFilter, first: Int, after: String): ReadingConnection!
+    "Sum of the tenant's oracle-revealed usage, kWh."
+    revealedUsage: Int!
+  }
+
+  type BuildingSystem {
+    key: String!
+    "Registration block; null for systems registered before the indexed range."
+    blockNumber: Int
+    readings(filter: ReadingFilter, first: Int, after: String): ReadingConnection!
+    loadSums(from: Int, to: Int, first: Int, after: String): LoadSumConnection!
+    latestLoadSum: LoadSum
+    epochTotals: [EpochTotal!]!
+  }
+
+  type LoadSum {
+    system: BuildingSystem!
+    "1-based position of the reveal in the system's history."
+    revealIndex: Int!
+    sum: Int!
+    revealedAt: Int!
+    blockNumber: Int!
+    transactionHash: String!
+  }
+
+  type LoadSumConnection {
+    nodes: [LoadSum!]!
+    totalCount: Int!
+    pageInfo: PageInfo!
+  }
+
+  type BillingEpoch {
+    id: Int!
+    startedAt: Int!
+    "Null while the epoch is open."
+    closedAt: Int
+    readings(filter: ReadingFilter, first: Int, after: String): ReadingConnection!
+    totals: [EpochTotal!]!
+  }
+
+  type EpochTotal {
+    billingEpoch: BillingEpoch!
+    system: BuildingSystem!
+    sum: Int!
+    blockNumber: Int!
+  }
+
+  type RecordCounts {
+    encrypted: Int!
+    pending: Int!
+    revealed: Int!
+  }
+
+  type IndexerStatus {
+    contractAddress: String
+    chainId: Int
+    fromBlock: Int
+    lastBlock: Int
+    records: RecordCounts!
+  }
+
+  type Query {
+    status: IndexerStatus!
+    reading(id: Int!): Reading
+    readings(filter: ReadingFilter, first: Int, after: String): ReadingConnection!
+    "Null if the address has not submitted a reading."
+    tenant(address: String!): Tenant
+    tenants: [Tenant!]!
+    system(key: String!): BuildingSystem
+    systems: [BuildingSystem!]!
+    billingEpoch(id: Int!): BillingEpoch
+    billingEpochs: [BillingEpoch!]!
+    loadSums(systemKey: String, from: Int, to: Int, first: Int, after: String): LoadSumConnection!
+  }
+
+  type Subscription {
+    readingSubmitted(tenant: String, systemKey: String): Reading!
+    readingRevealed(tenant: String, systemKey: String): Reading!
+    loadSumRevealed(systemKey: String): LoadSum!
+  }
+`;
+
+interface PageArgs {
+  first?: number | null;
+  after?: string | null;
+}
+
+interface ReadingFilterInput {
+  tenant?: string | null;
+  systemKey?: string | null;
+  status?: string | null;
+  billingEpochId?: number | null;
+  from?: number | null;
+  to?: number | null;
+}
+
+type ReadingArgs = PageArgs & { filter?: ReadingFilterInput | null };
+type TimeRangeArgs = PageArgs & { from?: number | null; to?: number | null };
+type ReadingEventArgs = { tenant?: string | null; systemKey?: string | null };
+type SystemKeyArgs = { systemKey?: string | null };
+
+/** What the parent object of each type's fields resolves to. */
+type TenantSource = { address: string };
+// Readings may name a system registered before the indexed range
+type SystemSource = IndexedSystem | { key: string };
+
+const encodeCursor = (offset: number) =>
+  Buffer.from(`offset:${offset}`).toString("base64");
+
+const pageWindow = ({ first, after }: PageArgs) => {
+  if (first != null && first < 0) {
+    throw new GraphQLError("first must not be negative");
+  }
+  let offset = 0;
+  if (after) {
+    const match = Buffer.from(after, "base64")
+      .toString("utf8")
+      .match(/^offset:(\d+)$/);
+    if (!match) throw new GraphQLError(`Invalid cursor ${after}`);
+    offset = Number(match[1]);
+  }
+  return { limit: first ?? undefined, offset };
+};
+
+const connection = <T>(nodes: T[], totalCount: number, offset: number) => ({
+  nodes,
+  totalCount,
+  pageInfo: {
+    hasNextPage: offset + nodes.length < totalCount,
+    endCursor: nodes.length > 0 ? encodeCursor(offset + nodes.length) : null,
+  },
+});
+
+const sameAddress = (a: string, b: string) =>
+  a.toLowerCase() === b.toLowerCase();
+
+/** Queue values pushed by the indexer until the subscriber pulls them. */
+function indexedValues<T>(
+  indexer: EnergyIndexer,
+  select: (range: IndexedRange) => T[],
+): AsyncIterableIterator<T> {
+  const queue: T[] = [];
+  const waiting: ((result: IteratorResult<T>) => void)[] = [];
+  let done = false;
+  const unsubscribe = indexer.onIndexed((range) => {
+    for (const value of select(range)) {
+      const next = waiting.shift();
+      if (next) next({ value, done: false });
+      else queue.push(value);
+    }
+  });
+  const finish = async (): Promise<IteratorResult<T>> => {
+    done = true;
+    unsubscribe();
+    waiting.splice(0).forEach((next) => next({ value: undefined, done: true }));
+    return { value: undefined, done: true };
+  };
+  return {
+    next: () =>
+      queue.length > 0
+        ? Promise.resolve({ value: queue.shift()!, done: false })
+        : done
+          ? finish()
+          : new Promise((resolve) => waiting.push(resolve)),
+    return: finish,
+    throw: async (error: unknown) => {
+      await finish();
+      throw error;
+    },
+    [Symbol.asyncIterator]() {
+      return this;
+    },
+  };
+}
+
+type NoArgs = Record<string, never>;
+type Resolver<TSource, TArgs = NoArgs> = GraphQLFieldResolver<
+  TSource,
+  unknown,
+  TArgs
+>;
+/** A subscription field: `subscribe` yields values that `resolve` turns into the result. */
+type Subscriber<TArgs, TValue> = {
+  subscribe: Resolver<unknown, TArgs>;
+  resolve: Resolver<TValue>;
+};
+
+interface IndexerResolvers {
+  Query: {
+    status: Resolver<unknown>;
+    reading: Resolver<unknown, { id: number }>;
+    readings: Resolver<unknown, ReadingArgs>;
+    tenant: Resolver<unknown, { address: string }>;
+    tenants: Resolver<unknown>;
+    system: Resolver<unknown, { key: string }>;
+    systems: Resolver<unknown>;
+    billingEpoch: Resolver<unknown, { id: number }>;
+    billingEpochs: Resolver<unknown>;
+    loadSums: Resolver<unknown, TimeRangeArgs & SystemKeyArgs>;
+  };
+  Reading: Record<
+    | "tenant"
+    | "system"
+    | "billingEpochId"
+    | "billingEpoch"
+    | "status"
+    | "reveal",
+    Resolver<IndexedRecord>
+  >;
+  Tenant: {
+    readings: Resolver<TenantSource, ReadingArgs>;
+    revealedUsage: Resolver<TenantSource>;
+  };
+  BuildingSystem: {
+    readings: Resolver<SystemSource, ReadingArgs>;
+    loadSums: Resolver<SystemSource, TimeRangeArgs>;
+    latestLoadSum: Resolver<SystemSource>;
+    epochTotals: Resolver<SystemSource>;
+  };
+  LoadSum: { system: Resolver<IndexedLoadSum> };
+  BillingEpoch: {
+    readings: Resolver<IndexedBillingEpoch, ReadingArgs>;
+    totals: Resolver<IndexedBillingEpoch>;
+  };
+  EpochTotal: {
+    billingEpoch: Resolver<IndexedEpochTotal>;
+    system: Resolver<IndexedEpochTotal>;
+  };
+  Subscription: {
+    readingSubmitted: Subscriber<ReadingEventArgs, number>;
+    readingRevealed: Subscriber<ReadingEventArgs, number>;
+    loadSumRevealed: Subscriber<SystemKeyArgs, IndexedLoadSum>;
+  };
+}
+
+/** Attach resolvers to the fields `buildSchema` created from the type definitions. */
+const addResolvers = (schema: GraphQLSchema, resolvers: IndexerResolvers) => {
+  for (const [typeName, fields] of Object.entries(resolvers)) {
+    const type = schema.getType(typeName) as GraphQLObjectType;
+    // The schema fields are untyped; each resolver was checked against its type above
+    for (const [name, resolver] of Object.entries(
+      fields as Record<
+        string,
+        Resolver<unknown, unknown> | Subscriber<unknown, unknown>
+      >,
+    )) {
+      const field = type.getFields()[name];
+      if (typeof resolver === "function") {
+        field.resolve = resolver;
+      } else {
+        field.subscribe = resolver.subscribe;
+        field.resolve = resolver.resolve;
+      }
+    }
+  }
+  return schema;
+};
+
+/**
+ * Build the GraphQL schema over `store`. Subscriptions need the `indexer` that writes to
+ * it; without one they fail with an error.
+ */
+export function createIndexerSchema(
+  store: IndexerStore,
+  indexer?: EnergyIndexer,
+): GraphQLSchema {
+  const readings = (args: ReadingArgs, scope: RecordQuery = {}) => {
+    const { limit, offset } = pageWindow(args);
+    const filter = args.filter ?? {};
+    const page = store.listRecords({
+      tenant: filter.tenant ?? undefined,
+      systemKey: filter.systemKey ?? undefined,
+      status: filter.status?.toLowerCase() as RecordStatus | undefined,
+      billingEpoch: filter.billingEpochId ?? undefined,
+      from: filter.from ?? undefined,
+      to: filter.to ?? undefined,
+      ...scope,
+      limit,
+      offset,
+    });
+    return connection(page.records, page.total, offset);
+  };
+
+  const loadSums = (args: TimeRangeArgs, systemKey?: string) => {
+    const { limit, offset } = pageWindow(args);
+    const page = store.listLoadSums({
+      systemKey,
+      from: args.from ?? undefined,
+      to: args.to ?? undefined,
+      limit,
+      offset,
+    });
+    return connection(page.loadSums, page.total, offset);
+  };
+
+  const system = (key: string): SystemSource => store.getSystem(key) ?? { key };
+
+  const subscription = <T, A>(
+    select: (range: IndexedRange, args: A) => T[],
+    resolve: Resolver<T>,
+  ): Subscriber<A, T> => ({
+    subscribe: (_, args) => {
+      if (!indexer) {
+        throw new GraphQLError("Subscriptions need a running indexer");
+      }
+      return indexedValues(indexer, (range) => select(range, args));
+    },
+    resolve,
+  });
+  const matches = (
+    r: IndexedRecord | RecordInsert | null,
+    args: ReadingEventArgs,
+  ) =>
+    !!r &&
+    (!args.tenant || sameAddress(r.tenant, args.tenant)) &&
+    (!args.systemKey || r.systemKey === args.systemKey);
+
+  const resolvers: IndexerResolvers = {
+    Query: {
+      status: () => store.status(),
+      reading: (_, { id }) => store.getRecord(id),
+      readings: (_, args) => readings(args),
+      tenant: (_, { address }) => {
+        const [first] = store.listRecords({
+          tenant: address,
+          limit: 1,
+        }).records;
+        return first ? { address: first.tenant } : null;
+      },
+      tenants: () => store.listTenants().map((address) => ({ address })),
+      system: (_, { key }) => store.getSystem(key),
+      systems: () => store.listSystems(),
+      billingEpoch: (_, { id }) => store.getBillingEpoch(id),
+      billingEpochs: () => store.listBillingEpochs(),
+      loadSums: (_, args) => loadSums(args, args.systemKey ?? undefined),
+    },
+    Reading: {
+      tenant: (r) => ({ address: r.tenant }),
+      system: (r) => system(r.systemKey),
+      billingEpochId: (r) => r.billingEpoch,
+      billingEpoch: (r) => store.getBillingEpoch(r.billingEpoch),
+      status: (r) => r.status.toUpperCase(),
+      reveal: (r) =>
+        r.status === "revealed"
+          ? {
+              reading: r,
+              tenantUsage: r.tenantUsage,
+              systemLoad: r.systemLoad,
+              blockNumber: r.revealedBlock,
+            }
+          : null,
+    },
+    Tenant: {
+      readings: (t, args) => readings(args, { tenant: t.address }),
+      revealedUsage: (t) => store.revealedUsage(t.address),
+    },
+    BuildingSystem: {
+      readings: (s, args) => readings(args, { systemKey: s.key }),
+      loadSums: (s, args) => loadSums(args, s.key),
+      latestLoadSum: (s) => store.latestLoadSum(s.key),
+      epochTotals: (s) => store.listEpochTotals({ systemKey: s.key }),
+    },
+    LoadSum: {
+      system: (l) => system(l.systemKey),
+    },
+    BillingEpoch: {
+      readings: (e, args) => readings(args, { billingEpoch: e.id }),
+      totals: (e) => store.listEpochTotals({ epochId: e.id }),
+    },
+    EpochTotal: {
+      billingEpoch: (t) => store.getBillingEpoch(t.epochId),
+      system: (t) => system(t.systemKey),
+    },
+    Subscription: {
+      readingSubmitted: subscription<number, ReadingEventArgs>(
+        (range, args) =>
+          range.records.filter((r) => matches(r, args)).map((r) => r.id),
+        (id) => store.getRecord(id),
+      ),
+      // Reveals only carry the id; the reading itself was indexed earlier
+      readingRevealed: subscription<number, ReadingEventArgs>(
+        (range, args) =>
+          range.reveals
+            .map((r) => store.getRecord(r.dataId))
+            .filter((r) => matches(r, args))
+            .map((r) => r!.id),
+        (id) => store.getRecord(id),
+      ),
+      loadSumRevealed: subscription<IndexedLoadSum, SystemKeyArgs>(
+        (range, args) =>
+          range.loadSums.filter(
+            (l) => !args.systemKey || l.systemKey === args.systemKey,
+          ),
+        (loadSum) => loadSum,
+      ),
+    },
+  };
+  return addResolvers(buildSchema(TYPE_DEFS), resolvers);
+}
+
+/**
+ * Execute a GraphQL request made over HTTP: `POST` with a JSON body, or `GET` with
+ * `query`, `variables` and `operationName` in the query string. Resolves to the status
+ * code and response body.
+ */
+export async function executeGraphqlRequest(
+  schema: GraphQLSchema,
+  request: http.IncomingMessage,
+  url: URL,
+): Promise<[number, unknown]> {
+  let params: {
+    query?: unknown;
+    variables?: Record<string, unknown> | null;
+    operationName?: string | null;
+  };
+  try {
+    if (request.method === "POST") {
+      const chunks: Buffer[] = [];
+      for await (const chunk of request) chunks.push(chunk as Buffer);
+      params = JSON.parse(Buffer.concat(chunks).toString("utf8"));
+    } else {
+      const variables = url.searchParams.get("variables");
+      params = {
+        query: url.searchParams.get("query"),
+        variables: variables ? JSON.parse(variables) : null,
+        operationName: url.searchParams.get("operationName"),
+      };
+    }
+  } catch {
+    return [400, { errors: [{ message: "Request is not valid JSON" }] }];
+  }
+  if (typeof params?.query !== "string") {
+    return [400, { errors: [{ message: "Missing query" }] }];
+  }
+  const result = await graphql({
+    schema,
+    source: params.query,
+    variableValues: params.variables,
+    operationName: params.operationName,
+  });
+  return [200, result];
+}
+
+/**
+ * Serve `schema`'s subscriptions on `server` at `/graphql` over WebSocket. Dispose the
+ * result before closing the server: open sockets would otherwise keep it alive.
+ */
+export function serveGraphqlSubscriptions(
+  server: http.Server,
+  schema: GraphQLSchema,
+) {
+  return useServer(
+    { schema },
+    new WebSocketServer({ server, path: GRAPHQL_PATH }),
+  );
+}
@@ -0,0 +1,29 @@
+// indexer/index.ts
+export {
+  GRAPHQL_PATH,
+  createIndexerSchema,
+  executeGraphqlRequest,
+  serveGraphqlSubscriptions,
+} from "./graphql";
+export {
+  EnergyIndexer,
+  type EnergyIndexerOptions,
+  type SyncResult,
+} from "./indexer";
+export { createIndexerServer } from "./server";
+export {
+  DEFAULT_PAGE_SIZE,
+  IndexerStore,
+  MAX_PAGE_SIZE,
+  type IndexedBillingEpoch,
+  type IndexedEpochTotal,
+  type IndexedLoadSum,
+  type IndexedRange,
+  type IndexedSystem,
+  type IndexerStoreScope,
+  type LoadSumPage,
+  type LoadSumQuery,
+  type RecordInsert,
+  type RevealInsert,
+  type RevealRequestInsert,
+} from "./store";
@@ -0,0 +1,347 @@
+// indexer/indexer.ts
+//
+// Follows the contract's submission, reveal, system and billing epoch events into an
+// IndexerStore. Each sync
+// pass first checks that the last indexed block is still canonical, unwinding to the
+// newest stored block that is when it is not, then indexes the following blocks in
+// chunks of at most `maxBlockRange`.
+//
+// Stored readings and reveals never change once written, so they are read at the latest
+// block rather than at their event's block: historical reads need an archive node, which
+// public RPC endpoints are not.
+import type { Log, Provider } from "ethers";
+import { EventEmitter } from "events";
+
+import type { SmartBuildingEnergyFHE } from "../types/contracts/SmartBuildingEnergyFHE";
+import {
+  type IndexedRange,
+  IndexerStore,
+  type RecordInsert,
+  type RevealInsert,
+} from "./store";
+
+export interface EnergyIndexerOptions {
+  /** First block to index, usually the deployment block. Defaults to 0. */
+  fromBlock?: number;
+  /** Blocks to stay behind the head. Defaults to 0: reorgs are unwound instead. */
+  confirmations?: number;
+  /** Widest `eth_getLogs` range requested at once. Defaults to 2000. */
+  maxBlockRange?: number;
+  /** Block hashes kept below the head to find the common ancestor after a reorg. */
+  reorgDepth?: number;
+  pollIntervalMs?: number;
+  /** Contract reads in flight at once while indexing a range. Defaults to 16. */
+  readConcurrency?: number;
+}
+
+export interface SyncResult {
+  /** Cursor the pass started from, after unwinding any reorg. */
+  fromBlock: number;
+  toBlock: number;
+  records: number;
+  revealRequests: number;
+  reveals: number;
+  /** Block the index was rolled back to, or null if no reorg was found. */
+  reorgedTo: number | null;
+}
+
+const DEFAULT_MAX_BLOCK_RANGE = 2_000;
+const DEFAULT_REORG_DEPTH = 64;
+const DEFAULT_POLL_INTERVAL_MS = 4_000;
+const DEFAULT_READ_CONCURRENCY = 16;
+
+const INDEXED_EVENTS = [
+  "EnergyDataSubmitted",
+  "EnergyDataBatchSubmitted",
+  "DecryptionRequested",
+  "EnergyDataDecrypted",
+  "SystemRegistered",
+  "LoadSumRevealed",
+  "BillingEpochStarted",
+  "BillingEpochClosed",
+  "EpochTotalRevealed",
+] as const;
+
+export class EnergyIndexer {
+  readonly contract: SmartBuildingEnergyFHE;
+  readonly store: IndexerStore;
+  private readonly options: Required<EnergyIndexerOptions>;
+  private timer?: ReturnType<typeof setTimeout>;
+  private running = false;
+  private inFlight?: Promise<void>;
+  private readonly events = new EventEmitter();
+
+  constructor(
+    contract: SmartBuildingEnergyFHE,
+    store: IndexerStore,
+    options: EnergyIndexerOptions = {},
+  ) {
+    this.contract = contract;
+    this.store = store;
+    this.options = {
+      fromBlock: options.fromBlock ?? 0,
+      confirmations: options.confirmations ?? 0,
+      maxBlockRange: options.maxBlockRange ?? DEFAULT_MAX_BLOCK_RANGE,
+      reorgDepth: options.reorgDepth ?? DEFAULT_REORG_DEPTH,
+      pollIntervalMs: options.pollIntervalMs ?? DEFAULT_POLL_INTERVAL_MS,
+      readConcurrency: options.readConcurrency ?? DEFAULT_READ_CONCURRENCY,
+    };
+  }
+
+  /** Index every confirmed block past the cursor. */
+  async sync(): Promise<SyncResult> {
+    const provider = this.provider();
+    this.store.init({
+      contractAddress: await this.contract.getAddress(),
+      chainId: Number((await provider.getNetwork()).chainId),
+      fromBlock: this.options.fromBlock,
+    });
+
+    const reorgedTo = await this.unwindReorg();
+    const start = this.nextBlock();
+    const head = (await provider.getBlockNumber()) - this.options.confirmations;
+    const result: SyncResult = {
+      fromBlock: start,
+      toBlock: start - 1,
+      records: 0,
+      revealRequests: 0,
+      reveals: 0,
+      reorgedTo,
+    };
+
+    for (let from = start; from <= head; from += this.options.maxBlockRange) {
+      const to = Math.min(head, from + this.options.maxBlockRange - 1);
+      const range = await this.fetchRange(from, to);
+      this.store.apply(range);
+      this.events.emit("indexed", range);
+      result.toBlock = to;
+      result.records += range.records.length;
+      result.revealRequests += range.revealRequests.length;
+      result.reveals += range.reveals.length;
+    }
+    this.store.pruneBlocks(head - this.options.reorgDepth);
+    return result;
+  }
+
+  /** Sync now and then every `pollIntervalMs` until `stop()`; sync errors go to `onError`. */
+  start(onError: (error: unknown) => void = console.error): void {
+    if (this.running) return;
+    this.running = true;
+    const tick = () => {
+      this.inFlight = this.sync()
+        .then(() => undefined, onError)
+        .finally(() => {
+          if (this.running) {
+            this.timer = setTimeout(tick, this.options.pollIntervalMs);
+          }
+        });
+    };
+    tick();
+  }
+
+  /** Stop polling; resolves once a pass that is under way has finished writing. */
+  async stop(): Promise<void> {
+    this.running = false;
+    clearTimeout(this.timer);
+    await this.inFlight;
+  }
+
+  /** Called after each chunk is written, e.g. to push new readings to subscribers. */
+  onIndexed(listener: (range: IndexedRange) => void): () => void {
+    this.events.on("indexed", listener);
+    return () => {
+      this.events.off("indexed", listener);
+    };
+  }
+
+  private nextBlock(): number {
+    const cursor = this.store.cursor();
+    return cursor ? cursor.number + 1 : this.store.scope()!.fromBlock;
+  }
+
+  /**
+   * If the cursor block is no longer canonical, roll back to the newest stored block
+   * that still is, or reindex from scratch when none is. Returns the new cursor.
+   */
+  private async unwindReorg(): Promise<number | null> {
+    const cursor = this.store.cursor();
+    if (!cursor || (await this.isCanonical(cursor))) return null;
+
+    let below = cursor.number - 1;
+    for (;;) {
+      const stored = this.store.blocksBelow(below, 32);
+      if (stored.length === 0) break;
+      for (const block of stored) {
+        if (await this.isCanonical(block)) {
+          this.store.rollback(block);
+          return block.number;
+        }
+      }
+      below = stored[stored.length - 1].number - 1;
+    }
+    this.store.rollback(null);
+    return this.store.scope()!.fromBlock - 1;
+  }
+
+  private async isCanonical(block: { number: number; hash: string }) {
+    const current = await this.provider().getBlock(block.number);
+    return current?.hash === block.hash;
+  }
+
+  private async fetchRange(from: number, to: number): Promise<IndexedRange> {
+    const provider = this.provider();
+    const { interface: iface } = this.contract;
+    // Read the range's last hash before its logs: if the chain reorgs in between, the
+    // next pass sees a cursor that is no longer canonical and indexes the range again
+    const last = await provider.getBlock(to);
+    if (!last?.hash) throw new Error(`Block ${to} not found`);
+    const logs = await provider.getLogs({
+      address: await this.contract.getAddress(),
+      fromBlock: from,
+      toBlock: to,
+      topics: [INDEXED_EVENTS.map((name) => iface.getEvent(name)!.topicHash)],
+    });
+
+    const range: IndexedRange = {
+      block: { number: last.number, hash: last.hash },
+      blocks: [],
+      records: [],
+      revealRequests: [],
+      reveals: [],
+      systems: [],
+      loadSums: [],
+      epochsStarted: [],
+      epochsClosed: [],
+      epochTotals: [],
+    };
+    const blocks = new Map<number, string>();
+    const recordLogs: { id: bigint; log: Log }[] = [];
+    const revealLogs: { id: bigint; log: Log }[] = [];
+    for (const log of logs) {
+      blocks.set(log.blockNumber, log.blockHash);
+      const event = iface.parseLog(log);
+      switch (event?.name) {
+        case "EnergyDataSubmitted":
+          recordLogs.push({ id: event.args.id, log });
+          break;
+        case "EnergyDataBatchSubmitted":
+          // A batch reports its id range once; index every reading in it
+          for (let id = event.args.firstId; id <= event.args.lastId; id++) {
+            recordLogs.push({ id, log });
+          }
+          break;
+        case "DecryptionRequested":
+          range.revealRequests.push({
+            dataId: Number(event.args.id),
+            blockNumber: log.blockNumber,
+            logIndex: log.index,
+            transactionHash: log.transactionHash,
+          });
+          break;
+        case "EnergyDataDecrypted":
+          revealLogs.push({ id: event.args.id, log });
+          break;
+        case "SystemRegistered":
+          range.systems.push({
+            key: event.args.systemKey,
+            blockNumber: log.blockNumber,
+            transactionHash: log.transactionHash,
+          });
+          break;
+        case "LoadSumRevealed":
+          range.loadSums.push({
+            systemKey: event.args.systemKey,
+            revealIndex: Number(event.args.epoch),
+            sum: Number(event.args.sum),
+            revealedAt: Number(event.args.revealedAt),
+            blockNumber: log.blockNumber,
+            transactionHash: log.transactionHash,
+          });
+          break;
+        case "BillingEpochStarted":
+          range.epochsStarted.push({
+            id: Number(event.args.epochId),
+            startedAt: Number(event.args.startedAt),
+            blockNumber: log.blockNumber,
+          });
+          break;
+        case "BillingEpochClosed":
+          range.epochsClosed.push({
+            id: Number(event.args.epochId),
+            closedAt: Number(event.args.closedAt),
+            blockNumber: log.blockNumber,
+          });
+          break;
+        case "EpochTotalRevealed":
+          range.epochTotals.push({
+            epochId: Number(event.args.epochId),
+            systemKey: event.args.systemKey,
+            sum: Number(event.args.sum),
+            blockNumber: log.blockNumber,
+          });
+          break;
+      }
+    }
+    range.blocks = [...blocks].map(([number, hash]) => ({ number, hash }));
+    range.records = await this.readAll(recordLogs, ({ id, log }) =>
+      this.readRecord(id, log),
+    );
+    range.reveals = await this.readAll(revealLogs, ({ id, log }) =>
+      this.readReveal(id, log),
+    );
+    return range;
+  }
+
+  /** `read` every item, at most `readConcurrency` at a time, keeping their order. */
+  private async readAll<T, R>(
+    items: T[],
+    read: (item: T) => Promise<R>,
+  ): Promise<R[]> {
+    const results: R[] = [];
+    for (let i = 0; i < items.length; i += this.options.readConcurrency) {
+      const chunk = items.slice(i, i + this.options.readConcurrency);
+      results.push(...(await Promise.all(chunk.map(read))));
+    }
+    return results;
+  }
+
+  private async readRecord(id: bigint, log: Log): Promise<RecordInsert> {
+    const entry = await this.contract.encryptedData(id);
+    // Missing at the head: the submission was reorged out after its logs were fetched,
+    // and the next pass unwinds it
+    if (entry.id === 0n) throw new Error(`Reading ${id} not found`);
+    return {
+      id: Number(entry.id),
+      tenant: entry.tenant,
+      systemKey: entry.systemKey,
+      timestamp: Number(entry.timestamp),
+      billingEpoch: Number(entry.billingEpoch),
+      tenantUsageHandle: entry.encryptedTenantUsage,
+      timestampHandle: entry.encryptedTimestamp,
+      systemLoadHandle: entry.encryptedSystemLoad,
+      blockNumber: log.blockNumber,
+      transactionHash: log.transactionHash,
+    };
+  }
+
+  private async readReveal(id: bigint, log: Log): Promise<RevealInsert> {
+    const [tenantUsage, systemLoad, isRevealed] =
+      await this.contract.getDecryptedEnergyData(id);
+    if (!isRevealed) throw new Error(`Reveal of reading ${id} not found`);
+    return {
+      dataId: Number(id),
+      tenantUsage: Number(tenantUsage),
+      systemLoad: Number(systemLoad),
+      blockNumber: log.blockNumber,
+      transactionHash: log.transactionHash,
+    };
+  }
+
+  private provider(): Provider {
+    const provider = this.contract.runner?.provider;
+    if (!provider) {
+      throw new Error("The indexer's contract must be connected to a provider");
+    }
+    return provider;
+  }
+}
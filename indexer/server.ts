@@ -0,0 +1,136 @@
+// indexer/server.ts
+//
+// Read-only JSON API over an IndexerStore:
+//
+//   GET /status
+//   GET /records?tenant=0x..&system=hvac_zone_1&status=revealed&epoch=2&from=..&to=..&limit=50&offset=0
+//   GET /records/:id
+//   GET /tenants/:address/records?...same filters as /records
+//   POST /graphql (see graphql.ts)
+import { isAddress } from "ethers";
+import type { GraphQLSchema } from "graphql";
+import http from "http";
+
+import { RECORD_STATUSES, type RecordQuery, type RecordStatus } from "../sdk";
+import { GRAPHQL_PATH, executeGraphqlRequest } from "./graphql";
+import { IndexerStore, MAX_PAGE_SIZE } from "./store";
+
+class BadRequestError extends Error {}
+
+const integerParam = (
+  params: URLSearchParams,
+  name: string,
+  max = Number.MAX_SAFE_INTEGER,
+): number | undefined => {
+  const value = params.get(name);
+  if (value === null) return undefined;
+  const parsed = Number(value);
+  if (!Number.isSafeInteger(parsed) || parsed < 0 || parsed > max) {
+    throw new BadRequestError(
+      `${name} must be an integer between 0 and ${max}`,
+    );
+  }
+  return parsed;
+};
+
+/** Parse the `/records` query string; throws `BadRequestError` on invalid filters. */
+const parseRecordQuery = (params: URLSearchParams): RecordQuery => {
+  const tenant = params.get("tenant") ?? undefined;
+  if (tenant !== undefined && !isAddress(tenant)) {
+    throw new BadRequestError(`tenant ${tenant} is not an address`);
+  }
+  const status = params.get("status") ?? undefined;
+  if (
+    status !== undefined &&
+    !RECORD_STATUSES.includes(status as RecordStatus)
+  ) {
+    throw new BadRequestError(
+      `status must be one of ${RECORD_STATUSES.join(", ")}`,
+    );
+  }
+  return {
+    tenant,
+    systemKey: params.get("system") ?? undefined,
+    status: status as RecordStatus | undefined,
+    billingEpoch: integerParam(params, "epoch"),
+    from: integerParam(params, "from"),
+    to: integerParam(params, "to"),
+    limit: integerParam(params, "limit", MAX_PAGE_SIZE),
+    offset: integerParam(params, "offset"),
+  };
+};
+
+const route = (store: IndexerStore, url: URL): [number, unknown] => {
+  const path = url.pathname.replace(/\/+$/, "");
+  if (path === "/status") {
+    return [200, store.status()];
+  }
+  if (path === "/records") {
+    return [200, store.listRecords(parseRecordQuery(url.searchParams))];
+  }
+
+  const record = path.match(/^\/records\/(\d+)$/);
+  if (record) {
+    const found = store.getRecord(Number(record[1]));
+    return found
+      ? [200, found]
+      : [404, { error: `Record ${record[1]} not found` }];
+  }
+
+  const tenant = path.match(/^\/tenants\/([^/]+)\/records$/);
+  if (tenant) {
+    const params = new URLSearchParams(url.searchParams);
+    params.set("tenant", decodeURIComponent(tenant[1]));
+    return [200, store.listRecords(parseRecordQuery(params))];
+  }
+  return [404, { error: `No route for ${url.pathname}` }];
+};
+
+const handle = async (
+  store: IndexerStore,
+  schema: GraphQLSchema | undefined,
+  request: http.IncomingMessage,
+): Promise<[number, unknown]> => {
+  if (request.method === "OPTIONS") return [204, null];
+  const url = new URL(request.url ?? "/", "http://indexer");
+  if (schema && url.pathname.replace(/\/+$/, "") === GRAPHQL_PATH) {
+    return executeGraphqlRequest(schema, request, url);
+  }
+  if (request.method !== "GET") {
+    return [405, { error: "Only GET is supported" }];
+  }
+  return route(store, url);
+};
+
+/**
+ * HTTP server answering from `store`, plus `POST /graphql` when given the schema from
+ * `createIndexerSchema`. Call `listen()` on the result to serve it.
+ */
+export function createIndexerServer(
+  store: IndexerStore,
+  schema?: GraphQLSchema,
+): http.Server {
+  return http.createServer(async (request, response) => {
+    let status: number;
+    let body: unknown;
+    try {
+      [status, body] = await handle(store, schema, request);
+    } catch (error) {
+      if (error instanceof BadRequestError) {
+        [status, body] = [400, { error: error.message }];
+      } else {
+        console.error(error);
+        [status, body] = [500, { error: "Internal error" }];
+      }
+    }
+
+    // The dashboard is served from another origin
+    response.writeHead(status, {
+      "Access-Control-Allow-Origin": "*",
+      "Access-Control-Allow-Methods": "GET, POST, OPTIONS",
+      "Access-Control-Allow-Headers": "Content-Type",
+      ...(body === null ? {} : { "Content-Type": "application/json" }),
+    });
+    response.end(body === null ? undefined : JSON.stringify(body));
+  });
+}
@@ -0,0 +1,624 @@
+// indexer/store.ts
+//
+// SQLite persistence for the event indexer. Every row remembers the block it came from
+// so a reorg can be undone by deleting everything above the common ancestor; a record's
+// reveal status is derived from the request and reveal rows at query time. Besides the
+// readings it keeps the registered systems, revealed load sums and billing epochs that
+// the GraphQL schema exposes.
+import Database from "better-sqlite3";
+
+import type {
+  IndexedRecord,
+  IndexerStatus,
+  RecordPage,
+  RecordQuery,
+  RecordStatus,
+} from "../sdk";
+
+export const DEFAULT_PAGE_SIZE = 100;
+export const MAX_PAGE_SIZE = 1_000;
+
+// Bump when the layout changes; older databases are dropped and indexed again
+const SCHEMA_VERSION = 3;
+
+const TABLES = [
+  "meta",
+  "blocks",
+  "records",
+  "reveal_requests",
+  "reveals",
+  "systems",
+  "load_sums",
+  "billing_epochs",
+  "epoch_totals",
+];
+
+const SCHEMA = `
+  CREATE TABLE IF NOT EXISTS meta (
+    key TEXT PRIMARY KEY,
+    value TEXT NOT NULL
+  );
+  CREATE TABLE IF NOT EXISTS blocks (
+    number INTEGER PRIMARY KEY,
+    hash TEXT NOT NULL
+  );
+  CREATE TABLE IF NOT EXISTS records (
+    id INTEGER PRIMARY KEY,
+    tenant TEXT NOT NULL COLLATE NOCASE,
+    system_key TEXT NOT NULL,
+    timestamp INTEGER NOT NULL,
+    billing_epoch INTEGER NOT NULL,
+    tenant_usage_handle TEXT NOT NULL,
+    timestamp_handle TEXT NOT NULL,
+    system_load_handle TEXT NOT NULL,
+    block_number INTEGER NOT NULL,
+    transaction_hash TEXT NOT NULL
+  );
+  CREATE INDEX IF NOT EXISTS records_tenant ON records (tenant, timestamp);
+  CREATE INDEX IF NOT EXISTS records_timestamp ON records (timestamp);
+  CREATE TABLE IF NOT EXISTS reveal_requests (
+    data_id INTEGER NOT NULL,
+    block_number INTEGER NOT NULL,
+    log_index INTEGER NOT NULL,
+    transaction_hash TEXT NOT NULL,
+    PRIMARY KEY (block_number, log_index)
+  );
+  CREATE INDEX IF NOT EXISTS reveal_requests_data ON reveal_requests (data_id);
+  CREATE TABLE IF NOT EXISTS reveals (
+    data_id INTEGER PRIMARY KEY,
+    tenant_usage INTEGER NOT NULL,
+    system_load INTEGER NOT NULL,
+    block_number INTEGER NOT NULL,
+    transaction_hash TEXT NOT NULL
+  );
+  CREATE TABLE IF NOT EXISTS systems (
+    key TEXT PRIMARY KEY,
+    block_number INTEGER NOT NULL,
+    transaction_hash TEXT NOT NULL
+  );
+  CREATE TABLE IF NOT EXISTS load_sums (
+    system_key TEXT NOT NULL,
+    reveal_index INTEGER NOT NULL,
+    sum INTEGER NOT NULL,
+    revealed_at INTEGER NOT NULL,
+    block_number INTEGER NOT NULL,
+    transaction_hash TEXT NOT NULL,
+    PRIMARY KEY (system_key, reveal_index)
+  );
+  CREATE TABLE IF NOT EXISTS billing_epochs (
+    id INTEGER PRIMARY KEY,
+    started_at INTEGER NOT NULL,
+    closed_at INTEGER,
+    block_number INTEGER NOT NULL,
+    closed_block INTEGER
+  );
+  CREATE TABLE IF NOT EXISTS epoch_totals (
+    epoch_id INTEGER NOT NULL,
+    system_key TEXT NOT NULL,
+    sum INTEGER NOT NULL,
+    block_number INTEGER NOT NULL,
+    PRIMARY KEY (epoch_id, system_key)
+  );
+`;
+
+const RECORD_VIEW = `
+  SELECT r.*,
+    (SELECT MIN(q.block_number) FROM reveal_requests q WHERE q.data_id = r.id)
+      AS requested_block,
+    v.tenant_usage, v.system_load, v.block_number AS revealed_block,
+    CASE
+      WHEN v.data_id IS NOT NULL THEN 'revealed'
+      WHEN EXISTS (SELECT 1 FROM reveal_requests q WHERE q.data_id = r.id) THEN 'pending'
+      ELSE 'encrypted'
+    END AS status
+  FROM records r
+  LEFT JOIN reveals v ON v.data_id = r.id
+`;
+
+interface RecordRow {
+  id: number;
+  tenant: string;
+  system_key: string;
+  timestamp: number;
+  billing_epoch: number;
+  tenant_usage_handle: string;
+  timestamp_handle: string;
+  system_load_handle: string;
+  block_number: number;
+  transaction_hash: string;
+  requested_block: number | null;
+  tenant_usage: number | null;
+  system_load: number | null;
+  revealed_block: number | null;
+  status: RecordStatus;
+}
+
+const toRecord = (row: RecordRow): IndexedRecord => ({
+  id: row.id,
+  tenant: row.tenant,
+  systemKey: row.system_key,
+  timestamp: row.timestamp,
+  billingEpoch: row.billing_epoch,
+  tenantUsageHandle: row.tenant_usage_handle,
+  timestampHandle: row.timestamp_handle,
+  systemLoadHandle: row.system_load_handle,
+  blockNumber: row.block_number,
+  transactionHash: row.transaction_hash,
+  status: row.status,
+  revealRequestedBlock: row.requested_block,
+  revealedBlock: row.revealed_block,
+  tenantUsage: row.tenant_usage,
+  systemLoad: row.system_load,
+});
+
+/** A submission as read from the chain, before any reveal. */
+export type RecordInsert = Omit<
+  IndexedRecord,
+  | "status"
+  | "revealRequestedBlock"
+  | "revealedBlock"
+  | "tenantUsage"
+  | "systemLoad"
+>;
+
+export interface RevealRequestInsert {
+  dataId: number;
+  blockNumber: number;
+  logIndex: number;
+  transactionHash: string;
+}
+
+export interface RevealInsert {
+  dataId: number;
+  tenantUsage: number;
+  systemLoad: number;
+  blockNumber: number;
+  transactionHash: string;
+}
+
+export interface IndexedSystem {
+  key: string;
+  /** Block the system was registered in; `central_system` is registered at deployment. */
+  blockNumber: number;
+  transactionHash: string;
+}
+
+/** An oracle-revealed aggregate load for one system. */
+export interface IndexedLoadSum {
+  systemKey: string;
+  /** 1-based position of the reveal in the system key's history. */
+  revealIndex: number;
+  sum: number;
+  /** Block timestamp (seconds) of the oracle callback. */
+  revealedAt: number;
+  blockNumber: number;
+  transactionHash: string;
+}
+
+export interface IndexedBillingEpoch {
+  id: number;
+  startedAt: number;
+  /** Null while the epoch is open. */
+  closedAt: number | null;
+  blockNumber: number;
+  closedBlock: number | null;
+}
+
+/** A closed billing epoch's revealed total for one system. */
+export interface IndexedEpochTotal {
+  epochId: number;
+  systemKey: string;
+  sum: number;
+  blockNumber: number;
+}
+
+export interface LoadSumQuery {
+  systemKey?: string;
+  /** Reveal time range in unix seconds, `from` inclusive and `to` exclusive. */
+  from?: number;
+  to?: number;
+  limit?: number;
+  offset?: number;
+}
+
+export interface LoadSumPage {
+  loadSums: IndexedLoadSum[];
+  total: number;
+}
+
+/** Everything one sync pass found between the previous cursor and `block`. */
+export interface IndexedRange {
+  /** The new cursor: the last block the range covers. */
+  block: { number: number; hash: string };
+  /** Hashes of the blocks the rows below came from, kept to detect reorgs. */
+  blocks: { number: number; hash: string }[];
+  records: RecordInsert[];
+  revealRequests: RevealRequestInsert[];
+  reveals: RevealInsert[];
+  systems: IndexedSystem[];
+  loadSums: IndexedLoadSum[];
+  epochsStarted: { id: number; startedAt: number; blockNumber: number }[];
+  epochsClosed: { id: number; closedAt: number; blockNumber: number }[];
+  epochTotals: IndexedEpochTotal[];
+}
+
+export interface IndexerStoreScope {
+  contractAddress: string;
+  chainId: number;
+  fromBlock: number;
+}
+
+export class IndexerStore {
+  readonly db: Database.Database;
+
+  /** Open (or create) the database at `file`; `:memory:` keeps it in memory. */
+  constructor(file: string) {
+    this.db = new Database(file);
+    this.db.pragma("journal_mode = WAL");
+    if (this.db.pragma("user_version", { simple: true }) !== SCHEMA_VERSION) {
+      this.db.exec(TABLES.map((t) => `DROP TABLE IF EXISTS ${t};`).join("\n"));
+      this.db.pragma(`user_version = ${SCHEMA_VERSION}`);
+    }
+    this.db.exec(SCHEMA);
+  }
+
+  /**
+   * Bind the database to one deployment. Reusing a database indexed for a different
+   * contract or chain throws instead of mixing both histories.
+   */
+  init(scope: IndexerStoreScope): void {
+    const current = this.scope();
+    if (!current) {
+      const set = this.db.prepare(
+        "INSERT INTO meta (key, value) VALUES (?, ?)",
+      );
+      this.db.transaction(() => {
+        set.run("contractAddress", scope.contractAddress);
+        set.run("chainId", String(scope.chainId));
+        set.run("fromBlock", String(scope.fromBlock));
+      })();
+      return;
+    }
+    if (
+      current.contractAddress.toLowerCase() !==
+        scope.contractAddress.toLowerCase() ||
+      current.chainId !== scope.chainId
+    ) {
+      throw new Error(
+        `Database indexes ${current.contractAddress} on chain ${current.chainId}, not ${scope.contractAddress} on chain ${scope.chainId}`,
+      );
+    }
+  }
+
+  scope(): IndexerStoreScope | null {
+    const rows = this.db.prepare("SELECT key, value FROM meta").all() as {
+      key: string;
+      value: string;
+    }[];
+    const meta = Object.fromEntries(rows.map((r) => [r.key, r.value]));
+    if (!meta.contractAddress) return null;
+    return {
+      contractAddress: meta.contractAddress,
+      chainId: Number(meta.chainId),
+      fromBlock: Number(meta.fromBlock),
+    };
+  }
+
+  /** Last block indexed, or null before the first sync. */
+  cursor(): { number: number; hash: string } | null {
+    const row = this.db
+      .prepare("SELECT value FROM meta WHERE key = 'cursor'")
+      .get() as { value: string } | undefined;
+    return row ? JSON.parse(row.value) : null;
+  }
+
+  /** Stored block hashes at or below `number`, newest first. */
+  blocksBelow(
+    number: number,
+    limit: number,
+  ): { number: number; hash: string }[] {
+    return this.db
+      .prepare(
+        "SELECT number, hash FROM blocks WHERE number <= ? ORDER BY number DESC LIMIT ?",
+      )
+      .all(number, limit) as { number: number; hash: string }[];
+  }
+
+  /** Write one sync pass atomically and advance the cursor. */
+  apply(range: IndexedRange): void {
+    const insertBlock = this.db.prepare(
+      "INSERT OR REPLACE INTO blocks (number, hash) VALUES (@number, @hash)",
+    );
+    const insertRecord = this.db.prepare(`
+      INSERT OR REPLACE INTO records (
+        id, tenant, system_key, timestamp, billing_epoch, tenant_usage_handle,
+        timestamp_handle, system_load_handle, block_number, transaction_hash
+      ) VALUES (
+        @id, @tenant, @systemKey, @timestamp, @billingEpoch, @tenantUsageHandle,
+        @timestampHandle, @systemLoadHandle, @blockNumber, @transactionHash
+      )
+    `);
+    const insertRequest = this.db.prepare(`
+      INSERT OR REPLACE INTO reveal_requests (data_id, block_number, log_index, transaction_hash)
+      VALUES (@dataId, @blockNumber, @logIndex, @transactionHash)
+    `);
+    const insertReveal = this.db.prepare(`
+      INSERT OR REPLACE INTO reveals (data_id, tenant_usage, system_load, block_number, transaction_hash)
+      VALUES (@dataId, @tenantUsage, @systemLoad, @blockNumber, @transactionHash)
+    `);
+    const insertSystem = this.db.prepare(`
+      INSERT OR REPLACE INTO systems (key, block_number, transaction_hash)
+      VALUES (@key, @blockNumber, @transactionHash)
+    `);
+    const insertLoadSum = this.db.prepare(`
+      INSERT OR REPLACE INTO load_sums (system_key, reveal_index, sum, revealed_at, block_number, transaction_hash)
+      VALUES (@systemKey, @revealIndex, @sum, @revealedAt, @blockNumber, @transactionHash)
+    `);
+    const startEpoch = this.db.prepare(`
+      INSERT OR REPLACE INTO billing_epochs (id, started_at, block_number)
+      VALUES (@id, @startedAt, @blockNumber)
+    `);
+    const closeEpoch = this.db.prepare(`
+      UPDATE billing_epochs SET closed_at = @closedAt, closed_block = @blockNumber
+      WHERE id = @id
+    `);
+    const insertEpochTotal = this.db.prepare(`
+      INSERT OR REPLACE INTO epoch_totals (epoch_id, system_key, sum, block_number)
+      VALUES (@epochId, @systemKey, @sum, @blockNumber)
+    `);
+
+    this.db.transaction(() => {
+      [...range.blocks, range.block].forEach((b) => insertBlock.run(b));
+      range.records.forEach((r) => insertRecord.run(r));
+      range.revealRequests.forEach((r) => insertRequest.run(r));
+      range.reveals.forEach((r) => insertReveal.run(r));
+      range.systems.forEach((s) => insertSystem.run(s));
+      range.loadSums.forEach((l) => insertLoadSum.run(l));
+      range.epochsStarted.forEach((e) => startEpoch.run(e));
+      range.epochsClosed.forEach((e) => closeEpoch.run(e));
+      range.epochTotals.forEach((t) => insertEpochTotal.run(t));
+      this.setCursor(range.block);
+    })();
+  }
+
+  /** Undo everything indexed above `block`, which becomes the new cursor. */
+  rollback(block: { number: number; hash: string } | null): void {
+    const above = block?.number ?? -1;
+    this.db.transaction(() => {
+      // Closing an epoch updates the row its start inserted; reopen it first
+      this.db
+        .prepare(
+          "UPDATE billing_epochs SET closed_at = NULL, closed_block = NULL WHERE closed_block > ?",
+        )
+        .run(above);
+      for (const table of TABLES.filter((t) => t !== "meta")) {
+        const column = table === "blocks" ? "number" : "block_number";
+        this.db.prepare(`DELETE FROM ${table} WHERE ${column} > ?`).run(above);
+      }
+      if (block) {
+        this.setCursor(block);
+      } else {
+        this.db.prepare("DELETE FROM meta WHERE key = 'cursor'").run();
+      }
+    })();
+  }
+
+  /** Forget block hashes older than `number`; reorgs deeper than that trigger a full reindex. */
+  pruneBlocks(number: number): void {
+    this.db.prepare("DELETE FROM blocks WHERE number < ?").run(number);
+  }
+
+  getRecord(id: number): IndexedRecord | null {
+    const row = this.db
+      .prepare(`SELECT * FROM (${RECORD_VIEW}) WHERE id = ?`)
+      .get(id) as RecordRow | undefined;
+    return row ? toRecord(row) : null;
+  }
+
+  /** Records matching every given filter, oldest id first. */
+  listRecords(query: RecordQuery = {}): RecordPage {
+    const clauses: string[] = [];
+    const params: (string | number)[] = [];
+    if (query.tenant) {
+      clauses.push("tenant = ?");
+      params.push(query.tenant);
+    }
+    if (query.systemKey) {
+      clauses.push("system_key = ?");
+      params.push(query.systemKey);
+    }
+    if (query.status) {
+      clauses.push("status = ?");
+      params.push(query.status);
+    }
+    if (query.billingEpoch !== undefined) {
+      clauses.push("billing_epoch = ?");
+      params.push(query.billingEpoch);
+    }
+    if (query.from !== undefined) {
+      clauses.push("timestamp >= ?");
+      params.push(query.from);
+    }
+    if (query.to !== undefined) {
+      clauses.push("timestamp < ?");
+      params.push(query.to);
+    }
+    const where = clauses.length ? `WHERE ${clauses.join(" AND ")}` : "";
+    const limit = Math.min(query.limit ?? DEFAULT_PAGE_SIZE, MAX_PAGE_SIZE);
+    const offset = query.offset ?? 0;
+
+    const { total } = this.db
+      .prepare(`SELECT COUNT(*) AS total FROM (${RECORD_VIEW}) ${where}`)
+      .get(...params) as { total: number };
+    const rows = this.db
+      .prepare(
+        `SELECT * FROM (${RECORD_VIEW}) ${where} ORDER BY id LIMIT ? OFFSET ?`,
+      )
+      .all(...params, limit, offset) as RecordRow[];
+    return { records: rows.map(toRecord), total };
+  }
+
+  /** Every tenant that submitted a reading, in order of first submission. */
+  listTenants(): string[] {
+    return (
+      this.db
+        .prepare("SELECT tenant FROM records GROUP BY tenant ORDER BY MIN(id)")
+        .all() as { tenant: string }[]
+    ).map((row) => row.tenant);
+  }
+
+  /** Sum of the tenant's oracle-revealed usage in kWh. */
+  revealedUsage(tenant: string): number {
+    const { total } = this.db
+      .prepare(
+        `SELECT COALESCE(SUM(v.tenant_usage), 0) AS total
+         FROM records r JOIN reveals v ON v.data_id = r.id WHERE r.tenant = ?`,
+      )
+      .get(tenant) as { total: number };
+    return total;
+  }
+
+  /** Registered systems in registration order. */
+  listSystems(): IndexedSystem[] {
+    return this.db
+      .prepare(
+        `SELECT key, block_number AS blockNumber, transaction_hash AS transactionHash
+         FROM systems ORDER BY block_number, rowid`,
+      )
+      .all() as IndexedSystem[];
+  }
+
+  getSystem(key: string): IndexedSystem | null {
+    const system = this.db
+      .prepare(
+        `SELECT key, block_number AS blockNumber, transaction_hash AS transactionHash
+         FROM systems WHERE key = ?`,
+      )
+      .get(key) as IndexedSystem | undefined;
+    return system ?? null;
+  }
+
+  /** Revealed load sums matching every given filter, oldest reveal first. */
+  listLoadSums(query: LoadSumQuery = {}): LoadSumPage {
+    const clauses: string[] = [];
+    const params: (string | number)[] = [];
+    if (query.systemKey) {
+      clauses.push("system_key = ?");
+      params.push(query.systemKey);
+    }
+    if (query.from !== undefined) {
+      clauses.push("revealed_at >= ?");
+      params.push(query.from);
+    }
+    if (query.to !== undefined) {
+      clauses.push("revealed_at < ?");
+      params.push(query.to);
+    }
+    const where = clauses.length ? `WHERE ${clauses.join(" AND ")}` : "";
+    const limit = Math.min(query.limit ?? DEFAULT_PAGE_SIZE, MAX_PAGE_SIZE);
+
+    const { total } = this.db
+      .prepare(`SELECT COUNT(*) AS total FROM load_sums ${where}`)
+      .get(...params) as { total: number };
+    const loadSums = this.db
+      .prepare(
+        `SELECT system_key AS systemKey, reveal_index AS revealIndex, sum, revealed_at AS revealedAt,
+           block_number AS blockNumber, transaction_hash AS transactionHash
+         FROM load_sums ${where}
+         ORDER BY revealed_at, block_number, system_key LIMIT ? OFFSET ?`,
+      )
+      .all(...params, limit, query.offset ?? 0) as IndexedLoadSum[];
+    return { loadSums, total };
+  }
+
+  /** The most recent revealed load sum of `systemKey`, or null before the first. */
+  latestLoadSum(systemKey: string): IndexedLoadSum | null {
+    const loadSum = this.db
+      .prepare(
+        `SELECT system_key AS systemKey, reveal_index AS revealIndex, sum, revealed_at AS revealedAt,
+           block_number AS blockNumber, transaction_hash AS transactionHash
+         FROM load_sums WHERE system_key = ?
+         ORDER BY reveal_index DESC LIMIT 1`,
+      )
+      .get(systemKey) as IndexedLoadSum | undefined;
+    return loadSum ?? null;
+  }
+
+  listBillingEpochs(): IndexedBillingEpoch[] {
+    return this.db
+      .prepare(
+        `SELECT id, started_at AS startedAt, closed_at AS closedAt,
+           block_number AS blockNumber, closed_block AS closedBlock
+         FROM billing_epochs ORDER BY id`,
+      )
+      .all() as IndexedBillingEpoch[];
+  }
+
+  getBillingEpoch(id: number): IndexedBillingEpoch | null {
+    const epoch = this.db
+      .prepare(
+        `SELECT id, started_at AS startedAt, closed_at AS closedAt,
+           block_number AS blockNumber, closed_block AS closedBlock
+         FROM billing_epochs WHERE id = ?`,
+      )
+      .get(id) as IndexedBillingEpoch | undefined;
+    return epoch ?? null;
+  }
+
+  /** Revealed epoch totals, optionally for one epoch or one system. */
+  listEpochTotals(
+    filter: { epochId?: number; systemKey?: string } = {},
+  ): IndexedEpochTotal[] {
+    const clauses: string[] = [];
+    const params: (string | number)[] = [];
+    if (filter.epochId !== undefined) {
+      clauses.push("epoch_id = ?");
+      params.push(filter.epochId);
+    }
+    if (filter.systemKey !== undefined) {
+      clauses.push("system_key = ?");
+      params.push(filter.systemKey);
+    }
+    const where = clauses.length ? `WHERE ${clauses.join(" AND ")}` : "";
+    return this.db
+      .prepare(
+        `SELECT epoch_id AS epochId, system_key AS systemKey, sum, block_number AS blockNumber
+         FROM epoch_totals ${where} ORDER BY epoch_id, system_key`,
+      )
+      .all(...params) as IndexedEpochTotal[];
+  }
+
+  status(): IndexerStatus {
+    const scope = this.scope();
+    const counts = Object.fromEntries(
+      (
+        this.db
+          .prepare(
+            `SELECT status, COUNT(*) AS count FROM (${RECORD_VIEW}) GROUP BY status`,
+          )
+          .all() as { status: RecordStatus; count: number }[]
+      ).map((row) => [row.status, row.count]),
+    );
+    return {
+      contractAddress: scope?.contractAddress ?? null,
+      chainId: scope?.chainId ?? null,
+      fromBlock: scope?.fromBlock ?? null,
+      lastBlock: this.cursor()?.number ?? null,
+      records: {
+        encrypted: counts.encrypted ?? 0,
+        pending: counts.pending ?? 0,
+        revealed: counts.revealed ?? 0,
+      },
+    };
+  }
+
+  close(): void {
+    this.db.close();
+  }
+
+  private setCursor(block: { number: number; hash: string }) {
+    this.db
+      .prepare("INSERT OR REPLACE INTO meta (key, value) VALUES ('cursor', ?)")
+      .run(JSON.stringify(block));
+  }
+}
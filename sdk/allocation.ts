@@ -0,0 +1,235 @@
+// sdk/allocation.ts
+//
+// Splits a billing period's building-wide savings among tenants. Pure: the building
+// manager gathers each tenant's revealed baseline and actual usage, computes the split
+// here and records it with `SmartBuildingEnergyClient.recordSavingsAllocation`, which
+// encrypts every share so that only its tenant can read it on-chain.
+import { EnergySdkError } from "./errors";
+
+const WH_PER_KWH = 1000;
+const UINT32_MAX = 2 ** 32 - 1;
+
+/** Exact Shapley values need every coalition, so cost doubles with each tenant. */
+export const MAX_SHAPLEY_TENANTS = 16;
+
+/** Encrypted shares that fit in one input proof; mirrors the contract's `MAX_ALLOCATION_TENANTS`. */
+export const MAX_ALLOCATION_TENANTS = 32;
+
+export type AllocationMethod = "proportional" | "shapley";
+
+/** Order of the contract's `AllocationMethod` enum. */
+export const ALLOCATION_METHODS: readonly AllocationMethod[] = [
+  "proportional",
+  "shapley",
+];
+
+/** Whether the oracle has confirmed a recorded period's encrypted shares add up to its savings. */
+export type AllocationCheck = "pending" | "matched" | "mismatched";
+
+/** Order of the contract's `AllocationCheck` enum. */
+export const ALLOCATION_CHECKS: readonly AllocationCheck[] = [
+  "pending",
+  "matched",
+  "mismatched",
+];
+
+export interface TenantContribution {
+  tenant: string;
+  /** Usage the tenant was expected to draw without optimization, in kWh. */
+  baselineKwh: number;
+  /** Usage the tenant actually drew during the period, in kWh. */
+  actualKwh: number;
+}
+
+export interface SavingsPeriodInput {
+  /** Unix seconds; periods are recorded back to back and must not overlap. */
+  periodStart: number;
+  periodEnd: number;
+  /** Whole-building consumption expected without optimization, in whole kWh. */
+  baselineKwh: number;
+  /** Realized whole-building consumption, in whole kWh; at most `baselineKwh`. */
+  actualKwh: number;
+  contributions: TenantContribution[];
+}
+
+export interface TenantAllocation {
+  tenant: string;
+  /** The tenant's own reduction against its baseline, never negative. */
+  contributionKwh: number;
+  /** Credited savings, rounded so the period's allocations add up exactly. */
+  savingsWh: number;
+  /** Fraction of the period's savings, 0–1. */
+  share: number;
+}
+
+export interface SavingsAllocation
+  extends Omit<SavingsPeriodInput, "contributions"> {
+  method: AllocationMethod;
+  savingsKwh: number;
+  allocations: TenantAllocation[];
+}
+
+/**
+ * Exact Shapley values of a cooperative game. `value` receives a coalition as a bit mask
+ * of player indexes and must return 0 for the empty coalition.
+ */
+export function shapleyValues(
+  playerCount: number,
+  value: (coalition: number) => number,
+): number[] {
+  if (playerCount > MAX_SHAPLEY_TENANTS) {
+    throw new EnergySdkError(
+      `Shapley values are limited to ${MAX_SHAPLEY_TENANTS} players; use the proportional method`,
+    );
+  }
+  const coalitions = 1 << playerCount;
+  const values = Array.from({ length: coalitions }, (_, mask) => value(mask));
+
+  // weights[k] = k! (n - k - 1)! / n!, the chance a player joins after exactly k others
+  const weights: number[] = [];
+  for (let k = 0; k < playerCount; k++) {
+    let weight = 1 / playerCount;
+    for (let j = 1; j <= k; j++) weight *= j / (playerCount - j);
+    weights.push(weight);
+  }
+
+  const result = new Array<number>(playerCount).fill(0);
+  for (let mask = 0; mask < coalitions; mask++) {
+    const size = popCount(mask);
+    for (let i = 0; i < playerCount; i++) {
+      if (mask & (1 << i)) continue;
+      result[i] += weights[size] * (values[mask | (1 << i)] - values[mask]);
+    }
+  }
+  return result;
+}
+
+const popCount = (mask: number) => {
+  let count = 0;
+  for (let m = mask; m; m &= m - 1) count++;
+  return count;
+};
+
+const isKwh = (value: number) =>
+  Number.isInteger(value) && value >= 0 && value <= UINT32_MAX;
+
+function validate(input: SavingsPeriodInput) {
+  const { periodStart, periodEnd, baselineKwh, actualKwh } = input;
+  if (
+    !Number.isInteger(periodStart) ||
+    !Number.isInteger(periodEnd) ||
+    periodStart >= periodEnd
+  ) {
+    throw new EnergySdkError("periodStart must be before periodEnd");
+  }
+  if (!isKwh(baselineKwh) || !isKwh(actualKwh)) {
+    throw new EnergySdkError(
+      "baselineKwh and actualKwh must be whole kWh that fit in uint32",
+    );
+  }
+  if (actualKwh > baselineKwh) {
+    throw new EnergySdkError(
+      `actualKwh (${actualKwh}) exceeds baselineKwh (${baselineKwh}); there are no savings to allocate`,
+    );
+  }
+  if (input.contributions.length > MAX_ALLOCATION_TENANTS) {
+    throw new EnergySdkError(
+      `A billing period can credit at most ${MAX_ALLOCATION_TENANTS} tenants, got ${input.contributions.length}`,
+    );
+  }
+  const tenants = new Set<string>();
+  for (const c of input.contributions) {
+    const key = c.tenant.toLowerCase();
+    if (tenants.has(key)) {
+      throw new EnergySdkError(`Tenant ${c.tenant} appears more than once`);
+    }
+    tenants.add(key);
+    if (!(c.baselineKwh >= 0) || !(c.actualKwh >= 0)) {
+      throw new EnergySdkError(
+        `Tenant ${c.tenant} usage must be a non-negative number`,
+      );
+    }
+  }
+  if (baselineKwh > actualKwh && tenants.size === 0) {
+    throw new EnergySdkError("Savings need at least one tenant to credit");
+  }
+}
+
+/**
+ * Split whole-watt-hour `totalWh` in proportion to `weights` using largest remainders,
+ * so the parts add up to exactly `totalWh`. Equal split when every weight is zero.
+ */
+function apportion(totalWh: number, rawWeights: number[]): number[] {
+  // Shapley sums can carry float noise just below zero
+  const weights = rawWeights.map((w) => Math.max(0, w));
+  const sum = weights.reduce((a, b) => a + b, 0);
+  const exact = weights.map((w) =>
+    sum > 0 ? (totalWh * w) / sum : totalWh / weights.length,
+  );
+  const parts = exact.map(Math.floor);
+  let remaining = totalWh - parts.reduce((a, b) => a + b, 0);
+  const order = exact
+    .map((x, i) => ({ i, remainder: x - parts[i] }))
+    .sort((a, b) => b.remainder - a.remainder || a.i - b.i);
+  for (const { i } of order) {
+    if (remaining <= 0) break;
+    parts[i]++;
+    remaining--;
+  }
+  return parts;
+}
+
+/**
+ * Divide a period's realized savings (`baselineKwh - actualKwh`) among tenants.
+ *
+ * Each tenant's contribution is its own reduction against its baseline. `proportional`
+ * splits savings by contribution. `shapley` treats savings as a cooperative game: any
+ * coalition short of the whole building is worth its combined reductions, capped at the
+ * realized savings, while the whole building is worth exactly the realized savings. When
+ * reductions overlap (they add up to more than was saved), tenants whose reductions the
+ * rest could not have covered keep more; when the central systems saved more than the
+ * tenants' reductions, the surplus is shared equally because it needed everyone.
+ */
+export function allocateSavings(
+  input: SavingsPeriodInput,
+  method: AllocationMethod = "shapley",
+): SavingsAllocation {
+  validate(input);
+  const { contributions, ...period } = input;
+  const savingsKwh = input.baselineKwh - input.actualKwh;
+  const contributionKwh = contributions.map((c) =>
+    Math.max(0, c.baselineKwh - c.actualKwh),
+  );
+
+  let weights: number[];
+  if (method === "proportional") {
+    weights = contributionKwh;
+  } else if (method === "shapley") {
+    const grand = (1 << contributions.length) - 1;
+    weights = shapleyValues(contributions.length, (coalition) => {
+      if (coalition === grand) return savingsKwh;
+      let total = 0;
+      contributionKwh.forEach((kwh, i) => {
+        if (coalition & (1 << i)) total += kwh;
+      });
+      return Math.min(savingsKwh, total);
+    });
+  } else {
+    throw new EnergySdkError(`Unknown allocation method "${method}"`);
+  }
+
+  const totalWh = savingsKwh * WH_PER_KWH;
+  const savingsWh =
+    contributions.length === 0 ? [] : apportion(totalWh, weights);
+  return {
+    ...period,
+    method,
+    savingsKwh,
+    allocations: contributions.map((c, i) => ({
+      tenant: c.tenant,
+      contributionKwh: contributionKwh[i],
+      savingsWh: savingsWh[i],
+      share: totalWh > 0 ? savingsWh[i] / totalWh : 0,
+    })),
+  };
+}
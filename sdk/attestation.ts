@@ -0,0 +1,51 @@
+// sdk/attestation.ts
+//
+// Verifier attestations: an independent account (typically the building's metering
+// authority) confirms or disputes tenant readings on-chain. The contract only stores a
+// uint16 reason code per verdict; the codes below are the ones this SDK names.
+
+export type AttestationVerdict = "attested" | "disputed";
+
+/** One verdict from a reading's on-chain history. */
+export interface Attestation {
+  /** Account that held the verifier role when the verdict was recorded. */
+  verifier: string;
+  verdict: AttestationVerdict;
+  reasonCode: number;
+  /** Block timestamp, unix seconds. */
+  timestamp: number;
+}
+
+/** Reason codes for attestations; 0 attests without a remark. */
+export const ATTESTATION_REASONS: Readonly<Record<number, string>> = {
+  0: "No remarks",
+  1: "Matches the utility meter",
+  2: "Matches the building submeter",
+  3: "Accepted after correction",
+};
+
+/** Reason codes for disputes, which always need one. */
+export const DISPUTE_REASONS: Readonly<Record<number, string>> = {
+  100: "Does not match the utility meter",
+  101: "Duplicate of another reading",
+  102: "Outside the meter's plausible range",
+  103: "Meter fault reported for the period",
+  104: "Filed under the wrong system",
+};
+
+/** Human-readable label of a reason code, for codes outside the SDK's lists too. */
+export function describeReason(
+  verdict: AttestationVerdict,
+  reasonCode: number,
+): string {
+  const reasons =
+    verdict === "attested" ? ATTESTATION_REASONS : DISPUTE_REASONS;
+  return reasons[reasonCode] ?? `Reason ${reasonCode}`;
+}
+
+/** The verdict in force: the latest one, or null if the reading was never judged. */
+export function currentVerdict(
+  history: Attestation[],
+): AttestationVerdict | null {
+  return history.length > 0 ? history[history.length - 1].verdict : null;
+}
@@ -0,0 +1,1441 @@
+// sdk/client.ts
+import type {
+  BigNumberish,
+  ContractRunner,
+  ContractTransactionReceipt,
+  ContractTransactionResponse,
+  Signer,
+} from "ethers";
+
+import type { TypedContractEvent, TypedListener } from "../types/common";
+import type { SmartBuildingEnergyFHE } from "../types/contracts/SmartBuildingEnergyFHE";
+import { SmartBuildingEnergyFHE__factory } from "../types/factories/contracts/SmartBuildingEnergyFHE__factory";
+import {
+  ALLOCATION_CHECKS,
+  ALLOCATION_METHODS,
+  type AllocationCheck,
+  type AllocationMethod,
+  type SavingsAllocation,
+} from "./allocation";
+import { type Attestation, type AttestationVerdict } from "./attestation";
+import {
+  type CostOptions,
+  type TariffVersion,
+  type UsageCost,
+  priceUsage,
+} from "./cost";
+import {
+  type UserDecryptionSession,
+  type UserDecryptionSource,
+  createUserDecryptionSession,
+  isSessionValid,
+  userDecryptUint32,
+  userDecryptUint64,
+} from "./decryption";
+import {
+  type EncryptedEnergyBatch,
+  type EncryptedEnergyReading,
+  type EncryptedInputSource,
+  type EncryptedValues,
+  type EnergyReading,
+  MAX_BATCH_SIZE,
+  encryptReading,
+  encryptReadings,
+  encryptUint32,
+  encryptUint64Values,
+} from "./encryption";
+import { type BillingEpoch, type EpochUsage } from "./epochs";
+import {
+  EnergySdkError,
+  NotTenantError,
+  RevealTimeoutError,
+  toEnergySdkError,
+} from "./errors";
+import {
+  type ForecastOptions,
+  type LoadForecast,
+  type LoadObservation,
+  energyFromReveals,
+  forecastLoad,
+  loadSeriesFromReveals,
+} from "./forecast";
+import { DECRYPTION_RETRY_DELAY_SECONDS } from "./reveals";
+import { type TimeOfUseTariff, parseTariff } from "./tariff";
+
+export const DEFAULT_SYSTEM_KEY = "central_system";
+
+/** Mirrors the contract: new readings a system needs before its next aggregate reveal. */
+export const MIN_LOAD_SUM_REVEAL_READINGS = 5;
+
+/** Mirrors the contract: distinct tenants those new readings must come from. */
+export const MIN_LOAD_SUM_REVEAL_TENANTS = 3;
+
+export interface EnergyClientOptions {
+  /** Encrypts plaintext readings for `submitReading`; omit to submit pre-encrypted handles only. */
+  encryptor?: EncryptedInputSource;
+  /** Decrypts ciphertexts shared with the signer, e.g. `decryptSavingsCredit`; omit for read-only use. */
+  decryptor?: UserDecryptionSource;
+  /** Interval used by `waitForReveal` when polling the contract. */
+  pollIntervalMs?: number;
+}
+
+export interface WaitForRevealOptions {
+  timeoutMs?: number;
+  pollIntervalMs?: number;
+}
+
+export interface SubmittedReading {
+  dataId: bigint;
+  receipt: ContractTransactionReceipt;
+}
+
+export interface SubmittedBatch {
+  /** Ids assigned to the batch's readings, consecutive and in submission order. */
+  dataIds: bigint[];
+  receipt: ContractTransactionReceipt;
+}
+
+export interface SubmitReadingsOptions {
+  /** Readings per transaction; capped at `MAX_BATCH_SIZE`, which is also the default. */
+  batchSize?: number;
+  /**
+   * Gas ceiling per transaction. A batch whose estimate exceeds it is halved until it
+   * fits. Defaults to the gas limit of the latest block.
+   */
+  maxGasPerTransaction?: bigint;
+  /** Called after each mined batch with the number of readings submitted so far. */
+  onBatch?: (batch: SubmittedBatch, submitted: number) => void;
+}
+
+export interface StoredReading {
+  id: bigint;
+  tenant: string;
+  systemKey: string;
+  tenantUsageHandle: string;
+  timestampHandle: string;
+  systemLoadHandle: string;
+  timestamp: bigint;
+  /** Billing epoch that was open when the reading was submitted. */
+  billingEpoch: number;
+}
+
+export interface RevealRequest {
+  dataId: bigint;
+  /** Oracle request id; `EnergyDataDecrypted` reports it back when the callback lands. */
+  requestId: bigint;
+  receipt: ContractTransactionReceipt;
+}
+
+/** A reading's oracle reveal as the contract tracks it, for deciding whether to retry. */
+export interface RevealStatus {
+  status: "none" | "pending" | "revealed";
+  /** Latest request, or null if none was ever made. */
+  requestId: bigint | null;
+  /** Block timestamp of the latest request. */
+  requestedAt: number | null;
+  attempts: number;
+  /** Earliest time a pending reveal can be requested again, unix seconds. */
+  retryAt: number | null;
+}
+
+export interface RevealedReading {
+  tenantUsage: number;
+  systemLoad: number;
+  isRevealed: boolean;
+}
+
+/** A reading decrypted for its own tenant only; nothing about it is published on-chain. */
+export interface PrivateReading {
+  id: bigint;
+  systemKey: string;
+  tenantUsage: number;
+  /** Meter time from the encrypted timestamp, unix seconds. */
+  timestamp: number;
+  systemLoad: number;
+  /** Block timestamp (seconds) of the submission. */
+  submittedAt: bigint;
+}
+
+export interface RevealedLoadSum {
+  sum: number;
+  /** Block timestamp (seconds) of the oracle callback. */
+  revealedAt: bigint;
+  /** 1-based position of the reveal in the system key's history. */
+  revealIndex: number;
+}
+
+/** Readings added to a system since its last reveal request, and whether another may be made. */
+export interface LoadSumRevealWindow {
+  readings: number;
+  tenants: number;
+  ready: boolean;
+}
+
+export interface WaitForLoadSumRevealOptions extends WaitForRevealOptions {
+  /** Resolve with the first reveal after this index; defaults to the latest reveal at call time. */
+  afterRevealIndex?: number;
+}
+
+/** A system's total for one billing epoch; `kwh` is null until the oracle reveals it. */
+export interface EpochTotal {
+  epoch: BillingEpoch;
+  kwh: number | null;
+}
+
+export interface PublishedTariff extends TariffVersion {
+  /** 1-based id in the on-chain registry. */
+  tariffId: number;
+  /** Block timestamp (seconds) of the publishing transaction. */
+  publishedAt: bigint;
+}
+
+export interface PriceUsageOptions extends CostOptions {
+  /** Only price usage in `[from, to)`, unix seconds; treated as one billing period. */
+  from?: number;
+  to?: number;
+}
+
+export interface SubmittedAllocation {
+  /** 1-based billing period id assigned by the contract. */
+  periodId: number;
+  receipt: ContractTransactionReceipt;
+}
+
+export interface RecordedSavingsPeriod {
+  periodId: number;
+  periodStart: number;
+  periodEnd: number;
+  baselineKwh: number;
+  actualKwh: number;
+  savingsKwh: number;
+  method: AllocationMethod;
+  /** Block timestamp (seconds) of the recording transaction. */
+  recordedAt: bigint;
+  /** Tenants credited a share; each share is encrypted for its tenant alone. */
+  tenants: string[];
+  check: AllocationCheck;
+}
+
+export interface DecryptedTenantSavings {
+  periodId: number;
+  /** The signer's share of the period's savings. */
+  savingsWh: number;
+}
+
+export interface CreditPeriodHandles {
+  baselineHandle: string;
+  usageHandle: string;
+  /** Block timestamp (seconds) the period was opened. */
+  startedAt: bigint;
+}
+
+export interface SavingsCreditHandles {
+  lastCreditHandle: string;
+  totalCreditsHandle: string;
+  /** Block timestamp (seconds) the last credit period was closed. */
+  computedAt: bigint;
+}
+
+export interface DecryptedSavingsCredit {
+  /** kWh credited for the most recently closed period; 0 before the first close. */
+  lastCredit: number;
+  totalCredits: number;
+  computedAt: bigint;
+  /** Progress of the open period, or null when none is open. */
+  openPeriod: {
+    baselineKwh: number;
+    usageKwh: number;
+    startedAt: bigint;
+  } | null;
+}
+
+export type Unsubscribe = () => Promise<void>;
+
+// Indexed like the contract's AttestationVerdict enum
+const VERDICTS: readonly AttestationVerdict[] = ["attested", "disputed"];
+
+const DEFAULT_POLL_INTERVAL_MS = 4_000;
+const DEFAULT_REVEAL_TIMEOUT_MS = 5 * 60_000;
+
+const inRange = (
+  usage: LoadObservation[],
+  { from = -Infinity, to = Infinity }: PriceUsageOptions,
+) => usage.filter((o) => o.timestamp >= from && o.timestamp < to);
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+/**
+ * High-level client for SmartBuildingEnergyFHE. Works with any ethers runner:
+ * a browser `JsonRpcSigner`, a Node `Wallet`, or a provider for read-only use.
+ */
+export class SmartBuildingEnergyClient {
+  readonly contract: SmartBuildingEnergyFHE;
+  private readonly options: EnergyClientOptions;
+  private decryptionSession?: UserDecryptionSession;
+
+  constructor(
+    contract: SmartBuildingEnergyFHE,
+    options: EnergyClientOptions = {},
+  ) {
+    this.contract = contract;
+    this.options = options;
+  }
+
+  static connect(
+    address: string,
+    runner: ContractRunner,
+    options?: EnergyClientOptions,
+  ): SmartBuildingEnergyClient {
+    return new SmartBuildingEnergyClient(
+      SmartBuildingEnergyFHE__factory.connect(address, runner),
+      options,
+    );
+  }
+
+  /** Encrypt a plaintext reading with the configured encryptor and submit it under `systemKey`. */
+  async submitReading(
+    reading: EnergyReading,
+    systemKey: string = DEFAULT_SYSTEM_KEY,
+  ): Promise<SubmittedReading> {
+    const { encryptor, contractAddress, userAddress } =
+      await this.inputContext("submitReading");
+    const encrypted = await encryptReading(
+      encryptor,
+      contractAddress,
+      userAddress,
+      reading,
+    );
+    return this.submitEncryptedReading(encrypted, systemKey);
+  }
+
+  /**
+   * Encrypt and submit many readings under `systemKey` using batched transactions,
+   * so a day of 15-minute data costs a handful of transactions instead of 96.
+   * Batches are submitted in order; if one fails, the ones reported to `onBatch`
+   * are already on-chain.
+   */
+  async submitReadings(
+    readings: EnergyReading[],
+    systemKey: string = DEFAULT_SYSTEM_KEY,
+    options: SubmitReadingsOptions = {},
+  ): Promise<SubmittedBatch[]> {
+    let batchSize = Math.min(
+      options.batchSize ?? MAX_BATCH_SIZE,
+      MAX_BATCH_SIZE,
+    );
+    if (!Number.isInteger(batchSize) || batchSize < 1) {
+      throw new EnergySdkError(
+        `batchSize must be an integer between 1 and ${MAX_BATCH_SIZE}`,
+      );
+    }
+    const { encryptor, contractAddress, userAddress } =
+      await this.inputContext("submitReadings");
+    const maxGas =
+      options.maxGasPerTransaction ?? (await this.latestBlockGasLimit());
+
+    const batches: SubmittedBatch[] = [];
+    let submitted = 0;
+    while (submitted < readings.length) {
+      const chunk = readings.slice(submitted, submitted + batchSize);
+      const encrypted = await encryptReadings(
+        encryptor,
+        contractAddress,
+        userAddress,
+        chunk,
+      );
+
+      if (maxGas !== undefined) {
+        const gas = await this.call(() =>
+          this.contract.submitEncryptedEnergyDataBatch.estimateGas(
+            systemKey,
+            encrypted.tenantUsage,
+            encrypted.timestamp,
+            encrypted.systemLoad,
+            encrypted.inputProof,
+          ),
+        );
+        if (gas > maxGas) {
+          if (chunk.length === 1) {
+            throw new EnergySdkError(
+              `A single reading needs ${gas} gas, above the ${maxGas} gas limit`,
+            );
+          }
+          // The proof is bound to the chunk's handles, so re-encrypt a smaller one
+          batchSize = Math.ceil(chunk.length / 2);
+          continue;
+        }
+      }
+
+      const batch = await this.submitEncryptedReadingBatch(
+        encrypted,
+        systemKey,
+      );
+      batches.push(batch);
+      submitted += chunk.length;
+      options.onBatch?.(batch, submitted);
+    }
+    return batches;
+  }
+
+  async submitEncryptedReading(
+    encrypted: EncryptedEnergyReading,
+    systemKey: string = DEFAULT_SYSTEM_KEY,
+  ): Promise<SubmittedReading> {
+    const receipt = await this.send(
+      this.contract.submitEncryptedEnergyData(
+        systemKey,
+        encrypted.tenantUsage,
+        encrypted.timestamp,
+        encrypted.systemLoad,
+        encrypted.inputProof,
+      ),
+    );
+
+    const submitted = this.parseEvent(receipt, "EnergyDataSubmitted");
+    if (!submitted) {
+      throw new EnergySdkError(
+        `EnergyDataSubmitted not found in transaction ${receipt.hash}`,
+      );
+    }
+    return { dataId: submitted.args.id as bigint, receipt };
+  }
+
+  async submitEncryptedReadingBatch(
+    encrypted: EncryptedEnergyBatch,
+    systemKey: string = DEFAULT_SYSTEM_KEY,
+  ): Promise<SubmittedBatch> {
+    const receipt = await this.send(
+      this.contract.submitEncryptedEnergyDataBatch(
+        systemKey,
+        encrypted.tenantUsage,
+        encrypted.timestamp,
+        encrypted.systemLoad,
+        encrypted.inputProof,
+      ),
+    );
+
+    const submitted = this.parseEvent(receipt, "EnergyDataBatchSubmitted");
+    if (!submitted) {
+      throw new EnergySdkError(
+        `EnergyDataBatchSubmitted not found in transaction ${receipt.hash}`,
+      );
+    }
+    const firstId = submitted.args.firstId as bigint;
+    const lastId = submitted.args.lastId as bigint;
+    return {
+      dataIds: Array.from(
+        { length: Number(lastId - firstId) + 1 },
+        (_, i) => firstId + BigInt(i),
+      ),
+      receipt,
+    };
+  }
+
+  /**
+   * Tenant only: ask the decryption oracle to publish the cleartexts of a reading. A
+   * reading still waiting on the oracle can only be requested again once
+   * `DECRYPTION_RETRY_DELAY_SECONDS` have passed (`DecryptionPendingError`).
+   */
+  async requestReveal(dataId: BigNumberish): Promise<RevealRequest> {
+    const receipt = await this.send(
+      this.contract.requestEnergyDataDecryption(dataId),
+    );
+    const requested = this.parseEvent(receipt, "DecryptionRequested");
+    if (!requested) {
+      throw new EnergySdkError(
+        `DecryptionRequested not found in transaction ${receipt.hash}`,
+      );
+    }
+    return {
+      dataId: requested.args.id as bigint,
+      requestId: requested.args.requestId as bigint,
+      receipt,
+    };
+  }
+
+  async getRevealStatus(dataId: BigNumberish): Promise<RevealStatus> {
+    const [status, requestId, requestedAt, attempts] = await this.call(() =>
+      this.contract.getDecryptionStatus(dataId),
+    );
+    const requested = Number(attempts) > 0;
+    return {
+      status: (["none", "pending", "revealed"] as const)[Number(status)],
+      requestId: requested ? requestId : null,
+      requestedAt: requested ? Number(requestedAt) : null,
+      attempts: Number(attempts),
+      retryAt:
+        Number(status) === 1
+          ? Number(requestedAt) + DECRYPTION_RETRY_DELAY_SECONDS
+          : null,
+    };
+  }
+
+  async getRevealedReading(dataId: BigNumberish): Promise<RevealedReading> {
+    const [tenantUsage, systemLoad, isRevealed] = await this.call(() =>
+      this.contract.getDecryptedEnergyData(dataId),
+    );
+    return {
+      tenantUsage: Number(tenantUsage),
+      systemLoad: Number(systemLoad),
+      isRevealed,
+    };
+  }
+
+  /** Poll until the oracle callback has revealed `dataId`, or throw `RevealTimeoutError`. */
+  async waitForReveal(
+    dataId: BigNumberish,
+    options: WaitForRevealOptions = {},
+  ): Promise<RevealedReading> {
+    return this.poll(
+      async () => {
+        const reading = await this.getRevealedReading(dataId);
+        return reading.isRevealed ? reading : null;
+      },
+      options,
+      `Reading ${dataId}`,
+    );
+  }
+
+  /**
+   * Decrypt the signer's own readings through user decryption instead of an oracle
+   * reveal: the cleartexts reach only this process and are never written to the
+   * contract. Defaults to every reading the signer submitted. The first call asks the
+   * wallet to sign an EIP-712 request, which is reused until it expires.
+   */
+  async decryptReadings(dataIds?: BigNumberish[]): Promise<PrivateReading[]> {
+    const tenant = await this.signer().getAddress();
+    const readings = dataIds
+      ? await Promise.all(dataIds.map((id) => this.getReading(id)))
+      : (await this.listReadings()).filter(
+          (r) => r.tenant.toLowerCase() === tenant.toLowerCase(),
+        );
+    const foreign = readings.find(
+      (r) => r.tenant.toLowerCase() !== tenant.toLowerCase(),
+    );
+    if (foreign) {
+      throw new NotTenantError(
+        `Reading ${foreign.id} was not submitted by ${tenant}`,
+      );
+    }
+
+    const values = await this.userDecrypt(
+      readings.flatMap((r) => [
+        r.tenantUsageHandle,
+        r.timestampHandle,
+        r.systemLoadHandle,
+      ]),
+      "decryptReadings",
+    );
+    return readings.map((r, i) => ({
+      id: r.id,
+      systemKey: r.systemKey,
+      tenantUsage: values[i * 3],
+      timestamp: values[i * 3 + 1],
+      systemLoad: values[i * 3 + 2],
+      submittedAt: r.timestamp,
+    }));
+  }
+
+  /** Encrypted aggregate load handle for `systemKey`. */
+  async getLoadSum(systemKey: string = DEFAULT_SYSTEM_KEY): Promise<string> {
+    return this.call(() => this.contract.getEncryptedLoadSum(systemKey));
+  }
+
+  /** Last aggregate published by the oracle for `systemKey`, or null before the first reveal. */
+  async getRevealedLoadSum(
+    systemKey: string = DEFAULT_SYSTEM_KEY,
+  ): Promise<RevealedLoadSum | null> {
+    // The contract calls the reveal counter `epoch`; it is unrelated to billing epochs
+    const [sum, revealedAt, revealIndex] = await this.call(() =>
+      this.contract.getRevealedLoadSum(systemKey),
+    );
+    if (revealIndex === 0n) return null;
+    return { sum: Number(sum), revealedAt, revealIndex: Number(revealIndex) };
+  }
+
+  /** Every aggregate revealed for `systemKey`, oldest first. */
+  async getLoadSumHistory(
+    systemKey: string = DEFAULT_SYSTEM_KEY,
+  ): Promise<RevealedLoadSum[]> {
+    const count = Number(
+      await this.call(() => this.contract.getLoadSumRevealCount(systemKey)),
+    );
+    return Promise.all(
+      Array.from({ length: count }, async (_, i) => {
+        const [sum, revealedAt] = await this.call(() =>
+          this.contract.getLoadSumReveal(systemKey, i + 1),
+        );
+        return { sum: Number(sum), revealedAt, revealIndex: i + 1 };
+      }),
+    );
+  }
+
+  /** Poll until the oracle publishes a new aggregate for `systemKey`, or throw `RevealTimeoutError`. */
+  async waitForLoadSumReveal(
+    systemKey: string = DEFAULT_SYSTEM_KEY,
+    options: WaitForLoadSumRevealOptions = {},
+  ): Promise<RevealedLoadSum> {
+    const afterRevealIndex =
+      options.afterRevealIndex ??
+      (await this.getRevealedLoadSum(systemKey))?.revealIndex ??
+      0;
+    return this.poll(
+      async () => {
+        const latest = await this.getRevealedLoadSum(systemKey);
+        return latest && latest.revealIndex > afterRevealIndex ? latest : null;
+      },
+      options,
+      `Load sum of ${systemKey}`,
+    );
+  }
+
+  /**
+   * Forecast the load of `systemKey` from its revealed aggregates. Needs at least
+   * `MIN_FORECAST_HISTORY_HOURS` hours between the first and last reveal.
+   */
+  async forecastLoad(
+    systemKey: string = DEFAULT_SYSTEM_KEY,
+    options?: ForecastOptions,
+  ): Promise<LoadForecast> {
+    const history = await this.getLoadSumHistory(systemKey);
+    return forecastLoad(loadSeriesFromReveals(history), options);
+  }
+
+  /** Progress of `systemKey` towards the readings and tenants its next reveal needs. */
+  async getLoadSumRevealWindow(
+    systemKey: string = DEFAULT_SYSTEM_KEY,
+  ): Promise<LoadSumRevealWindow> {
+    const window = await this.call(() =>
+      this.contract.getLoadSumRevealWindow(systemKey),
+    );
+    const readings = Number(window.readings);
+    const tenants = Number(window.tenants);
+    return {
+      readings,
+      tenants,
+      ready:
+        readings >= MIN_LOAD_SUM_REVEAL_READINGS &&
+        tenants >= MIN_LOAD_SUM_REVEAL_TENANTS,
+    };
+  }
+
+  /**
+   * Building manager only: reveal the aggregate, never individual readings. Throws
+   * `InsufficientReadingsError` until `MIN_LOAD_SUM_REVEAL_READINGS` new readings from
+   * `MIN_LOAD_SUM_REVEAL_TENANTS` distinct tenants have arrived since the last reveal.
+   */
+  async requestLoadSumReveal(
+    systemKey: string = DEFAULT_SYSTEM_KEY,
+  ): Promise<ContractTransactionReceipt> {
+    return this.send(this.contract.requestLoadSumDecryption(systemKey));
+  }
+
+  /**
+   * Owner only: publish a tariff for usage from `effectiveFrom` (unix seconds) on. It is
+   * validated and stored on-chain as JSON; versions must be published in order.
+   */
+  async publishTariff(
+    tariff: TimeOfUseTariff,
+    effectiveFrom: number,
+  ): Promise<{ tariffId: number; receipt: ContractTransactionReceipt }> {
+    const config = JSON.stringify(parseTariff(JSON.stringify(tariff)));
+    const receipt = await this.send(
+      this.contract.publishTariff(config, effectiveFrom),
+    );
+    const published = this.parseEvent(receipt, "TariffPublished");
+    if (!published) {
+      throw new EnergySdkError(
+        `TariffPublished not found in transaction ${receipt.hash}`,
+      );
+    }
+    return { tariffId: Number(published.args.tariffId), receipt };
+  }
+
+  async getTariffCount(): Promise<number> {
+    return Number(await this.call(() => this.contract.getTariffCount()));
+  }
+
+  /** A published tariff version; throws `InvalidTariffError` if its JSON is unusable. */
+  async getTariff(tariffId: number): Promise<PublishedTariff> {
+    const [config, effectiveFrom, publishedAt] = await this.call(() =>
+      this.contract.getTariff(tariffId),
+    );
+    return {
+      tariffId,
+      tariff: parseTariff(config),
+      effectiveFrom: Number(effectiveFrom),
+      publishedAt,
+    };
+  }
+
+  /** Every published tariff version, in the order they take effect. */
+  async listTariffs(): Promise<PublishedTariff[]> {
+    const count = await this.getTariffCount();
+    return Promise.all(
+      Array.from({ length: count }, (_, i) => this.getTariff(i + 1)),
+    );
+  }
+
+  /** The tariff in effect at `timestamp` (default: now), or null before the first one. */
+  async getTariffInEffect(
+    timestamp: number = Math.floor(Date.now() / 1000),
+  ): Promise<PublishedTariff | null> {
+    const tariffs = await this.listTariffs();
+    return tariffs.filter((t) => t.effectiveFrom <= timestamp).pop() ?? null;
+  }
+
+  /** Price the revealed aggregate load of `systemKey` under the published tariffs. */
+  async priceLoadSums(
+    systemKey: string = DEFAULT_SYSTEM_KEY,
+    options: PriceUsageOptions = {},
+  ): Promise<UsageCost> {
+    const [history, tariffs] = await Promise.all([
+      this.getLoadSumHistory(systemKey),
+      this.listTariffs(),
+    ]);
+    return priceUsage(
+      inRange(energyFromReveals(history), options),
+      tariffs,
+      options,
+    );
+  }
+
+  /**
+   * Price the signer's own readings under the published tariffs, at their metered times.
+   * The readings are decrypted through user decryption, as in `decryptReadings`, so the
+   * cost is only ever known to this process.
+   */
+  async priceOwnUsage(
+    dataIds?: BigNumberish[],
+    options: PriceUsageOptions = {},
+  ): Promise<UsageCost> {
+    const [readings, tariffs] = await Promise.all([
+      this.decryptReadings(dataIds),
+      this.listTariffs(),
+    ]);
+    return priceUsage(
+      inRange(
+        readings.map((r) => ({ timestamp: r.timestamp, kwh: r.tenantUsage })),
+        options,
+      ),
+      tariffs,
+      options,
+    );
+  }
+
+  /** Length in seconds after which anyone may close the open billing epoch. */
+  async getBillingEpochDuration(): Promise<number> {
+    return Number(await this.call(() => this.contract.billingEpochDuration()));
+  }
+
+  /** Owner only: change how long billing epochs run, e.g. `30 * 86400`. */
+  async setBillingEpochDuration(
+    seconds: number,
+  ): Promise<ContractTransactionReceipt> {
+    return this.send(this.contract.setBillingEpochDuration(seconds));
+  }
+
+  /** Id of the open billing epoch that new readings count towards. */
+  async getCurrentBillingEpoch(): Promise<number> {
+    return Number(await this.call(() => this.contract.currentBillingEpoch()));
+  }
+
+  async getBillingEpoch(epochId: number): Promise<BillingEpoch> {
+    const [startedAt, closedAt] = await this.call(() =>
+      this.contract.getBillingEpoch(epochId),
+    );
+    return { epochId, startedAt, closedAt: closedAt === 0n ? null : closedAt };
+  }
+
+  /** Every billing epoch, oldest first; the last one is open. */
+  async listBillingEpochs(): Promise<BillingEpoch[]> {
+    const current = await this.getCurrentBillingEpoch();
+    return Promise.all(
+      Array.from({ length: current }, (_, i) => this.getBillingEpoch(i + 1)),
+    );
+  }
+
+  /**
+   * Close the open billing epoch, freezing its encrypted totals, and open the next.
+   * The owner may close at any time; anyone else once the epoch duration has passed.
+   * Resolves with the id of the epoch that was closed.
+   */
+  async closeBillingEpoch(): Promise<{
+    epochId: number;
+    receipt: ContractTransactionReceipt;
+  }> {
+    const receipt = await this.send(this.contract.closeBillingEpoch());
+    const closed = this.parseEvent(receipt, "BillingEpochClosed");
+    if (!closed) {
+      throw new EnergySdkError(
+        `BillingEpochClosed not found in transaction ${receipt.hash}`,
+      );
+    }
+    return { epochId: Number(closed.args.epochId), receipt };
+  }
+
+  /** Encrypted total of `systemKey` within one billing epoch. */
+  async getEpochLoadSum(
+    epochId: number,
+    systemKey: string = DEFAULT_SYSTEM_KEY,
+  ): Promise<string> {
+    return this.call(() => this.contract.getEpochLoadSum(epochId, systemKey));
+  }
+
+  /**
+   * Building manager only: reveal a closed epoch's total for `systemKey`. While a request
+   * is unanswered, another is rejected with `DecryptionPendingError` until
+   * `DECRYPTION_RETRY_DELAY_SECONDS` have passed.
+   */
+  async requestEpochTotalReveal(
+    epochId: number,
+    systemKey: string = DEFAULT_SYSTEM_KEY,
+  ): Promise<ContractTransactionReceipt> {
+    return this.send(
+      this.contract.requestEpochTotalDecryption(epochId, systemKey),
+    );
+  }
+
+  /** Revealed kWh of `systemKey` in a billing epoch, or null before its reveal. */
+  async getEpochTotal(
+    epochId: number,
+    systemKey: string = DEFAULT_SYSTEM_KEY,
+  ): Promise<number | null> {
+    const [sum, isRevealed] = await this.call(() =>
+      this.contract.getEpochTotal(epochId, systemKey),
+    );
+    return isRevealed ? Number(sum) : null;
+  }
+
+  /** Every billing epoch with the revealed total of `systemKey`, oldest first. */
+  async listEpochTotals(
+    systemKey: string = DEFAULT_SYSTEM_KEY,
+  ): Promise<EpochTotal[]> {
+    const epochs = await this.listBillingEpochs();
+    return Promise.all(
+      epochs.map(async (epoch) => ({
+        epoch,
+        kwh: await this.getEpochTotal(epoch.epochId, systemKey),
+      })),
+    );
+  }
+
+  /** Poll until the oracle reveals an epoch total, or throw `RevealTimeoutError`. */
+  async waitForEpochTotal(
+    epochId: number,
+    systemKey: string = DEFAULT_SYSTEM_KEY,
+    options: WaitForRevealOptions = {},
+  ): Promise<number> {
+    return this.poll(
+      () => this.getEpochTotal(epochId, systemKey),
+      options,
+      `Epoch ${epochId} total of ${systemKey}`,
+    );
+  }
+
+  /**
+   * Decrypt the signer's own usage per billing epoch, across all systems, through user
+   * decryption. Defaults to every epoch; epochs without readings come back as 0 kWh.
+   */
+  async decryptEpochUsage(epochIds?: number[]): Promise<EpochUsage[]> {
+    const tenant = await this.signer().getAddress();
+    const epochs = epochIds
+      ? await Promise.all(epochIds.map((id) => this.getBillingEpoch(id)))
+      : await this.listBillingEpochs();
+    const handles = await Promise.all(
+      epochs.map((epoch) =>
+        this.call(() =>
+          this.contract.getEpochTenantUsage(epoch.epochId, tenant),
+        ),
+      ),
+    );
+    const values = await this.userDecrypt(handles, "decryptEpochUsage");
+    return epochs.map((epoch, i) => ({ epoch, kwh: values[i] }));
+  }
+
+  /**
+   * Building manager only: record a billing period's savings split from `allocateSavings`.
+   * Each share is encrypted before it leaves this process; the contract then has the
+   * oracle check publicly that the shares add up to the period's savings.
+   */
+  async recordSavingsAllocation(
+    allocation: SavingsAllocation,
+  ): Promise<SubmittedAllocation> {
+    // A period that saved nothing may credit nobody, leaving nothing to encrypt
+    let encrypted: EncryptedValues = { handles: [], inputProof: "0x" };
+    if (allocation.allocations.length > 0) {
+      const { encryptor, contractAddress, userAddress } =
+        await this.inputContext("recordSavingsAllocation");
+      encrypted = await encryptUint64Values(
+        encryptor,
+        contractAddress,
+        userAddress,
+        "Savings share",
+        allocation.allocations.map((a) => a.savingsWh),
+      );
+    }
+    const receipt = await this.send(
+      this.contract.recordSavingsAllocation(
+        allocation.periodStart,
+        allocation.periodEnd,
+        allocation.baselineKwh,
+        allocation.actualKwh,
+        ALLOCATION_METHODS.indexOf(allocation.method),
+        allocation.allocations.map((a) => a.tenant),
+        encrypted.handles,
+        encrypted.inputProof,
+      ),
+    );
+
+    const recorded = this.parseEvent(receipt, "SavingsAllocated");
+    if (!recorded) {
+      throw new EnergySdkError(
+        `SavingsAllocated not found in transaction ${receipt.hash}`,
+      );
+    }
+    return { periodId: Number(recorded.args.periodId), receipt };
+  }
+
+  async getSavingsPeriodCount(): Promise<number> {
+    return Number(await this.call(() => this.contract.getSavingsPeriodCount()));
+  }
+
+  async getSavingsPeriod(periodId: number): Promise<RecordedSavingsPeriod> {
+    const period = await this.call(() =>
+      this.contract.getSavingsPeriod(periodId),
+    );
+    return {
+      periodId,
+      periodStart: Number(period.periodStart),
+      periodEnd: Number(period.periodEnd),
+      baselineKwh: Number(period.baselineKwh),
+      actualKwh: Number(period.actualKwh),
+      savingsKwh: Number(period.baselineKwh - period.actualKwh),
+      method: ALLOCATION_METHODS[Number(period.method)],
+      recordedAt: period.recordedAt,
+      tenants: [...period.tenants],
+      check: ALLOCATION_CHECKS[Number(period.check)],
+    };
+  }
+
+  /** Every recorded billing period, oldest first. */
+  async listSavingsPeriods(): Promise<RecordedSavingsPeriod[]> {
+    const count = await this.getSavingsPeriodCount();
+    return Promise.all(
+      Array.from({ length: count }, (_, i) => this.getSavingsPeriod(i + 1)),
+    );
+  }
+
+  /** Handle of the encrypted watt-hours credited to `tenant` in a billing period, or null if it had no share. */
+  async getTenantSavings(
+    periodId: number,
+    tenant: string,
+  ): Promise<string | null> {
+    const [savingsWhHandle, allocated] = await this.call(() =>
+      this.contract.getTenantSavings(periodId, tenant),
+    );
+    return allocated ? savingsWhHandle : null;
+  }
+
+  /**
+   * Decrypt the signer's own share of every billing period that credited it, oldest
+   * first, through user decryption. Only the tenant is allowed its shares.
+   */
+  async decryptTenantSavings(): Promise<DecryptedTenantSavings[]> {
+    const tenant = await this.signer().getAddress();
+    const periods = (await this.listSavingsPeriods()).filter((p) =>
+      p.tenants.some((t) => t.toLowerCase() === tenant.toLowerCase()),
+    );
+    const handles = await Promise.all(
+      periods.map(
+        async (p) => (await this.getTenantSavings(p.periodId, tenant))!,
+      ),
+    );
+    const values = await this.userDecrypt(
+      handles,
+      "decryptTenantSavings",
+      userDecryptUint64,
+    );
+    return periods.map((p, i) => ({
+      periodId: p.periodId,
+      savingsWh: values[i],
+    }));
+  }
+
+  /**
+   * Building manager only: ask the oracle again whether a period's shares add up, once
+   * `DECRYPTION_RETRY_DELAY_SECONDS` have passed without an answer.
+   */
+  async requestSavingsCheck(
+    periodId: number,
+  ): Promise<ContractTransactionReceipt> {
+    return this.send(this.contract.requestSavingsCheck(periodId));
+  }
+
+  /**
+   * Building manager only: open a savings credit period for `tenant`. The baseline is
+   * encrypted before it leaves this process, and the tenant's usage is summed on-chain
+   * from its readings until `closeCreditPeriod`.
+   */
+  async startCreditPeriod(
+    tenant: string,
+    baselineKwh: number,
+  ): Promise<ContractTransactionReceipt> {
+    const { encryptor, contractAddress, userAddress } =
+      await this.inputContext("startCreditPeriod");
+    const baseline = await encryptUint32(
+      encryptor,
+      contractAddress,
+      userAddress,
+      "Baseline",
+      baselineKwh,
+    );
+    return this.send(
+      this.contract.startCreditPeriod(
+        tenant,
+        baseline.handle,
+        baseline.inputProof,
+      ),
+    );
+  }
+
+  /** Building manager only: credit the tenant max(baseline - usage, 0) homomorphically. */
+  async closeCreditPeriod(tenant: string): Promise<ContractTransactionReceipt> {
+    return this.send(this.contract.closeCreditPeriod(tenant));
+  }
+
+  /** Encrypted state of the tenant's open credit period, or null when none is open. */
+  async getCreditPeriod(tenant: string): Promise<CreditPeriodHandles | null> {
+    const [baselineHandle, usageHandle, startedAt] = await this.call(() =>
+      this.contract.getCreditPeriod(tenant),
+    );
+    if (startedAt === 0n) return null;
+    return { baselineHandle, usageHandle, startedAt };
+  }
+
+  /** Encrypted credit handles of `tenant`, or null before its first closed period. */
+  async getSavingsCredit(tenant: string): Promise<SavingsCreditHandles | null> {
+    const [lastCreditHandle, totalCreditsHandle, computedAt] = await this.call(
+      () => this.contract.getSavingsCredit(tenant),
+    );
+    if (computedAt === 0n) return null;
+    return { lastCreditHandle, totalCreditsHandle, computedAt };
+  }
+
+  /**
+   * Decrypt the signer's own savings credits and open period through user decryption.
+   * The first call asks the wallet to sign an EIP-712 request; the signature is reused
+   * until it expires. Only the tenant is allowed these ciphertexts, so no one else can.
+   */
+  async decryptSavingsCredit(): Promise<DecryptedSavingsCredit> {
+    const tenant = await this.signer().getAddress();
+    const [credit, period] = await Promise.all([
+      this.getSavingsCredit(tenant),
+      this.getCreditPeriod(tenant),
+    ]);
+    const handles = [
+      ...(credit ? [credit.lastCreditHandle, credit.totalCreditsHandle] : []),
+      ...(period ? [period.baselineHandle, period.usageHandle] : []),
+    ];
+    // The open period's usage is a euint64, so the request is sized for the wider type
+    const values = await this.userDecrypt(
+      handles,
+      "decryptSavingsCredit",
+      userDecryptUint64,
+    );
+    const [lastCredit, totalCredits] = credit ? values.splice(0, 2) : [0, 0];
+    return {
+      lastCredit,
+      totalCredits,
+      computedAt: credit?.computedAt ?? 0n,
+      openPeriod: period
+        ? {
+            baselineKwh: values[0],
+            usageKwh: values[1],
+            startedAt: period.startedAt,
+          }
+        : null,
+    };
+  }
+
+  async getDataCount(): Promise<bigint> {
+    return this.call(() => this.contract.dataCount());
+  }
+
+  async getReading(dataId: BigNumberish): Promise<StoredReading> {
+    const entry = await this.call(() => this.contract.encryptedData(dataId));
+    return {
+      id: entry.id,
+      tenant: entry.tenant,
+      systemKey: entry.systemKey,
+      tenantUsageHandle: entry.encryptedTenantUsage,
+      timestampHandle: entry.encryptedTimestamp,
+      systemLoadHandle: entry.encryptedSystemLoad,
+      timestamp: entry.timestamp,
+      billingEpoch: Number(entry.billingEpoch),
+    };
+  }
+
+  async listReadings(): Promise<StoredReading[]> {
+    const count = Number(await this.getDataCount());
+    return Promise.all(
+      Array.from({ length: count }, (_, i) => this.getReading(i + 1)),
+    );
+  }
+
+  /** Registered system keys in registration order; `central_system` is always first. */
+  async listSystems(): Promise<string[]> {
+    return this.call(() => this.contract.getSystems());
+  }
+
+  async isSystemRegistered(systemKey: string): Promise<boolean> {
+    return this.call(() => this.contract.isSystemRegistered(systemKey));
+  }
+
+  /** Owner only: register an HVAC zone, lighting circuit or other system tenants can report against. */
+  async registerSystem(systemKey: string): Promise<ContractTransactionReceipt> {
+    return this.send(this.contract.registerSystem(systemKey));
+  }
+
+  async getOwner(): Promise<string> {
+    return this.call(() => this.contract.owner());
+  }
+
+  async getBuildingManager(): Promise<string> {
+    return this.call(() => this.contract.buildingManager());
+  }
+
+  async getVerifier(): Promise<string> {
+    return this.call(() => this.contract.verifier());
+  }
+
+  /** Owner only: hand the attestation role to another account, e.g. the metering authority. */
+  async setVerifier(verifier: string): Promise<ContractTransactionReceipt> {
+    return this.send(this.contract.setVerifier(verifier));
+  }
+
+  /**
+   * Verifier only: confirm a reading, optionally with one of `ATTESTATION_REASONS`. The
+   * verifier cannot judge its own readings.
+   */
+  async attestReading(
+    dataId: BigNumberish,
+    reasonCode = 0,
+  ): Promise<ContractTransactionReceipt> {
+    return this.send(this.contract.attestReading(dataId, reasonCode));
+  }
+
+  /** Verifier only: dispute a reading with a non-zero reason, e.g. from `DISPUTE_REASONS`. */
+  async disputeReading(
+    dataId: BigNumberish,
+    reasonCode: number,
+  ): Promise<ContractTransactionReceipt> {
+    return this.send(this.contract.disputeReading(dataId, reasonCode));
+  }
+
+  /** Every verdict recorded for a reading, oldest first; the last one is current. */
+  async getAttestations(dataId: BigNumberish): Promise<Attestation[]> {
+    const count = await this.call(() =>
+      this.contract.getAttestationCount(dataId),
+    );
+    return Promise.all(
+      Array.from({ length: Number(count) }, async (_, i) => {
+        const [verifier, verdict, reasonCode, timestamp] = await this.call(() =>
+          this.contract.getAttestation(dataId, i),
+        );
+        return {
+          verifier,
+          verdict: VERDICTS[Number(verdict)],
+          reasonCode: Number(reasonCode),
+          timestamp: Number(timestamp),
+        };
+      }),
+    );
+  }
+
+  /** Owner only: hand aggregate reveal rights to another account. */
+  async setBuildingManager(
+    manager: string,
+  ): Promise<ContractTransactionReceipt> {
+    return this.send(this.contract.setBuildingManager(manager));
+  }
+
+  onReadingSubmitted(
+    listener: (
+      dataId: bigint,
+      tenant: string,
+      systemKey: string,
+      timestamp: bigint,
+    ) => void,
+  ): Promise<Unsubscribe> {
+    return this.subscribe(
+      this.contract.filters.EnergyDataSubmitted,
+      (id: bigint, tenant: string, systemKey: string, timestamp: bigint) =>
+        listener(id, tenant, systemKey, timestamp),
+    );
+  }
+
+  onBatchSubmitted(
+    listener: (batch: {
+      tenant: string;
+      systemKey: string;
+      firstId: bigint;
+      lastId: bigint;
+      timestamp: bigint;
+    }) => void,
+  ): Promise<Unsubscribe> {
+    return this.subscribe(
+      this.contract.filters.EnergyDataBatchSubmitted,
+      (
+        tenant: string,
+        systemKey: string,
+        firstId: bigint,
+        lastId: bigint,
+        timestamp: bigint,
+      ) => listener({ tenant, systemKey, firstId, lastId, timestamp }),
+    );
+  }
+
+  onRevealRequested(
+    listener: (dataId: bigint, requestId: bigint) => void,
+  ): Promise<Unsubscribe> {
+    return this.subscribe(
+      this.contract.filters.DecryptionRequested,
+      (id: bigint, requestId: bigint) => listener(id, requestId),
+    );
+  }
+
+  onReadingRevealed(
+    listener: (dataId: bigint, requestId: bigint) => void,
+  ): Promise<Unsubscribe> {
+    return this.subscribe(
+      this.contract.filters.EnergyDataDecrypted,
+      (id: bigint, requestId: bigint) => listener(id, requestId),
+    );
+  }
+
+  onReadingAttested(
+    listener: (dataId: bigint, verifier: string, reasonCode: number) => void,
+  ): Promise<Unsubscribe> {
+    return this.subscribe(
+      this.contract.filters.ReadingAttested,
+      (id: bigint, verifier: string, reasonCode: bigint) =>
+        listener(id, verifier, Number(reasonCode)),
+    );
+  }
+
+  onReadingDisputed(
+    listener: (dataId: bigint, verifier: string, reasonCode: number) => void,
+  ): Promise<Unsubscribe> {
+    return this.subscribe(
+      this.contract.filters.ReadingDisputed,
+      (id: bigint, verifier: string, reasonCode: bigint) =>
+        listener(id, verifier, Number(reasonCode)),
+    );
+  }
+
+  onLoadSumRevealed(
+    listener: (reveal: RevealedLoadSum & { systemKey: string }) => void,
+  ): Promise<Unsubscribe> {
+    return this.subscribe(
+      this.contract.filters.LoadSumRevealed,
+      (
+        systemKey: string,
+        revealIndex: bigint,
+        sum: bigint,
+        revealedAt: bigint,
+      ) =>
+        listener({
+          systemKey,
+          sum: Number(sum),
+          revealedAt,
+          revealIndex: Number(revealIndex),
+        }),
+    );
+  }
+
+  onTariffPublished(
+    listener: (tariffId: number, effectiveFrom: number) => void,
+  ): Promise<Unsubscribe> {
+    return this.subscribe(
+      this.contract.filters.TariffPublished,
+      (tariffId: bigint, effectiveFrom: bigint) =>
+        listener(Number(tariffId), Number(effectiveFrom)),
+    );
+  }
+
+  onBillingEpochClosed(
+    listener: (epochId: number, startedAt: bigint, closedAt: bigint) => void,
+  ): Promise<Unsubscribe> {
+    return this.subscribe(
+      this.contract.filters.BillingEpochClosed,
+      (epochId: bigint, startedAt: bigint, closedAt: bigint) =>
+        listener(Number(epochId), startedAt, closedAt),
+    );
+  }
+
+  onSavingsAllocated(
+    listener: (period: {
+      periodId: number;
+      periodStart: number;
+      periodEnd: number;
+      savingsKwh: number;
+      method: AllocationMethod;
+    }) => void,
+  ): Promise<Unsubscribe> {
+    return this.subscribe(
+      this.contract.filters.SavingsAllocated,
+      (
+        periodId: bigint,
+        periodStart: bigint,
+        periodEnd: bigint,
+        savingsKwh: bigint,
+        method: bigint,
+      ) =>
+        listener({
+          periodId: Number(periodId),
+          periodStart: Number(periodStart),
+          periodEnd: Number(periodEnd),
+          savingsKwh: Number(savingsKwh),
+          method: ALLOCATION_METHODS[Number(method)],
+        }),
+    );
+  }
+
+  onSavingsCreditComputed(
+    listener: (tenant: string, periodStart: bigint, computedAt: bigint) => void,
+  ): Promise<Unsubscribe> {
+    return this.subscribe(
+      this.contract.filters.SavingsCreditComputed,
+      (tenant: string, periodStart: bigint, computedAt: bigint) =>
+        listener(tenant, periodStart, computedAt),
+    );
+  }
+
+  private async poll<T>(
+    check: () => Promise<T | null>,
+    options: WaitForRevealOptions,
+    subject: string,
+  ): Promise<T> {
+    const timeoutMs = options.timeoutMs ?? DEFAULT_REVEAL_TIMEOUT_MS;
+    const pollIntervalMs =
+      options.pollIntervalMs ??
+      this.options.pollIntervalMs ??
+      DEFAULT_POLL_INTERVAL_MS;
+    const deadline = Date.now() + timeoutMs;
+
+    for (;;) {
+      const result = await check();
+      if (result !== null) return result;
+      if (Date.now() + pollIntervalMs > deadline) {
+        throw new RevealTimeoutError(
+          `${subject} was not revealed within ${timeoutMs}ms`,
+        );
+      }
+      await sleep(pollIntervalMs);
+    }
+  }
+
+  private async subscribe<TCEvent extends TypedContractEvent>(
+    event: TCEvent,
+    listener: TypedListener<TCEvent>,
+  ): Promise<Unsubscribe> {
+    await this.contract.on(event, listener);
+    return async () => {
+      await this.contract.off(event, listener);
+    };
+  }
+
+  private async inputContext(operation: string) {
+    const { encryptor } = this.options;
+    if (!encryptor) {
+      throw new EnergySdkError(
+        `${operation} requires an encryptor; pass one in EnergyClientOptions`,
+      );
+    }
+    const [contractAddress, userAddress] = await Promise.all([
+      this.contract.getAddress(),
+      this.signer().getAddress(),
+    ]);
+    return { encryptor, contractAddress, userAddress };
+  }
+
+  private async userDecrypt(
+    handles: string[],
+    operation: string,
+    decrypt = userDecryptUint32,
+  ): Promise<number[]> {
+    const { decryptor } = this.options;
+    if (!decryptor) {
+      throw new EnergySdkError(
+        `${operation} requires a decryptor; pass one in EnergyClientOptions`,
+      );
+    }
+    if (handles.length === 0) return [];
+
+    const signer = this.signer();
+    const [contractAddress, userAddress] = await Promise.all([
+      this.contract.getAddress(),
+      signer.getAddress(),
+    ]);
+    const session = this.decryptionSession;
+    if (
+      !session ||
+      session.userAddress !== userAddress ||
+      !isSessionValid(session)
+    ) {
+      this.decryptionSession = await createUserDecryptionSession(
+        decryptor,
+        signer,
+        contractAddress,
+      );
+    }
+    return this.call(() =>
+      decrypt(decryptor, this.decryptionSession!, handles),
+    );
+  }
+
+  private async latestBlockGasLimit(): Promise<bigint | undefined> {
+    const block = await this.signer().provider?.getBlock("latest");
+    return block?.gasLimit;
+  }
+
+  private signer(): Signer {
+    const runner = this.contract.runner as Signer | null;
+    if (!runner || typeof runner.getAddress !== "function") {
+      throw new EnergySdkError(
+        "This operation requires a client connected with a Signer",
+      );
+    }
+    return runner;
+  }
+
+  private parseEvent(receipt: ContractTransactionReceipt, name: string) {
+    for (const log of receipt.logs) {
+      if (log.address !== receipt.to) continue;
+      const parsed = this.contract.interface.parseLog(log);
+      if (parsed?.name === name) return parsed;
+    }
+    return null;
+  }
+
+  private async call<T>(fn: () => Promise<T>): Promise<T> {
+    try {
+      return await fn();
+    } catch (e) {
+      throw toEnergySdkError(e);
+    }
+  }
+
+  private async send(
+    tx: Promise<ContractTransactionResponse>,
+  ): Promise<ContractTransactionReceipt> {
+    return this.call(async () => {
+      const receipt = await (await tx).wait();
+      if (!receipt) {
+        throw new EnergySdkError("Transaction was dropped before it was mined");
+      }
+      return receipt;
+    });
+  }
+}
@@ -0,0 +1,157 @@
+// sdk/cost.ts
+//
+// Prices hourly usage under time-of-use tariffs: energy charges per rate and season plus
+// demand charges on the peak hour. Pure, like the forecaster: the client feeds it
+// revealed aggregates (`priceLoadSums`) or a tenant's privately decrypted readings
+// (`priceOwnUsage`) together with the tariffs published on-chain.
+import { EnergySdkError, TariffNotFoundError } from "./errors";
+import type { LoadObservation } from "./forecast";
+import {
+  type TimeOfUseTariff,
+  demandChargeApplies,
+  rateAt,
+  validateTariff,
+} from "./tariff";
+
+const HOUR = 3600;
+
+/** A tariff and the time it takes effect, e.g. one entry of the on-chain registry. */
+export interface TariffVersion {
+  tariff: TimeOfUseTariff;
+  /** Unix seconds. */
+  effectiveFrom: number;
+}
+
+export interface CostOptions {
+  /** Building-local offset from UTC that tariff hours, days and months are evaluated in. */
+  utcOffsetMinutes?: number;
+}
+
+export interface EnergyCharge {
+  label: string;
+  season?: string;
+  pricePerKwh: number;
+  kwh: number;
+  cost: number;
+}
+
+export interface DemandChargeLine {
+  label: string;
+  pricePerKw: number;
+  /** Highest average kW over one counted hour; 0 when no hour counted. */
+  peakKw: number;
+  /** Start of the peak hour, or null when no hour counted. */
+  peakAt: number | null;
+  cost: number;
+}
+
+export interface UsageCost {
+  currency: string;
+  kwh: number;
+  energyCost: number;
+  demandCost: number;
+  total: number;
+  /** Energy charges grouped by rate, in order of first use. */
+  energy: EnergyCharge[];
+  demand: DemandChargeLine[];
+}
+
+/** The tariff in effect at `timestamp`: the version that most recently took effect. */
+export function tariffAt(
+  versions: TariffVersion[],
+  timestamp: number,
+): TimeOfUseTariff {
+  let current: TariffVersion | undefined;
+  for (const version of versions) {
+    if (
+      version.effectiveFrom <= timestamp &&
+      (!current || version.effectiveFrom >= current.effectiveFrom)
+    ) {
+      current = version;
+    }
+  }
+  if (!current) {
+    throw new TariffNotFoundError(
+      `No tariff is in effect at ${new Date(timestamp * 1000).toISOString()}`,
+    );
+  }
+  return current.tariff;
+}
+
+/**
+ * Price `usage` (kWh per clock hour; observations in the same hour are added up). Each
+ * hour is charged at the rate of the tariff version in effect then. Demand charges treat
+ * the usage as one billing period: each charge bills the highest hourly kWh (the average
+ * kW over that hour) among the hours it counts and its tariff version covers.
+ */
+export function priceUsage(
+  usage: LoadObservation[],
+  tariff: TimeOfUseTariff | TariffVersion[],
+  options: CostOptions = {},
+): UsageCost {
+  const versions = Array.isArray(tariff)
+    ? tariff
+    : [{ tariff, effectiveFrom: -Infinity }];
+  if (versions.length === 0) {
+    throw new TariffNotFoundError("No tariff to price usage with");
+  }
+  versions.forEach((v) => validateTariff(v.tariff));
+  const currency = versions[0].tariff.currency;
+  if (versions.some((v) => v.tariff.currency !== currency)) {
+    throw new EnergySdkError("Tariff versions must share one currency");
+  }
+  const offset = options.utcOffsetMinutes ?? 0;
+
+  const hours = new Map<number, number>();
+  for (const { timestamp, kwh } of usage) {
+    const hour = Math.floor(timestamp / HOUR) * HOUR;
+    hours.set(hour, (hours.get(hour) ?? 0) + kwh);
+  }
+
+  const energy = new Map<string, EnergyCharge>();
+  const demand = new Map<TimeOfUseTariff, DemandChargeLine[]>();
+  for (const [hour, kwh] of [...hours].sort(([a], [b]) => a - b)) {
+    const current = tariffAt(versions, hour);
+    const rate = rateAt(current, hour, offset);
+    const key = `${rate.season ?? ""}\u0000${rate.label}\u0000${rate.pricePerKwh}`;
+    const charge = energy.get(key) ?? { ...rate, kwh: 0, cost: 0 };
+    charge.kwh += kwh;
+    charge.cost += kwh * rate.pricePerKwh;
+    energy.set(key, charge);
+
+    if (!demand.has(current)) {
+      demand.set(
+        current,
+        (current.demandCharges ?? []).map((c) => ({
+          label: c.label,
+          pricePerKw: c.pricePerKw,
+          peakKw: 0,
+          peakAt: null,
+          cost: 0,
+        })),
+      );
+    }
+    const lines = demand.get(current)!;
+    (current.demandCharges ?? []).forEach((c, i) => {
+      if (kwh > lines[i].peakKw && demandChargeApplies(c, hour, offset)) {
+        lines[i].peakKw = kwh;
+        lines[i].peakAt = hour;
+        lines[i].cost = kwh * c.pricePerKw;
+      }
+    });
+  }
+
+  const energyLines = [...energy.values()];
+  const demandLines = [...demand.values()].flat();
+  const energyCost = energyLines.reduce((sum, c) => sum + c.cost, 0);
+  const demandCost = demandLines.reduce((sum, c) => sum + c.cost, 0);
+  return {
+    currency,
+    kwh: energyLines.reduce((sum, c) => sum + c.kwh, 0),
+    energyCost,
+    demandCost,
+    total: energyCost + demandCost,
+    energy: energyLines,
+    demand: demandLines,
+  };
+}
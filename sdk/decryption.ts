@@ -0,0 +1,163 @@
+// sdk/decryption.ts
+//
+// User decryption: the KMS re-encrypts ciphertexts the contract has shared with an
+// account under a throwaway keypair, after that account signs an EIP-712 request.
+// Nothing is published on-chain, unlike the oracle reveals in `client.ts`.
+import type { Signer, TypedDataField } from "ethers";
+
+import { EnergySdkError } from "./errors";
+
+/** How long a signed decryption request stays valid. */
+export const USER_DECRYPTION_DURATION_DAYS = 1;
+
+/** The KMS re-encrypts at most 2048 bits per request, i.e. 64 euint32 handles. */
+export const MAX_USER_DECRYPT_HANDLES = 64;
+
+/**
+ * The subset of an FHEVM instance needed for user decryption. Satisfied by the relayer
+ * SDK (web and node builds) and by the `@fhevm/hardhat-plugin` mock.
+ */
+export interface UserDecryptionSource {
+  generateKeypair(): { publicKey: string; privateKey: string };
+  createEIP712(
+    publicKey: string,
+    contractAddresses: string[],
+    startTimestamp: string | number,
+    durationDays: string | number,
+  ): {
+    domain: Record<string, unknown>;
+    types: Record<string, TypedDataField[]>;
+    message: Record<string, unknown>;
+  };
+  userDecrypt(
+    handles: { handle: string; contractAddress: string }[],
+    privateKey: string,
+    publicKey: string,
+    signature: string,
+    contractAddresses: string[],
+    userAddress: string,
+    startTimestamp: string | number,
+    durationDays: string | number,
+  ): Promise<Record<string, bigint | boolean | string>>;
+}
+
+/** A signed decryption request; reusable until it expires, so the wallet prompts once. */
+export interface UserDecryptionSession {
+  userAddress: string;
+  contractAddress: string;
+  publicKey: string;
+  privateKey: string;
+  signature: string;
+  startTimestamp: number;
+  durationDays: number;
+}
+
+const ZERO_HANDLE = `0x${"0".repeat(64)}`;
+
+/** Generate a keypair and have `signer` authorize decrypting `contractAddress` ciphertexts with it. */
+export async function createUserDecryptionSession(
+  source: UserDecryptionSource,
+  signer: Signer,
+  contractAddress: string,
+  durationDays: number = USER_DECRYPTION_DURATION_DAYS,
+): Promise<UserDecryptionSession> {
+  const { publicKey, privateKey } = source.generateKeypair();
+  const startTimestamp = Math.floor(Date.now() / 1000);
+  const eip712 = source.createEIP712(
+    publicKey,
+    [contractAddress],
+    startTimestamp,
+    durationDays,
+  );
+  // ethers derives the domain type itself and rejects it among the message types
+  const { EIP712Domain: _domain, ...types } = eip712.types;
+  const signature = await signer.signTypedData(
+    eip712.domain,
+    types,
+    eip712.message,
+  );
+  return {
+    userAddress: await signer.getAddress(),
+    contractAddress,
+    publicKey,
+    privateKey,
+    signature,
+    startTimestamp,
+    durationDays,
+  };
+}
+
+export function isSessionValid(
+  session: UserDecryptionSession,
+  now: number = Math.floor(Date.now() / 1000),
+): boolean {
+  return now < session.startTimestamp + session.durationDays * 86400;
+}
+
+/**
+ * Decrypt euint32 handles the session's account is allowed to read, in requests of at
+ * most `MAX_USER_DECRYPT_HANDLES`. Uninitialized (zero) handles decrypt to 0 without a
+ * KMS round trip.
+ */
+export function userDecryptUint32(
+  source: UserDecryptionSource,
+  session: UserDecryptionSession,
+  handles: string[],
+): Promise<number[]> {
+  return userDecryptValues(source, session, handles, MAX_USER_DECRYPT_HANDLES);
+}
+
+/**
+ * Decrypt euint64 handles, e.g. savings shares in watt-hours, like `userDecryptUint32`;
+ * twice the width means half as many handles per request.
+ */
+export function userDecryptUint64(
+  source: UserDecryptionSource,
+  session: UserDecryptionSession,
+  handles: string[],
+): Promise<number[]> {
+  return userDecryptValues(
+    source,
+    session,
+    handles,
+    MAX_USER_DECRYPT_HANDLES / 2,
+  );
+}
+
+async function userDecryptValues(
+  source: UserDecryptionSource,
+  session: UserDecryptionSession,
+  handles: string[],
+  perRequest: number,
+): Promise<number[]> {
+  const pending = [...new Set(handles.filter((h) => h !== ZERO_HANDLE))];
+  const results: Record<string, bigint | boolean | string> = {};
+  for (let i = 0; i < pending.length; i += perRequest) {
+    const chunk = pending.slice(i, i + perRequest);
+    Object.assign(
+      results,
+      await source.userDecrypt(
+        chunk.map((handle) => ({
+          handle,
+          contractAddress: session.contractAddress,
+        })),
+        session.privateKey,
+        session.publicKey,
+        session.signature.replace(/^0x/, ""),
+        [session.contractAddress],
+        session.userAddress,
+        session.startTimestamp,
+        session.durationDays,
+      ),
+    );
+  }
+
+  return handles.map((handle) => {
+    if (handle === ZERO_HANDLE) return 0;
+    const value = results[handle];
+    if (typeof value !== "bigint") {
+      throw new EnergySdkError(`Handle ${handle} was not decrypted`);
+    }
+    return Number(value);
+  });
+}
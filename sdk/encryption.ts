@@ -0,0 +1,189 @@
+// sdk/encryption.ts
+import { hexlify } from "ethers";
+
+import { EnergySdkError } from "./errors";
+
+export const UINT32_MAX = 0xffffffff;
+
+/** Readings that fit in one 2048-bit encrypted input; mirrors the contract's `MAX_BATCH_SIZE`. */
+export const MAX_BATCH_SIZE = 21;
+
+export interface EnergyReading {
+  tenantUsage: number;
+  timestamp: number;
+  systemLoad: number;
+}
+
+export interface EncryptedEnergyReading {
+  tenantUsage: string;
+  timestamp: string;
+  systemLoad: string;
+  inputProof: string;
+}
+
+/** Handles for several readings sharing one input proof, in submission order. */
+export interface EncryptedEnergyBatch {
+  tenantUsage: string[];
+  timestamp: string[];
+  systemLoad: string[];
+  inputProof: string;
+}
+
+/** Several encrypted values sharing one input proof, in input order. */
+export interface EncryptedValues {
+  handles: string[];
+  inputProof: string;
+}
+
+/** A single encrypted value with its own input proof. */
+export interface EncryptedValue {
+  handle: string;
+  inputProof: string;
+}
+
+/**
+ * The subset of an FHEVM instance needed to build encrypted inputs. Satisfied by
+ * the relayer SDK (web and node builds) and by the `@fhevm/hardhat-plugin` mock.
+ */
+export interface EncryptedInputSource {
+  createEncryptedInput(
+    contractAddress: string,
+    userAddress: string,
+  ): {
+    add32(value: number | bigint): unknown;
+    add64(value: number | bigint): unknown;
+    encrypt(): Promise<{ handles: Uint8Array[]; inputProof: Uint8Array }>;
+  };
+}
+
+const toUint32 = (label: string, value: number): number => {
+  if (!Number.isInteger(value) || value < 0 || value > UINT32_MAX) {
+    throw new EnergySdkError(
+      `${label} must be an integer between 0 and ${UINT32_MAX}`,
+    );
+  }
+  return value;
+};
+
+// Larger values would lose precision as JavaScript numbers before reaching uint64's limit
+const toUint64 = (label: string, value: number): number => {
+  if (!Number.isSafeInteger(value) || value < 0) {
+    throw new EnergySdkError(
+      `${label} must be an integer between 0 and ${Number.MAX_SAFE_INTEGER}`,
+    );
+  }
+  return value;
+};
+
+/**
+ * Encrypt a reading into euint32 handles bound to `contractAddress` and
+ * `userAddress`. Only ciphertext handles and the input proof leave this function.
+ */
+export async function encryptReading(
+  source: EncryptedInputSource,
+  contractAddress: string,
+  userAddress: string,
+  reading: EnergyReading,
+): Promise<EncryptedEnergyReading> {
+  const input = source.createEncryptedInput(contractAddress, userAddress);
+  input.add32(toUint32("Tenant usage", reading.tenantUsage));
+  input.add32(toUint32("Timestamp", reading.timestamp));
+  input.add32(toUint32("System load", reading.systemLoad));
+
+  const { handles, inputProof } = await input.encrypt();
+  if (handles.length !== 3) {
+    throw new EnergySdkError(
+      `Expected 3 encrypted handles, got ${handles.length}`,
+    );
+  }
+
+  return {
+    tenantUsage: hexlify(handles[0]),
+    timestamp: hexlify(handles[1]),
+    systemLoad: hexlify(handles[2]),
+    inputProof: hexlify(inputProof),
+  };
+}
+
+/** Encrypt one uint32, e.g. a tenant's credit baseline; `label` names it in range errors. */
+export async function encryptUint32(
+  source: EncryptedInputSource,
+  contractAddress: string,
+  userAddress: string,
+  label: string,
+  value: number,
+): Promise<EncryptedValue> {
+  const input = source.createEncryptedInput(contractAddress, userAddress);
+  input.add32(toUint32(label, value));
+
+  const { handles, inputProof } = await input.encrypt();
+  if (handles.length !== 1) {
+    throw new EnergySdkError(
+      `Expected 1 encrypted handle, got ${handles.length}`,
+    );
+  }
+  return { handle: hexlify(handles[0]), inputProof: hexlify(inputProof) };
+}
+
+/**
+ * Encrypt up to `MAX_BATCH_SIZE` readings into a single input so they can be
+ * submitted together with one proof.
+ */
+export async function encryptReadings(
+  source: EncryptedInputSource,
+  contractAddress: string,
+  userAddress: string,
+  readings: EnergyReading[],
+): Promise<EncryptedEnergyBatch> {
+  if (readings.length === 0 || readings.length > MAX_BATCH_SIZE) {
+    throw new EnergySdkError(
+      `A batch must hold between 1 and ${MAX_BATCH_SIZE} readings, got ${readings.length}`,
+    );
+  }
+
+  const input = source.createEncryptedInput(contractAddress, userAddress);
+  for (const reading of readings) {
+    input.add32(toUint32("Tenant usage", reading.tenantUsage));
+    input.add32(toUint32("Timestamp", reading.timestamp));
+    input.add32(toUint32("System load", reading.systemLoad));
+  }
+
+  const { handles, inputProof } = await input.encrypt();
+  if (handles.length !== readings.length * 3) {
+    throw new EnergySdkError(
+      `Expected ${readings.length * 3} encrypted handles, got ${handles.length}`,
+    );
+  }
+
+  const column = (offset: number) =>
+    readings.map((_, i) => hexlify(handles[i * 3 + offset]));
+  return {
+    tenantUsage: column(0),
+    timestamp: column(1),
+    systemLoad: column(2),
+    inputProof: hexlify(inputProof),
+  };
+}
+
+/**
+ * Encrypt several uint64 values, e.g. tenants' savings shares, into one input; `label`
+ * names them in range errors. At most 32 fit in one 2048-bit input.
+ */
+export async function encryptUint64Values(
+  source: EncryptedInputSource,
+  contractAddress: string,
+  userAddress: string,
+  label: string,
+  values: number[],
+): Promise<EncryptedValues> {
+  const input = source.createEncryptedInput(contractAddress, userAddress);
+  for (const value of values) input.add64(toUint64(label, value));
+
+  const { handles, inputProof } = await input.encrypt();
+  if (handles.length !== values.length) {
+    throw new EnergySdkError(
+      `Expected ${values.length} encrypted handles, got ${handles.length}`,
+    );
+  }
+  return { handles: handles.map(hexlify), inputProof: hexlify(inputProof) };
+}
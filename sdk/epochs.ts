@@ -0,0 +1,64 @@
+// sdk/epochs.ts
+//
+// Billing epochs are opened and closed on-chain by the building admin; readings count
+// towards the epoch open when they were submitted. Epochs closed early or still running
+// cover fewer days, so comparisons are made on daily averages.
+
+const DAY = 86400;
+
+/** Epochs shorter than this get no daily average: scaling minutes up to a day would inflate it. */
+export const MIN_EPOCH_AVERAGE_SECONDS = 60 * 60;
+
+export interface BillingEpoch {
+  /** 1-based; the highest id is the open epoch. */
+  epochId: number;
+  /** Block timestamp (seconds) the epoch was opened. */
+  startedAt: bigint;
+  /** Block timestamp (seconds) the epoch was closed, or null while it is open. */
+  closedAt: bigint | null;
+}
+
+export interface EpochUsage {
+  epoch: BillingEpoch;
+  kwh: number;
+}
+
+export interface EpochComparison extends EpochUsage {
+  /** Length of the epoch, or of its elapsed part while open. */
+  days: number;
+  /** Null for epochs shorter than `MIN_EPOCH_AVERAGE_SECONDS`. */
+  kwhPerDay: number | null;
+  /** Change in daily average from the previous epoch; null for the first one, or when either epoch has no average. */
+  changeKwhPerDay: number | null;
+  changePct: number | null;
+}
+
+export function isEpochOpen(epoch: BillingEpoch): boolean {
+  return epoch.closedAt === null;
+}
+
+/**
+ * Compare each epoch's usage with the epoch before it, by daily average. `now` (unix
+ * seconds) bounds the open epoch; epochs are sorted by id first.
+ */
+export function compareEpochs(
+  usage: EpochUsage[],
+  now: number = Math.floor(Date.now() / 1000),
+): EpochComparison[] {
+  const sorted = [...usage].sort((a, b) => a.epoch.epochId - b.epoch.epochId);
+  let previous: number | null = null;
+  return sorted.map(({ epoch, kwh }) => {
+    const end = epoch.closedAt === null ? now : Number(epoch.closedAt);
+    const seconds = Math.max(end - Number(epoch.startedAt), 0);
+    const days = seconds / DAY;
+    const kwhPerDay = seconds < MIN_EPOCH_AVERAGE_SECONDS ? null : kwh / days;
+    const changeKwhPerDay =
+      previous === null || kwhPerDay === null ? null : kwhPerDay - previous;
+    const changePct =
+      changeKwhPerDay === null || previous === 0
+        ? null
+        : (changeKwhPerDay / previous!) * 100;
+    previous = kwhPerDay;
+    return { epoch, kwh, days, kwhPerDay, changeKwhPerDay, changePct };
+  });
+}
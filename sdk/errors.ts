@@ -0,0 +1,210 @@
+// sdk/errors.ts
+import { AbiCoder, dataSlice } from "ethers";
+
+import type { ImportProgress } from "./import";
+
+export class EnergySdkError extends Error {
+  constructor(message: string, options?: ErrorOptions) {
+    super(message, options);
+    this.name = new.target.name;
+  }
+}
+
+/** The record, aggregate or savings check has already been answered by the oracle. */
+export class AlreadyDecryptedError extends EnergySdkError {}
+
+/** The last reveal request of the reading, epoch total or savings check is too recent to retry; see `DECRYPTION_RETRY_DELAY_SECONDS`. */
+export class DecryptionPendingError extends EnergySdkError {}
+
+/** The oracle callback referenced a request id the contract never issued. */
+export class InvalidRequestError extends EnergySdkError {}
+
+/** The caller is not the tenant who submitted the reading. */
+export class NotTenantError extends EnergySdkError {}
+
+/** Only the building manager may reveal aggregate loads. */
+export class NotBuildingManagerError extends EnergySdkError {}
+
+/** Only the designated verifier may attest or dispute readings. */
+export class NotVerifierError extends EnergySdkError {}
+
+/** No reading has been submitted under this id. */
+export class ReadingNotFoundError extends EnergySdkError {}
+
+/** A dispute without a reason code, or a verifier judging its own reading. */
+export class InvalidAttestationError extends EnergySdkError {}
+
+/** The reading has no attestation at the requested index. */
+export class AttestationNotFoundError extends EnergySdkError {}
+
+/** A tenant, building manager or verifier was given as the zero address. */
+export class InvalidAddressError extends EnergySdkError {}
+
+/** Only the contract owner may perform building administration. */
+export class NotOwnerError extends EnergySdkError {}
+
+/** The system key is not registered, or has no encrypted aggregate yet. */
+export class SystemNotFoundError extends EnergySdkError {}
+
+/** A system with this key has already been registered. */
+export class SystemAlreadyRegisteredError extends EnergySdkError {}
+
+/** System keys must be non-empty. */
+export class InvalidSystemError extends EnergySdkError {}
+
+/** No aggregate reveal exists for the requested epoch. */
+export class EpochNotFoundError extends EnergySdkError {}
+
+/** The billing epoch id is zero or beyond the open epoch. */
+export class BillingEpochNotFoundError extends EnergySdkError {}
+
+/** The billing epoch is still open: it cannot be revealed yet, or closed by a non-owner yet. */
+export class BillingEpochOpenError extends EnergySdkError {}
+
+/** Billing epochs must last at least one second. */
+export class InvalidEpochDurationError extends EnergySdkError {}
+
+/** A batch submission was empty, over `MAX_BATCH_SIZE`, or had mismatched handle arrays. */
+export class InvalidBatchError extends EnergySdkError {}
+
+/** A savings allocation's period, totals or tenant list (other than a zero address) was rejected by the contract. */
+export class InvalidAllocationError extends EnergySdkError {}
+
+/** No savings allocation has been recorded for the requested billing period. */
+export class PeriodNotFoundError extends EnergySdkError {}
+
+/** The tenant already has an open savings credit period. */
+export class CreditPeriodOpenError extends EnergySdkError {}
+
+/** The tenant has no open savings credit period to close. */
+export class NoCreditPeriodError extends EnergySdkError {}
+
+/** A tariff was malformed, or published out of order in the registry. */
+export class InvalidTariffError extends EnergySdkError {}
+
+/** No tariff has been published under the id, or none is in effect at the time. */
+export class TariffNotFoundError extends EnergySdkError {}
+
+/** Too few readings, or tenants, since the system's last aggregate reveal; see `MIN_LOAD_SUM_REVEAL_READINGS`. */
+export class InsufficientReadingsError extends EnergySdkError {}
+
+/** Too little revealed load history to fit a forecast. */
+export class InsufficientHistoryError extends EnergySdkError {}
+
+/** The oracle did not deliver a reveal before the caller's deadline. */
+export class RevealTimeoutError extends EnergySdkError {}
+
+/** The event indexer answered with an error status. */
+export class IndexerRequestError extends EnergySdkError {
+  readonly status: number;
+
+  constructor(message: string, status: number, options?: ErrorOptions) {
+    super(message, options);
+    this.status = status;
+  }
+}
+
+/** A bulk import stopped partway; pass `progress` back to resume after the last success. */
+export class ImportInterruptedError extends EnergySdkError {
+  readonly progress: ImportProgress;
+
+  constructor(
+    message: string,
+    progress: ImportProgress,
+    options?: ErrorOptions,
+  ) {
+    super(message, options);
+    this.progress = progress;
+  }
+}
+
+const REVERT_ERRORS: Record<
+  string,
+  new (message: string, options?: ErrorOptions) => EnergySdkError
+> = {
+  "Already decrypted": AlreadyDecryptedError,
+  "Decryption pending": DecryptionPendingError,
+  "Invalid request": InvalidRequestError,
+  "System not found": SystemNotFoundError,
+  "System already registered": SystemAlreadyRegisteredError,
+  "Invalid system": InvalidSystemError,
+  "Not the tenant": NotTenantError,
+  "Only building manager": NotBuildingManagerError,
+  "Only owner": NotOwnerError,
+  "Only verifier": NotVerifierError,
+  "Reading not found": ReadingNotFoundError,
+  "Reason required": InvalidAttestationError,
+  "Cannot attest own reading": InvalidAttestationError,
+  "Attestation not found": AttestationNotFoundError,
+  "Invalid tenant": InvalidAddressError,
+  "Invalid manager": InvalidAddressError,
+  "Invalid verifier": InvalidAddressError,
+  "Not enough new readings": InsufficientReadingsError,
+  "Epoch not found": EpochNotFoundError,
+  "Billing epoch not found": BillingEpochNotFoundError,
+  "Billing epoch still open": BillingEpochOpenError,
+  "Billing epoch still running": BillingEpochOpenError,
+  "Invalid duration": InvalidEpochDurationError,
+  "Empty batch": InvalidBatchError,
+  "Batch too large": InvalidBatchError,
+  "Batch length mismatch": InvalidBatchError,
+  "Invalid period": InvalidAllocationError,
+  "Overlapping period": InvalidAllocationError,
+  "Invalid savings": InvalidAllocationError,
+  "Allocation length mismatch": InvalidAllocationError,
+  "Too many tenants": InvalidAllocationError,
+  "Duplicate tenant": InvalidAllocationError,
+  "Period not found": PeriodNotFoundError,
+  "Credit period already open": CreditPeriodOpenError,
+  "No open credit period": NoCreditPeriodError,
+  "Invalid tariff": InvalidTariffError,
+  "Tariff out of order": InvalidTariffError,
+  "Tariff not found": TariffNotFoundError,
+};
+
+// Selector of Solidity's `Error(string)`, used by `require(cond, "reason")`
+const ERROR_STRING_SELECTOR = "0x08c379a0";
+
+const decodeErrorString = (data: unknown): string | undefined => {
+  if (typeof data !== "string" || !data.startsWith(ERROR_STRING_SELECTOR)) {
+    return undefined;
+  }
+  try {
+    return AbiCoder.defaultAbiCoder().decode(["string"], dataSlice(data, 4))[0];
+  } catch {
+    return undefined;
+  }
+};
+
+const extractRevertReason = (error: unknown): string | undefined => {
+  if (typeof error !== "object" || error === null) return undefined;
+  const e = error as {
+    reason?: unknown;
+    revert?: { args?: unknown[] };
+    data?: unknown;
+    shortMessage?: unknown;
+    message?: unknown;
+  };
+
+  if (typeof e.reason === "string") return e.reason;
+  if (typeof e.revert?.args?.[0] === "string") return e.revert.args[0];
+
+  // Some providers (e.g. Hardhat's) only attach the raw revert data
+  const decoded = decodeErrorString(e.data);
+  if (decoded) return decoded;
+
+  const text = [e.shortMessage, e.message].find(
+    (m): m is string => typeof m === "string",
+  );
+  return text
+    ? Object.keys(REVERT_ERRORS).find((reason) => text.includes(reason))
+    : undefined;
+};
+
+/** Map a contract revert onto its typed SDK error; anything else is returned untouched. */
+export function toEnergySdkError(error: unknown): unknown {
+  if (error instanceof EnergySdkError) return error;
+  const reason = extractRevertReason(error);
+  const ErrorType = reason ? REVERT_ERRORS[reason] : undefined;
+  return ErrorType ? new ErrorType(reason!, { cause: error }) : error;
+}
@@ -0,0 +1,371 @@
+// sdk/forecast.ts
+//
+// Load forecasting from revealed aggregates. Everything here is pure and synchronous:
+// callers fetch reveal history (see `SmartBuildingEnergyClient.forecastLoad`) and
+// optional weather data themselves, so the models run the same offline and in tests.
+import type { RevealedLoadSum } from "./client";
+import { EnergySdkError, InsufficientHistoryError } from "./errors";
+
+const HOUR = 3600;
+const HOURS_PER_WEEK = 168;
+// Encrypted sums are euint32 and wrap on overflow
+const UINT32_RANGE = 2 ** 32;
+
+export const MIN_FORECAST_HISTORY_HOURS = 24;
+export const MAX_FORECAST_HORIZON_HOURS = HOURS_PER_WEEK;
+
+/** Average load during one clock hour. */
+export interface LoadObservation {
+  /** Start of the hour, unix seconds. */
+  timestamp: number;
+  kwh: number;
+}
+
+export interface TemperatureReading {
+  /** Any time within the hour, unix seconds. */
+  timestamp: number;
+  temperatureC: number;
+}
+
+export type Seasonality = "hour-of-week" | "hour-of-day" | "none";
+
+export interface ForecastOptions {
+  /** Hours to forecast, 1 to 168. Defaults to 24. */
+  horizonHours?: number;
+  /** Two-sided coverage of the confidence band: 0.8, 0.9, 0.95 (default) or 0.99. */
+  confidence?: number;
+  /** Hourly outdoor temperatures covering the history and, ideally, the forecast window. */
+  weather?: TemperatureReading[];
+  /** Below this temperature load is treated as heating driven. Defaults to 18 °C. */
+  heatingBalancePointC?: number;
+  /** Above this temperature load is treated as cooling driven. Defaults to 22 °C. */
+  coolingBalancePointC?: number;
+}
+
+export interface ForecastPoint {
+  timestamp: number;
+  kwh: number;
+  lower: number;
+  upper: number;
+}
+
+export interface LoadForecast {
+  points: ForecastPoint[];
+  /** Finest seasonal profile with at least two samples in every slot (UTC). */
+  seasonality: Seasonality;
+  /** Whether heating/cooling degree-hour slopes were fitted alongside the profile. */
+  weatherAdjusted: boolean;
+  /** kWh per heating degree-hour, and per cooling degree-hour. */
+  heatingSlope: number;
+  coolingSlope: number;
+  residualStdDev: number;
+  confidence: number;
+}
+
+const Z_SCORES: Record<number, number> = {
+  0.8: 1.2816,
+  0.9: 1.6449,
+  0.95: 1.96,
+  0.99: 2.5758,
+};
+
+/** Energy added between consecutive reveals, spread evenly over each clock hour it spans. */
+function spreadReveals(history: RevealedLoadSum[]) {
+  const reveals = [...history].sort((a, b) => a.revealIndex - b.revealIndex);
+  const hours = new Map<number, { kwh: number; seconds: number }>();
+
+  for (let i = 1; i < reveals.length; i++) {
+    const from = Number(reveals[i - 1].revealedAt);
+    const to = Number(reveals[i].revealedAt);
+    if (to <= from) continue;
+    const added =
+      (reveals[i].sum - reveals[i - 1].sum + UINT32_RANGE) % UINT32_RANGE;
+
+    for (let hour = Math.floor(from / HOUR) * HOUR; hour < to; hour += HOUR) {
+      const overlap = Math.min(to, hour + HOUR) - Math.max(from, hour);
+      const bucket = hours.get(hour) ?? { kwh: 0, seconds: 0 };
+      bucket.kwh += (added * overlap) / (to - from);
+      bucket.seconds += overlap;
+      hours.set(hour, bucket);
+    }
+  }
+  return [...hours].sort(([a], [b]) => a - b);
+}
+
+/**
+ * Convert cumulative aggregate reveals into hourly load. The energy added between two
+ * consecutive reveals is spread evenly over the time between them; the first reveal only
+ * anchors the series because its start is unknown.
+ */
+export function loadSeriesFromReveals(
+  history: RevealedLoadSum[],
+): LoadObservation[] {
+  // Scale partially covered hours up to a full-hour rate
+  return spreadReveals(history).map(([timestamp, { kwh, seconds }]) => ({
+    timestamp,
+    kwh: (kwh * HOUR) / seconds,
+  }));
+}
+
+/**
+ * Like `loadSeriesFromReveals`, but partially covered hours keep the energy that fell
+ * into them, so the series adds up to the revealed growth. Use it to bill, not forecast.
+ */
+export function energyFromReveals(
+  history: RevealedLoadSum[],
+): LoadObservation[] {
+  return spreadReveals(history).map(([timestamp, { kwh }]) => ({
+    timestamp,
+    kwh,
+  }));
+}
+
+const hourOfWeek = (timestamp: number) =>
+  // The unix epoch fell on a Thursday; shift so slot 0 is Monday 00:00 UTC
+  (Math.floor(timestamp / HOUR) + 72) % HOURS_PER_WEEK;
+
+const hourOfDay = (timestamp: number) => Math.floor(timestamp / HOUR) % 24;
+
+const mean = (values: number[]) =>
+  values.reduce((sum, v) => sum + v, 0) / values.length;
+
+/** Solve `a · x = b` by Gaussian elimination with partial pivoting; null if singular. */
+const solve = (a: number[][], b: number[]): number[] | null => {
+  const n = b.length;
+  const m = a.map((row, i) => [...row, b[i]]);
+  for (let col = 0; col < n; col++) {
+    let pivot = col;
+    for (let row = col + 1; row < n; row++) {
+      if (Math.abs(m[row][col]) > Math.abs(m[pivot][col])) pivot = row;
+    }
+    if (Math.abs(m[pivot][col]) < 1e-9) return null;
+    [m[col], m[pivot]] = [m[pivot], m[col]];
+    for (let row = 0; row < n; row++) {
+      if (row === col) continue;
+      const factor = m[row][col] / m[col][col];
+      for (let k = col; k <= n; k++) m[row][k] -= factor * m[col][k];
+    }
+  }
+  return m.map((row, i) => row[n] / row[i]);
+};
+
+interface SeasonalProfile {
+  seasonality: Seasonality;
+  slotOf: (timestamp: number) => number;
+  means: Map<number, number>;
+  counts: Map<number, number>;
+}
+
+const groupBySlot = <T extends { timestamp: number }>(
+  items: T[],
+  slotOf: (timestamp: number) => number,
+  valueOf: (item: T) => number,
+) => {
+  const groups = new Map<number, number[]>();
+  for (const item of items) {
+    const slot = slotOf(item.timestamp);
+    const values = groups.get(slot);
+    if (values) values.push(valueOf(item));
+    else groups.set(slot, [valueOf(item)]);
+  }
+  return groups;
+};
+
+const kwhOf = (observation: LoadObservation) => observation.kwh;
+
+const fitSeasonalProfile = (
+  observations: LoadObservation[],
+): SeasonalProfile => {
+  const candidates: [Seasonality, (timestamp: number) => number, number][] = [
+    ["hour-of-week", hourOfWeek, HOURS_PER_WEEK],
+    ["hour-of-day", hourOfDay, 24],
+  ];
+  const profile = (
+    seasonality: Seasonality,
+    slotOf: (timestamp: number) => number,
+    groups: Map<number, number[]>,
+  ): SeasonalProfile => ({
+    seasonality,
+    slotOf,
+    means: new Map([...groups].map(([slot, v]) => [slot, mean(v)])),
+    counts: new Map([...groups].map(([slot, v]) => [slot, v.length])),
+  });
+
+  for (const [seasonality, slotOf, slots] of candidates) {
+    const groups = groupBySlot(observations, slotOf, kwhOf);
+    if (
+      groups.size === slots &&
+      [...groups.values()].every((values) => values.length >= 2)
+    ) {
+      return profile(seasonality, slotOf, groups);
+    }
+  }
+  const flat = () => 0;
+  return profile("none", flat, groupBySlot(observations, flat, kwhOf));
+};
+
+const temperatureLookup = (weather: TemperatureReading[] = []) => {
+  const byHour = groupBySlot(
+    weather,
+    (timestamp) => Math.floor(timestamp / HOUR) * HOUR,
+    (reading) => reading.temperatureC,
+  );
+  return (timestamp: number) => {
+    const temps = byHour.get(Math.floor(timestamp / HOUR) * HOUR);
+    return temps ? mean(temps) : undefined;
+  };
+};
+
+/**
+ * Forecast hourly load from `observations` (see `loadSeriesFromReveals`).
+ *
+ * The model is a seasonal baseline (mean load per UTC hour of the week, falling back to
+ * hour of day, then to the overall mean) plus, when `weather` is given, heating and
+ * cooling degree-hour slopes fitted jointly with it by least squares. Bands are normal
+ * prediction intervals from the residual spread.
+ */
+export function forecastLoad(
+  observations: LoadObservation[],
+  options: ForecastOptions = {},
+): LoadForecast {
+  const horizonHours = options.horizonHours ?? 24;
+  if (
+    !Number.isInteger(horizonHours) ||
+    horizonHours < 1 ||
+    horizonHours > MAX_FORECAST_HORIZON_HOURS
+  ) {
+    throw new EnergySdkError(
+      `horizonHours must be an integer between 1 and ${MAX_FORECAST_HORIZON_HOURS}`,
+    );
+  }
+  const confidence = options.confidence ?? 0.95;
+  const z = Z_SCORES[confidence];
+  if (z === undefined) {
+    throw new EnergySdkError(
+      `confidence must be one of ${Object.keys(Z_SCORES).join(", ")}`,
+    );
+  }
+  if (observations.length < MIN_FORECAST_HISTORY_HOURS) {
+    throw new InsufficientHistoryError(
+      `Forecasting needs at least ${MIN_FORECAST_HISTORY_HOURS} hours of load history, got ${observations.length}`,
+    );
+  }
+
+  const history = [...observations].sort((a, b) => a.timestamp - b.timestamp);
+
+  // Degree-hours relative to the comfort band
+  const heatingPoint = options.heatingBalancePointC ?? 18;
+  const coolingPoint = options.coolingBalancePointC ?? 22;
+  const temperatureAt = temperatureLookup(options.weather);
+  const degreeHours = (t: number) => [
+    Math.max(0, heatingPoint - t),
+    Math.max(0, t - coolingPoint),
+  ];
+  const features = history.map(({ timestamp }) => {
+    const t = temperatureAt(timestamp);
+    return t === undefined ? null : degreeHours(t);
+  });
+  const samples = features.flatMap((x, i) => (x ? [{ x, i }] : []));
+  // Columns without variance (e.g. no heating in summer data) are left out of the fit
+  const columns =
+    samples.length >= MIN_FORECAST_HISTORY_HOURS
+      ? [0, 1].filter((c) => {
+          const values = samples.map((s) => s.x[c]);
+          return Math.max(...values) - Math.min(...values) > 1e-9;
+        })
+      : [];
+
+  // Backfit the seasonal profile and the degree-hour slopes: each is refitted on the
+  // load left after removing the other, which converges to their joint least squares.
+  // The profile carries the level, so the regression has no intercept.
+  const slopes = [0, 0];
+  const weatherEffect = (x: number[] | null) =>
+    x ? slopes[0] * x[0] + slopes[1] * x[1] : 0;
+  let profile = fitSeasonalProfile(history);
+  let weatherAdjusted = false;
+  for (let iteration = 0; columns.length > 0 && iteration < 50; iteration++) {
+    profile = fitSeasonalProfile(
+      history.map(({ timestamp, kwh }, i) => ({
+        timestamp,
+        kwh: kwh - weatherEffect(features[i]),
+      })),
+    );
+    const residual = (i: number) =>
+      history[i].kwh -
+      (profile.means.get(profile.slotOf(history[i].timestamp)) ?? 0);
+    const xtx = columns.map((a) =>
+      columns.map((b) => samples.reduce((sum, s) => sum + s.x[a] * s.x[b], 0)),
+    );
+    const xty = columns.map((a) =>
+      samples.reduce((sum, s) => sum + s.x[a] * residual(s.i), 0),
+    );
+    const beta = solve(xtx, xty);
+    if (!beta) break;
+
+    const change = Math.max(
+      ...columns.map((c, k) => Math.abs(beta[k] - slopes[c])),
+    );
+    columns.forEach((c, k) => (slopes[c] = beta[k]));
+    weatherAdjusted = true;
+    if (change < 1e-6) break;
+  }
+  if (weatherAdjusted) {
+    profile = fitSeasonalProfile(
+      history.map(({ timestamp, kwh }, i) => ({
+        timestamp,
+        kwh: kwh - weatherEffect(features[i]),
+      })),
+    );
+  }
+  const meanDegreeHours = [0, 1].map((c) =>
+    samples.length > 0 ? mean(samples.map((s) => s.x[c])) : 0,
+  );
+
+  const predict = (timestamp: number) => {
+    const t = temperatureAt(timestamp);
+    // Without a temperature the weather term falls back to its average effect
+    const weather = weatherEffect(
+      t === undefined ? meanDegreeHours : degreeHours(t),
+    );
+    return (profile.means.get(profile.slotOf(timestamp)) ?? 0) + weather;
+  };
+
+  const parameters = profile.means.size + columns.length;
+  const squaredError = history.reduce(
+    (sum, { timestamp, kwh }, i) =>
+      sum +
+      (kwh -
+        (profile.means.get(profile.slotOf(timestamp)) ?? 0) -
+        weatherEffect(features[i])) **
+        2,
+    0,
+  );
+  const residualStdDev = Math.sqrt(
+    squaredError / Math.max(history.length - parameters, 1),
+  );
+
+  const start = history[history.length - 1].timestamp + HOUR;
+  const points = Array.from({ length: horizonHours }, (_, i) => {
+    const timestamp = Math.floor(start / HOUR) * HOUR + i * HOUR;
+    const kwh = Math.max(0, predict(timestamp));
+    // Widen for the uncertainty of the slot mean itself
+    const samplesInSlot = profile.counts.get(profile.slotOf(timestamp)) ?? 1;
+    const margin = z * residualStdDev * Math.sqrt(1 + 1 / samplesInSlot);
+    return {
+      timestamp,
+      kwh,
+      lower: Math.max(0, kwh - margin),
+      upper: kwh + margin,
+    };
+  });
+
+  return {
+    points,
+    seasonality: profile.seasonality,
+    weatherAdjusted,
+    heatingSlope: slopes[0],
+    coolingSlope: slopes[1],
+    residualStdDev,
+    confidence,
+  };
+}
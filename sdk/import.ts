@@ -0,0 +1,506 @@
+// sdk/import.ts
+//
+// Bulk import of utility interval data (CSV exports and Green Button ESPI XML).
+// Parsing and normalization are pure so they run the same in the browser and in Node.
+import type { SmartBuildingEnergyClient } from "./client";
+import { UINT32_MAX } from "./encryption";
+import { ImportInterruptedError } from "./errors";
+
+const HOUR = 3600;
+
+export type MeterDataFormat = "csv" | "green-button";
+
+/** One interval as reported by the utility, before normalization. */
+export interface IntervalReading {
+  /** Unix seconds. */
+  start: number;
+  durationSeconds: number;
+  kwh: number;
+  /** 1-based line in the source file, for error reporting. */
+  line: number;
+}
+
+export interface ImportRowError {
+  line: number;
+  message: string;
+}
+
+export interface ParsedMeterData {
+  intervals: IntervalReading[];
+  errors: ImportRowError[];
+}
+
+/** Usage for one clock hour, ready to encrypt as a `uint32` reading. */
+export interface HourlyReading {
+  /** Start of the hour, unix seconds. */
+  timestamp: number;
+  /** kWh consumed during the hour, as metered. */
+  kwh: number;
+  /**
+   * Whole kWh to submit. Rounding remainders carry into the following hours, so a run of
+   * sub-kWh hours still adds up to the metered total instead of rounding to zero.
+   */
+  tenantUsage: number;
+  /** Source lines that contributed to this hour. */
+  lines: number[];
+}
+
+export interface MeterImport {
+  format: MeterDataFormat;
+  readings: HourlyReading[];
+  errors: ImportRowError[];
+}
+
+/** Resumable position of a bulk import; JSON-serializable so callers can persist it. */
+export interface ImportProgress {
+  /** Index of the next reading to submit. */
+  nextIndex: number;
+  /** Record ids of the readings submitted so far, as decimal strings. */
+  dataIds: string[];
+}
+
+export interface ImportOptions {
+  systemKey?: string;
+  /** Readings per transaction; see `SubmitReadingsOptions.batchSize`. */
+  batchSize?: number;
+  /** Progress returned by an earlier, interrupted import of the same readings. */
+  resumeFrom?: ImportProgress;
+  onProgress?: (progress: ImportProgress) => void;
+}
+
+/** Maps character offsets in `text` to 1-based line numbers in O(log lines) each. */
+const lineLocator = (text: string) => {
+  const newlines: number[] = [];
+  for (let i = text.indexOf("\n"); i !== -1; i = text.indexOf("\n", i + 1)) {
+    newlines.push(i);
+  }
+  return (index: number) => {
+    // Count the newlines before `index`
+    let low = 0;
+    let high = newlines.length;
+    while (low < high) {
+      const mid = (low + high) >> 1;
+      if (newlines[mid] < index) low = mid + 1;
+      else high = mid;
+    }
+    return low + 1;
+  };
+};
+
+// `2024-01-31 13:00`, `2024-01-31T13:00:00.000+01:00` and `1/31/2024 1:00 PM`
+const ISO_DATE_TIME =
+  /^(\d{4})-(\d{1,2})-(\d{1,2})(?:[T ](\d{1,2}):(\d{2})(?::(\d{2})(?:\.\d+)?)?)?\s*(Z|[+-]\d{2}:?\d{2})?$/i;
+const US_DATE_TIME =
+  /^(\d{1,2})\/(\d{1,2})\/(\d{4})(?:\s+(\d{1,2}):(\d{2})(?::(\d{2}))?\s*(AM|PM)?)?\s*(Z|[+-]\d{2}:?\d{2})?$/i;
+const EXPLICIT_ZONE = /(?:Z|GMT|UTC|[+-]\d{2}:?\d{2})$/i;
+
+const offsetSeconds = (zone: string | undefined) => {
+  if (!zone || zone.toUpperCase() === "Z") return 0;
+  const digits = zone.replace(":", "");
+  const seconds =
+    Number(digits.slice(1, 3)) * HOUR + Number(digits.slice(3, 5)) * 60;
+  return digits[0] === "-" ? -seconds : seconds;
+};
+
+const utcSeconds = (
+  year: number,
+  month: number,
+  day: number,
+  hour: number,
+  minute: number,
+  second: number,
+  zone: string | undefined,
+): number | null => {
+  const ms = Date.UTC(year, month - 1, day, hour, minute, second);
+  const date = new Date(ms);
+  // Date.UTC rolls over out-of-range fields (Feb 30, 25:00) instead of failing
+  if (
+    date.getUTCMonth() !== month - 1 ||
+    date.getUTCDate() !== day ||
+    hour > 23 ||
+    minute > 59 ||
+    second > 59
+  ) {
+    return null;
+  }
+  return ms / 1000 - offsetSeconds(zone);
+};
+
+/**
+ * Unix seconds from a numeric epoch (seconds or milliseconds) or a date string. Dates
+ * without a zone are read as UTC, so an import means the same on every machine; other
+ * date formats are only accepted with an explicit zone.
+ */
+const parseTimestamp = (value: string): number | null => {
+  const trimmed = value.trim();
+  if (/^\d+(\.\d+)?$/.test(trimmed)) {
+    const n = Number(trimmed);
+    return Math.floor(n > 1e12 ? n / 1000 : n);
+  }
+
+  const iso = ISO_DATE_TIME.exec(trimmed);
+  if (iso) {
+    const [, year, month, day, hour, minute, second, zone] = iso;
+    return utcSeconds(
+      Number(year),
+      Number(month),
+      Number(day),
+      Number(hour ?? 0),
+      Number(minute ?? 0),
+      Number(second ?? 0),
+      zone,
+    );
+  }
+  const us = US_DATE_TIME.exec(trimmed);
+  if (us) {
+    const [, month, day, year, hour, minute, second, meridiem, zone] = us;
+    let h = Number(hour ?? 0);
+    if (meridiem) {
+      if (h < 1 || h > 12) return null;
+      h = (h % 12) + (meridiem.toUpperCase() === "PM" ? 12 : 0);
+    }
+    return utcSeconds(
+      Number(year),
+      Number(month),
+      Number(day),
+      h,
+      Number(minute ?? 0),
+      Number(second ?? 0),
+      zone,
+    );
+  }
+
+  if (!EXPLICIT_ZONE.test(trimmed)) return null;
+  const ms = Date.parse(trimmed);
+  return Number.isNaN(ms) ? null : Math.floor(ms / 1000);
+};
+
+export function detectFormat(text: string): MeterDataFormat {
+  return /^\s*</.test(text) ? "green-button" : "csv";
+}
+
+const splitCsvLine = (line: string): string[] => {
+  const cells: string[] = [];
+  let cell = "";
+  let quoted = false;
+  for (let i = 0; i < line.length; i++) {
+    const c = line[i];
+    if (c === '"') {
+      if (quoted && line[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else {
+        quoted = !quoted;
+      }
+    } else if (c === "," && !quoted) {
+      cells.push(cell.trim());
+      cell = "";
+    } else {
+      cell += c;
+    }
+  }
+  cells.push(cell.trim());
+  return cells;
+};
+
+interface CsvColumns {
+  start: number;
+  /** Separate time-of-day column, as in `DATE,START TIME,...` utility exports. */
+  startTime?: number;
+  end?: number;
+  endTime?: number;
+  duration?: number;
+  usage: number;
+  units?: number;
+}
+
+const findColumn = (header: string[], ...patterns: RegExp[]) => {
+  for (const pattern of patterns) {
+    const index = header.findIndex((name) => pattern.test(name));
+    if (index !== -1) return index;
+  }
+  return undefined;
+};
+
+const resolveColumns = (header: string[]): CsvColumns | null => {
+  const names = header.map((name) => name.toLowerCase());
+  const date = findColumn(names, /^date$/);
+  const startTime = findColumn(names, /^start time$/);
+  const start =
+    date !== undefined && startTime !== undefined
+      ? date
+      : findColumn(
+          names,
+          /^(interval )?start/,
+          /timestamp/,
+          /date ?time/,
+          /^date$/,
+        );
+  const usage = findColumn(names, /usage/, /kwh/, /consumption/, /^value$/);
+  if (start === undefined || usage === undefined) return null;
+
+  const endTime = findColumn(names, /^end time$/);
+  return {
+    start,
+    startTime: date !== undefined ? startTime : undefined,
+    end:
+      date !== undefined && endTime !== undefined
+        ? date
+        : findColumn(names, /^(interval )?end/),
+    endTime: date !== undefined ? endTime : undefined,
+    duration: findColumn(names, /duration/),
+    usage,
+    units: findColumn(names, /^units?$/),
+  };
+};
+
+/**
+ * Parse a CSV export with a header naming the interval start (`start`, `timestamp`, or
+ * `DATE` + `START TIME`) and usage (`usage`, `kWh`, `value`). Optional columns: end time,
+ * `duration` in seconds, and `units` (`kWh` or `Wh`). Headerless files are read as
+ * `timestamp,kWh` hourly rows. Times without a UTC offset are taken as UTC.
+ */
+export function parseIntervalCsv(text: string): ParsedMeterData {
+  const intervals: IntervalReading[] = [];
+  const errors: ImportRowError[] = [];
+  const lines = text.split(/\r?\n/);
+
+  let columns: CsvColumns | null = { start: 0, usage: 1 };
+  let firstRow = lines.findIndex((line) => line.trim().length > 0);
+  if (firstRow === -1) return { intervals, errors };
+
+  const firstCells = splitCsvLine(lines[firstRow]);
+  if (parseTimestamp(firstCells[0] ?? "") === null) {
+    columns = resolveColumns(firstCells);
+    if (!columns) {
+      errors.push({
+        line: firstRow + 1,
+        message: "Header must name a start time and a usage column",
+      });
+      return { intervals, errors };
+    }
+    firstRow += 1;
+  }
+
+  for (let i = firstRow; i < lines.length; i++) {
+    if (lines[i].trim().length === 0) continue;
+    const line = i + 1;
+    const cells = splitCsvLine(lines[i]);
+    const dateTime = (dateIndex: number, timeIndex?: number) =>
+      timeIndex === undefined
+        ? (cells[dateIndex] ?? "")
+        : `${cells[dateIndex]} ${cells[timeIndex]}`;
+
+    const start = parseTimestamp(dateTime(columns.start, columns.startTime));
+    if (start === null) {
+      errors.push({
+        line,
+        message: `Invalid start time "${cells[columns.start]}"`,
+      });
+      continue;
+    }
+
+    let durationSeconds = HOUR;
+    if (columns.duration !== undefined) {
+      durationSeconds = Number(cells[columns.duration]);
+    } else if (columns.end !== undefined) {
+      const end = parseTimestamp(dateTime(columns.end, columns.endTime));
+      durationSeconds = end === null ? NaN : end - start;
+      // Utility exports often label an hour 00:00-00:59; count the end minute
+      if (durationSeconds % 900 === 840) durationSeconds += 60;
+    }
+    if (!Number.isFinite(durationSeconds) || durationSeconds <= 0) {
+      errors.push({ line, message: "Invalid interval duration" });
+      continue;
+    }
+
+    const raw = (cells[columns.usage] ?? "").replace(/[^\d.eE+-]/g, "");
+    let kwh = raw.length > 0 ? Number(raw) : NaN;
+    const units =
+      columns.units !== undefined ? cells[columns.units]?.toLowerCase() : "kwh";
+    if (units === "wh") {
+      kwh /= 1000;
+    } else if (units !== "kwh") {
+      errors.push({
+        line,
+        message: `Unsupported unit "${cells[columns.units!]}"`,
+      });
+      continue;
+    }
+    if (!Number.isFinite(kwh) || kwh < 0) {
+      errors.push({ line, message: `Invalid usage "${cells[columns.usage]}"` });
+      continue;
+    }
+
+    intervals.push({ start, durationSeconds, kwh, line });
+  }
+  return { intervals, errors };
+}
+
+/** Contents of the first `<tag>` (with or without a namespace prefix) inside `xml`. */
+const tagValue = (xml: string, tag: string): string | undefined =>
+  new RegExp(`<(?:\\w+:)?${tag}\\b[^>]*>([^<]*)</(?:\\w+:)?${tag}>`).exec(
+    xml,
+  )?.[1];
+
+// ESPI unit of measure code for watt-hours
+const UOM_WH = "72";
+
+/**
+ * Parse a Green Button (NAESB ESPI) feed. Interval values are scaled by the feed's
+ * `ReadingType` (`uom` and `powerOfTenMultiplier`); only watt-hour readings are accepted.
+ */
+export function parseGreenButtonXml(text: string): ParsedMeterData {
+  const intervals: IntervalReading[] = [];
+  const errors: ImportRowError[] = [];
+  const lineAt = lineLocator(text);
+
+  const uom = tagValue(text, "uom") ?? UOM_WH;
+  if (uom.trim() !== UOM_WH) {
+    errors.push({
+      line: lineAt(text.search(/<(?:\w+:)?uom\b/)),
+      message: `Unsupported unit of measure ${uom} (expected watt-hours, 72)`,
+    });
+    return { intervals, errors };
+  }
+  const multiplier = Number(tagValue(text, "powerOfTenMultiplier") ?? 0);
+  const scale = 10 ** multiplier / 1000;
+
+  const readingPattern =
+    /<(?:\w+:)?IntervalReading\b[^>]*>([\s\S]*?)<\/(?:\w+:)?IntervalReading>/g;
+  for (const match of text.matchAll(readingPattern)) {
+    const line = lineAt(match.index ?? 0);
+    const body = match[1];
+    const start = Number(tagValue(body, "start"));
+    const durationSeconds = Number(tagValue(body, "duration"));
+    const value = Number(tagValue(body, "value"));
+
+    if (!Number.isInteger(start) || start < 0) {
+      errors.push({ line, message: "Missing or invalid timePeriod start" });
+    } else if (!Number.isFinite(durationSeconds) || durationSeconds <= 0) {
+      errors.push({ line, message: "Missing or invalid timePeriod duration" });
+    } else if (!Number.isFinite(value) || value < 0) {
+      errors.push({ line, message: "Missing or invalid value" });
+    } else {
+      intervals.push({ start, durationSeconds, kwh: value * scale, line });
+    }
+  }
+  if (intervals.length === 0 && errors.length === 0) {
+    errors.push({ line: 1, message: "No IntervalReading elements found" });
+  }
+  return { intervals, errors };
+}
+
+/**
+ * Bucket intervals into clock hours. Intervals that span several hours are split in
+ * proportion to their overlap; repeated intervals are reported and ignored. Readings are
+ * submitted in whole kWh, so each hour's rounding remainder is carried into the next.
+ */
+export function normalizeToHourly(
+  intervals: IntervalReading[],
+): Omit<MeterImport, "format"> {
+  const errors: ImportRowError[] = [];
+  const hours = new Map<number, { kwh: number; lines: number[] }>();
+  const seen = new Set<string>();
+
+  for (const interval of intervals) {
+    const key = `${interval.start}:${interval.durationSeconds}`;
+    if (seen.has(key)) {
+      errors.push({ line: interval.line, message: "Duplicate interval" });
+      continue;
+    }
+    seen.add(key);
+
+    const end = interval.start + interval.durationSeconds;
+    for (
+      let hour = Math.floor(interval.start / HOUR) * HOUR;
+      hour < end;
+      hour += HOUR
+    ) {
+      const overlap =
+        Math.min(end, hour + HOUR) - Math.max(interval.start, hour);
+      const bucket = hours.get(hour) ?? { kwh: 0, lines: [] };
+      bucket.kwh += (interval.kwh * overlap) / interval.durationSeconds;
+      if (!bucket.lines.includes(interval.line))
+        bucket.lines.push(interval.line);
+      hours.set(hour, bucket);
+    }
+  }
+
+  const readings: HourlyReading[] = [];
+  let carried = 0;
+  for (const [timestamp, { kwh, lines }] of [...hours].sort(
+    ([a], [b]) => a - b,
+  )) {
+    const tenantUsage = Math.max(0, Math.round(kwh + carried));
+    if (timestamp > UINT32_MAX || tenantUsage > UINT32_MAX) {
+      errors.push({
+        line: lines[0],
+        message: "Reading does not fit in uint32",
+      });
+      continue;
+    }
+    carried += kwh - tenantUsage;
+    readings.push({ timestamp, kwh, tenantUsage, lines });
+  }
+  errors.sort((a, b) => a.line - b.line);
+  return { readings, errors };
+}
+
+/** Detect the format of `text`, parse it and normalize it to hourly readings. */
+export function parseMeterData(text: string): MeterImport {
+  const format = detectFormat(text);
+  const parsed =
+    format === "csv" ? parseIntervalCsv(text) : parseGreenButtonXml(text);
+  const normalized = normalizeToHourly(parsed.intervals);
+  return {
+    format,
+    readings: normalized.readings,
+    errors: [...parsed.errors, ...normalized.errors].sort(
+      (a, b) => a.line - b.line,
+    ),
+  };
+}
+
+/**
+ * Encrypt and submit `readings` in order, in batched transactions. If a batch fails,
+ * throws `ImportInterruptedError` whose `progress` can be passed back as `resumeFrom`
+ * to continue after the last batch that made it on-chain.
+ */
+export async function importReadings(
+  client: Pick<SmartBuildingEnergyClient, "submitReadings">,
+  readings: HourlyReading[],
+  options: ImportOptions = {},
+): Promise<ImportProgress> {
+  const progress: ImportProgress = {
+    nextIndex: options.resumeFrom?.nextIndex ?? 0,
+    dataIds: [...(options.resumeFrom?.dataIds ?? [])],
+  };
+  const startIndex = progress.nextIndex;
+
+  try {
+    await client.submitReadings(
+      readings.slice(startIndex).map((reading) => ({
+        tenantUsage: reading.tenantUsage,
+        timestamp: reading.timestamp,
+        systemLoad: 0,
+      })),
+      options.systemKey,
+      {
+        batchSize: options.batchSize,
+        onBatch: (batch, submitted) => {
+          progress.dataIds.push(...batch.dataIds.map((id) => id.toString()));
+          progress.nextIndex = startIndex + submitted;
+          options.onProgress?.({ ...progress, dataIds: [...progress.dataIds] });
+        },
+      },
+    );
+  } catch (e) {
+    throw new ImportInterruptedError(
+      `Import stopped at reading ${progress.nextIndex + 1} of ${readings.length}: ${e instanceof Error ? e.message : String(e)}`,
+      { ...progress, dataIds: [...progress.dataIds] },
+      { cause: e },
+    );
+  }
+  return progress;
+}
@@ -0,0 +1,199 @@
+// sdk/index.ts
+export {
+  DEFAULT_SYSTEM_KEY,
+  MIN_LOAD_SUM_REVEAL_READINGS,
+  MIN_LOAD_SUM_REVEAL_TENANTS,
+  SmartBuildingEnergyClient,
+  type CreditPeriodHandles,
+  type DecryptedSavingsCredit,
+  type DecryptedTenantSavings,
+  type EnergyClientOptions,
+  type EpochTotal,
+  type LoadSumRevealWindow,
+  type PriceUsageOptions,
+  type PrivateReading,
+  type PublishedTariff,
+  type RecordedSavingsPeriod,
+  type RevealedLoadSum,
+  type RevealRequest,
+  type RevealStatus,
+  type RevealedReading,
+  type SavingsCreditHandles,
+  type StoredReading,
+  type SubmitReadingsOptions,
+  type SubmittedAllocation,
+  type SubmittedBatch,
+  type SubmittedReading,
+  type Unsubscribe,
+  type WaitForLoadSumRevealOptions,
+  type WaitForRevealOptions,
+} from "./client";
+export {
+  ATTESTATION_REASONS,
+  DISPUTE_REASONS,
+  currentVerdict,
+  describeReason,
+  type Attestation,
+  type AttestationVerdict,
+} from "./attestation";
+export {
+  ALLOCATION_CHECKS,
+  ALLOCATION_METHODS,
+  MAX_ALLOCATION_TENANTS,
+  MAX_SHAPLEY_TENANTS,
+  allocateSavings,
+  shapleyValues,
+  type AllocationCheck,
+  type AllocationMethod,
+  type SavingsAllocation,
+  type SavingsPeriodInput,
+  type TenantAllocation,
+  type TenantContribution,
+} from "./allocation";
+export {
+  priceUsage,
+  tariffAt,
+  type CostOptions,
+  type DemandChargeLine,
+  type EnergyCharge,
+  type TariffVersion,
+  type UsageCost,
+} from "./cost";
+export {
+  MAX_USER_DECRYPT_HANDLES,
+  USER_DECRYPTION_DURATION_DAYS,
+  createUserDecryptionSession,
+  isSessionValid,
+  userDecryptUint32,
+  userDecryptUint64,
+  type UserDecryptionSession,
+  type UserDecryptionSource,
+} from "./decryption";
+export {
+  MIN_EPOCH_AVERAGE_SECONDS,
+  compareEpochs,
+  isEpochOpen,
+  type BillingEpoch,
+  type EpochComparison,
+  type EpochUsage,
+} from "./epochs";
+export {
+  MAX_BATCH_SIZE,
+  encryptReading,
+  encryptReadings,
+  encryptUint32,
+  encryptUint64Values,
+  type EncryptedEnergyBatch,
+  type EncryptedEnergyReading,
+  type EncryptedValue,
+  type EncryptedValues,
+  type EncryptedInputSource,
+  type EnergyReading,
+} from "./encryption";
+export {
+  MAX_FORECAST_HORIZON_HOURS,
+  MIN_FORECAST_HISTORY_HOURS,
+  energyFromReveals,
+  forecastLoad,
+  loadSeriesFromReveals,
+  type ForecastOptions,
+  type ForecastPoint,
+  type LoadForecast,
+  type LoadObservation,
+  type Seasonality,
+  type TemperatureReading,
+} from "./forecast";
+export {
+  detectFormat,
+  importReadings,
+  normalizeToHourly,
+  parseGreenButtonXml,
+  parseIntervalCsv,
+  parseMeterData,
+  type HourlyReading,
+  type ImportOptions,
+  type ImportProgress,
+  type ImportRowError,
+  type IntervalReading,
+  type MeterDataFormat,
+  type MeterImport,
+  type ParsedMeterData,
+} from "./import";
+export {
+  IndexerClient,
+  RECORD_STATUSES,
+  recordQueryParams,
+  type IndexedRecord,
+  type IndexerStatus,
+  type RecordPage,
+  type RecordQuery,
+  type RecordStatus,
+} from "./indexer";
+export {
+  DECRYPTION_RETRY_DELAY_SECONDS,
+  RevealTracker,
+  type RevealState,
+  type RevealTrackerOptions,
+  type RevealTrackerStorage,
+  type TrackedReveal,
+} from "./reveals";
+export {
+  optimizeSchedule,
+  type HvacAction,
+  type HvacMode,
+  type HvacZone,
+  type LightingAction,
+  type LightingZone,
+  type OccupancyWindow,
+  type OptimizedSchedule,
+  type OptimizerOptions,
+  type ScheduleHour,
+} from "./optimizer";
+export {
+  demandChargeApplies,
+  inHourRange,
+  localTime,
+  parseTariff,
+  peakPrice,
+  rateAt,
+  validateTariff,
+  type DemandCharge,
+  type TariffPeriod,
+  type TariffRate,
+  type TariffSeason,
+  type TimeOfUseTariff,
+} from "./tariff";
+export {
+  AlreadyDecryptedError,
+  AttestationNotFoundError,
+  BillingEpochNotFoundError,
+  BillingEpochOpenError,
+  CreditPeriodOpenError,
+  DecryptionPendingError,
+  EnergySdkError,
+  EpochNotFoundError,
+  ImportInterruptedError,
+  IndexerRequestError,
+  InsufficientHistoryError,
+  InsufficientReadingsError,
+  InvalidAddressError,
+  InvalidAllocationError,
+  InvalidAttestationError,
+  InvalidBatchError,
+  InvalidEpochDurationError,
+  InvalidRequestError,
+  InvalidSystemError,
+  InvalidTariffError,
+  NoCreditPeriodError,
+  NotBuildingManagerError,
+  NotOwnerError,
+  NotTenantError,
+  NotVerifierError,
+  PeriodNotFoundError,
+  ReadingNotFoundError,
+  RevealTimeoutError,
+  SystemAlreadyRegisteredError,
+  SystemNotFoundError,
+  TariffNotFoundError,
+  toEnergySdkError,
+} from "./errors";
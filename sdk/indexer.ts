@@ -0,0 +1,167 @@
+// sdk/indexer.ts
+//
+// Types and a fetch-based client for the REST and GraphQL APIs served by `indexer/`
+// (`energy:indexer`), so dashboards can page through records without scanning contract
+// events themselves.
+import { IndexerRequestError } from "./errors";
+
+export type RecordStatus = "encrypted" | "pending" | "revealed";
+
+export const RECORD_STATUSES: readonly RecordStatus[] = [
+  "encrypted",
+  "pending",
+  "revealed",
+];
+
+/** One reading as indexed from `EnergyDataSubmitted` and the reveal events that follow it. */
+export interface IndexedRecord {
+  id: number;
+  tenant: string;
+  systemKey: string;
+  /** Block timestamp (seconds) of the submission. */
+  timestamp: number;
+  billingEpoch: number;
+  tenantUsageHandle: string;
+  timestampHandle: string;
+  systemLoadHandle: string;
+  blockNumber: number;
+  transactionHash: string;
+  status: RecordStatus;
+  /** Block of the first reveal request, or null if none was made. */
+  revealRequestedBlock: number | null;
+  revealedBlock: number | null;
+  /** Oracle-revealed values; null until `status` is `revealed`. */
+  tenantUsage: number | null;
+  systemLoad: number | null;
+}
+
+export interface RecordQuery {
+  tenant?: string;
+  systemKey?: string;
+  status?: RecordStatus;
+  billingEpoch?: number;
+  /** Submission time range in unix seconds, `from` inclusive and `to` exclusive. */
+  from?: number;
+  to?: number;
+  limit?: number;
+  offset?: number;
+}
+
+export interface RecordPage {
+  records: IndexedRecord[];
+  /** Matching records before `limit` and `offset` were applied. */
+  total: number;
+}
+
+export interface IndexerStatus {
+  contractAddress: string | null;
+  chainId: number | null;
+  fromBlock: number | null;
+  /** Last block indexed, or null before the first sync. */
+  lastBlock: number | null;
+  records: Record<RecordStatus, number>;
+}
+
+const QUERY_PARAMS: Record<keyof RecordQuery, string> = {
+  tenant: "tenant",
+  systemKey: "system",
+  status: "status",
+  billingEpoch: "epoch",
+  from: "from",
+  to: "to",
+  limit: "limit",
+  offset: "offset",
+};
+
+/** Query-string names the indexer server accepts for each `RecordQuery` field. */
+export const recordQueryParams = (query: RecordQuery): URLSearchParams => {
+  const params = new URLSearchParams();
+  for (const [key, name] of Object.entries(QUERY_PARAMS) as [
+    keyof RecordQuery,
+    string,
+  ][]) {
+    const value = query[key];
+    if (value !== undefined) params.set(name, String(value));
+  }
+  return params;
+};
+
+export class IndexerClient {
+  readonly baseUrl: string;
+
+  constructor(baseUrl: string) {
+    this.baseUrl = baseUrl.replace(/\/+$/, "");
+  }
+
+  async getStatus(): Promise<IndexerStatus> {
+    return this.get("/status");
+  }
+
+  async listRecords(query: RecordQuery = {}): Promise<RecordPage> {
+    const params = recordQueryParams(query).toString();
+    return this.get(`/records${params ? `?${params}` : ""}`);
+  }
+
+  /** Page through every matching record. */
+  async listAllRecords(
+    query: Omit<RecordQuery, "limit" | "offset"> = {},
+  ): Promise<IndexedRecord[]> {
+    const records: IndexedRecord[] = [];
+    for (;;) {
+      const page = await this.listRecords({ ...query, offset: records.length });
+      records.push(...page.records);
+      if (page.records.length === 0 || records.length >= page.total) {
+        return records;
+      }
+    }
+  }
+
+  /** The record, or null if the indexer has not seen it. */
+  async getRecord(id: number): Promise<IndexedRecord | null> {
+    try {
+      return await this.get(`/records/${id}`);
+    } catch (error) {
+      if (error instanceof IndexerRequestError && error.status === 404) {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  /** Run a GraphQL query against `/graphql`; any GraphQL error is thrown. */
+  async query<T>(
+    query: string,
+    variables?: Record<string, unknown>,
+  ): Promise<T> {
+    const body = await this.get<{
+      data?: T;
+      errors?: { message: string }[];
+    }>("/graphql", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ query, variables }),
+    });
+    if (body.errors?.length) {
+      throw new IndexerRequestError(body.errors[0].message, 200);
+    }
+    return body.data as T;
+  }
+
+  private async get<T>(path: string, init?: RequestInit): Promise<T> {
+    const response = await fetch(this.baseUrl + path, init);
+    const body = await response.json().catch(() => null);
+    if (!response.ok) {
+      const error = body as {
+        error?: string;
+        errors?: { message: string }[];
+      } | null;
+      throw new IndexerRequestError(
+        error?.error ??
+          error?.errors?.[0]?.message ??
+          `Indexer request failed: ${response.status}`,
+        response.status,
+      );
+    }
+    return body as T;
+  }
+}
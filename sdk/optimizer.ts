@@ -0,0 +1,320 @@
+// sdk/optimizer.ts
+//
+// Turns a load forecast into an hourly HVAC and lighting schedule under a time-of-use
+// tariff. Pure and deterministic: the same forecast and settings always give the same
+// schedule, so the dashboard and scripts can recompute it offline.
+import { EnergySdkError } from "./errors";
+import type { ForecastPoint } from "./forecast";
+import {
+  type TariffRate,
+  type TimeOfUseTariff,
+  inHourRange,
+  localTime,
+  peakPrice,
+  rateAt,
+  validateTariff,
+} from "./tariff";
+
+export interface OccupancyWindow {
+  /** Local weekdays, 0 = Sunday. */
+  days: number[];
+  startHour: number;
+  /** Exclusive; may be below `startHour` to wrap midnight. */
+  endHour: number;
+}
+
+export interface HvacZone {
+  id: string;
+  /** Share of the forecast aggregate drawn by this zone's HVAC, 0–1. */
+  loadShare: number;
+  /** Cooling setpoint band that must hold while the zone is occupied. */
+  comfortMinC: number;
+  comfortMaxC: number;
+  /** Setpoint the zone runs at today; savings are measured against it. */
+  baselineSetpointC: number;
+  /** Setback setpoint while unoccupied. */
+  unoccupiedSetpointC: number;
+  /** Hours before a peak block the zone may pre-cool. Defaults to 2. */
+  precoolHours?: number;
+  occupancy: OccupancyWindow[];
+}
+
+export interface LightingZone {
+  id: string;
+  /** Share of the forecast aggregate drawn by this zone's lighting, 0–1. */
+  loadShare: number;
+  /** Lowest dimming level acceptable while occupied, 0–1. */
+  minOccupiedLevel: number;
+  /** Level kept while unoccupied for egress and security, 0–1. Defaults to 0.1. */
+  unoccupiedLevel?: number;
+  occupancy: OccupancyWindow[];
+}
+
+export interface OptimizerOptions {
+  tariff: TimeOfUseTariff;
+  hvacZones?: HvacZone[];
+  lightingZones?: LightingZone[];
+  /** Building-local time offset used for tariffs and occupancy. Defaults to 0 (UTC). */
+  utcOffsetMinutes?: number;
+  /** Fraction of HVAC load saved per °C the setpoint is raised (and spent per °C lowered). Defaults to 0.06. */
+  hvacSavingsPerDegree?: number;
+  /** Fraction of pre-cooling energy that offsets load in the following peak hours. Defaults to 0.8. */
+  thermalStorageEfficiency?: number;
+}
+
+/**
+ * - `comfort`: occupied, baseline setpoint kept inside the comfort band
+ * - `peak-relief`: occupied during a peak-rate hour, setpoint at the top of the band
+ * - `precool`: ahead of a peak block, setpoint at the bottom of the band
+ * - `setback`: unoccupied
+ */
+export type HvacMode = "comfort" | "peak-relief" | "precool" | "setback";
+
+export interface HvacAction {
+  zoneId: string;
+  mode: HvacMode;
+  setpointC: number;
+  baselineKwh: number;
+  kwh: number;
+}
+
+export interface LightingAction {
+  zoneId: string;
+  /** Dimming level, 0–1. */
+  level: number;
+  baselineKwh: number;
+  kwh: number;
+}
+
+export interface ScheduleHour {
+  timestamp: number;
+  rate: TariffRate;
+  baselineKwh: number;
+  kwh: number;
+  baselineCost: number;
+  cost: number;
+  hvac: HvacAction[];
+  lighting: LightingAction[];
+}
+
+export interface OptimizedSchedule {
+  hours: ScheduleHour[];
+  currency: string;
+  baselineKwh: number;
+  kwh: number;
+  kwhSavings: number;
+  baselineCost: number;
+  cost: number;
+  costSavings: number;
+}
+
+const DEFAULT_PRECOOL_HOURS = 2;
+const DEFAULT_UNOCCUPIED_LIGHTING = 0.1;
+const DEFAULT_SAVINGS_PER_DEGREE = 0.06;
+const DEFAULT_STORAGE_EFFICIENCY = 0.8;
+
+const isFraction = (value: number) => value >= 0 && value <= 1;
+
+const isOccupied = (
+  windows: OccupancyWindow[],
+  timestamp: number,
+  utcOffsetMinutes: number,
+) => {
+  const { hour, day } = localTime(timestamp, utcOffsetMinutes);
+  return windows.some(
+    (w) => w.days.includes(day) && inHourRange(hour, w.startHour, w.endHour),
+  );
+};
+
+function validate(options: OptimizerOptions) {
+  validateTariff(options.tariff);
+  const hvacZones = options.hvacZones ?? [];
+  const lightingZones = options.lightingZones ?? [];
+  const zones = [...hvacZones, ...lightingZones];
+
+  const ids = new Set<string>();
+  for (const zone of zones) {
+    if (ids.has(zone.id)) {
+      throw new EnergySdkError(`Zone ids must be unique; "${zone.id}" repeats`);
+    }
+    ids.add(zone.id);
+    if (!isFraction(zone.loadShare)) {
+      throw new EnergySdkError(
+        `Zone "${zone.id}" loadShare must be between 0 and 1`,
+      );
+    }
+  }
+  if (zones.reduce((sum, z) => sum + z.loadShare, 0) > 1 + 1e-9) {
+    throw new EnergySdkError("Zone load shares must not add up to more than 1");
+  }
+  for (const zone of hvacZones) {
+    if (zone.comfortMinC > zone.comfortMaxC) {
+      throw new EnergySdkError(
+        `Zone "${zone.id}" comfortMinC must not exceed comfortMaxC`,
+      );
+    }
+  }
+  for (const zone of lightingZones) {
+    if (
+      !isFraction(zone.minOccupiedLevel) ||
+      !isFraction(zone.unoccupiedLevel ?? DEFAULT_UNOCCUPIED_LIGHTING)
+    ) {
+      throw new EnergySdkError(
+        `Zone "${zone.id}" lighting levels must be between 0 and 1`,
+      );
+    }
+  }
+}
+
+/** HVAC actions for one zone across the whole forecast window. */
+function scheduleHvacZone(
+  zone: HvacZone,
+  forecast: ForecastPoint[],
+  rates: TariffRate[],
+  peak: number,
+  options: OptimizerOptions,
+): HvacAction[] {
+  const offset = options.utcOffsetMinutes ?? 0;
+  const perDegree = options.hvacSavingsPerDegree ?? DEFAULT_SAVINGS_PER_DEGREE;
+  const efficiency =
+    options.thermalStorageEfficiency ?? DEFAULT_STORAGE_EFFICIENCY;
+  const clamp = (c: number) =>
+    Math.min(zone.comfortMaxC, Math.max(zone.comfortMinC, c));
+
+  // Energy scales linearly with the setpoint's distance from the baseline
+  const action = (i: number, mode: HvacMode, setpointC: number): HvacAction => {
+    const baselineKwh = forecast[i].kwh * zone.loadShare;
+    const factor = 1 - perDegree * (setpointC - zone.baselineSetpointC);
+    return {
+      zoneId: zone.id,
+      mode,
+      setpointC,
+      baselineKwh,
+      kwh: Math.max(0, baselineKwh * factor),
+    };
+  };
+
+  const occupied = forecast.map((p) =>
+    isOccupied(zone.occupancy, p.timestamp, offset),
+  );
+  const actions = forecast.map((_, i) => {
+    if (!occupied[i]) return action(i, "setback", zone.unoccupiedSetpointC);
+    return rates[i].pricePerKwh >= peak
+      ? action(i, "peak-relief", zone.comfortMaxC)
+      : action(i, "comfort", clamp(zone.baselineSetpointC));
+  });
+
+  // Pre-cool ahead of each peak-relief block when cheaper cooling now, discounted by
+  // storage losses, beats paying the peak rate later
+  const precoolHours = zone.precoolHours ?? DEFAULT_PRECOOL_HOURS;
+  for (let start = 0; start < actions.length; start++) {
+    const blockStarts =
+      actions[start].mode === "peak-relief" &&
+      (start === 0 || actions[start - 1].mode !== "peak-relief");
+    if (!blockStarts) continue;
+
+    let end = start;
+    while (end < actions.length && actions[end].mode === "peak-relief") end++;
+
+    let stored = 0;
+    for (let i = start - 1; i >= Math.max(0, start - precoolHours); i--) {
+      if (actions[i].mode === "peak-relief") break;
+      if (rates[i].pricePerKwh >= efficiency * rates[start].pricePerKwh)
+        continue;
+      const candidate = action(i, "precool", zone.comfortMinC);
+      const extra = candidate.kwh - actions[i].kwh;
+      if (extra <= 0) continue;
+      actions[i] = candidate;
+      stored += extra * efficiency;
+    }
+
+    for (let i = start; i < end && stored > 0; i++) {
+      const offsetKwh = Math.min(stored, actions[i].kwh);
+      actions[i] = { ...actions[i], kwh: actions[i].kwh - offsetKwh };
+      stored -= offsetKwh;
+    }
+  }
+  return actions;
+}
+
+function scheduleLightingZone(
+  zone: LightingZone,
+  forecast: ForecastPoint[],
+  rates: TariffRate[],
+  peak: number,
+  utcOffsetMinutes: number,
+): LightingAction[] {
+  return forecast.map((point, i) => {
+    const occupied = isOccupied(
+      zone.occupancy,
+      point.timestamp,
+      utcOffsetMinutes,
+    );
+    const level = !occupied
+      ? (zone.unoccupiedLevel ?? DEFAULT_UNOCCUPIED_LIGHTING)
+      : rates[i].pricePerKwh >= peak
+        ? zone.minOccupiedLevel
+        : 1;
+    const baselineKwh = point.kwh * zone.loadShare;
+    return { zoneId: zone.id, level, baselineKwh, kwh: baselineKwh * level };
+  });
+}
+
+/**
+ * Build an hourly schedule for the forecast window. The baseline is the forecast
+ * itself: HVAC at `baselineSetpointC` and lights at full output every hour. The
+ * optimizer sets back unoccupied zones, raises setpoints and dims lights to their
+ * comfort limits during peak-rate hours, and pre-cools ahead of peak blocks when the
+ * tariff makes it worthwhile. Load outside the configured zones' shares is unchanged.
+ */
+export function optimizeSchedule(
+  forecast: ForecastPoint[],
+  options: OptimizerOptions,
+): OptimizedSchedule {
+  validate(options);
+  const offset = options.utcOffsetMinutes ?? 0;
+  const rates = forecast.map((p) =>
+    rateAt(options.tariff, p.timestamp, offset),
+  );
+  const peak = peakPrice(options.tariff);
+
+  const hvac = (options.hvacZones ?? []).map((zone) =>
+    scheduleHvacZone(zone, forecast, rates, peak, options),
+  );
+  const lighting = (options.lightingZones ?? []).map((zone) =>
+    scheduleLightingZone(zone, forecast, rates, peak, offset),
+  );
+
+  const hours = forecast.map((point, i) => {
+    const actions = [...hvac.map((z) => z[i]), ...lighting.map((z) => z[i])];
+    const kwh =
+      point.kwh + actions.reduce((sum, a) => sum + a.kwh - a.baselineKwh, 0);
+    return {
+      timestamp: point.timestamp,
+      rate: rates[i],
+      baselineKwh: point.kwh,
+      kwh,
+      baselineCost: point.kwh * rates[i].pricePerKwh,
+      cost: kwh * rates[i].pricePerKwh,
+      hvac: hvac.map((z) => z[i]),
+      lighting: lighting.map((z) => z[i]),
+    };
+  });
+
+  const total = (key: "baselineKwh" | "kwh" | "baselineCost" | "cost") =>
+    hours.reduce((sum, h) => sum + h[key], 0);
+  const baselineKwh = total("baselineKwh");
+  const kwh = total("kwh");
+  const baselineCost = total("baselineCost");
+  const cost = total("cost");
+  return {
+    hours,
+    currency: options.tariff.currency,
+    baselineKwh,
+    kwh,
+    kwhSavings: baselineKwh - kwh,
+    baselineCost,
+    cost,
+    costSavings: baselineCost - cost,
+  };
+}
@@ -0,0 +1,224 @@
+// sdk/reveals.ts
+//
+// Client-side tracking of oracle reveals. `requestReveal` only confirms that a request
+// was made; the cleartexts arrive later in the oracle's `decryptEnergyData` callback, or
+// never. The tracker remembers each request until its `EnergyDataDecrypted` lands and
+// flags the ones the oracle left unanswered, so the UI can offer a retry.
+import type { BigNumberish } from "ethers";
+
+import type { SmartBuildingEnergyClient } from "./client";
+
+/** Mirrors the contract's `DECRYPTION_RETRY_DELAY`: the wait before a reveal can be retried. */
+export const DECRYPTION_RETRY_DELAY_SECONDS = 5 * 60;
+
+const DEFAULT_STORAGE_KEY = "energy-reveals";
+
+export type RevealState = "pending" | "timed-out" | "revealed";
+
+export interface TrackedReveal {
+  dataId: number;
+  /** Oracle request id of the latest attempt, as a decimal string so it survives JSON. */
+  requestId: string;
+  /** Unix seconds of the latest attempt. */
+  requestedAt: number;
+  attempts: number;
+  /** Unix seconds the callback was seen, or null while waiting. */
+  revealedAt: number | null;
+  state: RevealState;
+  /** Earliest time the contract accepts another request, unix seconds. */
+  retryAt: number;
+}
+
+type StoredReveal = Omit<TrackedReveal, "state" | "retryAt">;
+
+interface StoredState {
+  reveals: StoredReveal[];
+  /** Every request id seen, including superseded attempts, mapped to its reading. */
+  requests: Record<string, number>;
+}
+
+/** The subset of the Web Storage API the tracker persists to; `localStorage` fits. */
+export interface RevealTrackerStorage {
+  getItem(key: string): string | null;
+  setItem(key: string, value: string): void;
+}
+
+export interface RevealTrackerOptions {
+  /**
+   * Seconds without a callback before a reveal counts as timed out. Defaults to
+   * `DECRYPTION_RETRY_DELAY_SECONDS`, when the contract first accepts a retry.
+   */
+  timeoutSeconds?: number;
+  /** Keeps tracked reveals across page reloads. */
+  storage?: RevealTrackerStorage;
+  /** Defaults to `energy-reveals`; use one key per contract. */
+  storageKey?: string;
+  /** Current unix seconds; defaults to the system clock. */
+  now?: () => number;
+}
+
+export class RevealTracker {
+  private readonly reveals = new Map<number, StoredReveal>();
+  private readonly requests = new Map<string, number>();
+  private readonly listeners = new Set<(reveals: TrackedReveal[]) => void>();
+  private readonly timeoutSeconds: number;
+  private readonly storage?: RevealTrackerStorage;
+  private readonly storageKey: string;
+  private readonly now: () => number;
+
+  constructor(options: RevealTrackerOptions = {}) {
+    this.timeoutSeconds =
+      options.timeoutSeconds ?? DECRYPTION_RETRY_DELAY_SECONDS;
+    this.storage = options.storage;
+    this.storageKey = options.storageKey ?? DEFAULT_STORAGE_KEY;
+    this.now = options.now ?? (() => Math.floor(Date.now() / 1000));
+    this.load();
+  }
+
+  /** Record a request made with `requestReveal`. A retry replaces the earlier attempt. */
+  track(
+    request: { dataId: BigNumberish; requestId: BigNumberish },
+    requestedAt: number = this.now(),
+  ): TrackedReveal {
+    const dataId = Number(request.dataId);
+    const requestId = BigInt(request.requestId).toString();
+    const previous = this.reveals.get(dataId);
+    this.requests.set(requestId, dataId);
+    this.reveals.set(dataId, {
+      dataId,
+      requestId,
+      requestedAt,
+      attempts: (previous?.attempts ?? 0) + 1,
+      revealedAt: null,
+    });
+    this.changed();
+    return this.get(dataId)!;
+  }
+
+  /**
+   * Record the oracle callback for `dataId`, e.g. from `onReadingRevealed`. Readings the
+   * tracker never saw requested are ignored.
+   */
+  markRevealed(dataId: BigNumberish, revealedAt: number = this.now()): void {
+    const reveal = this.reveals.get(Number(dataId));
+    if (!reveal || reveal.revealedAt !== null) return;
+    reveal.revealedAt = revealedAt;
+    this.changed();
+  }
+
+  /** The reading a request id (current or superseded) was made for. */
+  dataIdForRequest(requestId: BigNumberish): number | undefined {
+    return this.requests.get(BigInt(requestId).toString());
+  }
+
+  get(dataId: BigNumberish): TrackedReveal | undefined {
+    const reveal = this.reveals.get(Number(dataId));
+    return reveal && this.withState(reveal);
+  }
+
+  /** Every tracked reveal, most recently requested first. */
+  list(): TrackedReveal[] {
+    return [...this.reveals.values()]
+      .map((reveal) => this.withState(reveal))
+      .sort((a, b) => b.requestedAt - a.requestedAt);
+  }
+
+  /** Stop tracking a reading, e.g. once its finished reveal was dismissed. */
+  remove(dataId: BigNumberish): void {
+    if (this.forget(Number(dataId))) this.changed();
+  }
+
+  /**
+   * Reconcile unfinished reveals with the contract's `getRevealStatus`: callbacks that
+   * landed while nobody was listening, and retries made from another browser.
+   */
+  async refresh(client: SmartBuildingEnergyClient): Promise<void> {
+    const waiting = [...this.reveals.values()].filter(
+      (reveal) => reveal.revealedAt === null,
+    );
+    const statuses = await Promise.all(
+      waiting.map((reveal) => client.getRevealStatus(reveal.dataId)),
+    );
+    let changed = false;
+    waiting.forEach((reveal, i) => {
+      const status = statuses[i];
+      if (status.status === "revealed") {
+        reveal.revealedAt = this.now();
+      } else if (status.status === "none") {
+        // Redeployed or reset chain: the request no longer exists
+        this.forget(reveal.dataId);
+      } else if (status.requestId!.toString() !== reveal.requestId) {
+        reveal.requestId = status.requestId!.toString();
+        reveal.requestedAt = status.requestedAt!;
+        reveal.attempts = status.attempts;
+        this.requests.set(reveal.requestId, reveal.dataId);
+      } else {
+        return;
+      }
+      changed = true;
+    });
+    if (changed) this.changed();
+  }
+
+  /**
+   * Call `listener` with the tracked reveals whenever one is added, updated or removed.
+   * Timeouts pass without a change; re-read `list()` on a timer to show them.
+   */
+  onChange(listener: (reveals: TrackedReveal[]) => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private forget(dataId: number): boolean {
+    for (const [requestId, requestDataId] of this.requests) {
+      if (requestDataId === dataId) this.requests.delete(requestId);
+    }
+    return this.reveals.delete(dataId);
+  }
+
+  private withState(reveal: StoredReveal): TrackedReveal {
+    const state: RevealState =
+      reveal.revealedAt !== null
+        ? "revealed"
+        : this.now() >= reveal.requestedAt + this.timeoutSeconds
+          ? "timed-out"
+          : "pending";
+    return {
+      ...reveal,
+      state,
+      retryAt: reveal.requestedAt + DECRYPTION_RETRY_DELAY_SECONDS,
+    };
+  }
+
+  private changed() {
+    if (this.storage) {
+      const state: StoredState = {
+        reveals: [...this.reveals.values()],
+        requests: Object.fromEntries(this.requests),
+      };
+      this.storage.setItem(this.storageKey, JSON.stringify(state));
+    }
+    const reveals = this.list();
+    this.listeners.forEach((listener) => listener(reveals));
+  }
+
+  private load() {
+    const saved = this.storage?.getItem(this.storageKey);
+    if (!saved) return;
+    try {
+      const state = JSON.parse(saved) as StoredState;
+      state.reveals.forEach((reveal) =>
+        this.reveals.set(reveal.dataId, reveal),
+      );
+      Object.entries(state.requests).forEach(([requestId, dataId]) =>
+        this.requests.set(requestId, dataId),
+      );
+    } catch {
+      // A corrupt entry only loses the tracking, not the reveals themselves
+      this.reveals.clear();
+      this.requests.clear();
+    }
+  }
+}
@@ -0,0 +1,236 @@
+// sdk/tariff.ts
+//
+// Time-of-use electricity tariffs. Hours, weekdays and months are evaluated in
+// building-local time, given as a fixed offset from UTC.
+import { EnergySdkError, InvalidTariffError } from "./errors";
+
+const HOUR = 3600;
+
+export interface TariffPeriod {
+  /** Display name, e.g. "peak". */
+  label: string;
+  /** Local hour the rate starts, 0–23. */
+  startHour: number;
+  /** Local hour the rate ends (exclusive), 1–24; may be below `startHour` to wrap midnight. */
+  endHour: number;
+  pricePerKwh: number;
+  /** Local weekdays the period applies to, 0 = Sunday; every day when omitted. */
+  days?: number[];
+}
+
+/** Rates that replace the tariff's own during some months, e.g. a summer schedule. */
+export interface TariffSeason {
+  /** Display name, e.g. "summer". */
+  label: string;
+  /** First local month of the season, 1 = January. */
+  startMonth: number;
+  /** Last local month (inclusive), 1–12; may be below `startMonth` to wrap the new year. */
+  endMonth: number;
+  basePricePerKwh: number;
+  /** Checked in order, like the tariff's own periods. */
+  periods: TariffPeriod[];
+}
+
+/** A charge on the highest hourly demand (average kW) in a billing period. */
+export interface DemandCharge {
+  label: string;
+  pricePerKw: number;
+  /** Local hour demand starts to count, 0–23; all day when omitted with `endHour`. */
+  startHour?: number;
+  /** Local hour demand stops counting (exclusive), 1–24. */
+  endHour?: number;
+  /** Local weekdays demand counts on, 0 = Sunday; every day when omitted. */
+  days?: number[];
+  /** Local months the charge applies in, 1 = January; every month when omitted. */
+  months?: number[];
+}
+
+export interface TimeOfUseTariff {
+  /** ISO 4217 code used when displaying prices. */
+  currency: string;
+  /** Rate for hours no period covers. */
+  basePricePerKwh: number;
+  /** Checked in order; the first matching period sets the price, so list "peak" before "shoulder". */
+  periods: TariffPeriod[];
+  /** Checked in order; the first season covering the month replaces the base price and periods. */
+  seasons?: TariffSeason[];
+  demandCharges?: DemandCharge[];
+}
+
+export interface TariffRate {
+  label: string;
+  pricePerKwh: number;
+  /** Season whose rates applied; absent outside every season. */
+  season?: string;
+}
+
+/** Local hour of day, weekday and month (1–12) of `timestamp` (unix seconds). */
+export function localTime(timestamp: number, utcOffsetMinutes = 0) {
+  const local = new Date((timestamp + utcOffsetMinutes * 60) * 1000);
+  return {
+    hour: local.getUTCHours(),
+    day: local.getUTCDay(),
+    month: local.getUTCMonth() + 1,
+  };
+}
+
+/** Whether local `hour` lies in `[startHour, endHour)`, wrapping past midnight if needed. */
+export function inHourRange(hour: number, startHour: number, endHour: number) {
+  return startHour <= endHour
+    ? hour >= startHour && hour < endHour
+    : hour >= startHour || hour < endHour;
+}
+
+/** Whether `month` lies in `[startMonth, endMonth]`, wrapping past December if needed. */
+const inMonthRange = (month: number, startMonth: number, endMonth: number) =>
+  startMonth <= endMonth
+    ? month >= startMonth && month <= endMonth
+    : month >= startMonth || month <= endMonth;
+
+const isMonth = (month: number) =>
+  Number.isInteger(month) && month >= 1 && month <= 12;
+
+const validHours = (startHour: number, endHour: number) =>
+  Number.isInteger(startHour) &&
+  Number.isInteger(endHour) &&
+  startHour >= 0 &&
+  startHour <= 23 &&
+  endHour >= 1 &&
+  endHour <= 24 &&
+  startHour !== endHour;
+
+function validatePeriods(periods: TariffPeriod[]) {
+  for (const period of periods) {
+    if (!validHours(period.startHour, period.endHour)) {
+      throw new EnergySdkError(
+        `Tariff period "${period.label}" must span distinct whole hours between 0 and 24`,
+      );
+    }
+    if (!(period.pricePerKwh >= 0)) {
+      throw new EnergySdkError(
+        `Tariff period "${period.label}" must have a non-negative price`,
+      );
+    }
+  }
+}
+
+export function validateTariff(tariff: TimeOfUseTariff): void {
+  if (!(tariff.basePricePerKwh >= 0)) {
+    throw new EnergySdkError("basePricePerKwh must be a non-negative number");
+  }
+  validatePeriods(tariff.periods);
+  for (const season of tariff.seasons ?? []) {
+    if (!isMonth(season.startMonth) || !isMonth(season.endMonth)) {
+      throw new EnergySdkError(
+        `Tariff season "${season.label}" must start and end in months 1 to 12`,
+      );
+    }
+    if (!(season.basePricePerKwh >= 0)) {
+      throw new EnergySdkError(
+        `Tariff season "${season.label}" must have a non-negative base price`,
+      );
+    }
+    validatePeriods(season.periods);
+  }
+  for (const charge of tariff.demandCharges ?? []) {
+    if (!(charge.pricePerKw >= 0)) {
+      throw new EnergySdkError(
+        `Demand charge "${charge.label}" must have a non-negative price`,
+      );
+    }
+    const hoursGiven =
+      charge.startHour !== undefined || charge.endHour !== undefined;
+    if (hoursGiven && !validHours(charge.startHour!, charge.endHour!)) {
+      throw new EnergySdkError(
+        `Demand charge "${charge.label}" must span distinct whole hours between 0 and 24`,
+      );
+    }
+    if (charge.months && !charge.months.every(isMonth)) {
+      throw new EnergySdkError(
+        `Demand charge "${charge.label}" months must be 1 to 12`,
+      );
+    }
+  }
+}
+
+/**
+ * Parse and validate a tariff stored as JSON, e.g. in the on-chain tariff registry.
+ * Throws `InvalidTariffError` for anything that is not a usable tariff.
+ */
+export function parseTariff(json: string): TimeOfUseTariff {
+  let tariff: TimeOfUseTariff;
+  try {
+    tariff = JSON.parse(json);
+  } catch (e) {
+    throw new InvalidTariffError("Tariff is not valid JSON", { cause: e });
+  }
+  if (
+    typeof tariff !== "object" ||
+    tariff === null ||
+    typeof tariff.currency !== "string" ||
+    !Array.isArray(tariff.periods)
+  ) {
+    throw new InvalidTariffError(
+      "Tariff needs a currency, a basePricePerKwh and a periods array",
+    );
+  }
+  try {
+    validateTariff(tariff);
+  } catch (e) {
+    throw new InvalidTariffError((e as Error).message, { cause: e });
+  }
+  return tariff;
+}
+
+/** Whether a demand charge counts the hour containing `timestamp`. */
+export function demandChargeApplies(
+  charge: DemandCharge,
+  timestamp: number,
+  utcOffsetMinutes = 0,
+): boolean {
+  const { hour, day, month } = localTime(
+    Math.floor(timestamp / HOUR) * HOUR,
+    utcOffsetMinutes,
+  );
+  return (
+    (charge.months === undefined || charge.months.includes(month)) &&
+    (charge.days === undefined || charge.days.includes(day)) &&
+    (charge.startHour === undefined ||
+      inHourRange(hour, charge.startHour, charge.endHour!))
+  );
+}
+
+/** The rate that applies during the hour containing `timestamp`. */
+export function rateAt(
+  tariff: TimeOfUseTariff,
+  timestamp: number,
+  utcOffsetMinutes = 0,
+): TariffRate {
+  const { hour, day, month } = localTime(
+    Math.floor(timestamp / HOUR) * HOUR,
+    utcOffsetMinutes,
+  );
+  const season = tariff.seasons?.find((s) =>
+    inMonthRange(month, s.startMonth, s.endMonth),
+  );
+  const schedule = season ?? tariff;
+  const period = schedule.periods.find(
+    (p) =>
+      (p.days === undefined || p.days.includes(day)) &&
+      inHourRange(hour, p.startHour, p.endHour),
+  );
+  const rate = period
+    ? { label: period.label, pricePerKwh: period.pricePerKwh }
+    : { label: "base", pricePerKwh: schedule.basePricePerKwh };
+  return season ? { ...rate, season: season.label } : rate;
+}
+
+/** Highest rate the tariff can charge, in any season. */
+export function peakPrice(tariff: TimeOfUseTariff): number {
+  return Math.max(
+    ...[tariff, ...(tariff.seasons ?? [])].flatMap((schedule) => [
+      schedule.basePricePerKwh,
+      ...schedule.periods.map((p) => p.pricePerKwh),
+    ]),
+  );
+}
@@ -1,2 +0,0 @@
-// Auto-generated file: D:\MyCode\zama\demo\src\account-account-types.rs
-// Generated at: 2025-10-03T12:09:15.657Z
\ No newline at end of file
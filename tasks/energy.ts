@@ -0,0 +1,664 @@
+// tasks/energy.ts
+//
+// Command-line workflow for SmartBuildingEnergyFHE. Every task resolves the contract from
+// --address or from the latest manifest written by deploy/deploy.ts for the network.
+//
+//   npx hardhat --network localhost energy:submit --usage 42 --load 120 --system hvac_zone_1
+//   npx hardhat --network localhost energy:reveal --id 1
+//   npx hardhat --network localhost energy:status --id 1 --private --account 1
+//   npx hardhat --network localhost energy:attest --id 1 --dispute --reason 100
+//   npx hardhat --network localhost energy:load-sum --system hvac_zone_1 --reveal
+//   npx hardhat --network localhost energy:list --from-block 0
+//   npx hardhat --network localhost energy:allocate --input period.json --method shapley
+//   npx hardhat --network localhost energy:savings --decrypt --account 1
+//   npx hardhat --network localhost energy:credit-period --tenant 0x... --baseline 500
+//   npx hardhat --network localhost energy:credit --account 1
+//   npx hardhat --network localhost energy:epochs --reveal 1 --system hvac_zone_1
+//   npx hardhat --network localhost energy:tariff --input tariff.json --effective-from 1767225600
+//   npx hardhat --network localhost energy:cost --system hvac_zone_1 --utc-offset -300
+//   npx hardhat --network localhost energy:indexer --port 4350
+import { readFileSync } from "fs";
+import path from "path";
+import { task, types } from "hardhat/config";
+import type { HardhatRuntimeEnvironment } from "hardhat/types";
+
+import { DEFAULT_PATHS, readDeploymentManifest } from "../deploy/manifest";
+import {
+  ALLOCATION_METHODS,
+  type Attestation,
+  DEFAULT_SYSTEM_KEY,
+  DISPUTE_REASONS,
+  SmartBuildingEnergyClient,
+  type AllocationMethod,
+  type SavingsPeriodInput,
+  type TimeOfUseTariff,
+  type UsageCost,
+  allocateSavings,
+  compareEpochs,
+  describeReason,
+} from "../sdk";
+
+interface ConnectArgs {
+  address?: string;
+  account: number;
+}
+
+const resolveAddress = (hre: HardhatRuntimeEnvironment, address?: string) => {
+  if (address) return address;
+  const manifest = readDeploymentManifest(hre.network.name);
+  if (!manifest) {
+    throw new Error(
+      `No SmartBuildingEnergyFHE deployment recorded for network "${hre.network.name}"; pass --address or run the deploy script first`,
+    );
+  }
+  return manifest.address;
+};
+
+const formatAttestation = (a: Attestation) =>
+  `${new Date(a.timestamp * 1000).toISOString()} ${a.verdict} by ${a.verifier}: ${describeReason(a.verdict, a.reasonCode)} (${a.reasonCode})`;
+
+// The manifest's deploy block only applies when the address also came from it
+const defaultFromBlock = (hre: HardhatRuntimeEnvironment, address?: string) =>
+  (address ? 0 : readDeploymentManifest(hre.network.name)?.deployBlock) ?? 0;
+
+async function connect(
+  hre: HardhatRuntimeEnvironment,
+  { address, account }: ConnectArgs,
+): Promise<SmartBuildingEnergyClient> {
+  // In-process networks (tests, scripts) are set up by the plugin already; the CLI
+  // initializer only accepts a Hardhat node or Sepolia
+  if (hre.network.name !== "hardhat") {
+    await hre.fhevm.initializeCLIApi();
+  }
+
+  const signers = await hre.ethers.getSigners();
+  const signer = signers[account];
+  if (!signer) {
+    throw new Error(
+      `Invalid account index ${account}; expected 0 to ${signers.length - 1}`,
+    );
+  }
+  return SmartBuildingEnergyClient.connect(
+    resolveAddress(hre, address),
+    signer,
+    { encryptor: hre.fhevm, decryptor: hre.fhevm },
+  );
+}
+
+/** Registers the options shared by every energy task. */
+const energyTask = (name: string, description: string) =>
+  task(name, description)
+    .addOptionalParam(
+      "address",
+      "SmartBuildingEnergyFHE address (defaults to the deployment manifest)",
+    )
+    .addOptionalParam("account", "Index of the signer to act as", 0, types.int);
+
+energyTask("energy:submit", "Encrypt and submit a tenant reading")
+  .addParam("usage", "Tenant usage in kWh", undefined, types.int)
+  .addOptionalParam("load", "Predicted system load in kWh", 0, types.int)
+  .addOptionalParam(
+    "system",
+    "Registered system key the reading belongs to",
+    DEFAULT_SYSTEM_KEY,
+  )
+  .addOptionalParam(
+    "timestamp",
+    "Reading time in unix seconds (defaults to now)",
+    undefined,
+    types.int,
+  )
+  .setAction(async (args, hre) => {
+    const client = await connect(hre, args);
+    const { dataId, receipt } = await client.submitReading(
+      {
+        tenantUsage: args.usage,
+        timestamp: args.timestamp ?? Math.floor(Date.now() / 1000),
+        systemLoad: args.load,
+      },
+      args.system,
+    );
+    console.log(
+      `Submitted reading #${dataId} to ${args.system} (tx ${receipt.hash})`,
+    );
+    return dataId;
+  });
+
+energyTask("energy:reveal", "Ask the decryption oracle to reveal your reading")
+  .addParam("id", "Reading id", undefined, types.int)
+  .setAction(async (args, hre) => {
+    const client = await connect(hre, args);
+    const { requestId } = await client.requestReveal(args.id);
+
+    if (!hre.fhevm.isMock) {
+      console.log(
+        `Decryption of reading #${args.id} requested (oracle request ${requestId}); check it with energy:status`,
+      );
+      return null;
+    }
+    // The mock oracle only answers when asked to
+    await hre.fhevm.awaitDecryptionOracle();
+    const revealed = await client.getRevealedReading(args.id);
+    console.log(
+      `Reading #${args.id}: usage ${revealed.tenantUsage} kWh, load ${revealed.systemLoad} kWh`,
+    );
+    return revealed;
+  });
+
+energyTask("energy:status", "Show a reading and its reveal status")
+  .addParam("id", "Reading id", undefined, types.int)
+  .addFlag(
+    "private",
+    "Also decrypt your own reading locally (EIP-712 signed, nothing published)",
+  )
+  .setAction(async (args, hre) => {
+    const client = await connect(hre, args);
+    const [reading, revealed, revealStatus, attestations] = await Promise.all([
+      client.getReading(args.id),
+      client.getRevealedReading(args.id),
+      client.getRevealStatus(args.id),
+      client.getAttestations(args.id),
+    ]);
+    if (reading.id === 0n) {
+      throw new Error(`Reading #${args.id} does not exist`);
+    }
+
+    const iso = (seconds: number) => new Date(seconds * 1000).toISOString();
+    console.log(`Reading #${reading.id}`);
+    console.log(`  tenant:    ${reading.tenant}`);
+    console.log(`  system:    ${reading.systemKey}`);
+    console.log(`  submitted: ${iso(Number(reading.timestamp))}`);
+    console.log(
+      revealed.isRevealed
+        ? `  revealed:  usage ${revealed.tenantUsage} kWh, load ${revealed.systemLoad} kWh`
+        : revealStatus.status === "pending"
+          ? `  revealed:  pending since ${iso(revealStatus.requestedAt!)} (request ${revealStatus.requestId}, attempt ${revealStatus.attempts}; retry from ${iso(revealStatus.retryAt!)})`
+          : `  revealed:  no (usage handle ${reading.tenantUsageHandle})`,
+    );
+    console.log(
+      attestations.length > 0
+        ? attestations
+            .map((a) => `  verdict:   ${formatAttestation(a)}`)
+            .join("\n")
+        : "  verdict:   not attested",
+    );
+    const status = { ...reading, ...revealed, revealStatus, attestations };
+    if (!args.private) return status;
+
+    const [own] = await client.decryptReadings([args.id]);
+    console.log(
+      `  private:   usage ${own.tenantUsage} kWh, load ${own.systemLoad} kWh, metered ${iso(own.timestamp)}`,
+    );
+    return { ...status, private: own };
+  });
+
+energyTask("energy:attest", "Attest or dispute a reading as the verifier")
+  .addParam("id", "Reading id", undefined, types.int)
+  .addOptionalParam(
+    "reason",
+    "Reason code (ATTESTATION_REASONS, or DISPUTE_REASONS with --dispute)",
+    undefined,
+    types.int,
+  )
+  .addFlag("dispute", "Dispute the reading instead of attesting it")
+  .setAction(async (args, hre) => {
+    const client = await connect(hre, args);
+    if (args.dispute) {
+      if (args.reason === undefined) {
+        throw new Error(
+          `Disputes need --reason, e.g. ${Object.entries(DISPUTE_REASONS)
+            .map(([code, label]) => `${code} (${label})`)
+            .join(", ")}`,
+        );
+      }
+      await client.disputeReading(args.id, args.reason);
+    } else {
+      await client.attestReading(args.id, args.reason ?? 0);
+    }
+
+    const history = await client.getAttestations(args.id);
+    console.log(`Reading #${args.id}`);
+    history.forEach((a) => console.log(`  ${formatAttestation(a)}`));
+    return history;
+  });
+
+energyTask("energy:load-sum", "Show, or reveal, the aggregate load of a system")
+  .addOptionalParam("system", "Registered system key", DEFAULT_SYSTEM_KEY)
+  .addFlag("reveal", "Request a new oracle reveal (building manager only)")
+  .setAction(async (args, hre) => {
+    const client = await connect(hre, args);
+
+    if (args.reveal) {
+      const afterRevealIndex = (await client.getRevealedLoadSum(args.system))
+        ?.revealIndex;
+      await client.requestLoadSumReveal(args.system);
+      if (!hre.fhevm.isMock) {
+        console.log(
+          `Reveal of ${args.system} requested; run energy:load-sum again once the oracle answers`,
+        );
+        return null;
+      }
+      await hre.fhevm.awaitDecryptionOracle();
+      await client.waitForLoadSumReveal(args.system, {
+        afterRevealIndex: afterRevealIndex ?? 0,
+      });
+    }
+
+    const latest = await client.getRevealedLoadSum(args.system);
+    console.log(`System ${args.system}`);
+    console.log(`  encrypted sum: ${await client.getLoadSum(args.system)}`);
+    console.log(
+      latest
+        ? `  revealed:      ${latest.sum} kWh (reveal #${latest.revealIndex}, ${new Date(Number(latest.revealedAt) * 1000).toISOString()})`
+        : `  revealed:      never`,
+    );
+    return latest;
+  });
+
+energyTask("energy:list", "List submitted readings")
+  .addOptionalParam(
+    "fromBlock",
+    "First block to scan (defaults to the deployment block)",
+    undefined,
+    types.int,
+  )
+  .setAction(async (args, hre) => {
+    const client = await connect(hre, args);
+    const fromBlock = args.fromBlock ?? defaultFromBlock(hre, args.address);
+    const { contract } = client;
+    const [singleLogs, batchLogs] = await Promise.all([
+      contract.queryFilter(contract.filters.EnergyDataSubmitted, fromBlock),
+      contract.queryFilter(
+        contract.filters.EnergyDataBatchSubmitted,
+        fromBlock,
+      ),
+    ]);
+
+    // A batch reports its id range once; expand it so every reading is listed
+    const submissions = [
+      ...singleLogs.map((log) => ({
+        id: log.args.id,
+        tenant: log.args.tenant,
+        systemKey: log.args.systemKey,
+        timestamp: log.args.timestamp,
+        blockNumber: log.blockNumber,
+      })),
+      ...batchLogs.flatMap((log) =>
+        Array.from(
+          { length: Number(log.args.lastId - log.args.firstId) + 1 },
+          (_, i) => ({
+            id: log.args.firstId + BigInt(i),
+            tenant: log.args.tenant,
+            systemKey: log.args.systemKey,
+            timestamp: log.args.timestamp,
+            blockNumber: log.blockNumber,
+          }),
+        ),
+      ),
+    ].sort((a, b) => (a.id < b.id ? -1 : 1));
+    for (const s of submissions) {
+      console.log(
+        `#${s.id}\t${s.tenant}\t${s.systemKey}\t${new Date(Number(s.timestamp) * 1000).toISOString()}\tblock ${s.blockNumber}`,
+      );
+    }
+    console.log(`${submissions.length} reading(s) since block ${fromBlock}`);
+    return submissions;
+  });
+
+energyTask("energy:register-system", "Register a building system (owner only)")
+  .addParam("system", "System key, e.g. hvac_zone_1")
+  .setAction(async (args, hre) => {
+    const client = await connect(hre, args);
+    await client.registerSystem(args.system);
+    console.log(`Registered system ${args.system}`);
+  });
+
+energyTask(
+  "energy:allocate",
+  "Split a billing period's savings among tenants and record it (building manager only)",
+)
+  .addParam(
+    "input",
+    "JSON file with periodStart, periodEnd, baselineKwh, actualKwh and per-tenant contributions",
+  )
+  .addOptionalParam(
+    "method",
+    `Allocation method: ${ALLOCATION_METHODS.join(" or ")}`,
+    "shapley",
+  )
+  .addFlag("dryRun", "Print the allocation without recording it")
+  .setAction(async (args, hre) => {
+    if (!ALLOCATION_METHODS.includes(args.method)) {
+      throw new Error(
+        `Unknown allocation method "${args.method}"; expected ${ALLOCATION_METHODS.join(" or ")}`,
+      );
+    }
+    const input: SavingsPeriodInput = JSON.parse(
+      readFileSync(args.input, "utf8"),
+    );
+    const allocation = allocateSavings(input, args.method as AllocationMethod);
+
+    console.log(
+      `Savings ${allocation.savingsKwh} kWh (${allocation.method}) for ${new Date(allocation.periodStart * 1000).toISOString()} to ${new Date(allocation.periodEnd * 1000).toISOString()}`,
+    );
+    for (const a of allocation.allocations) {
+      console.log(
+        `  ${a.tenant}\t${(a.savingsWh / 1000).toFixed(3)} kWh\t${(a.share * 100).toFixed(1)}%`,
+      );
+    }
+    if (args.dryRun) return { allocation };
+
+    const client = await connect(hre, args);
+    const { periodId } = await client.recordSavingsAllocation(allocation);
+    console.log(`Recorded billing period #${periodId}`);
+    return { allocation, periodId };
+  });
+
+energyTask("energy:savings", "List recorded savings allocations")
+  .addFlag(
+    "decrypt",
+    "Also decrypt your own share of each period (signs an EIP-712 request)",
+  )
+  .setAction(async (args, hre) => {
+    const client = await connect(hre, args);
+    const periods = await client.listSavingsPeriods();
+    const shares = args.decrypt ? await client.decryptTenantSavings() : [];
+
+    for (const p of periods) {
+      console.log(
+        `#${p.periodId}\t${new Date(p.periodStart * 1000).toISOString()} to ${new Date(p.periodEnd * 1000).toISOString()}\t${p.savingsKwh} kWh saved (${p.method}) among ${p.tenants.length} tenant(s), shares ${p.check}`,
+      );
+      const share = shares.find((s) => s.periodId === p.periodId);
+      if (share) {
+        console.log(`  your share\t${(share.savingsWh / 1000).toFixed(3)} kWh`);
+      }
+    }
+    console.log(`${periods.length} billing period(s)`);
+    return { periods, shares };
+  });
+
+energyTask(
+  "energy:credit-period",
+  "Open or close a tenant's encrypted savings credit period (building manager only)",
+)
+  .addParam("tenant", "Tenant address")
+  .addOptionalParam(
+    "baseline",
+    "Open a period with this baseline in kWh, encrypted before sending",
+    undefined,
+    types.int,
+  )
+  .addFlag("close", "Close the open period and credit the tenant")
+  .setAction(async (args, hre) => {
+    if ((args.baseline === undefined) === !args.close) {
+      throw new Error("Pass either --baseline to open a period or --close");
+    }
+    const client = await connect(hre, args);
+    if (args.close) {
+      await client.closeCreditPeriod(args.tenant);
+      console.log(`Closed the credit period of ${args.tenant}`);
+    } else {
+      await client.startCreditPeriod(args.tenant, args.baseline);
+      console.log(`Opened a credit period for ${args.tenant}`);
+    }
+  });
+
+energyTask(
+  "energy:credit",
+  "Decrypt your own savings credit (signs an EIP-712 request)",
+).setAction(async (args, hre) => {
+  const client = await connect(hre, args);
+  const credit = await client.decryptSavingsCredit();
+
+  console.log(
+    credit.computedAt === 0n
+      ? `  credits:     none yet`
+      : `  credits:     ${credit.lastCredit} kWh last period, ${credit.totalCredits} kWh in total (${new Date(Number(credit.computedAt) * 1000).toISOString()})`,
+  );
+  console.log(
+    credit.openPeriod
+      ? `  open period: ${credit.openPeriod.usageKwh} of ${credit.openPeriod.baselineKwh} kWh used since ${new Date(Number(credit.openPeriod.startedAt) * 1000).toISOString()}`
+      : `  open period: none`,
+  );
+  return credit;
+});
+
+energyTask(
+  "energy:epochs",
+  "List billing epochs with a system's totals; close, configure or reveal them",
+)
+  .addOptionalParam("system", "Registered system key", DEFAULT_SYSTEM_KEY)
+  .addFlag("close", "Close the open epoch and open the next")
+  .addOptionalParam(
+    "duration",
+    "Set the epoch duration in seconds (owner only)",
+    undefined,
+    types.int,
+  )
+  .addOptionalParam(
+    "reveal",
+    "Reveal this closed epoch's total (building manager only)",
+    undefined,
+    types.int,
+  )
+  .addFlag(
+    "private",
+    "Also decrypt your own usage per epoch (signs an EIP-712 request)",
+  )
+  .setAction(async (args, hre) => {
+    const client = await connect(hre, args);
+
+    if (args.duration !== undefined) {
+      await client.setBillingEpochDuration(args.duration);
+      console.log(`Billing epochs now last ${args.duration}s`);
+    }
+    if (args.close) {
+      const { epochId } = await client.closeBillingEpoch();
+      console.log(`Closed billing epoch ${epochId}`);
+    }
+    if (args.reveal !== undefined) {
+      await client.requestEpochTotalReveal(args.reveal, args.system);
+      if (hre.fhevm.isMock) {
+        await hre.fhevm.awaitDecryptionOracle();
+        await client.waitForEpochTotal(args.reveal, args.system);
+      } else {
+        console.log(
+          `Reveal of epoch ${args.reveal} requested; run energy:epochs again once the oracle answers`,
+        );
+      }
+    }
+
+    const totals = await client.listEpochTotals(args.system);
+    const usage = args.private ? await client.decryptEpochUsage() : undefined;
+    const comparison = usage ? compareEpochs(usage) : [];
+    console.log(
+      `System ${args.system}, epochs of ${await client.getBillingEpochDuration()}s`,
+    );
+    totals.forEach(({ epoch, kwh }, i) => {
+      const closed = epoch.closedAt
+        ? new Date(Number(epoch.closedAt) * 1000).toISOString()
+        : "open";
+      console.log(
+        `  #${epoch.epochId} ${new Date(Number(epoch.startedAt) * 1000).toISOString()} – ${closed}: ${kwh === null ? "not revealed" : `${kwh} kWh`}`,
+      );
+      const own = comparison[i];
+      if (own) {
+        console.log(
+          `     yours: ${own.kwh} kWh (${own.kwhPerDay === null ? "too short to average" : `${own.kwhPerDay.toFixed(1)} kWh/day`}${own.changePct === null ? "" : `, ${own.changePct >= 0 ? "+" : ""}${own.changePct.toFixed(1)}%`})`,
+        );
+      }
+    });
+    return { totals, usage: comparison };
+  });
+
+energyTask(
+  "energy:tariff",
+  "List published tariffs, or publish one from a JSON file (owner only)",
+)
+  .addOptionalParam("input", "Path to a TimeOfUseTariff JSON file")
+  .addOptionalParam(
+    "effectiveFrom",
+    "Unix seconds the tariff applies from (defaults to now)",
+    undefined,
+    types.int,
+  )
+  .setAction(async (args, hre) => {
+    const client = await connect(hre, args);
+
+    if (args.input) {
+      const tariff: TimeOfUseTariff = JSON.parse(
+        readFileSync(args.input, "utf8"),
+      );
+      const effectiveFrom = args.effectiveFrom ?? Math.floor(Date.now() / 1000);
+      const { tariffId } = await client.publishTariff(tariff, effectiveFrom);
+      console.log(`Published tariff #${tariffId}`);
+    }
+
+    const tariffs = await client.listTariffs();
+    for (const t of tariffs) {
+      const seasons = t.tariff.seasons?.map((s) => s.label).join(", ");
+      console.log(
+        `#${t.tariffId}\tfrom ${new Date(t.effectiveFrom * 1000).toISOString()}\t${t.tariff.currency} ${t.tariff.basePricePerKwh}/kWh base, ${t.tariff.periods.length} period(s)${seasons ? `, seasons: ${seasons}` : ""}, ${t.tariff.demandCharges?.length ?? 0} demand charge(s)`,
+      );
+    }
+    console.log(`${tariffs.length} tariff(s)`);
+    return tariffs;
+  });
+
+energyTask(
+  "energy:cost",
+  "Price a system's revealed aggregate, or your own readings, under the published tariffs",
+)
+  .addOptionalParam("system", "Registered system key", DEFAULT_SYSTEM_KEY)
+  .addFlag(
+    "private",
+    "Price your own readings instead (signs an EIP-712 request)",
+  )
+  .addOptionalParam(
+    "from",
+    "Start of the billing period, unix seconds",
+    undefined,
+    types.int,
+  )
+  .addOptionalParam(
+    "to",
+    "End of the billing period (exclusive), unix seconds",
+    undefined,
+    types.int,
+  )
+  .addOptionalParam(
+    "utcOffset",
+    "Building-local offset from UTC in minutes",
+    0,
+    types.int,
+  )
+  .setAction(async (args, hre) => {
+    const client = await connect(hre, args);
+    const options = {
+      from: args.from,
+      to: args.to,
+      utcOffsetMinutes: args.utcOffset,
+    };
+    const cost: UsageCost = args.private
+      ? await client.priceOwnUsage(undefined, options)
+      : await client.priceLoadSums(args.system, options);
+
+    const money = (value: number) => `${value.toFixed(2)} ${cost.currency}`;
+    console.log(
+      args.private ? "Your readings" : `System ${args.system} (revealed)`,
+    );
+    for (const c of cost.energy) {
+      console.log(
+        `  ${c.season ? `${c.season} ` : ""}${c.label}\t${c.kwh.toFixed(1)} kWh x ${c.pricePerKwh}\t${money(c.cost)}`,
+      );
+    }
+    for (const d of cost.demand) {
+      console.log(
+        `  ${d.label} demand\t${d.peakKw.toFixed(1)} kW x ${d.pricePerKw}\t${money(d.cost)}`,
+      );
+    }
+    console.log(`  total\t${cost.kwh.toFixed(1)} kWh\t${money(cost.total)}`);
+    return cost;
+  });
+
+energyTask(
+  "energy:indexer",
+  "Index contract events into SQLite and serve them over HTTP and GraphQL until interrupted",
+)
+  .addOptionalParam(
+    "db",
+    "SQLite file (defaults to deployments/<network>/indexer.sqlite)",
+  )
+  .addOptionalParam("port", "HTTP port for the query API", 4350, types.int)
+  .addOptionalParam(
+    "fromBlock",
+    "First block to index (defaults to the deployment block)",
+    undefined,
+    types.int,
+  )
+  .addOptionalParam(
+    "confirmations",
+    "Blocks to stay behind the head",
+    0,
+    types.int,
+  )
+  .addOptionalParam(
+    "pollInterval",
+    "Milliseconds between sync passes",
+    4_000,
+    types.int,
+  )
+  .addFlag("once", "Sync up to the head and exit without serving")
+  .setAction(async (args, hre) => {
+    // hardhat.config.ts loads this file for every command; only this task should pay
+    // for (or fail on) the native SQLite binding
+    const {
+      EnergyIndexer,
+      GRAPHQL_PATH,
+      IndexerStore,
+      createIndexerSchema,
+      createIndexerServer,
+      serveGraphqlSubscriptions,
+    } = await import("../indexer");
+    const client = await connect(hre, args);
+    const file =
+      args.db ??
+      path.join(
+        DEFAULT_PATHS.deploymentsDir,
+        hre.network.name,
+        "indexer.sqlite",
+      );
+    const store = new IndexerStore(file);
+    const indexer = new EnergyIndexer(client.contract, store, {
+      fromBlock: args.fromBlock ?? defaultFromBlock(hre, args.address),
+      confirmations: args.confirmations,
+      pollIntervalMs: args.pollInterval,
+    });
+
+    if (args.once) {
+      try {
+        const result = await indexer.sync();
+        console.log(
+          `Indexed blocks ${result.fromBlock}-${result.toBlock}: ${result.records} reading(s), ${result.revealRequests} reveal request(s), ${result.reveals} reveal(s)`,
+        );
+        return result;
+      } finally {
+        store.close();
+      }
+    }
+
+    const schema = createIndexerSchema(store, indexer);
+    const server = createIndexerServer(store, schema);
+    const subscriptions = serveGraphqlSubscriptions(server, schema);
+    await new Promise<void>((resolve) => server.listen(args.port, resolve));
+    console.log(
+      `Indexing ${file}; query API on http://localhost:${args.port}, GraphQL on http://localhost:${args.port}${GRAPHQL_PATH}`,
+    );
+    indexer.start();
+
+    await new Promise<void>((resolve) => process.once("SIGINT", resolve));
+    await indexer.stop();
+    await subscriptions.dispose();
+    await new Promise((resolve) => server.close(resolve));
+    store.close();
+  });
@@ -0,0 +1,1266 @@
+import { FhevmType } from "@fhevm/hardhat-plugin";
+import { time } from "@nomicfoundation/hardhat-network-helpers";
+import { anyValue } from "@nomicfoundation/hardhat-chai-matchers/withArgs";
+import { expect } from "chai";
+import { ethers, fhevm } from "hardhat";
+
+import {
+  AlreadyDecryptedError,
+  BillingEpochNotFoundError,
+  BillingEpochOpenError,
+  CreditPeriodOpenError,
+  DECRYPTION_RETRY_DELAY_SECONDS,
+  DecryptionPendingError,
+  InvalidAddressError,
+  InvalidAllocationError,
+  InsufficientReadingsError,
+  InvalidBatchError,
+  InvalidEpochDurationError,
+  InvalidTariffError,
+  MAX_BATCH_SIZE,
+  MAX_USER_DECRYPT_HANDLES,
+  NoCreditPeriodError,
+  NotBuildingManagerError,
+  NotOwnerError,
+  NotTenantError,
+  PeriodNotFoundError,
+  SmartBuildingEnergyClient,
+  SystemAlreadyRegisteredError,
+  SystemNotFoundError,
+  TariffNotFoundError,
+  type TimeOfUseTariff,
+  allocateSavings,
+  encryptReading,
+  encryptReadings,
+} from "../sdk";
+import {
+  EnergyFixture,
+  Signers,
+  clientFor,
+  deployEnergyFixture,
+  getSigners,
+  submitReading,
+  submitReadings,
+} from "./fixtures";
+
+describe("SmartBuildingEnergyFHE", function () {
+  let signers: Signers;
+  let fixture: EnergyFixture;
+
+  before(async function () {
+    signers = await getSigners();
+  });
+
+  beforeEach(async function () {
+    // Oracle callbacks are driven by the FHEVM mock; on Sepolia they arrive asynchronously
+    if (!fhevm.isMock) {
+      console.warn(`This hardhat test suite cannot run on Sepolia Testnet`);
+      this.skip();
+    }
+    fixture = await deployEnergyFixture(signers.deployer);
+  });
+
+  it("never puts plaintext readings in submission calldata", async function () {
+    const [alice] = signers.tenants;
+    const reading = {
+      tenantUsage: 0xdeadbeef,
+      timestamp: 0x5eed5eed,
+      systemLoad: 0x0badcafe,
+    };
+    const encrypted = await encryptReading(
+      fhevm,
+      fixture.contractAddress,
+      alice.address,
+      reading,
+    );
+
+    const tx = await fixture.contract
+      .connect(alice)
+      .submitEncryptedEnergyData(
+        "central_system",
+        encrypted.tenantUsage,
+        encrypted.timestamp,
+        encrypted.systemLoad,
+        encrypted.inputProof,
+      );
+    await tx.wait();
+
+    const calldata = tx.data.toLowerCase();
+    for (const value of Object.values(reading)) {
+      expect(calldata).to.not.contain(value.toString(16));
+    }
+  });
+
+  it("stores submissions with encrypted handles", async function () {
+    const [alice, bob] = signers.tenants;
+    await submitReading(fixture, alice, { tenantUsage: 120 });
+    const bobId = await submitReading(fixture, bob, { tenantUsage: 80 });
+
+    expect(bobId).to.eq(2n);
+    expect(await fixture.contract.dataCount()).to.eq(2n);
+
+    const record = await fixture.contract.encryptedData(bobId);
+    expect(record.id).to.eq(bobId);
+    expect(
+      await fhevm.debugger.decryptEuint(
+        FhevmType.euint32,
+        record.encryptedTenantUsage,
+      ),
+    ).to.eq(80n);
+
+    const revealed = await fixture.contract.getDecryptedEnergyData(bobId);
+    expect(revealed.isRevealed).to.eq(false);
+  });
+
+  it("reveals a reading through the decryption oracle", async function () {
+    const [alice] = signers.tenants;
+    const client = clientFor(fixture, alice);
+    const dataId = await submitReading(fixture, alice, {
+      tenantUsage: 321,
+      systemLoad: 654,
+    });
+
+    await expect(
+      fixture.contract.connect(alice).requestEnergyDataDecryption(dataId),
+    )
+      .to.emit(fixture.contract, "DecryptionRequested")
+      .withArgs(dataId, anyValue);
+    await fhevm.awaitDecryptionOracle();
+
+    const revealed = await client.waitForReveal(dataId, { timeoutMs: 1_000 });
+    expect(revealed).to.deep.eq({
+      tenantUsage: 321,
+      systemLoad: 654,
+      isRevealed: true,
+    });
+  });
+
+  it("rejects a second decryption of the same reading", async function () {
+    const [alice] = signers.tenants;
+    const dataId = await submitReading(fixture, alice);
+
+    await fixture.contract.connect(alice).requestEnergyDataDecryption(dataId);
+    await fhevm.awaitDecryptionOracle();
+
+    await expect(
+      fixture.contract.connect(alice).requestEnergyDataDecryption(dataId),
+    ).to.be.revertedWith("Already decrypted");
+  });
+
+  it("allows retrying an unanswered reveal only after the retry delay", async function () {
+    const [alice] = signers.tenants;
+    const client = clientFor(fixture, alice);
+    const dataId = await submitReading(fixture, alice, { tenantUsage: 17 });
+    expect(await client.getRevealStatus(dataId)).to.deep.eq({
+      status: "none",
+      requestId: null,
+      requestedAt: null,
+      attempts: 0,
+      retryAt: null,
+    });
+
+    const first = await client.requestReveal(dataId);
+    const requestedAt = await time.latest();
+    expect(await client.getRevealStatus(dataId)).to.deep.eq({
+      status: "pending",
+      requestId: first.requestId,
+      requestedAt,
+      attempts: 1,
+      retryAt: requestedAt + 300,
+    });
+    await expect(client.requestReveal(dataId)).to.be.rejectedWith(
+      DecryptionPendingError,
+    );
+
+    await time.increase(300);
+    const retry = await client.requestReveal(dataId);
+    expect(retry.requestId).to.not.eq(first.requestId);
+    expect(await client.getRevealStatus(dataId)).to.include({
+      status: "pending",
+      requestId: retry.requestId,
+      attempts: 2,
+    });
+
+    // Whichever callback lands first reveals the reading; the other is ignored
+    await fhevm.awaitDecryptionOracle();
+    expect(await client.getRevealStatus(dataId)).to.include({
+      status: "revealed",
+      retryAt: null,
+    });
+    expect(await client.getRevealedReading(dataId)).to.include({
+      tenantUsage: 17,
+    });
+  });
+
+  it("rejects oracle callbacks for unknown request ids", async function () {
+    await expect(
+      fixture.contract.decryptEnergyData(999, "0x", "0x"),
+    ).to.be.revertedWith("Invalid request");
+  });
+
+  it("accumulates encrypted usage into the central_system sum on submission", async function () {
+    const [alice, bob, carol] = signers.tenants;
+    expect(await fixture.contract.getEncryptedLoadSum("central_system")).to.eq(
+      ethers.ZeroHash,
+    );
+
+    await submitReading(fixture, alice, { tenantUsage: 100 });
+    await submitReading(fixture, bob, { tenantUsage: 250 });
+    await submitReading(fixture, carol, { tenantUsage: 40 });
+
+    const sum = await fixture.contract.getEncryptedLoadSum("central_system");
+    expect(await fhevm.debugger.decryptEuint(FhevmType.euint32, sum)).to.eq(
+      390n,
+    );
+  });
+
+  it("reveals the aggregate without revealing any reading", async function () {
+    const ids = await submitReadings(
+      fixture,
+      signers.tenants,
+      [120, 30, 50, 20, 30],
+    );
+    const manager = clientFor(fixture, signers.deployer);
+
+    await manager.requestLoadSumReveal("central_system");
+    await fhevm.awaitDecryptionOracle();
+
+    expect(await manager.getRevealedLoadSum("central_system")).to.include({
+      sum: 250,
+      revealIndex: 1,
+    });
+    for (const id of ids) {
+      expect((await manager.getRevealedReading(id)).isRevealed).to.eq(false);
+    }
+
+    // Decrypting the running sum around a submission would expose that reading
+    await expect(
+      fhevm.userDecryptEuint(
+        FhevmType.euint32,
+        await manager.getLoadSum(),
+        fixture.contractAddress,
+        signers.deployer,
+      ),
+    ).to.be.rejected;
+  });
+
+  it("keeps a timestamped history of aggregate reveals", async function () {
+    const manager = clientFor(fixture, signers.deployer);
+    expect(await manager.getRevealedLoadSum()).to.eq(null);
+
+    await submitReadings(fixture, signers.tenants, [10, 10, 20, 10, 10]);
+    await expect(
+      fixture.contract.requestLoadSumDecryption("central_system"),
+    ).to.emit(fixture.contract, "LoadSumDecryptionRequested");
+    await fhevm.awaitDecryptionOracle();
+    const first = await manager.waitForLoadSumReveal("central_system", {
+      afterRevealIndex: 0,
+      timeoutMs: 1_000,
+    });
+
+    await submitReadings(fixture, signers.tenants, [3, 3, 3, 3, 3]);
+    await manager.requestLoadSumReveal();
+    await fhevm.awaitDecryptionOracle();
+    const latestBlock = await ethers.provider.getBlock("latest");
+
+    const history = await manager.getLoadSumHistory();
+    expect(
+      history.map(({ sum, revealIndex }) => ({ sum, revealIndex })),
+    ).to.deep.eq([
+      { sum: 60, revealIndex: 1 },
+      { sum: 75, revealIndex: 2 },
+    ]);
+    expect(history[0]).to.deep.eq(first);
+    expect(history[1].revealedAt).to.eq(BigInt(latestBlock!.timestamp));
+    expect(await manager.getRevealedLoadSum()).to.deep.eq(history[1]);
+    await expect(
+      fixture.contract.getLoadSumReveal("central_system", 3),
+    ).to.be.revertedWith("Epoch not found");
+  });
+
+  it("emits the revealed aggregate and rejects replayed callbacks", async function () {
+    await submitReadings(fixture, signers.tenants, [10, 10, 10, 10, 2]);
+
+    const receipt = await clientFor(
+      fixture,
+      signers.deployer,
+    ).requestLoadSumReveal();
+    const [requested] = await fixture.contract.queryFilter(
+      fixture.contract.filters.LoadSumDecryptionRequested,
+      receipt.blockNumber,
+    );
+    expect(requested.args.systemKey).to.eq("central_system");
+
+    await fhevm.awaitDecryptionOracle();
+    const [revealed] = await fixture.contract.queryFilter(
+      fixture.contract.filters.LoadSumRevealed,
+    );
+    expect(revealed.args.systemKey).to.eq("central_system");
+    expect(revealed.args.epoch).to.eq(1n);
+    expect(revealed.args.sum).to.eq(42n);
+
+    await expect(
+      fixture.contract.decryptLoadSum(requested.args.requestId, "0x", "0x"),
+    ).to.be.revertedWith("Invalid request");
+    expect(
+      await fixture.contract.getLoadSumRevealCount("central_system"),
+    ).to.eq(1n);
+  });
+
+  it("refuses a reveal until enough new readings from enough tenants arrive", async function () {
+    const [alice, bob, carol] = signers.tenants;
+    const manager = clientFor(fixture, signers.deployer);
+
+    // Five readings from only two tenants are not enough for the first reveal
+    await submitReadings(fixture, [alice, bob], [10, 10, 10, 10, 10]);
+    expect(await manager.getLoadSumRevealWindow()).to.deep.eq({
+      readings: 5,
+      tenants: 2,
+      ready: false,
+    });
+    await expect(
+      fixture.contract.requestLoadSumDecryption("central_system"),
+    ).to.be.revertedWith("Not enough new readings");
+
+    await submitReading(fixture, carol, { tenantUsage: 10 });
+    expect((await manager.getLoadSumRevealWindow()).ready).to.eq(true);
+    await manager.requestLoadSumReveal();
+    await fhevm.awaitDecryptionOracle();
+    expect(await manager.getLoadSumRevealWindow()).to.deep.eq({
+      readings: 0,
+      tenants: 0,
+      ready: false,
+    });
+
+    // Revealing again around one reading would expose it by subtraction
+    await submitReading(fixture, alice, { tenantUsage: 77 });
+    await expect(manager.requestLoadSumReveal()).to.be.rejectedWith(
+      InsufficientReadingsError,
+    );
+    expect(await manager.getRevealedLoadSum()).to.include({
+      sum: 60,
+      revealIndex: 1,
+    });
+  });
+
+  it("counts a batch as several readings from a single tenant", async function () {
+    const [alice, bob] = signers.tenants;
+    const manager = clientFor(fixture, signers.deployer);
+
+    await clientFor(fixture, alice).submitReadings(
+      [1, 2, 3, 4, 5].map((tenantUsage) => ({
+        tenantUsage,
+        timestamp: 1_700_000_000,
+        systemLoad: 0,
+      })),
+    );
+    await submitReading(fixture, bob, { tenantUsage: 6 });
+    expect(await manager.getLoadSumRevealWindow()).to.deep.eq({
+      readings: 6,
+      tenants: 2,
+      ready: false,
+    });
+  });
+
+  describe("building systems", function () {
+    it("registers central_system on deployment", async function () {
+      const client = clientFor(fixture, signers.deployer);
+      expect(await client.listSystems()).to.deep.eq(["central_system"]);
+    });
+
+    it("lets only the owner register new systems", async function () {
+      const [alice] = signers.tenants;
+      const owner = clientFor(fixture, signers.deployer);
+
+      await expect(
+        clientFor(fixture, alice).registerSystem("hvac_zone_1"),
+      ).to.be.rejectedWith(NotOwnerError);
+      await expect(fixture.contract.registerSystem("hvac_zone_1"))
+        .to.emit(fixture.contract, "SystemRegistered")
+        .withArgs("hvac_zone_1");
+      await expect(owner.registerSystem("hvac_zone_1")).to.be.rejectedWith(
+        SystemAlreadyRegisteredError,
+      );
+      await expect(fixture.contract.registerSystem("")).to.be.revertedWith(
+        "Invalid system",
+      );
+
+      expect(await owner.listSystems()).to.deep.eq([
+        "central_system",
+        "hvac_zone_1",
+      ]);
+      expect(await owner.isSystemRegistered("hvac_zone_1")).to.eq(true);
+      expect(await owner.isSystemRegistered("elevators")).to.eq(false);
+    });
+
+    it("rejects submissions for unregistered systems", async function () {
+      const [alice] = signers.tenants;
+      await expect(
+        submitReading(fixture, alice, {}, "elevators"),
+      ).to.be.rejectedWith(SystemNotFoundError);
+    });
+
+    it("keeps a separate encrypted total per system", async function () {
+      const [alice, bob] = signers.tenants;
+      await fixture.contract.registerSystem("hvac_zone_1");
+      await fixture.contract.registerSystem("lighting_floor_2");
+
+      const hvacId = await submitReading(
+        fixture,
+        alice,
+        { tenantUsage: 70 },
+        "hvac_zone_1",
+      );
+      await submitReading(fixture, bob, { tenantUsage: 30 }, "hvac_zone_1");
+      await submitReading(
+        fixture,
+        bob,
+        { tenantUsage: 12 },
+        "lighting_floor_2",
+      );
+
+      const manager = clientFor(fixture, signers.deployer);
+      expect((await manager.getReading(hvacId)).systemKey).to.eq("hvac_zone_1");
+      const decryptTotal = async (systemKey: string) =>
+        fhevm.debugger.decryptEuint(
+          FhevmType.euint32,
+          await manager.getLoadSum(systemKey),
+        );
+      expect(await decryptTotal("hvac_zone_1")).to.eq(100n);
+      expect(await decryptTotal("lighting_floor_2")).to.eq(12n);
+      // Nothing was reported against central_system, so it has no aggregate to reveal
+      expect(await manager.getLoadSum("central_system")).to.eq(ethers.ZeroHash);
+    });
+  });
+
+  describe("batch submission", function () {
+    const readingsFrom = (usages: number[]) =>
+      usages.map((tenantUsage, i) => ({
+        tenantUsage,
+        timestamp: 1_700_000_000 + i * 900,
+        systemLoad: 0,
+      }));
+
+    it("stores a batch under consecutive ids with a single event", async function () {
+      const [alice] = signers.tenants;
+      await submitReading(fixture, alice, { tenantUsage: 5 });
+      const client = clientFor(fixture, alice);
+
+      const [batch] = await client.submitReadings(readingsFrom([10, 20, 30]));
+      expect(batch.dataIds).to.deep.eq([2n, 3n, 4n]);
+      await expect(batch.receipt.hash)
+        .to.emit(fixture.contract, "EnergyDataBatchSubmitted")
+        .withArgs(alice.address, "central_system", 2n, 4n, anyValue);
+      const events = await fixture.contract.queryFilter(
+        fixture.contract.filters.EnergyDataSubmitted,
+        batch.receipt.blockNumber,
+      );
+      expect(events).to.have.length(0);
+
+      const stored = await client.getReading(3);
+      expect(stored.tenant).to.eq(alice.address);
+      expect(
+        await fhevm.userDecryptEuint(
+          FhevmType.euint32,
+          stored.tenantUsageHandle,
+          fixture.contractAddress,
+          alice,
+        ),
+      ).to.eq(20n);
+      expect(
+        await fhevm.debugger.decryptEuint(
+          FhevmType.euint32,
+          await client.getLoadSum(),
+        ),
+      ).to.eq(65n);
+    });
+
+    it("chunks large uploads into proof-sized batches", async function () {
+      const [alice] = signers.tenants;
+      await fixture.contract.registerSystem("hvac_zone_1");
+      const usages = Array.from(
+        { length: MAX_BATCH_SIZE * 2 + 3 },
+        (_, i) => i,
+      );
+
+      const submitted: number[] = [];
+      const batches = await clientFor(fixture, alice).submitReadings(
+        readingsFrom(usages),
+        "hvac_zone_1",
+        { onBatch: (_, count) => submitted.push(count) },
+      );
+      expect(batches.map((b) => b.dataIds.length)).to.deep.eq([
+        MAX_BATCH_SIZE,
+        MAX_BATCH_SIZE,
+        3,
+      ]);
+      expect(submitted).to.deep.eq([
+        MAX_BATCH_SIZE,
+        MAX_BATCH_SIZE * 2,
+        usages.length,
+      ]);
+      expect(batches.flatMap((b) => b.dataIds)).to.deep.eq(
+        usages.map((_, i) => BigInt(i + 1)),
+      );
+      expect(await fixture.contract.MAX_BATCH_SIZE()).to.eq(MAX_BATCH_SIZE);
+      expect(
+        await fhevm.debugger.decryptEuint(
+          FhevmType.euint32,
+          await fixture.contract.getEncryptedLoadSum("hvac_zone_1"),
+        ),
+      ).to.eq(BigInt(usages.reduce((a, b) => a + b, 0)));
+    });
+
+    it("shrinks batches whose gas estimate exceeds the per-transaction limit", async function () {
+      const [alice] = signers.tenants;
+      const client = clientFor(fixture, alice);
+      const [first] = await client.submitReadings(readingsFrom([1]));
+
+      // Estimates run above gasUsed (refunds, 63/64 rule), so leave headroom for one
+      // reading while staying well below the cost of two
+      const batches = await client.submitReadings(
+        readingsFrom([2, 3, 4]),
+        undefined,
+        {
+          maxGasPerTransaction: (first.receipt.gasUsed * 3n) / 2n,
+        },
+      );
+      expect(batches.map((b) => b.dataIds)).to.deep.eq([[2n], [3n], [4n]]);
+    });
+
+    it("rejects empty, oversized and mismatched batches", async function () {
+      const [alice] = signers.tenants;
+      const encrypted = await encryptReadings(
+        fhevm,
+        fixture.contractAddress,
+        alice.address,
+        readingsFrom([1, 2]),
+      );
+      const contract = fixture.contract.connect(alice);
+
+      await expect(
+        contract.submitEncryptedEnergyDataBatch(
+          "central_system",
+          [],
+          [],
+          [],
+          encrypted.inputProof,
+        ),
+      ).to.be.revertedWith("Empty batch");
+      await expect(
+        contract.submitEncryptedEnergyDataBatch(
+          "central_system",
+          Array(MAX_BATCH_SIZE + 1).fill(encrypted.tenantUsage[0]),
+          Array(MAX_BATCH_SIZE + 1).fill(encrypted.timestamp[0]),
+          Array(MAX_BATCH_SIZE + 1).fill(encrypted.systemLoad[0]),
+          encrypted.inputProof,
+        ),
+      ).to.be.revertedWith("Batch too large");
+      await expect(
+        clientFor(fixture, alice).submitEncryptedReadingBatch({
+          ...encrypted,
+          systemLoad: encrypted.systemLoad.slice(1),
+        }),
+      ).to.be.rejectedWith(InvalidBatchError);
+      await expect(
+        clientFor(fixture, alice).submitEncryptedReadingBatch(
+          encrypted,
+          "elevators",
+        ),
+      ).to.be.rejectedWith(SystemNotFoundError);
+    });
+  });
+
+  describe("savings allocation", function () {
+    const DAY = 86400;
+
+    const allocationFor = async (periodStart: number, periodEnd: number) => {
+      const [alice, bob] = signers.tenants;
+      return allocateSavings({
+        periodStart,
+        periodEnd,
+        baselineKwh: 1000,
+        actualKwh: 900,
+        contributions: [
+          { tenant: alice.address, baselineKwh: 400, actualKwh: 370 },
+          { tenant: bob.address, baselineKwh: 300, actualKwh: 290 },
+        ],
+      });
+    };
+
+    const now = async () =>
+      (await ethers.provider.getBlock("latest"))!.timestamp;
+
+    it("publishes each period's total and encrypts every tenant's share for that tenant", async function () {
+      const [alice, bob, carol] = signers.tenants;
+      const end = await now();
+      const allocation = await allocationFor(end - 30 * DAY, end);
+      const manager = clientFor(fixture, signers.deployer);
+
+      const { periodId, receipt } =
+        await manager.recordSavingsAllocation(allocation);
+      expect(periodId).to.eq(1);
+      await expect(receipt)
+        .to.emit(fixture.contract, "SavingsAllocated")
+        .withArgs(1, end - 30 * DAY, end, 100, 1);
+      await expect(receipt)
+        .to.emit(fixture.contract, "TenantSavingsAllocated")
+        .withArgs(1, alice.address);
+      await expect(receipt)
+        .to.emit(fixture.contract, "SavingsCheckRequested")
+        .withArgs(1, anyValue);
+
+      const period = await clientFor(fixture, bob).getSavingsPeriod(1);
+      expect(period).to.deep.include({
+        periodStart: end - 30 * DAY,
+        periodEnd: end,
+        savingsKwh: 100,
+        method: "shapley",
+        tenants: [alice.address, bob.address],
+        check: "pending",
+      });
+      await fhevm.awaitDecryptionOracle();
+      expect((await manager.getSavingsPeriod(1)).check).to.eq("matched");
+
+      expect(await clientFor(fixture, alice).decryptTenantSavings()).to.deep.eq(
+        [{ periodId: 1, savingsWh: 60_000 }],
+      );
+      expect(await clientFor(fixture, bob).decryptTenantSavings()).to.deep.eq([
+        { periodId: 1, savingsWh: 40_000 },
+      ]);
+      expect(await clientFor(fixture, carol).decryptTenantSavings()).to.deep.eq(
+        [],
+      );
+      expect(await manager.getTenantSavings(1, carol.address)).to.eq(null);
+
+      // Not even the manager who encrypted them may decrypt a tenant's share
+      await expect(
+        fhevm.userDecryptEuint(
+          FhevmType.euint64,
+          (await manager.getTenantSavings(1, bob.address))!,
+          fixture.contractAddress,
+          signers.deployer,
+        ),
+      ).to.be.rejected;
+      await expect(manager.getSavingsPeriod(2)).to.be.rejectedWith(
+        PeriodNotFoundError,
+      );
+    });
+
+    it("caps shares at the savings and flags periods whose shares do not add up", async function () {
+      const [alice, bob] = signers.tenants;
+      const end = await now();
+      const allocation = await allocationFor(end - 30 * DAY, end);
+      const manager = clientFor(fixture, signers.deployer);
+
+      await manager.recordSavingsAllocation({
+        ...allocation,
+        allocations: [
+          { ...allocation.allocations[0], savingsWh: Number.MAX_SAFE_INTEGER },
+          allocation.allocations[1],
+        ],
+      });
+      await expect(manager.requestSavingsCheck(1)).to.be.rejectedWith(
+        DecryptionPendingError,
+      );
+      // An unanswered check can be asked again; the later answer is a no-op
+      await time.increase(DECRYPTION_RETRY_DELAY_SECONDS);
+      await manager.requestSavingsCheck(1);
+      await fhevm.awaitDecryptionOracle();
+
+      expect((await manager.getSavingsPeriod(1)).check).to.eq("mismatched");
+      expect(await clientFor(fixture, alice).decryptTenantSavings()).to.deep.eq(
+        [{ periodId: 1, savingsWh: 100_000 }],
+      );
+      expect(await clientFor(fixture, bob).decryptTenantSavings()).to.deep.eq([
+        { periodId: 1, savingsWh: 40_000 },
+      ]);
+      await expect(manager.requestSavingsCheck(1)).to.be.rejectedWith(
+        AlreadyDecryptedError,
+      );
+    });
+
+    it("appends periods back to back without overlap", async function () {
+      const end = await now();
+      const manager = clientFor(fixture, signers.deployer);
+      await manager.recordSavingsAllocation(
+        await allocationFor(end - 60 * DAY, end - 30 * DAY),
+      );
+
+      await expect(
+        manager.recordSavingsAllocation(
+          await allocationFor(end - 31 * DAY, end),
+        ),
+      ).to.be.rejectedWith(InvalidAllocationError, "Overlapping period");
+      await manager.recordSavingsAllocation(
+        await allocationFor(end - 30 * DAY, end),
+      );
+      expect(
+        (await manager.listSavingsPeriods()).map((p) => p.periodId),
+      ).to.deep.eq([1, 2]);
+    });
+
+    it("rejects invalid periods and tenant lists", async function () {
+      const [alice] = signers.tenants;
+      const end = await now();
+      const allocation = await allocationFor(end - 30 * DAY, end);
+      const manager = clientFor(fixture, signers.deployer);
+
+      const cases: [typeof allocation, string][] = [
+        [{ ...allocation, periodEnd: end + DAY }, "Invalid period"],
+        [{ ...allocation, actualKwh: 1001 }, "Invalid savings"],
+        [
+          {
+            ...allocation,
+            allocations: allocation.allocations.map((a) => ({
+              ...a,
+              tenant: alice.address,
+            })),
+          },
+          "Duplicate tenant",
+        ],
+      ];
+      for (const [invalid, reason] of cases) {
+        await expect(
+          manager.recordSavingsAllocation(invalid),
+        ).to.be.rejectedWith(InvalidAllocationError, reason);
+      }
+      await expect(
+        manager.recordSavingsAllocation({
+          ...allocation,
+          allocations: allocation.allocations.map((a) => ({
+            ...a,
+            tenant: ethers.ZeroAddress,
+          })),
+        }),
+      ).to.be.rejectedWith(InvalidAddressError, "Invalid tenant");
+      expect(await manager.getSavingsPeriodCount()).to.eq(0);
+    });
+
+    it("lets only the building manager record allocations", async function () {
+      const [alice] = signers.tenants;
+      const end = await now();
+      await expect(
+        clientFor(fixture, alice).recordSavingsAllocation(
+          await allocationFor(end - 30 * DAY, end),
+        ),
+      ).to.be.rejectedWith(NotBuildingManagerError);
+    });
+  });
+
+  describe("private decryption", function () {
+    it("decrypts a tenant's own readings without publishing anything", async function () {
+      const [alice, bob] = signers.tenants;
+      const first = await submitReading(fixture, alice, {
+        tenantUsage: 42,
+        timestamp: 1_700_000_000,
+        systemLoad: 120,
+      });
+      await submitReading(fixture, bob, { tenantUsage: 7 });
+      const second = await submitReading(fixture, alice, { tenantUsage: 58 });
+
+      const blockBefore = await ethers.provider.getBlockNumber();
+      const readings = await clientFor(fixture, alice).decryptReadings();
+      expect(readings.map((r) => [r.id, r.tenantUsage])).to.deep.eq([
+        [first, 42],
+        [second, 58],
+      ]);
+      expect(readings[0]).to.include({
+        systemKey: "central_system",
+        timestamp: 1_700_000_000,
+        systemLoad: 120,
+      });
+
+      // No transaction, no oracle request, nothing stored in decryptedData
+      expect(await ethers.provider.getBlockNumber()).to.eq(blockBefore);
+      expect(
+        (await fixture.contract.getDecryptedEnergyData(first)).isRevealed,
+      ).to.eq(false);
+    });
+
+    it("refuses readings submitted by someone else", async function () {
+      const [alice, bob] = signers.tenants;
+      const dataId = await submitReading(fixture, alice);
+
+      await expect(
+        clientFor(fixture, bob).decryptReadings([dataId]),
+      ).to.be.rejectedWith(NotTenantError);
+    });
+
+    it("signs once and splits large requests to fit the KMS limit", async function () {
+      const [alice] = signers.tenants;
+      const count = Math.floor(MAX_USER_DECRYPT_HANDLES / 3) + 1;
+      const calls = { eip712: 0, userDecrypt: 0 };
+      const client = SmartBuildingEnergyClient.connect(
+        fixture.contractAddress,
+        alice,
+        {
+          encryptor: fhevm,
+          decryptor: {
+            generateKeypair: () => fhevm.generateKeypair(),
+            createEIP712: (...args) => {
+              calls.eip712++;
+              return fhevm.createEIP712(...args);
+            },
+            userDecrypt: (...args) => {
+              calls.userDecrypt++;
+              return fhevm.userDecrypt(...args);
+            },
+          },
+        },
+      );
+      await client.submitReadings(
+        Array.from({ length: count }, (_, i) => ({
+          tenantUsage: i,
+          timestamp: 1_700_000_000 + i * 3600,
+          systemLoad: 0,
+        })),
+      );
+
+      const readings = await client.decryptReadings();
+      expect(readings.map((r) => r.tenantUsage)).to.deep.eq(
+        Array.from({ length: count }, (_, i) => i),
+      );
+      expect(calls.userDecrypt).to.eq(2);
+
+      await client.decryptReadings([1]);
+      expect(calls.eip712).to.eq(1);
+    });
+  });
+
+  describe("encrypted savings credits", function () {
+    it("credits baseline minus usage summed from the tenant's own readings", async function () {
+      const [alice, bob] = signers.tenants;
+      const manager = clientFor(fixture, signers.deployer);
+      const tenant = clientFor(fixture, alice);
+
+      await expect(manager.startCreditPeriod(alice.address, 500))
+        .to.emit(fixture.contract, "CreditPeriodStarted")
+        .withArgs(alice.address, anyValue);
+      await submitReading(fixture, alice, { tenantUsage: 120 });
+      await tenant.submitReadings(
+        [100, 80].map((tenantUsage, i) => ({
+          tenantUsage,
+          timestamp: 1_700_000_000 + i * 900,
+          systemLoad: 0,
+        })),
+      );
+      // Other tenants' readings never touch Alice's period
+      await submitReading(fixture, bob, { tenantUsage: 999 });
+
+      const open = await tenant.decryptSavingsCredit();
+      expect(open).to.deep.include({ lastCredit: 0, totalCredits: 0 });
+      expect(open.openPeriod).to.include({ baselineKwh: 500, usageKwh: 300 });
+
+      await expect(manager.closeCreditPeriod(alice.address))
+        .to.emit(fixture.contract, "SavingsCreditComputed")
+        .withArgs(alice.address, open.openPeriod!.startedAt, anyValue);
+      expect(await tenant.decryptSavingsCredit()).to.deep.include({
+        lastCredit: 200,
+        totalCredits: 200,
+        openPeriod: null,
+      });
+      expect(await manager.getCreditPeriod(alice.address)).to.eq(null);
+    });
+
+    it("clamps overruns to zero and accumulates credits across periods", async function () {
+      const [alice] = signers.tenants;
+      const manager = clientFor(fixture, signers.deployer);
+      const tenant = clientFor(fixture, alice);
+
+      await manager.startCreditPeriod(alice.address, 100);
+      await submitReading(fixture, alice, { tenantUsage: 150 });
+      await manager.closeCreditPeriod(alice.address);
+      expect(await tenant.decryptSavingsCredit()).to.deep.include({
+        lastCredit: 0,
+        totalCredits: 0,
+      });
+
+      await manager.startCreditPeriod(alice.address, 300);
+      await submitReading(fixture, alice, { tenantUsage: 50 });
+      await manager.closeCreditPeriod(alice.address);
+      expect(await tenant.decryptSavingsCredit()).to.deep.include({
+        lastCredit: 250,
+        totalCredits: 250,
+      });
+    });
+
+    it("never lets a huge reading wrap the usage below the baseline", async function () {
+      const [alice] = signers.tenants;
+      const manager = clientFor(fixture, signers.deployer);
+      const tenant = clientFor(fixture, alice);
+
+      // In 32 bits these would sum to 99 and earn a credit of 901
+      await manager.startCreditPeriod(alice.address, 1_000);
+      await submitReading(fixture, alice, { tenantUsage: 2 ** 32 - 1 });
+      await tenant.submitReadings(
+        [50, 50].map((tenantUsage, i) => ({
+          tenantUsage,
+          timestamp: 1_700_000_000 + i * 900,
+          systemLoad: 0,
+        })),
+      );
+      expect((await tenant.decryptSavingsCredit()).openPeriod).to.include({
+        baselineKwh: 1_000,
+        usageKwh: 2 ** 32 + 99,
+      });
+
+      await manager.closeCreditPeriod(alice.address);
+      expect(await tenant.decryptSavingsCredit()).to.deep.include({
+        lastCredit: 0,
+        totalCredits: 0,
+      });
+    });
+
+    it("shares the credit with the tenant alone", async function () {
+      const [alice, bob] = signers.tenants;
+      const manager = clientFor(fixture, signers.deployer);
+      await manager.startCreditPeriod(alice.address, 40);
+      await manager.closeCreditPeriod(alice.address);
+
+      const credit = await manager.getSavingsCredit(alice.address);
+      for (const outsider of [bob, signers.deployer]) {
+        await expect(
+          fhevm.userDecryptEuint(
+            FhevmType.euint32,
+            credit!.lastCreditHandle,
+            fixture.contractAddress,
+            outsider,
+          ),
+        ).to.be.rejected;
+      }
+      expect(
+        await fhevm.userDecryptEuint(
+          FhevmType.euint32,
+          credit!.lastCreditHandle,
+          fixture.contractAddress,
+          alice,
+        ),
+      ).to.eq(40n);
+    });
+
+    it("lets only the building manager open and close periods, one at a time", async function () {
+      const [alice] = signers.tenants;
+      const manager = clientFor(fixture, signers.deployer);
+
+      await expect(
+        clientFor(fixture, alice).startCreditPeriod(alice.address, 1_000),
+      ).to.be.rejectedWith(NotBuildingManagerError);
+      await expect(manager.closeCreditPeriod(alice.address)).to.be.rejectedWith(
+        NoCreditPeriodError,
+      );
+      await expect(
+        manager.startCreditPeriod(ethers.ZeroAddress, 1_000),
+      ).to.be.rejectedWith(InvalidAddressError, "Invalid tenant");
+
+      await manager.startCreditPeriod(alice.address, 1_000);
+      await expect(
+        manager.startCreditPeriod(alice.address, 1_000),
+      ).to.be.rejectedWith(CreditPeriodOpenError);
+      await expect(
+        clientFor(fixture, alice).closeCreditPeriod(alice.address),
+      ).to.be.rejectedWith(NotBuildingManagerError);
+    });
+  });
+
+  describe("billing epochs", function () {
+    it("assigns readings to the open epoch and freezes its totals on close", async function () {
+      const [alice, bob] = signers.tenants;
+      const owner = clientFor(fixture, signers.deployer);
+      expect(await owner.getCurrentBillingEpoch()).to.eq(1);
+      expect((await owner.getBillingEpoch(1)).closedAt).to.eq(null);
+
+      await submitReading(fixture, alice, { tenantUsage: 40 });
+      await submitReading(fixture, bob, { tenantUsage: 60 });
+      const frozen = await owner.getEpochLoadSum(1);
+
+      await expect(fixture.contract.closeBillingEpoch())
+        .to.emit(fixture.contract, "BillingEpochClosed")
+        .withArgs(1, anyValue, anyValue)
+        .and.to.emit(fixture.contract, "BillingEpochStarted")
+        .withArgs(2, anyValue);
+      await clientFor(fixture, alice).submitReadings(
+        [5, 7].map((tenantUsage, i) => ({
+          tenantUsage,
+          timestamp: 1_700_000_000 + i * 900,
+          systemLoad: 0,
+        })),
+      );
+
+      expect(
+        (await owner.listReadings()).map((r) => r.billingEpoch),
+      ).to.deep.eq([1, 1, 2, 2]);
+      // Later submissions only ever touch the open epoch
+      expect(await owner.getEpochLoadSum(1)).to.eq(frozen);
+      const epochs = await owner.listBillingEpochs();
+      expect(epochs.map((e) => e.closedAt === null)).to.deep.eq([false, true]);
+      expect(epochs[1].startedAt).to.eq(epochs[0].closedAt);
+
+      expect(
+        (await clientFor(fixture, alice).decryptEpochUsage()).map((u) => u.kwh),
+      ).to.deep.eq([40, 12]);
+      expect(
+        (await clientFor(fixture, bob).decryptEpochUsage([2]))[0].kwh,
+      ).to.eq(0);
+    });
+
+    it("reveals a closed epoch's total to the building manager only", async function () {
+      const [alice, bob] = signers.tenants;
+      const owner = clientFor(fixture, signers.deployer);
+      await submitReading(fixture, alice, { tenantUsage: 75 });
+
+      await expect(owner.requestEpochTotalReveal(1)).to.be.rejectedWith(
+        BillingEpochOpenError,
+      );
+      await owner.closeBillingEpoch();
+      await expect(
+        clientFor(fixture, alice).requestEpochTotalReveal(1),
+      ).to.be.rejectedWith(NotBuildingManagerError);
+      await expect(owner.requestEpochTotalReveal(3)).to.be.rejectedWith(
+        BillingEpochNotFoundError,
+      );
+      await expect(
+        owner.requestEpochTotalReveal(1, "hvac_zone_1"),
+      ).to.be.rejectedWith(SystemNotFoundError);
+
+      await expect(owner.requestEpochTotalReveal(1)).to.emit(
+        fixture.contract,
+        "EpochTotalDecryptionRequested",
+      );
+      await fhevm.awaitDecryptionOracle();
+      expect(await owner.waitForEpochTotal(1)).to.eq(75);
+      expect(
+        (await owner.listEpochTotals()).map(({ epoch, kwh }) => [
+          epoch.epochId,
+          kwh,
+        ]),
+      ).to.deep.eq([
+        [1, 75],
+        [2, null],
+      ]);
+
+      // Each tenant's epoch usage stays private to that tenant
+      const handle = await fixture.contract.getEpochTenantUsage(
+        1,
+        alice.address,
+      );
+      await expect(
+        fhevm.userDecryptEuint(
+          FhevmType.euint32,
+          handle,
+          fixture.contractAddress,
+          bob,
+        ),
+      ).to.be.rejected;
+    });
+
+    it("keeps epoch totals from the manager until revealed and tolerates retries", async function () {
+      const [alice] = signers.tenants;
+      const owner = clientFor(fixture, signers.deployer);
+      await submitReading(fixture, alice, { tenantUsage: 30 });
+      await owner.closeBillingEpoch();
+
+      // Decrypting successive sums would expose each reading by subtraction
+      await expect(
+        fhevm.userDecryptEuint(
+          FhevmType.euint32,
+          await owner.getEpochLoadSum(1),
+          fixture.contractAddress,
+          signers.deployer,
+        ),
+      ).to.be.rejected;
+
+      await owner.requestEpochTotalReveal(1);
+      await expect(owner.requestEpochTotalReveal(1)).to.be.rejectedWith(
+        DecryptionPendingError,
+      );
+      await time.increase(DECRYPTION_RETRY_DELAY_SECONDS);
+      await owner.requestEpochTotalReveal(1);
+
+      // Both requests are answered; the second callback must not revert
+      await fhevm.awaitDecryptionOracle();
+      expect(await owner.getEpochTotal(1)).to.eq(30);
+      await expect(owner.requestEpochTotalReveal(1)).to.be.rejectedWith(
+        AlreadyDecryptedError,
+      );
+    });
+
+    it("lets the owner close early and anyone once the duration has passed", async function () {
+      const [alice] = signers.tenants;
+      const owner = clientFor(fixture, signers.deployer);
+      const keeper = clientFor(fixture, alice);
+
+      await expect(keeper.setBillingEpochDuration(3600)).to.be.rejectedWith(
+        NotOwnerError,
+      );
+      await expect(owner.setBillingEpochDuration(0)).to.be.rejectedWith(
+        InvalidEpochDurationError,
+      );
+      await owner.setBillingEpochDuration(3600);
+      expect(await owner.getBillingEpochDuration()).to.eq(3600);
+
+      await expect(keeper.closeBillingEpoch()).to.be.rejectedWith(
+        BillingEpochOpenError,
+      );
+      await time.increase(3600);
+      expect((await keeper.closeBillingEpoch()).epochId).to.eq(1);
+
+      expect((await owner.closeBillingEpoch()).epochId).to.eq(2);
+      expect(await owner.getCurrentBillingEpoch()).to.eq(3);
+      await expect(owner.getBillingEpoch(4)).to.be.rejectedWith(
+        BillingEpochNotFoundError,
+      );
+    });
+  });
+
+  describe("tariff registry", function () {
+    const flat = (pricePerKwh: number): TimeOfUseTariff => ({
+      currency: "USD",
+      basePricePerKwh: pricePerKwh,
+      periods: [],
+      demandCharges: [{ label: "facility", pricePerKw: 5 }],
+    });
+
+    it("publishes tariff versions in the order they take effect", async function () {
+      const owner = clientFor(fixture, signers.deployer);
+      const now = await time.latest();
+      expect(await owner.getTariffInEffect(now)).to.eq(null);
+
+      await expect(
+        fixture.contract.publishTariff(JSON.stringify(flat(0.1)), now - 86400),
+      )
+        .to.emit(fixture.contract, "TariffPublished")
+        .withArgs(1, now - 86400);
+      const { tariffId } = await owner.publishTariff(flat(0.2), now + 86400);
+      expect(tariffId).to.eq(2);
+
+      expect((await owner.getTariffInEffect(now))!.tariff).to.deep.eq(
+        flat(0.1),
+      );
+      expect(
+        (await owner.listTariffs()).map((t) => t.effectiveFrom),
+      ).to.deep.eq([now - 86400, now + 86400]);
+
+      await expect(owner.publishTariff(flat(0.3), now)).to.be.rejectedWith(
+        InvalidTariffError,
+      );
+      await expect(
+        owner.publishTariff({ ...flat(0.3), basePricePerKwh: -1 }, now + 86400),
+      ).to.be.rejectedWith(InvalidTariffError);
+      await expect(
+        clientFor(fixture, signers.tenants[0]).publishTariff(
+          flat(0.3),
+          now + 86400,
+        ),
+      ).to.be.rejectedWith(NotOwnerError);
+      await expect(owner.getTariff(3)).to.be.rejectedWith(TariffNotFoundError);
+    });
+
+    it("prices revealed aggregates and a tenant's own readings", async function () {
+      const [alice, bob, carol] = signers.tenants;
+      const owner = clientFor(fixture, signers.deployer);
+      await owner.publishTariff(flat(0.25), 0);
+
+      // Alice's only usage is the 40 in the first window
+      await submitReadings(fixture, [bob, carol, alice], [10, 10, 40, 10, 10]);
+      await owner.requestLoadSumReveal();
+      await fhevm.awaitDecryptionOracle();
+      await time.increase(3600);
+      await submitReadings(fixture, [bob, carol, alice], [15, 15, 0, 15, 15]);
+      await owner.requestLoadSumReveal();
+      await fhevm.awaitDecryptionOracle();
+
+      // Only energy added between reveals can be placed in time
+      const building = await owner.priceLoadSums();
+      expect(building.kwh).to.be.closeTo(60, 1e-9);
+      expect(building.energyCost).to.be.closeTo(15, 1e-9);
+
+      const own = await clientFor(fixture, alice).priceOwnUsage();
+      expect(own).to.deep.include({ currency: "USD", kwh: 40 });
+      expect(own.total).to.be.closeTo(40 * 0.25 + 40 * 5, 1e-9);
+    });
+  });
+
+  describe("access control", function () {
+    it("binds each record to its submitting tenant", async function () {
+      const [alice] = signers.tenants;
+      const dataId = await submitReading(fixture, alice);
+
+      const record = await fixture.contract.encryptedData(dataId);
+      expect(record.tenant).to.eq(alice.address);
+    });
+
+    it("rejects a reveal requested by another tenant", async function () {
+      const [alice, bob] = signers.tenants;
+      const dataId = await submitReading(fixture, alice);
+
+      await expect(
+        fixture.contract.connect(bob).requestEnergyDataDecryption(dataId),
+      ).to.be.revertedWith("Not the tenant");
+      await expect(
+        clientFor(fixture, signers.deployer).requestReveal(dataId),
+      ).to.be.rejectedWith(NotTenantError);
+    });
+
+    it("lets only the submitting tenant decrypt their ciphertexts", async function () {
+      const [alice, bob] = signers.tenants;
+      const dataId = await submitReading(fixture, alice, { tenantUsage: 77 });
+      const { encryptedTenantUsage } =
+        await fixture.contract.encryptedData(dataId);
+
+      expect(
+        await fhevm.userDecryptEuint(
+          FhevmType.euint32,
+          encryptedTenantUsage,
+          fixture.contractAddress,
+          alice,
+        ),
+      ).to.eq(77n);
+      await expect(
+        fhevm.userDecryptEuint(
+          FhevmType.euint32,
+          encryptedTenantUsage,
+          fixture.contractAddress,
+          bob,
+        ),
+      ).to.be.rejected;
+    });
+
+    it("restricts aggregate reveals to the building manager", async function () {
+      const [alice] = signers.tenants;
+      await submitReadings(fixture, signers.tenants, [1, 2, 3, 4, 5]);
+
+      await expect(
+        fixture.contract
+          .connect(alice)
+          .requestLoadSumDecryption("central_system"),
+      ).to.be.revertedWith("Only building manager");
+      await expect(
+        fixture.contract
+          .connect(signers.deployer)
+          .requestLoadSumDecryption("central_system"),
+      ).to.not.be.reverted;
+    });
+
+    it("lets only the owner hand over the building manager role", async function () {
+      const [alice, bob] = signers.tenants;
+
+      await expect(
+        fixture.contract.connect(alice).setBuildingManager(alice.address),
+      ).to.be.revertedWith("Only owner");
+      await expect(
+        fixture.contract
+          .connect(signers.deployer)
+          .setBuildingManager(bob.address),
+      )
+        .to.emit(fixture.contract, "BuildingManagerUpdated")
+        .withArgs(bob.address);
+      expect(await fixture.contract.buildingManager()).to.eq(bob.address);
+      await expect(
+        clientFor(fixture, signers.deployer).setBuildingManager(
+          ethers.ZeroAddress,
+        ),
+      ).to.be.rejectedWith(InvalidAddressError, "Invalid manager");
+    });
+  });
+});
@@ -0,0 +1,122 @@
+import { expect } from "chai";
+
+import {
+  EnergySdkError,
+  MAX_ALLOCATION_TENANTS,
+  MAX_SHAPLEY_TENANTS,
+  type SavingsPeriodInput,
+  allocateSavings,
+  shapleyValues,
+} from "../sdk";
+
+const period = (
+  savedKwh: number,
+  reductions: number[],
+): SavingsPeriodInput => ({
+  periodStart: 1_700_000_000,
+  periodEnd: 1_700_000_000 + 30 * 86400,
+  baselineKwh: 10_000,
+  actualKwh: 10_000 - savedKwh,
+  contributions: reductions.map((kwh, i) => ({
+    tenant: `0x${String(i + 1).padStart(40, "0")}`,
+    baselineKwh: 1_000,
+    actualKwh: 1_000 - kwh,
+  })),
+});
+
+const wh = (input: SavingsPeriodInput, method?: "shapley" | "proportional") =>
+  allocateSavings(input, method).allocations.map((a) => a.savingsWh);
+
+describe("savings allocation", function () {
+  it("computes exact Shapley values of a game", function () {
+    // Glove game: player 0 holds a left glove, players 1 and 2 right gloves
+    const values = shapleyValues(3, (c) => (c & 1 && c & 6 ? 1 : 0));
+    expect(values[0]).to.be.closeTo(2 / 3, 1e-12);
+    expect(values[1]).to.be.closeTo(1 / 6, 1e-12);
+    expect(values[2]).to.be.closeTo(1 / 6, 1e-12);
+  });
+
+  it("splits proportionally to each tenant's reduction", function () {
+    expect(wh(period(100, [60, 20]), "proportional")).to.deep.eq([
+      75_000, 25_000,
+    ]);
+  });
+
+  it("shares savings the tenants did not produce themselves equally under Shapley", function () {
+    // Central systems saved 60 kWh beyond the tenants' own 30 + 10
+    const allocation = allocateSavings(period(100, [30, 10]));
+    expect(allocation.allocations.map((a) => a.savingsWh)).to.deep.eq([
+      60_000, 40_000,
+    ]);
+    expect(allocation.allocations.map((a) => a.share)).to.deep.eq([0.6, 0.4]);
+    expect(allocation).to.include({ method: "shapley", savingsKwh: 100 });
+  });
+
+  it("credits reductions others could not have covered when they overlap", function () {
+    // 120 kWh of reductions for 100 kWh saved: only the first tenant could cover it alone
+    const shapley = wh(period(100, [100, 20]));
+    const proportional = wh(period(100, [100, 20]), "proportional");
+    expect(shapley).to.deep.eq([90_000, 10_000]);
+    expect(shapley[0]).to.be.greaterThan(proportional[0]);
+  });
+
+  it("treats increased usage as no contribution", function () {
+    const allocation = allocateSavings(period(50, [50, -40]));
+    expect(allocation.allocations.map((a) => a.contributionKwh)).to.deep.eq([
+      50, 0,
+    ]);
+    expect(allocation.allocations.map((a) => a.savingsWh)).to.deep.eq([
+      50_000, 0,
+    ]);
+  });
+
+  it("rounds to watt-hours that add up to the savings", function () {
+    for (const method of ["shapley", "proportional"] as const) {
+      const parts = wh(period(10, [1, 1, 1]), method);
+      expect(parts.reduce((a, b) => a + b, 0)).to.eq(10_000);
+      expect(parts).to.deep.eq([3334, 3333, 3333]);
+    }
+    // No reductions at all: split evenly instead of dividing by zero
+    expect(wh(period(2, [0, 0]), "proportional")).to.deep.eq([1000, 1000]);
+  });
+
+  it("rejects invalid periods and oversized games", function () {
+    expect(() =>
+      allocateSavings({ ...period(10, [1]), actualKwh: 10_001 }),
+    ).to.throw(EnergySdkError, /no savings/);
+    expect(() =>
+      allocateSavings({ ...period(10, [1]), periodEnd: 1_700_000_000 }),
+    ).to.throw(EnergySdkError, /periodStart/);
+    const input = period(10, [1]);
+    expect(() =>
+      allocateSavings({
+        ...input,
+        contributions: [...input.contributions, ...input.contributions],
+      }),
+    ).to.throw(EnergySdkError, /more than once/);
+    expect(() => allocateSavings(period(10, []))).to.throw(
+      EnergySdkError,
+      /at least one tenant/,
+    );
+
+    const crowd = period(
+      10,
+      Array.from({ length: MAX_SHAPLEY_TENANTS + 1 }, () => 1),
+    );
+    expect(() => allocateSavings(crowd)).to.throw(
+      EnergySdkError,
+      /proportional/,
+    );
+    expect(wh(crowd, "proportional")).to.have.length(MAX_SHAPLEY_TENANTS + 1);
+
+    // Every share becomes one euint64 of a single 2048-bit input proof
+    const building = period(
+      10,
+      Array.from({ length: MAX_ALLOCATION_TENANTS + 1 }, () => 1),
+    );
+    expect(() => allocateSavings(building, "proportional")).to.throw(
+      EnergySdkError,
+      `at most ${MAX_ALLOCATION_TENANTS} tenants`,
+    );
+  });
+});
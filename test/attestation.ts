@@ -0,0 +1,146 @@
+import { time } from "@nomicfoundation/hardhat-network-helpers";
+import { expect } from "chai";
+import { ethers, fhevm } from "hardhat";
+
+import {
+  AttestationNotFoundError,
+  InvalidAddressError,
+  InvalidAttestationError,
+  NotOwnerError,
+  NotVerifierError,
+  ReadingNotFoundError,
+  currentVerdict,
+  describeReason,
+  toEnergySdkError,
+  type Attestation,
+} from "../sdk";
+import {
+  EnergyFixture,
+  Signers,
+  clientFor,
+  deployEnergyFixture,
+  getSigners,
+  submitReading,
+} from "./fixtures";
+
+describe("verifier attestations", function () {
+  it("names reason codes and picks the latest verdict", function () {
+    expect(describeReason("attested", 1)).to.eq("Matches the utility meter");
+    expect(describeReason("disputed", 101)).to.eq(
+      "Duplicate of another reading",
+    );
+    expect(describeReason("disputed", 1)).to.eq("Reason 1");
+
+    const history: Attestation[] = [
+      { verifier: "0x1", verdict: "disputed", reasonCode: 100, timestamp: 1 },
+      { verifier: "0x1", verdict: "attested", reasonCode: 3, timestamp: 2 },
+    ];
+    expect(currentVerdict(history)).to.eq("attested");
+    expect(currentVerdict([])).to.eq(null);
+  });
+
+  describe("against the contract", function () {
+    let signers: Signers;
+    let fixture: EnergyFixture;
+
+    before(async function () {
+      signers = await getSigners();
+    });
+
+    beforeEach(async function () {
+      if (!fhevm.isMock) {
+        console.warn(`This hardhat test suite cannot run on Sepolia Testnet`);
+        this.skip();
+      }
+      fixture = await deployEnergyFixture(signers.deployer);
+    });
+
+    it("records attestations and disputes with reason codes", async function () {
+      const [alice] = signers.tenants;
+      const verifier = clientFor(fixture, signers.deployer);
+      const dataId = await submitReading(fixture, alice);
+      expect(await verifier.getVerifier()).to.eq(signers.deployer.address);
+      expect(await verifier.getAttestations(dataId)).to.deep.eq([]);
+
+      await expect(fixture.contract.disputeReading(dataId, 100))
+        .to.emit(fixture.contract, "ReadingDisputed")
+        .withArgs(dataId, signers.deployer.address, 100);
+      const disputedAt = await time.latest();
+      await expect(fixture.contract.attestReading(dataId, 3))
+        .to.emit(fixture.contract, "ReadingAttested")
+        .withArgs(dataId, signers.deployer.address, 3);
+
+      const history = await clientFor(fixture, alice).getAttestations(dataId);
+      expect(history[0]).to.deep.eq({
+        verifier: signers.deployer.address,
+        verdict: "disputed",
+        reasonCode: 100,
+        timestamp: disputedAt,
+      });
+      expect(history.map((a) => [a.verdict, a.reasonCode])).to.deep.eq([
+        ["disputed", 100],
+        ["attested", 3],
+      ]);
+      expect(currentVerdict(history)).to.eq("attested");
+    });
+
+    it("leaves verdicts to the verifier the owner designates", async function () {
+      const [alice, bob, authority] = signers.tenants;
+      const owner = clientFor(fixture, signers.deployer);
+      const dataId = await submitReading(fixture, alice);
+
+      await expect(
+        clientFor(fixture, bob).attestReading(dataId),
+      ).to.be.rejectedWith(NotVerifierError);
+      await expect(
+        clientFor(fixture, bob).setVerifier(bob.address),
+      ).to.be.rejectedWith(NotOwnerError);
+      await expect(fixture.contract.setVerifier(authority.address))
+        .to.emit(fixture.contract, "VerifierUpdated")
+        .withArgs(authority.address);
+      await expect(owner.attestReading(dataId)).to.be.rejectedWith(
+        NotVerifierError,
+      );
+
+      const verifier = clientFor(fixture, authority);
+      await verifier.attestReading(dataId, 2);
+      expect(await owner.getVerifier()).to.eq(authority.address);
+      expect(await owner.getAttestations(dataId)).to.have.lengthOf(1);
+    });
+
+    it("rejects invalid verdicts", async function () {
+      const [alice] = signers.tenants;
+      const verifier = clientFor(fixture, signers.deployer);
+      const dataId = await submitReading(fixture, alice);
+
+      await expect(verifier.disputeReading(dataId, 0)).to.be.rejectedWith(
+        InvalidAttestationError,
+        "Reason required",
+      );
+      await expect(verifier.attestReading(0)).to.be.rejectedWith(
+        ReadingNotFoundError,
+      );
+      await expect(verifier.attestReading(dataId + 1n)).to.be.rejectedWith(
+        ReadingNotFoundError,
+      );
+      await expect(
+        fixture.contract.getAttestation(dataId, 0).catch((e) => {
+          throw toEnergySdkError(e);
+        }),
+      ).to.be.rejectedWith(AttestationNotFoundError);
+      await expect(verifier.setVerifier(ethers.ZeroAddress)).to.be.rejectedWith(
+        InvalidAddressError,
+        "Invalid verifier",
+      );
+
+      // A verifier who also submits readings cannot vouch for their own
+      await fixture.contract.setVerifier(alice.address);
+      await expect(
+        clientFor(fixture, alice).attestReading(dataId),
+      ).to.be.rejectedWith(
+        InvalidAttestationError,
+        "Cannot attest own reading",
+      );
+    });
+  });
+});
@@ -0,0 +1,193 @@
+import { expect } from "chai";
+
+import {
+  EnergySdkError,
+  InvalidTariffError,
+  type LoadObservation,
+  TariffNotFoundError,
+  type TimeOfUseTariff,
+  energyFromReveals,
+  parseTariff,
+  peakPrice,
+  priceUsage,
+  rateAt,
+} from "../sdk";
+
+const HOUR = 3600;
+// Monday 2024-01-01 00:00 UTC
+const MONDAY = Date.UTC(2024, 0, 1) / 1000;
+// Monday 2024-07-01 00:00 UTC
+const SUMMER_MONDAY = Date.UTC(2024, 6, 1) / 1000;
+const WEEKDAYS = [1, 2, 3, 4, 5];
+
+const tariff: TimeOfUseTariff = {
+  currency: "USD",
+  basePricePerKwh: 0.1,
+  periods: [
+    {
+      label: "peak",
+      startHour: 17,
+      endHour: 20,
+      pricePerKwh: 0.3,
+      days: WEEKDAYS,
+    },
+    {
+      label: "shoulder",
+      startHour: 14,
+      endHour: 22,
+      pricePerKwh: 0.2,
+      days: WEEKDAYS,
+    },
+  ],
+  seasons: [
+    {
+      label: "summer",
+      startMonth: 6,
+      endMonth: 9,
+      basePricePerKwh: 0.12,
+      periods: [
+        {
+          label: "peak",
+          startHour: 13,
+          endHour: 19,
+          pricePerKwh: 0.45,
+          days: WEEKDAYS,
+        },
+      ],
+    },
+  ],
+  demandCharges: [
+    {
+      label: "on-peak",
+      pricePerKw: 10,
+      startHour: 13,
+      endHour: 19,
+      days: WEEKDAYS,
+    },
+    { label: "facility", pricePerKw: 2 },
+  ],
+};
+
+const day = (start: number, kwh: (hour: number) => number): LoadObservation[] =>
+  Array.from({ length: 24 }, (_, h) => ({
+    timestamp: start + h * HOUR,
+    kwh: kwh(h),
+  }));
+
+describe("cost engine", function () {
+  it("applies shoulder rates around the peak and seasonal schedules", function () {
+    expect(rateAt(tariff, MONDAY + 15 * HOUR).label).to.eq("shoulder");
+    expect(rateAt(tariff, MONDAY + 18 * HOUR).label).to.eq("peak");
+    expect(rateAt(tariff, SUMMER_MONDAY + 15 * HOUR)).to.deep.eq({
+      label: "peak",
+      pricePerKwh: 0.45,
+      season: "summer",
+    });
+    // Summer replaces the shoulder period too
+    expect(rateAt(tariff, SUMMER_MONDAY + 20 * HOUR)).to.include({
+      label: "base",
+      pricePerKwh: 0.12,
+    });
+    expect(peakPrice(tariff)).to.eq(0.45);
+  });
+
+  it("prices energy per rate and bills demand on the peak counted hour", function () {
+    const cost = priceUsage(
+      day(MONDAY, (h) => (h === 18 ? 50 : h === 3 ? 80 : 10)),
+      tariff,
+    );
+    expect(cost.kwh).to.eq(23 * 10 + 50 + 80 - 10);
+    expect(
+      cost.energy.map((c) => [c.label, c.kwh, +c.cost.toFixed(2)]),
+    ).to.deep.eq([
+      ["base", 15 * 10 + 80, 23],
+      ["shoulder", 50, 10],
+      ["peak", 70, 21],
+    ]);
+    // On-peak counts 13:00–19:00 only; the facility charge counts the 3:00 spike
+    expect(
+      cost.demand.map((d) => [d.label, d.peakKw, d.peakAt, d.cost]),
+    ).to.deep.eq([
+      ["on-peak", 50, MONDAY + 18 * HOUR, 500],
+      ["facility", 80, MONDAY + 3 * HOUR, 160],
+    ]);
+    expect(cost.total).to.be.closeTo(54 + 660, 1e-9);
+  });
+
+  it("adds readings that share an hour before measuring demand", function () {
+    const cost = priceUsage(
+      [
+        { timestamp: MONDAY + 14 * HOUR, kwh: 20 },
+        { timestamp: MONDAY + 14 * HOUR + 900, kwh: 25 },
+      ],
+      { ...tariff, demandCharges: [{ label: "facility", pricePerKw: 1 }] },
+    );
+    expect(cost.demand[0]).to.include({ peakKw: 45, cost: 45 });
+  });
+
+  it("prices each hour under the tariff version in effect", function () {
+    const flat = (price: number): TimeOfUseTariff => ({
+      currency: "USD",
+      basePricePerKwh: price,
+      periods: [],
+    });
+    const versions = [
+      { tariff: flat(0.1), effectiveFrom: MONDAY },
+      { tariff: flat(0.2), effectiveFrom: MONDAY + 12 * HOUR },
+    ];
+    expect(
+      priceUsage(
+        day(MONDAY, () => 1),
+        versions,
+      ).total,
+    ).to.be.closeTo(12 * 0.1 + 12 * 0.2, 1e-9);
+    expect(() =>
+      priceUsage(
+        day(MONDAY - HOUR, () => 1),
+        versions,
+      ),
+    ).to.throw(TariffNotFoundError);
+    expect(() =>
+      priceUsage(
+        day(MONDAY, () => 1),
+        [
+          versions[0],
+          { tariff: { ...flat(0.2), currency: "EUR" }, effectiveFrom: MONDAY },
+        ],
+      ),
+    ).to.throw(EnergySdkError, /currency/);
+  });
+
+  it("bills the energy revealed between aggregates, not a full-hour rate", function () {
+    const usage = energyFromReveals([
+      { sum: 0, revealedAt: BigInt(MONDAY + 1800), revealIndex: 1 },
+      { sum: 30, revealedAt: BigInt(MONDAY + 2 * HOUR), revealIndex: 2 },
+    ]);
+    expect(usage.map((u) => u.kwh)).to.deep.eq([10, 20]);
+    expect(priceUsage(usage, tariff).kwh).to.eq(30);
+  });
+
+  it("parses stored tariffs and rejects malformed ones", function () {
+    expect(parseTariff(JSON.stringify(tariff))).to.deep.eq(tariff);
+    expect(() => parseTariff("{")).to.throw(InvalidTariffError, /JSON/);
+    expect(() => parseTariff('{"currency":"USD"}')).to.throw(
+      InvalidTariffError,
+    );
+    expect(() =>
+      parseTariff(
+        JSON.stringify({
+          ...tariff,
+          seasons: [{ ...tariff.seasons![0], endMonth: 13 }],
+        }),
+      ),
+    ).to.throw(InvalidTariffError, /summer/);
+    expect(() =>
+      parseTariff(
+        JSON.stringify({
+          ...tariff,
+          demandCharges: [{ label: "window", pricePerKw: 1, startHour: 8 }],
+        }),
+      ),
+    ).to.throw(InvalidTariffError, /window/);
+  });
+});
@@ -0,0 +1,116 @@
+import { expect } from "chai";
+import fs from "fs";
+import hre from "hardhat";
+import os from "os";
+import path from "path";
+
+import { resolveDeployConfig } from "../deploy/config";
+import { deploySmartBuildingEnergy } from "../deploy/deploy";
+import { CONTRACT_NAME, type DeployPaths } from "../deploy/manifest";
+
+describe("deploy", function () {
+  let dir: string;
+  let paths: DeployPaths;
+
+  beforeEach(function () {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), "energy-deploy-"));
+    paths = {
+      deploymentsDir: path.join(dir, "deployments"),
+      frontendConfig: path.join(dir, "config.json"),
+    };
+  });
+
+  afterEach(function () {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("reads systems, roles and frontend updates from the environment", function () {
+    expect(resolveDeployConfig("hardhat", {})).to.deep.eq({
+      systems: ["central_system"],
+      updateFrontend: false,
+    });
+    expect(
+      resolveDeployConfig("sepolia", {
+        DEPLOY_SYSTEMS: "central_system, hvac_zone_1,,lighting",
+        BUILDING_MANAGER: "0x0000000000000000000000000000000000000001",
+        VERIFIER: "0x0000000000000000000000000000000000000002",
+        UPDATE_FRONTEND: "false",
+        FRONTEND_RPC_URL: "https://rpc.example.org",
+        INDEXER_URL: "http://localhost:4350",
+      }),
+    ).to.deep.eq({
+      systems: ["central_system", "hvac_zone_1", "lighting"],
+      buildingManager: "0x0000000000000000000000000000000000000001",
+      verifier: "0x0000000000000000000000000000000000000002",
+      updateFrontend: false,
+      frontendRpcUrl: "https://rpc.example.org",
+      indexerUrl: "http://localhost:4350",
+    });
+  });
+
+  it("deploys, registers systems and writes a versioned manifest", async function () {
+    const [, manager, verifier] = await hre.ethers.getSigners();
+    const config = {
+      systems: ["central_system", "hvac_zone_1"],
+      buildingManager: manager.address,
+      verifier: verifier.address,
+      updateFrontend: true,
+      frontendRpcUrl: "https://rpc.example.org",
+    };
+
+    const first = await deploySmartBuildingEnergy(hre, config, paths);
+    const second = await deploySmartBuildingEnergy(hre, config, paths);
+
+    const contract = await hre.ethers.getContractAt(
+      CONTRACT_NAME,
+      second.address,
+    );
+    expect(await contract.getSystems()).to.deep.eq([
+      "central_system",
+      "hvac_zone_1",
+    ]);
+    expect(await contract.buildingManager()).to.eq(manager.address);
+    expect(await contract.verifier()).to.eq(verifier.address);
+
+    const networkDir = path.join(paths.deploymentsDir, "hardhat");
+    expect(fs.readdirSync(networkDir).sort()).to.deep.eq([
+      `${CONTRACT_NAME}.json`,
+      `${CONTRACT_NAME}.v1.json`,
+      `${CONTRACT_NAME}.v2.json`,
+    ]);
+    const latest = JSON.parse(
+      fs.readFileSync(path.join(networkDir, `${CONTRACT_NAME}.json`), "utf8"),
+    );
+    expect(first.version).to.eq(1);
+    expect(latest).to.include({
+      schemaVersion: 1,
+      version: 2,
+      address: second.address,
+      chainId: 31337,
+      buildingManager: manager.address,
+      verifier: verifier.address,
+    });
+    expect(
+      latest.abi.some((f: { name?: string }) => f.name === "registerSystem"),
+    ).to.be.true;
+
+    expect(
+      JSON.parse(fs.readFileSync(paths.frontendConfig, "utf8")),
+    ).to.deep.eq({
+      network: "https://rpc.example.org",
+      chainId: 31337,
+      contractAddress: second.address,
+      deployer: second.deployer,
+      deployBlock: second.deployBlock,
+    });
+  });
+
+  it("leaves the frontend config alone when updates are disabled", async function () {
+    await deploySmartBuildingEnergy(
+      hre,
+      { systems: ["central_system"], updateFrontend: false },
+      paths,
+    );
+    expect(fs.existsSync(paths.frontendConfig)).to.eq(false);
+  });
+});
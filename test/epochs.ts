@@ -0,0 +1,78 @@
+import { expect } from "chai";
+
+import {
+  type BillingEpoch,
+  MIN_EPOCH_AVERAGE_SECONDS,
+  compareEpochs,
+  isEpochOpen,
+} from "../sdk";
+
+const DAY = 86400;
+const START = 1_700_000_000;
+
+const epoch = (epochId: number, days: number | null, offsetDays: number) => ({
+  epochId,
+  startedAt: BigInt(START + offsetDays * DAY),
+  closedAt: days === null ? null : BigInt(START + (offsetDays + days) * DAY),
+});
+
+describe("billing epoch comparison", function () {
+  it("compares daily averages so short epochs are not penalized", function () {
+    const [first, second] = compareEpochs([
+      { epoch: epoch(1, 30, 0), kwh: 3000 },
+      // Closed early after 15 days, at a 20% higher daily rate
+      { epoch: epoch(2, 15, 30), kwh: 1800 },
+    ]);
+    expect(first).to.include({ days: 30, kwhPerDay: 100, changePct: null });
+    expect(second).to.include({ days: 15, kwhPerDay: 120 });
+    expect(second.changeKwhPerDay).to.be.closeTo(20, 1e-9);
+    expect(second.changePct).to.be.closeTo(20, 1e-9);
+  });
+
+  it("bounds the open epoch by now and sorts by id", function () {
+    const open: BillingEpoch = epoch(2, null, 10);
+    expect(isEpochOpen(open)).to.eq(true);
+
+    const compared = compareEpochs(
+      [
+        { epoch: open, kwh: 500 },
+        { epoch: epoch(1, 10, 0), kwh: 0 },
+      ],
+      START + 15 * DAY,
+    );
+    expect(compared.map((c) => c.epoch.epochId)).to.deep.eq([1, 2]);
+    expect(compared[1]).to.include({ days: 5, kwhPerDay: 100 });
+    // No percentage change from a zero baseline
+    expect(compared[1].changePct).to.eq(null);
+    expect(compared[1].changeKwhPerDay).to.eq(100);
+  });
+
+  it("does not average or compare epochs shorter than the minimum", function () {
+    // Closed ten minutes after it opened; as a daily rate it would read 144,000 kWh/day
+    const brief: BillingEpoch = {
+      epochId: 2,
+      startedAt: BigInt(START + 30 * DAY),
+      closedAt: BigInt(START + 30 * DAY + 600),
+    };
+    const compared = compareEpochs([
+      { epoch: epoch(1, 30, 0), kwh: 3000 },
+      { epoch: brief, kwh: 1000 },
+      { epoch: epoch(3, 30, 31), kwh: 3000 },
+    ]);
+    expect(compared[1]).to.include({
+      kwh: 1000,
+      kwhPerDay: null,
+      changeKwhPerDay: null,
+      changePct: null,
+    });
+    expect(compared[1].days).to.be.closeTo(600 / DAY, 1e-12);
+    // Nor is the next epoch compared against it
+    expect(compared[2]).to.include({ kwhPerDay: 100, changePct: null });
+
+    const atMinimum = compareEpochs(
+      [{ epoch: { ...brief, closedAt: null }, kwh: 10 }],
+      START + 30 * DAY + MIN_EPOCH_AVERAGE_SECONDS,
+    );
+    expect(atMinimum[0].kwhPerDay).to.be.closeTo(240, 1e-9);
+  });
+});
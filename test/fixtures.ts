@@ -0,0 +1,89 @@
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { ethers, fhevm } from "hardhat";
+
+import { SmartBuildingEnergyClient, type EnergyReading } from "../sdk";
+import {
+  SmartBuildingEnergyFHE,
+  SmartBuildingEnergyFHE__factory,
+} from "../types";
+
+export type Signers = {
+  deployer: HardhatEthersSigner;
+  tenants: HardhatEthersSigner[];
+};
+
+export type EnergyFixture = {
+  contract: SmartBuildingEnergyFHE;
+  contractAddress: string;
+};
+
+export async function getSigners(tenantCount = 3): Promise<Signers> {
+  const [deployer, ...rest] = await ethers.getSigners();
+  return { deployer, tenants: rest.slice(0, tenantCount) };
+}
+
+export async function deployEnergyFixture(
+  deployer: HardhatEthersSigner,
+): Promise<EnergyFixture> {
+  const factory = (await ethers.getContractFactory(
+    "SmartBuildingEnergyFHE",
+    deployer,
+  )) as SmartBuildingEnergyFHE__factory;
+  const contract = await factory.deploy();
+  const contractAddress = await contract.getAddress();
+  return { contract, contractAddress };
+}
+
+/** SDK client for `signer`, encrypting and decrypting through the FHEVM mock relayer. */
+export function clientFor(
+  fixture: EnergyFixture,
+  signer: HardhatEthersSigner,
+): SmartBuildingEnergyClient {
+  return SmartBuildingEnergyClient.connect(fixture.contractAddress, signer, {
+    encryptor: fhevm,
+    decryptor: fhevm,
+    pollIntervalMs: 10,
+  });
+}
+
+export async function submitReading(
+  fixture: EnergyFixture,
+  tenant: HardhatEthersSigner,
+  reading: Partial<EnergyReading> = {},
+  systemKey?: string,
+): Promise<bigint> {
+  const { dataId } = await clientFor(fixture, tenant).submitReading(
+    {
+      tenantUsage: 100,
+      timestamp: Math.floor(Date.now() / 1000),
+      systemLoad: 250,
+      ...reading,
+    },
+    systemKey,
+  );
+  return dataId;
+}
+
+/**
+ * Submit `usages` round-robin across `tenants`, e.g. the five readings from three
+ * tenants an aggregate reveal needs since the previous one.
+ */
+export async function submitReadings(
+  fixture: EnergyFixture,
+  tenants: HardhatEthersSigner[],
+  usages: number[],
+  systemKey?: string,
+): Promise<bigint[]> {
+  const ids: bigint[] = [];
+  for (const [i, tenantUsage] of usages.entries()) {
+    ids.push(
+      await submitReading(
+        fixture,
+        tenants[i % tenants.length],
+        { tenantUsage },
+        systemKey,
+      ),
+    );
+  }
+  return ids;
+}
@@ -0,0 +1,195 @@
+import { time } from "@nomicfoundation/hardhat-network-helpers";
+import { expect } from "chai";
+import { fhevm } from "hardhat";
+
+import {
+  EnergySdkError,
+  InsufficientHistoryError,
+  type LoadObservation,
+  type TemperatureReading,
+  forecastLoad,
+  loadSeriesFromReveals,
+} from "../sdk";
+import {
+  EnergyFixture,
+  Signers,
+  clientFor,
+  deployEnergyFixture,
+  getSigners,
+  submitReadings,
+} from "./fixtures";
+
+const HOUR = 3600;
+// Monday 2024-01-01 00:00 UTC
+const MONDAY = Date.UTC(2024, 0, 1) / 1000;
+
+/** Deterministic noise in [-amplitude, amplitude] so the suite never flakes. */
+const noise = (seed: number, amplitude: number) => {
+  let state = seed;
+  return () => {
+    state = (state * 1664525 + 1013904223) % 2 ** 32;
+    return (state / 2 ** 32 - 0.5) * 2 * amplitude;
+  };
+};
+
+/** Office-style profile: busy weekday working hours, quiet nights and weekends. */
+const officeLoad = (timestamp: number) => {
+  const hour = Math.floor(timestamp / HOUR) % 24;
+  const weekday = Math.floor((timestamp - MONDAY) / (24 * HOUR)) % 7 < 5;
+  return 20 + (weekday && hour >= 8 && hour < 18 ? 60 : 0);
+};
+
+const series = (
+  hours: number,
+  load: (timestamp: number) => number,
+  start = MONDAY,
+): LoadObservation[] =>
+  Array.from({ length: hours }, (_, i) => ({
+    timestamp: start + i * HOUR,
+    kwh: load(start + i * HOUR),
+  }));
+
+describe("load forecasting", function () {
+  describe("reveal history", function () {
+    it("spreads each reveal's increase over the hours since the previous one", function () {
+      expect(
+        loadSeriesFromReveals([
+          {
+            sum: 190,
+            revealedAt: BigInt(MONDAY + 2 * HOUR + 1800),
+            revealIndex: 3,
+          },
+          { sum: 100, revealedAt: BigInt(MONDAY), revealIndex: 1 },
+          { sum: 160, revealedAt: BigInt(MONDAY + 2 * HOUR), revealIndex: 2 },
+        ]),
+      ).to.deep.eq([
+        { timestamp: MONDAY, kwh: 30 },
+        { timestamp: MONDAY + HOUR, kwh: 30 },
+        // 30 kWh in half an hour is a 60 kWh/h rate
+        { timestamp: MONDAY + 2 * HOUR, kwh: 60 },
+      ]);
+    });
+
+    it("handles a wrapped euint32 sum", function () {
+      expect(
+        loadSeriesFromReveals([
+          { sum: 2 ** 32 - 10, revealedAt: BigInt(MONDAY), revealIndex: 1 },
+          { sum: 5, revealedAt: BigInt(MONDAY + HOUR), revealIndex: 2 },
+        ]),
+      ).to.deep.eq([{ timestamp: MONDAY, kwh: 15 }]);
+    });
+  });
+
+  describe("models", function () {
+    it("learns a weekly profile and covers the actual load with its bands", function () {
+      const jitter = noise(1, 4);
+      const history = series(4 * 168, (t) => officeLoad(t) + jitter());
+
+      const forecast = forecastLoad(history, { horizonHours: 168 });
+      expect(forecast.seasonality).to.eq("hour-of-week");
+      expect(forecast.weatherAdjusted).to.eq(false);
+      expect(forecast.points).to.have.length(168);
+      expect(forecast.points[0].timestamp).to.eq(MONDAY + 4 * 168 * HOUR);
+
+      const errors = forecast.points.map((p) =>
+        Math.abs(p.kwh - officeLoad(p.timestamp)),
+      );
+      expect(Math.max(...errors)).to.be.lessThan(4);
+      for (const p of forecast.points) {
+        expect(p.lower).to.be.at.most(officeLoad(p.timestamp));
+        expect(p.upper).to.be.at.least(officeLoad(p.timestamp));
+      }
+    });
+
+    it("falls back to coarser profiles for short histories", function () {
+      expect(forecastLoad(series(3 * 24, officeLoad)).seasonality).to.eq(
+        "hour-of-day",
+      );
+
+      const flat = forecastLoad(series(30, () => 12));
+      expect(flat.seasonality).to.eq("none");
+      expect(flat.points.map((p) => p.kwh)).to.deep.eq(Array(24).fill(12));
+      expect(flat.residualStdDev).to.eq(0);
+    });
+
+    it("normalizes for weather with degree-hour regression", function () {
+      const jitter = noise(7, 3);
+      const weather: TemperatureReading[] = Array.from(
+        { length: 3 * 168 + 24 },
+        (_, i) => ({
+          timestamp: MONDAY + i * HOUR,
+          temperatureC: 10 + 12 * Math.sin(i / 5) + jitter(),
+        }),
+      );
+      const heating = (t: number) =>
+        2.5 *
+        Math.max(0, 18 - weather.find((w) => w.timestamp === t)!.temperatureC);
+      const history = series(3 * 168, (t) => officeLoad(t) + heating(t));
+
+      const adjusted = forecastLoad(history, { weather });
+      expect(adjusted.weatherAdjusted).to.eq(true);
+      expect(adjusted.heatingSlope).to.be.closeTo(2.5, 0.2);
+
+      const naive = forecastLoad(history);
+      const meanError = (points: typeof naive.points) =>
+        points.reduce(
+          (sum, p) =>
+            sum +
+            Math.abs(p.kwh - officeLoad(p.timestamp) - heating(p.timestamp)),
+          0,
+        ) / points.length;
+      expect(meanError(adjusted.points)).to.be.lessThan(
+        meanError(naive.points) / 2,
+      );
+      expect(adjusted.residualStdDev).to.be.lessThan(naive.residualStdDev);
+    });
+
+    it("validates history length, horizon and confidence", function () {
+      expect(() => forecastLoad(series(23, officeLoad))).to.throw(
+        InsufficientHistoryError,
+      );
+      const history = series(48, officeLoad);
+      expect(() => forecastLoad(history, { horizonHours: 169 })).to.throw(
+        EnergySdkError,
+        /horizonHours/,
+      );
+      expect(() => forecastLoad(history, { confidence: 0.5 })).to.throw(
+        EnergySdkError,
+        /confidence/,
+      );
+    });
+  });
+
+  describe("on-chain history", function () {
+    let signers: Signers;
+    let fixture: EnergyFixture;
+
+    beforeEach(async function () {
+      if (!fhevm.isMock) {
+        console.warn(`This hardhat test suite cannot run on Sepolia Testnet`);
+        this.skip();
+      }
+      signers = await getSigners();
+      fixture = await deployEnergyFixture(signers.deployer);
+    });
+
+    it("forecasts a system from its hourly aggregate reveals", async function () {
+      const manager = clientFor(fixture, signers.deployer);
+
+      for (let hour = 0; hour <= 24; hour++) {
+        await submitReadings(fixture, signers.tenants, [8, 8, 8, 8, 8]);
+        await manager.requestLoadSumReveal();
+        await fhevm.awaitDecryptionOracle();
+        await time.increase(HOUR);
+      }
+
+      const forecast = await manager.forecastLoad("central_system", {
+        horizonHours: 48,
+      });
+      expect(forecast.points).to.have.length(48);
+      for (const p of forecast.points) {
+        expect(p.kwh).to.be.closeTo(40, 1);
+      }
+    });
+  });
+});
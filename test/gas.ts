@@ -0,0 +1,69 @@
+// Gas benchmark for single vs batched submission of a day of 15-minute interval data.
+// Run with `npm run gas` to get the per-method table from hardhat-gas-reporter.
+import { expect } from "chai";
+import { fhevm } from "hardhat";
+
+import { MAX_BATCH_SIZE, type EnergyReading } from "../sdk";
+import {
+  EnergyFixture,
+  Signers,
+  clientFor,
+  deployEnergyFixture,
+  getSigners,
+} from "./fixtures";
+
+const READINGS_PER_DAY = 96;
+
+const day: EnergyReading[] = Array.from(
+  { length: READINGS_PER_DAY },
+  (_, i) => ({
+    tenantUsage: 1 + (i % 7),
+    timestamp: 1_700_000_000 + i * 900,
+    systemLoad: 0,
+  }),
+);
+
+describe("gas benchmark", function () {
+  let signers: Signers;
+  let fixture: EnergyFixture;
+
+  before(async function () {
+    signers = await getSigners();
+  });
+
+  beforeEach(async function () {
+    if (!fhevm.isMock) {
+      console.warn(`This hardhat test suite cannot run on Sepolia Testnet`);
+      this.skip();
+    }
+    fixture = await deployEnergyFixture(signers.deployer);
+  });
+
+  it(`submits ${READINGS_PER_DAY} readings for less gas in batches`, async function () {
+    const [alice, bob] = signers.tenants;
+
+    let singleGas = 0n;
+    for (const reading of day) {
+      const { receipt } = await clientFor(fixture, alice).submitReading(
+        reading,
+      );
+      singleGas += receipt.gasUsed;
+    }
+
+    const batches = await clientFor(fixture, bob).submitReadings(day);
+    const batchGas = batches.reduce((sum, b) => sum + b.receipt.gasUsed, 0n);
+
+    const perReading = (gas: bigint) => gas / BigInt(READINGS_PER_DAY);
+    console.log(
+      `      ${READINGS_PER_DAY} single submissions: ${READINGS_PER_DAY} txs, ${singleGas} gas (${perReading(singleGas)}/reading)`,
+    );
+    console.log(
+      `      batches of ${MAX_BATCH_SIZE}: ${batches.length} txs, ${batchGas} gas (${perReading(batchGas)}/reading)`,
+    );
+
+    expect(batches).to.have.length(
+      Math.ceil(READINGS_PER_DAY / MAX_BATCH_SIZE),
+    );
+    expect(batchGas < singleGas).to.eq(true);
+  });
+});
@@ -0,0 +1,315 @@
+import { expect } from "chai";
+import { fhevm } from "hardhat";
+
+import {
+  type EnergyReading,
+  ImportInterruptedError,
+  type ImportProgress,
+  MAX_BATCH_SIZE,
+  type SubmitReadingsOptions,
+  importReadings,
+  normalizeToHourly,
+  parseGreenButtonXml,
+  parseIntervalCsv,
+  parseMeterData,
+} from "../sdk";
+import {
+  EnergyFixture,
+  Signers,
+  clientFor,
+  deployEnergyFixture,
+  getSigners,
+} from "./fixtures";
+
+const T0 = Date.UTC(2024, 0, 1) / 1000;
+
+const greenButton = (uom: string, multiplier: number, readings: string) => `
+<feed xmlns="http://www.w3.org/2005/Atom" xmlns:espi="http://naesb.org/espi">
+  <entry>
+    <content>
+      <espi:ReadingType>
+        <espi:uom>${uom}</espi:uom>
+        <espi:powerOfTenMultiplier>${multiplier}</espi:powerOfTenMultiplier>
+      </espi:ReadingType>
+    </content>
+  </entry>
+  <entry>
+    <content>
+      <espi:IntervalBlock>${readings}
+      </espi:IntervalBlock>
+    </content>
+  </entry>
+</feed>`;
+
+const interval = (start: number, duration: number, value: number | string) => `
+        <espi:IntervalReading>
+          <espi:timePeriod>
+            <espi:duration>${duration}</espi:duration>
+            <espi:start>${start}</espi:start>
+          </espi:timePeriod>
+          <espi:value>${value}</espi:value>
+        </espi:IntervalReading>`;
+
+describe("meter data import", function () {
+  describe("CSV", function () {
+    it("reads timestamp and kWh columns", function () {
+      const { intervals, errors } = parseIntervalCsv(
+        [
+          "timestamp,kwh",
+          "2024-01-01T00:00:00Z,12.5",
+          `${T0 + 3600},7`,
+          "",
+        ].join("\n"),
+      );
+      expect(errors).to.deep.eq([]);
+      expect(intervals).to.deep.eq([
+        { start: T0, durationSeconds: 3600, kwh: 12.5, line: 2 },
+        { start: T0 + 3600, durationSeconds: 3600, kwh: 7, line: 3 },
+      ]);
+    });
+
+    it("reads utility exports with separate date, time and unit columns", function () {
+      const { intervals, errors } = parseIntervalCsv(
+        [
+          "TYPE,DATE,START TIME,END TIME,USAGE,UNITS,NOTES",
+          'Electric usage,2024-01-01,00:00,00:14,"1,500",Wh,',
+          "Electric usage,2024-01-01,00:15,00:29,0.75,kWh,",
+        ].join("\r\n"),
+      );
+      expect(errors).to.deep.eq([]);
+      expect(intervals).to.deep.eq([
+        { start: T0, durationSeconds: 900, kwh: 1.5, line: 2 },
+        { start: T0 + 900, durationSeconds: 900, kwh: 0.75, line: 3 },
+      ]);
+    });
+
+    it("reads times without a zone as UTC and honors explicit offsets", function () {
+      const { intervals, errors } = parseIntervalCsv(
+        [
+          "start,kwh",
+          "2024-01-01 01:00,1",
+          "1/1/2024 2:00 PM,1",
+          "2024-01-01T03:00:00+01:00,1",
+          '"Mon, 01 Jan 2024 04:00:00 GMT",1',
+          "Jan 1 2024 05:00,1",
+          "2024-02-30 00:00,1",
+        ].join("\n"),
+      );
+      expect(intervals.map((i) => i.start)).to.deep.eq([
+        T0 + 3600,
+        T0 + 14 * 3600,
+        T0 + 2 * 3600,
+        T0 + 4 * 3600,
+      ]);
+      expect(errors.map((e) => e.line)).to.deep.eq([6, 7]);
+    });
+
+    it("reports invalid rows by line and keeps the rest", function () {
+      const { intervals, errors } = parseIntervalCsv(
+        [
+          "start,usage,units",
+          "not a date,3,kWh",
+          `${T0},-1,kWh`,
+          `${T0},2,therms`,
+          `${T0},4,kWh`,
+        ].join("\n"),
+      );
+      expect(intervals.map((i) => i.line)).to.deep.eq([5]);
+      expect(errors).to.deep.eq([
+        { line: 2, message: 'Invalid start time "not a date"' },
+        { line: 3, message: 'Invalid usage "-1"' },
+        { line: 4, message: 'Unsupported unit "therms"' },
+      ]);
+    });
+
+    it("rejects a header without start and usage columns", function () {
+      expect(parseIntervalCsv("meter,reading\nA,1").errors).to.deep.eq([
+        {
+          line: 1,
+          message: "Header must name a start time and a usage column",
+        },
+      ]);
+    });
+  });
+
+  describe("Green Button", function () {
+    it("scales interval values by the reading type", function () {
+      const { intervals, errors } = parseGreenButtonXml(
+        greenButton(
+          "72",
+          1,
+          interval(T0, 3600, 1250) + interval(T0 + 3600, 3600, 300),
+        ),
+      );
+      expect(errors).to.deep.eq([]);
+      expect(intervals.map(({ start, kwh }) => ({ start, kwh }))).to.deep.eq([
+        { start: T0, kwh: 12.5 },
+        { start: T0 + 3600, kwh: 3 },
+      ]);
+    });
+
+    it("parses a year of 15-minute readings quickly", function () {
+      const count = 4 * 24 * 365;
+      const feed = greenButton(
+        "72",
+        0,
+        Array.from({ length: count }, (_, i) =>
+          interval(T0 + i * 900, 900, 250),
+        ).join(""),
+      );
+      const started = Date.now();
+      const { intervals, errors } = parseGreenButtonXml(feed);
+      expect(Date.now() - started).to.be.below(2000);
+      expect(errors).to.deep.eq([]);
+      expect(intervals).to.have.lengthOf(count);
+      expect(intervals[count - 1].line).to.eq(14 + (count - 1) * 7);
+    });
+
+    it("rejects non watt-hour feeds and malformed readings", function () {
+      expect(
+        parseGreenButtonXml(greenButton("169", 0, interval(T0, 3600, 1)))
+          .errors[0].message,
+      ).to.match(/Unsupported unit of measure 169/);
+
+      const { intervals, errors } = parseGreenButtonXml(
+        greenButton("72", 0, interval(T0, 3600, "n/a") + interval(T0, 0, 5)),
+      );
+      expect(intervals).to.deep.eq([]);
+      expect(errors.map((e) => e.message)).to.deep.eq([
+        "Missing or invalid value",
+        "Missing or invalid timePeriod duration",
+      ]);
+    });
+  });
+
+  describe("normalization", function () {
+    it("sums sub-hourly intervals and splits multi-hour ones", function () {
+      const { readings, errors } = normalizeToHourly([
+        { start: T0, durationSeconds: 900, kwh: 1.2, line: 1 },
+        { start: T0 + 900, durationSeconds: 2700, kwh: 3.4, line: 2 },
+        { start: T0 + 3600, durationSeconds: 7200, kwh: 10, line: 3 },
+        { start: T0 + 3600, durationSeconds: 7200, kwh: 10, line: 4 },
+      ]);
+      expect(readings).to.deep.eq([
+        { timestamp: T0, kwh: 4.6, tenantUsage: 5, lines: [1, 2] },
+        { timestamp: T0 + 3600, kwh: 5, tenantUsage: 5, lines: [3] },
+        { timestamp: T0 + 7200, kwh: 5, tenantUsage: 5, lines: [3] },
+      ]);
+      expect(errors).to.deep.eq([{ line: 4, message: "Duplicate interval" }]);
+    });
+
+    it("carries rounding remainders so sub-kWh hours are not lost", function () {
+      const { readings } = normalizeToHourly(
+        Array.from({ length: 10 }, (_, i) => ({
+          start: T0 + i * 3600,
+          durationSeconds: 3600,
+          kwh: 0.3,
+          line: i + 1,
+        })),
+      );
+      const usage = readings.map((r) => r.tenantUsage);
+      expect(usage).to.deep.eq([0, 1, 0, 0, 1, 0, 0, 0, 1, 0]);
+      expect(usage.reduce((a, b) => a + b, 0)).to.eq(3);
+    });
+
+    it("detects the format from the file contents", function () {
+      expect(parseMeterData(`${T0},3\n`).format).to.eq("csv");
+      expect(
+        parseMeterData(greenButton("72", 3, interval(T0, 3600, 2))),
+      ).to.deep.eq({
+        format: "green-button",
+        readings: [{ timestamp: T0, kwh: 2, tenantUsage: 2, lines: [14] }],
+        errors: [],
+      });
+    });
+  });
+
+  describe("submission", function () {
+    const readings = [0, 1, 2, 3].map((i) => ({
+      timestamp: T0 + i * 3600,
+      kwh: 10 + i,
+      tenantUsage: 10 + i,
+      lines: [i + 2],
+    }));
+
+    it("stops at the failing batch and resumes from its progress", async function () {
+      const submitted: number[] = [];
+      let failNext = true;
+      const client = {
+        submitReadings: async (
+          batchReadings: EnergyReading[],
+          _systemKey?: string,
+          options: SubmitReadingsOptions = {},
+        ) => {
+          const batchSize = options.batchSize ?? MAX_BATCH_SIZE;
+          for (let i = 0; i < batchReadings.length; i += batchSize) {
+            const chunk = batchReadings.slice(i, i + batchSize);
+            if (chunk.some((r) => r.tenantUsage === 12) && failNext) {
+              failNext = false;
+              throw new Error("user rejected transaction");
+            }
+            const dataIds = chunk.map((r) => {
+              submitted.push(r.tenantUsage);
+              return BigInt(submitted.length);
+            });
+            options.onBatch?.(
+              { dataIds, receipt: null as never },
+              i + chunk.length,
+            );
+          }
+          return [];
+        },
+      };
+
+      const reported: ImportProgress[] = [];
+      const error = await importReadings(client, readings, {
+        batchSize: 2,
+        onProgress: (p) => reported.push(p),
+      }).catch((e) => e);
+      expect(error).to.be.instanceOf(ImportInterruptedError);
+      expect(error.message).to.contain("reading 3 of 4");
+      expect(error.progress).to.deep.eq({ nextIndex: 2, dataIds: ["1", "2"] });
+      expect(reported.map((p) => p.nextIndex)).to.deep.eq([2]);
+
+      const done = await importReadings(client, readings, {
+        batchSize: 2,
+        resumeFrom: error.progress,
+      });
+      expect(done).to.deep.eq({
+        nextIndex: 4,
+        dataIds: ["1", "2", "3", "4"],
+      });
+      expect(submitted).to.deep.eq([10, 11, 12, 13]);
+    });
+
+    describe("on-chain", function () {
+      let signers: Signers;
+      let fixture: EnergyFixture;
+
+      beforeEach(async function () {
+        if (!fhevm.isMock) {
+          console.warn(`This hardhat test suite cannot run on Sepolia Testnet`);
+          this.skip();
+        }
+        signers = await getSigners();
+        fixture = await deployEnergyFixture(signers.deployer);
+      });
+
+      it("encrypts the hourly readings into the chosen system", async function () {
+        const [alice] = signers.tenants;
+        await fixture.contract.registerSystem("hvac_zone_1");
+
+        const progress = await importReadings(
+          clientFor(fixture, alice),
+          readings.slice(0, 2),
+          { systemKey: "hvac_zone_1" },
+        );
+        expect(progress.dataIds).to.deep.eq(["1", "2"]);
+
+        const stored = await clientFor(fixture, alice).getReading(2);
+        expect(stored.systemKey).to.eq("hvac_zone_1");
+        expect(stored.tenant).to.eq(alice.address);
+      });
+    });
+  });
+});
@@ -0,0 +1,412 @@
+import { takeSnapshot, time } from "@nomicfoundation/hardhat-network-helpers";
+import { expect } from "chai";
+import { createClient } from "graphql-ws";
+import type { TransactionRequest } from "ethers";
+import { ethers, fhevm } from "hardhat";
+import type { AddressInfo } from "net";
+import WebSocket from "ws";
+
+import {
+  EnergyIndexer,
+  IndexerStore,
+  createIndexerSchema,
+  createIndexerServer,
+  serveGraphqlSubscriptions,
+} from "../indexer";
+import { IndexerClient, IndexerRequestError, type RecordPage } from "../sdk";
+import {
+  EnergyFixture,
+  Signers,
+  clientFor,
+  deployEnergyFixture,
+  getSigners,
+  submitReading,
+  submitReadings,
+} from "./fixtures";
+
+describe("event indexer", function () {
+  let signers: Signers;
+  let fixture: EnergyFixture;
+  let store: IndexerStore;
+  let indexer: EnergyIndexer;
+  let deployBlock: number;
+
+  before(async function () {
+    signers = await getSigners();
+  });
+
+  beforeEach(async function () {
+    if (!fhevm.isMock) {
+      console.warn(`This hardhat test suite cannot run on Sepolia Testnet`);
+      this.skip();
+    }
+    fixture = await deployEnergyFixture(signers.deployer);
+    deployBlock = (await fixture.contract.deploymentTransaction()!.wait())!
+      .blockNumber;
+    store = new IndexerStore(":memory:");
+    // A tiny range makes every test cross several getLogs chunks
+    indexer = new EnergyIndexer(fixture.contract, store, {
+      fromBlock: deployBlock,
+      maxBlockRange: 2,
+    });
+  });
+
+  afterEach(function () {
+    store?.close();
+  });
+
+  it("indexes single and batched submissions with their reveal status", async function () {
+    const [alice, bob] = signers.tenants;
+    await submitReading(fixture, alice, { tenantUsage: 42, systemLoad: 120 });
+    await clientFor(fixture, bob).submitReadings(
+      [7, 8].map((tenantUsage, i) => ({
+        tenantUsage,
+        timestamp: 1_700_000_000 + i * 900,
+        systemLoad: 0,
+      })),
+    );
+    await clientFor(fixture, alice).requestReveal(1);
+    await fhevm.awaitDecryptionOracle();
+    await clientFor(fixture, bob).requestReveal(3);
+
+    const result = await indexer.sync();
+    expect(result).to.include({
+      records: 3,
+      revealRequests: 2,
+      reveals: 1,
+      reorgedTo: null,
+    });
+
+    const { records, total } = store.listRecords();
+    expect(total).to.eq(3);
+    expect(records.map((r) => [r.id, r.tenant, r.status])).to.deep.eq([
+      [1, alice.address, "revealed"],
+      [2, bob.address, "encrypted"],
+      [3, bob.address, "pending"],
+    ]);
+    expect(records[0]).to.include({ tenantUsage: 42, systemLoad: 120 });
+    expect(records[1]).to.include({ tenantUsage: null, billingEpoch: 1 });
+    expect(records[1].tenantUsageHandle).to.eq(
+      (await fixture.contract.encryptedData(2)).encryptedTenantUsage,
+    );
+
+    // The next pass only indexes blocks past the cursor
+    await submitReading(fixture, alice);
+    expect(await indexer.sync()).to.include({ records: 1, reveals: 0 });
+    expect(store.status()).to.deep.include({
+      records: { encrypted: 2, pending: 1, revealed: 1 },
+    });
+  });
+
+  it("reads contract state at the head, without an archive node", async function () {
+    const [alice, bob] = signers.tenants;
+    await submitReading(fixture, alice, { tenantUsage: 42 });
+    await clientFor(fixture, bob).submitReadings(
+      Array.from({ length: 5 }, (_, i) => ({
+        tenantUsage: i,
+        timestamp: 1_700_000_000 + i * 900,
+        systemLoad: 0,
+      })),
+    );
+    await clientFor(fixture, alice).requestReveal(1);
+    await fhevm.awaitDecryptionOracle();
+
+    // Public RPCs answer state reads at past blocks with "missing trie node"
+    const pruned = new Proxy(ethers.provider, {
+      get(target, property) {
+        if (property === "call") {
+          return (tx: TransactionRequest) =>
+            tx.blockTag === undefined || tx.blockTag === "latest"
+              ? target.call(tx)
+              : Promise.reject(new Error("missing trie node"));
+        }
+        const value = Reflect.get(target, property, target);
+        return typeof value === "function" ? value.bind(target) : value;
+      },
+    });
+    const headOnly = new EnergyIndexer(
+      fixture.contract.connect(pruned),
+      store,
+      { fromBlock: deployBlock, readConcurrency: 2 },
+    );
+
+    expect(await headOnly.sync()).to.include({ records: 6, reveals: 1 });
+    const { records } = store.listRecords({ limit: 10 });
+    expect(records.map((r) => r.id)).to.deep.eq([1, 2, 3, 4, 5, 6]);
+    expect(records[0]).to.include({ status: "revealed", tenantUsage: 42 });
+  });
+
+  it("serves records by tenant, date range and reveal status over HTTP", async function () {
+    const [alice, bob] = signers.tenants;
+    await submitReading(fixture, alice);
+    await time.increase(86_400);
+    const secondDay = await time.latest();
+    await submitReading(fixture, bob);
+    await submitReading(fixture, alice);
+    await clientFor(fixture, alice).requestReveal(3);
+    await fhevm.awaitDecryptionOracle();
+    await indexer.sync();
+
+    const server = createIndexerServer(store);
+    await new Promise<void>((resolve) => server.listen(0, resolve));
+    try {
+      const { port } = server.address() as AddressInfo;
+      const api = new IndexerClient(`http://127.0.0.1:${port}/`);
+
+      const own = await api.listRecords({
+        tenant: alice.address.toLowerCase(),
+      });
+      expect(own.records.map((r) => r.id)).to.deep.eq([1, 3]);
+      expect(
+        (await api.listRecords({ from: secondDay })).records.map((r) => r.id),
+      ).to.deep.eq([2, 3]);
+      expect(
+        (await api.listRecords({ status: "revealed" })).records.map(
+          (r) => r.id,
+        ),
+      ).to.deep.eq([3]);
+
+      const page = await api.listRecords({ limit: 1, offset: 1 });
+      expect(page.total).to.eq(3);
+      expect(page.records.map((r) => r.id)).to.deep.eq([2]);
+
+      expect(await api.getRecord(3)).to.include({
+        status: "revealed",
+        tenantUsage: 100,
+      });
+      expect(await api.getRecord(99)).to.eq(null);
+      expect(await api.getStatus()).to.include({
+        contractAddress: fixture.contractAddress,
+        lastBlock: await time.latestBlock(),
+      });
+
+      const tenantRecords = await fetch(
+        `http://127.0.0.1:${port}/tenants/${bob.address}/records`,
+      ).then((r) => r.json() as Promise<RecordPage>);
+      expect(tenantRecords.total).to.eq(1);
+
+      await expect(
+        api.listRecords({ status: "lost" as "pending" }),
+      ).to.be.rejectedWith(IndexerRequestError, "status must be one of");
+    } finally {
+      await new Promise((resolve) => server.close(resolve));
+    }
+  });
+
+  it("answers GraphQL queries with filters and cursor pagination", async function () {
+    const [alice, bob] = signers.tenants;
+    const owner = clientFor(fixture, signers.deployer);
+    await owner.registerSystem("hvac_zone_1");
+    await submitReading(fixture, alice, { tenantUsage: 30, systemLoad: 50 });
+    // Earlier readings so the system has enough for an aggregate reveal
+    await submitReadings(fixture, signers.tenants, [10, 10, 10], "hvac_zone_1");
+    await time.increase(86_400);
+    const secondDay = await time.latest();
+    await submitReading(fixture, bob, {}, "hvac_zone_1");
+    await submitReading(fixture, alice, {}, "hvac_zone_1");
+    await clientFor(fixture, alice).requestReveal(1);
+    await owner.requestLoadSumReveal("hvac_zone_1");
+    await fhevm.awaitDecryptionOracle();
+    await indexer.sync();
+
+    const server = createIndexerServer(store, createIndexerSchema(store));
+    await new Promise<void>((resolve) => server.listen(0, resolve));
+    try {
+      const { port } = server.address() as AddressInfo;
+      const api = new IndexerClient(`http://127.0.0.1:${port}`);
+
+      type PageInfo = { hasNextPage: boolean; endCursor?: string | null };
+      const first = await api.query<{
+        readings: {
+          nodes: {
+            id: number;
+            tenant: { address: string };
+            system: { key: string };
+          }[];
+          totalCount: number;
+          pageInfo: PageInfo;
+        };
+      }>(
+        `query ($from: Int) {
+          readings(filter: { from: $from }, first: 1) {
+            nodes { id tenant { address } system { key } }
+            totalCount
+            pageInfo { hasNextPage endCursor }
+          }
+        }`,
+        { from: secondDay },
+      );
+      expect(first.readings.totalCount).to.eq(2);
+      expect(first.readings.nodes).to.deep.eq([
+        {
+          id: 5,
+          tenant: { address: bob.address },
+          system: { key: "hvac_zone_1" },
+        },
+      ]);
+      expect(first.readings.pageInfo.hasNextPage).to.eq(true);
+
+      const next = await api.query<{
+        readings: { nodes: { id: number }[]; pageInfo: PageInfo };
+      }>(
+        `query ($after: String) {
+          readings(filter: { from: ${secondDay} }, after: $after) {
+            nodes { id }
+            pageInfo { hasNextPage }
+          }
+        }`,
+        { after: first.readings.pageInfo.endCursor },
+      );
+      expect(next.readings).to.deep.eq({
+        nodes: [{ id: 6 }],
+        pageInfo: { hasNextPage: false },
+      });
+
+      const { tenant } = await api.query<{
+        tenant: {
+          revealedUsage: number;
+          readings: {
+            nodes: {
+              id: number;
+              reveal: { tenantUsage: number; systemLoad: number } | null;
+              billingEpoch: { id: number; closedAt: number | null } | null;
+            }[];
+          };
+        } | null;
+      }>(
+        `{
+          tenant(address: "${alice.address.toLowerCase()}") {
+            revealedUsage
+            readings(filter: { status: REVEALED }) {
+              nodes { id reveal { tenantUsage systemLoad } billingEpoch { id closedAt } }
+            }
+          }
+        }`,
+      );
+      expect(tenant).to.deep.eq({
+        revealedUsage: 30,
+        readings: {
+          nodes: [
+            {
+              id: 1,
+              reveal: { tenantUsage: 30, systemLoad: 50 },
+              billingEpoch: { id: 1, closedAt: null },
+            },
+          ],
+        },
+      });
+
+      const { system } = await api.query<{
+        system: {
+          readings: { totalCount: number };
+          latestLoadSum: { revealIndex: number; sum: number } | null;
+        } | null;
+      }>(
+        `{
+          system(key: "hvac_zone_1") {
+            readings { totalCount }
+            latestLoadSum { revealIndex sum }
+          }
+        }`,
+      );
+      expect(system).to.deep.eq({
+        readings: { totalCount: 5 },
+        latestLoadSum: { revealIndex: 1, sum: 230 },
+      });
+
+      await expect(
+        api.query(`{ readings(after: "nope") { totalCount } }`),
+      ).to.be.rejectedWith(IndexerRequestError, "Invalid cursor");
+      await expect(api.query(`{ readings {`)).to.be.rejectedWith(
+        IndexerRequestError,
+        "Syntax Error",
+      );
+    } finally {
+      await new Promise((resolve) => server.close(resolve));
+    }
+  });
+
+  it("pushes new submissions to GraphQL subscribers", async function () {
+    const [alice, bob] = signers.tenants;
+    const schema = createIndexerSchema(store, indexer);
+    const server = createIndexerServer(store, schema);
+    const subscriptions = serveGraphqlSubscriptions(server, schema);
+    await new Promise<void>((resolve) => server.listen(0, resolve));
+    const { port } = server.address() as AddressInfo;
+    const client = createClient({
+      url: `ws://127.0.0.1:${port}/graphql`,
+      webSocketImpl: WebSocket,
+      lazy: false,
+    });
+    try {
+      const received: unknown[] = [];
+      const subscribed = new Promise<void>((resolve) =>
+        client.on("connected", () => resolve()),
+      );
+      const delivered = new Promise<void>((resolve, reject) =>
+        client.subscribe(
+          {
+            query: `subscription ($tenant: String) {
+              readingSubmitted(tenant: $tenant) { id tenant { address } }
+            }`,
+            variables: { tenant: bob.address },
+          },
+          {
+            next: ({ data }) => {
+              received.push(data);
+              resolve();
+            },
+            error: reject,
+            complete: () => {},
+          },
+        ),
+      );
+      await subscribed;
+      // Give the server a moment to register the subscription before indexing
+      await new Promise((resolve) => setTimeout(resolve, 100));
+
+      await submitReading(fixture, alice);
+      await submitReading(fixture, bob);
+      await indexer.sync();
+      await delivered;
+      expect(received).to.deep.eq([
+        { readingSubmitted: { id: 2, tenant: { address: bob.address } } },
+      ]);
+    } finally {
+      await client.dispose();
+      await subscriptions.dispose();
+      await new Promise((resolve) => server.close(resolve));
+    }
+  });
+
+  it("unwinds a reorg back to the common ancestor", async function () {
+    const [alice, bob, carol] = signers.tenants;
+    await submitReading(fixture, alice);
+    await indexer.sync();
+    const ancestor = store.cursor()!;
+
+    const fork = await takeSnapshot();
+    await submitReading(fixture, bob);
+    await clientFor(fixture, bob).requestReveal(2);
+    await indexer.sync();
+    expect(store.getRecord(2)).to.include({
+      tenant: bob.address,
+      status: "pending",
+    });
+
+    // Replace bob's blocks with a branch in which carol submitted instead
+    await fork.restore();
+    await submitReading(fixture, carol, { tenantUsage: 5 });
+    await submitReading(fixture, carol, { tenantUsage: 6 });
+
+    const result = await indexer.sync();
+    expect(result.reorgedTo).to.eq(ancestor.number);
+    expect(
+      store.listRecords().records.map((r) => [r.id, r.tenant, r.status]),
+    ).to.deep.eq([
+      [1, alice.address, "encrypted"],
+      [2, carol.address, "encrypted"],
+      [3, carol.address, "encrypted"],
+    ]);
+  });
+});
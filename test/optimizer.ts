@@ -0,0 +1,176 @@
+import { expect } from "chai";
+
+import {
+  EnergySdkError,
+  type ForecastPoint,
+  type HvacZone,
+  type LightingZone,
+  type TimeOfUseTariff,
+  optimizeSchedule,
+  rateAt,
+  validateTariff,
+} from "../sdk";
+
+const HOUR = 3600;
+// Monday 2024-01-01 00:00 UTC
+const MONDAY = Date.UTC(2024, 0, 1) / 1000;
+const WEEKDAYS = [1, 2, 3, 4, 5];
+
+const tariff: TimeOfUseTariff = {
+  currency: "USD",
+  basePricePerKwh: 0.1,
+  periods: [
+    {
+      label: "peak",
+      startHour: 16,
+      endHour: 20,
+      pricePerKwh: 0.3,
+      days: WEEKDAYS,
+    },
+    { label: "night", startHour: 22, endHour: 6, pricePerKwh: 0.06 },
+  ],
+};
+
+const office: HvacZone = {
+  id: "hvac_zone_1",
+  loadShare: 0.5,
+  comfortMinC: 21,
+  comfortMaxC: 25,
+  baselineSetpointC: 23,
+  unoccupiedSetpointC: 28,
+  occupancy: [{ days: WEEKDAYS, startHour: 8, endHour: 18 }],
+};
+
+const lights: LightingZone = {
+  id: "lighting_floor_2",
+  loadShare: 0.2,
+  minOccupiedLevel: 0.7,
+  occupancy: [{ days: WEEKDAYS, startHour: 8, endHour: 18 }],
+};
+
+const flatForecast = (hours: number, kwh = 100): ForecastPoint[] =>
+  Array.from({ length: hours }, (_, i) => ({
+    timestamp: MONDAY + i * HOUR,
+    kwh,
+    lower: kwh,
+    upper: kwh,
+  }));
+
+describe("schedule optimizer", function () {
+  describe("tariffs", function () {
+    it("picks the first matching period, wrapping midnight and honoring weekdays", function () {
+      expect(rateAt(tariff, MONDAY + 17 * HOUR)).to.deep.eq({
+        label: "peak",
+        pricePerKwh: 0.3,
+      });
+      expect(rateAt(tariff, MONDAY + 23 * HOUR + 1800).label).to.eq("night");
+      expect(rateAt(tariff, MONDAY + 3 * HOUR).label).to.eq("night");
+      expect(rateAt(tariff, MONDAY + 10 * HOUR).label).to.eq("base");
+      // Saturday afternoon is not a peak day
+      expect(rateAt(tariff, MONDAY + (5 * 24 + 17) * HOUR).label).to.eq("base");
+    });
+
+    it("evaluates hours in building-local time", function () {
+      // 21:00 UTC is 16:00 in UTC-5
+      expect(rateAt(tariff, MONDAY + 21 * HOUR, -300).label).to.eq("peak");
+      expect(rateAt(tariff, MONDAY + 16 * HOUR, -300).label).to.eq("base");
+    });
+
+    it("rejects malformed periods", function () {
+      expect(() =>
+        validateTariff({
+          ...tariff,
+          periods: [{ label: "bad", startHour: 5, endHour: 5, pricePerKwh: 1 }],
+        }),
+      ).to.throw(EnergySdkError, /bad/);
+      expect(() => validateTariff({ ...tariff, basePricePerKwh: -1 })).to.throw(
+        EnergySdkError,
+        /basePricePerKwh/,
+      );
+    });
+  });
+
+  describe("schedule", function () {
+    const schedule = optimizeSchedule(flatForecast(24), {
+      tariff,
+      hvacZones: [office],
+      lightingZones: [lights],
+    });
+    const hour = (h: number) => schedule.hours[h];
+
+    it("sets back and dims unoccupied zones", function () {
+      expect(hour(3).hvac[0]).to.include({ mode: "setback", setpointC: 28 });
+      expect(hour(3).lighting[0].level).to.eq(0.1);
+      // HVAC 50 * (1 - 0.06 * 5) + lighting 20 * 0.1 + 30 unmanaged
+      expect(hour(3).kwh).to.be.closeTo(35 + 2 + 30, 1e-9);
+    });
+
+    it("keeps the baseline during occupied off-peak hours", function () {
+      expect(hour(10).hvac[0]).to.include({ mode: "comfort", setpointC: 23 });
+      expect(hour(10).lighting[0].level).to.eq(1);
+      expect(hour(10).kwh).to.be.closeTo(100, 1e-9);
+    });
+
+    it("pre-cools before the peak and relieves it within the comfort band", function () {
+      expect(hour(14).hvac[0]).to.include({ mode: "precool", setpointC: 21 });
+      expect(hour(15).hvac[0]).to.include({ mode: "precool", setpointC: 21 });
+      expect(hour(14).hvac[0].kwh).to.be.closeTo(56, 1e-9);
+
+      expect(hour(16).hvac[0]).to.include({
+        mode: "peak-relief",
+        setpointC: 25,
+      });
+      expect(hour(16).lighting[0].level).to.eq(0.7);
+      // 44 kWh at 25 °C, less 80% of the 12 kWh spent pre-cooling
+      expect(hour(16).hvac[0].kwh).to.be.closeTo(44 - 9.6, 1e-9);
+      expect(hour(17).hvac[0].kwh).to.be.closeTo(44, 1e-9);
+
+      // Occupancy ends at 18:00, so the rest of the peak is a setback
+      expect(hour(18).hvac[0].mode).to.eq("setback");
+    });
+
+    it("reports energy and cost savings against the forecast baseline", function () {
+      expect(schedule.currency).to.eq("USD");
+      expect(schedule.baselineKwh).to.eq(2400);
+      expect(schedule.kwhSavings).to.be.closeTo(
+        schedule.baselineKwh - schedule.kwh,
+        1e-9,
+      );
+      expect(schedule.kwhSavings).to.be.greaterThan(0);
+      expect(schedule.costSavings).to.be.greaterThan(0);
+      expect(schedule.cost).to.be.closeTo(
+        schedule.hours.reduce((sum, h) => sum + h.kwh * h.rate.pricePerKwh, 0),
+        1e-9,
+      );
+    });
+
+    it("skips pre-cooling when storage losses outweigh the price gap", function () {
+      const flatter = optimizeSchedule(flatForecast(24), {
+        tariff: {
+          ...tariff,
+          periods: [{ ...tariff.periods[0], pricePerKwh: 0.11 }],
+        },
+        hvacZones: [office],
+      });
+      expect(flatter.hours.map((h) => h.hvac[0].mode)).to.not.include(
+        "precool",
+      );
+    });
+
+    it("rejects zones that claim more than the whole load", function () {
+      expect(() =>
+        optimizeSchedule(flatForecast(1), {
+          tariff,
+          hvacZones: [{ ...office, loadShare: 0.9 }],
+          lightingZones: [lights],
+        }),
+      ).to.throw(EnergySdkError, /load shares/);
+      expect(() =>
+        optimizeSchedule(flatForecast(1), {
+          tariff,
+          hvacZones: [office, office],
+        }),
+      ).to.throw(EnergySdkError, /unique/);
+    });
+  });
+});
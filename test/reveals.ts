@@ -0,0 +1,127 @@
+import { time } from "@nomicfoundation/hardhat-network-helpers";
+import { expect } from "chai";
+import { fhevm } from "hardhat";
+
+import {
+  DECRYPTION_RETRY_DELAY_SECONDS,
+  RevealTracker,
+  type RevealTrackerStorage,
+} from "../sdk";
+import {
+  EnergyFixture,
+  Signers,
+  clientFor,
+  deployEnergyFixture,
+  getSigners,
+  submitReading,
+} from "./fixtures";
+
+const START = 1_700_000_000;
+
+const memoryStorage = (): RevealTrackerStorage & {
+  items: Map<string, string>;
+} => {
+  const items = new Map<string, string>();
+  return {
+    items,
+    getItem: (key) => items.get(key) ?? null,
+    setItem: (key, value) => void items.set(key, value),
+  };
+};
+
+describe("reveal tracker", function () {
+  it("follows a request from pending through timeout to its callback", function () {
+    let now = START;
+    const tracker = new RevealTracker({ now: () => now, timeoutSeconds: 120 });
+    const changes: string[][] = [];
+    tracker.onChange((reveals) => changes.push(reveals.map((r) => r.state)));
+
+    tracker.track({ dataId: 4n, requestId: 11n });
+    expect(tracker.get(4)).to.deep.eq({
+      dataId: 4,
+      requestId: "11",
+      requestedAt: START,
+      attempts: 1,
+      revealedAt: null,
+      state: "pending",
+      retryAt: START + DECRYPTION_RETRY_DELAY_SECONDS,
+    });
+
+    now += 120;
+    expect(tracker.get(4)!.state).to.eq("timed-out");
+
+    // A retry supersedes the request but keeps the old id mapped to the reading
+    tracker.track({ dataId: 4n, requestId: 12n });
+    expect(tracker.get(4)).to.include({ requestId: "12", attempts: 2 });
+    expect(tracker.dataIdForRequest(11n)).to.eq(4);
+
+    tracker.markRevealed(4);
+    tracker.markRevealed(9);
+    expect(tracker.get(4)).to.include({ state: "revealed", revealedAt: now });
+    expect(changes).to.deep.eq([["pending"], ["pending"], ["revealed"]]);
+
+    tracker.remove(4);
+    expect(tracker.list()).to.deep.eq([]);
+    expect(tracker.dataIdForRequest(12n)).to.eq(undefined);
+  });
+
+  it("restores tracked reveals from storage", function () {
+    const storage = memoryStorage();
+    const first = new RevealTracker({ storage, now: () => START });
+    first.track({ dataId: 1, requestId: 5 });
+    first.track({ dataId: 2, requestId: 6 }, START + 10);
+
+    const restored = new RevealTracker({ storage, now: () => START + 20 });
+    expect(restored.list().map((r) => [r.dataId, r.requestId])).to.deep.eq([
+      [2, "6"],
+      [1, "5"],
+    ]);
+    expect(restored.dataIdForRequest(5)).to.eq(1);
+
+    storage.setItem("energy-reveals", "{not json");
+    expect(new RevealTracker({ storage }).list()).to.deep.eq([]);
+  });
+
+  describe("against the contract", function () {
+    let signers: Signers;
+    let fixture: EnergyFixture;
+
+    before(async function () {
+      signers = await getSigners();
+    });
+
+    beforeEach(async function () {
+      if (!fhevm.isMock) {
+        console.warn(`This hardhat test suite cannot run on Sepolia Testnet`);
+        this.skip();
+      }
+      fixture = await deployEnergyFixture(signers.deployer);
+    });
+
+    it("reconciles missed callbacks and retries from another session", async function () {
+      const [alice] = signers.tenants;
+      const client = clientFor(fixture, alice);
+      const revealed = await submitReading(fixture, alice);
+      const retried = await submitReading(fixture, alice);
+
+      const tracker = new RevealTracker();
+      tracker.track(await client.requestReveal(revealed));
+      // The callback lands while nobody is listening
+      await fhevm.awaitDecryptionOracle();
+      tracker.track(await client.requestReveal(retried));
+
+      // Another browser retries the unanswered request behind the tracker's back
+      await time.increase(DECRYPTION_RETRY_DELAY_SECONDS);
+      const retry = await client.requestReveal(retried);
+
+      await tracker.refresh(client);
+      expect(tracker.get(revealed)!.state).to.eq("revealed");
+      expect(tracker.get(retried)).to.include({
+        state: "pending",
+        requestId: retry.requestId.toString(),
+        attempts: 2,
+      });
+      expect(tracker.dataIdForRequest(retry.requestId)).to.eq(Number(retried));
+    });
+  });
+});
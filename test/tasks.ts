@@ -0,0 +1,303 @@
+import { expect } from "chai";
+import { mkdtempSync, writeFileSync } from "fs";
+import hre, { fhevm } from "hardhat";
+import { tmpdir } from "os";
+import { join } from "path";
+
+import { IndexerStore } from "../indexer";
+import type { Attestation, EpochComparison, EpochTotal } from "../sdk";
+import {
+  EnergyFixture,
+  Signers,
+  clientFor,
+  deployEnergyFixture,
+  getSigners,
+} from "./fixtures";
+
+describe("energy tasks", function () {
+  let signers: Signers;
+  let fixture: EnergyFixture;
+
+  // Tasks print progress; keep mocha's report readable
+  const run = async (name: string, args: Record<string, unknown>) => {
+    const log = console.log;
+    console.log = () => {};
+    try {
+      return await hre.run(name, { address: fixture.contractAddress, ...args });
+    } finally {
+      console.log = log;
+    }
+  };
+
+  before(async function () {
+    signers = await getSigners();
+  });
+
+  beforeEach(async function () {
+    if (!fhevm.isMock) {
+      console.warn(`This hardhat test suite cannot run on Sepolia Testnet`);
+      this.skip();
+    }
+    fixture = await deployEnergyFixture(signers.deployer);
+  });
+
+  it("drives a reading from submission to reveal", async function () {
+    const dataId = await run("energy:submit", {
+      usage: 42,
+      load: 120,
+      account: 1,
+    });
+    expect(dataId).to.eq(1n);
+
+    const pending = await run("energy:status", {
+      id: 1,
+      account: 1,
+      private: true,
+    });
+    expect(pending).to.include({
+      tenant: signers.tenants[0].address,
+      systemKey: "central_system",
+      isRevealed: false,
+    });
+    expect(pending.private).to.include({ tenantUsage: 42, systemLoad: 120 });
+
+    expect(await run("energy:reveal", { id: 1, account: 1 })).to.deep.eq({
+      tenantUsage: 42,
+      systemLoad: 120,
+      isRevealed: true,
+    });
+    expect(await run("energy:status", { id: 1 })).to.include({
+      tenantUsage: 42,
+      isRevealed: true,
+    });
+  });
+
+  it("registers systems, lists readings and reveals per-system sums", async function () {
+    await run("energy:register-system", { system: "hvac_zone_1" });
+    await run("energy:submit", {
+      usage: 30,
+      system: "hvac_zone_1",
+      account: 1,
+    });
+    await run("energy:submit", {
+      usage: 45,
+      system: "hvac_zone_1",
+      account: 2,
+    });
+    await run("energy:submit", { usage: 5, account: 3 });
+    // A reveal needs five new readings from three tenants
+    for (const account of [3, 1, 2]) {
+      await run("energy:submit", {
+        usage: 10,
+        system: "hvac_zone_1",
+        account,
+      });
+    }
+
+    const listed = await run("energy:list", { fromBlock: 0 });
+    expect(listed.map((s: { systemKey: string }) => s.systemKey)).to.deep.eq([
+      "hvac_zone_1",
+      "hvac_zone_1",
+      "central_system",
+      "hvac_zone_1",
+      "hvac_zone_1",
+      "hvac_zone_1",
+    ]);
+
+    expect(await run("energy:load-sum", { system: "hvac_zone_1" })).to.eq(null);
+    expect(
+      await run("energy:load-sum", { system: "hvac_zone_1", reveal: true }),
+    ).to.include({ sum: 105, revealIndex: 1 });
+  });
+
+  it("lists batched readings alongside single submissions", async function () {
+    const [alice, bob] = signers.tenants;
+    await clientFor(fixture, alice).submitReadings(
+      [7, 8].map((tenantUsage, i) => ({
+        tenantUsage,
+        timestamp: 1_700_000_000 + i * 900,
+        systemLoad: 0,
+      })),
+    );
+    await run("energy:submit", { usage: 9, account: 2 });
+
+    const listed = await run("energy:list", { fromBlock: 0 });
+    expect(
+      listed.map((s: { id: bigint; tenant: string }) => [s.id, s.tenant]),
+    ).to.deep.eq([
+      [1n, alice.address],
+      [2n, alice.address],
+      [3n, bob.address],
+    ]);
+  });
+
+  it("allocates a billing period's savings and decrypts only your own share", async function () {
+    const [alice, bob] = signers.tenants;
+    const now = (await hre.ethers.provider.getBlock("latest"))!.timestamp;
+    const input = join(mkdtempSync(join(tmpdir(), "allocate-")), "period.json");
+    writeFileSync(
+      input,
+      JSON.stringify({
+        periodStart: now - 30 * 86400,
+        periodEnd: now,
+        baselineKwh: 1000,
+        actualKwh: 900,
+        contributions: [
+          { tenant: alice.address, baselineKwh: 400, actualKwh: 340 },
+          { tenant: bob.address, baselineKwh: 300, actualKwh: 280 },
+        ],
+      }),
+    );
+
+    const preview = await run("energy:allocate", { input, dryRun: true });
+    expect(preview.periodId).to.eq(undefined);
+    expect(await run("energy:savings", {})).to.deep.eq({
+      periods: [],
+      shares: [],
+    });
+
+    const { periodId } = await run("energy:allocate", {
+      input,
+      method: "proportional",
+    });
+    expect(periodId).to.eq(1);
+
+    await fhevm.awaitDecryptionOracle();
+
+    const {
+      periods: [period],
+    } = await run("energy:savings", {});
+    expect(period).to.include({
+      savingsKwh: 100,
+      method: "proportional",
+      check: "matched",
+    });
+    expect(period.tenants).to.deep.eq([alice.address, bob.address]);
+    const { shares } = await run("energy:savings", {
+      decrypt: true,
+      account: 2,
+    });
+    expect(shares).to.deep.eq([{ periodId: 1, savingsWh: 25_000 }]);
+  });
+
+  it("opens and closes a credit period that only the tenant can decrypt", async function () {
+    const [alice] = signers.tenants;
+    await run("energy:credit-period", { tenant: alice.address, baseline: 90 });
+    await run("energy:submit", { usage: 25, account: 1 });
+
+    expect(await run("energy:credit", { account: 1 })).to.deep.include({
+      lastCredit: 0,
+      openPeriod: {
+        baselineKwh: 90,
+        usageKwh: 25,
+        startedAt: (await clientFor(fixture, alice).getCreditPeriod(
+          alice.address,
+        ))!.startedAt,
+      },
+    });
+    await run("energy:credit-period", { tenant: alice.address, close: true });
+    expect(await run("energy:credit", { account: 1 })).to.deep.include({
+      lastCredit: 65,
+      totalCredits: 65,
+      openPeriod: null,
+    });
+  });
+
+  it("closes billing epochs and reveals their totals", async function () {
+    await run("energy:submit", { usage: 30, account: 1 });
+    await run("energy:epochs", { close: true });
+    await run("energy:submit", { usage: 12, account: 1 });
+
+    const { totals, usage } = await run("energy:epochs", {
+      reveal: 1,
+      private: true,
+      account: 0,
+    });
+    expect(totals.map((t: EpochTotal) => t.kwh)).to.deep.eq([30, null]);
+    // The owner submitted nothing of its own
+    expect(usage.map((u: EpochComparison) => u.kwh)).to.deep.eq([0, 0]);
+
+    const own = await run("energy:epochs", { private: true, account: 1 });
+    expect(own.usage.map((u: EpochComparison) => u.kwh)).to.deep.eq([30, 12]);
+  });
+
+  it("publishes a tariff and prices your own readings under it", async function () {
+    const input = join(mkdtempSync(join(tmpdir(), "tariff-")), "tariff.json");
+    writeFileSync(
+      input,
+      JSON.stringify({
+        currency: "EUR",
+        basePricePerKwh: 0.3,
+        periods: [],
+      }),
+    );
+    const [published] = await run("energy:tariff", {
+      input,
+      effectiveFrom: 0,
+    });
+    expect(published).to.include({ tariffId: 1, effectiveFrom: 0 });
+
+    await run("energy:submit", { usage: 20, account: 1 });
+    const cost = await run("energy:cost", { private: true, account: 1 });
+    expect(cost).to.include({ currency: "EUR", kwh: 20 });
+    expect(cost.total).to.be.closeTo(6, 1e-9);
+  });
+
+  it("indexes readings into a SQLite database", async function () {
+    const db = join(mkdtempSync(join(tmpdir(), "indexer-")), "indexer.sqlite");
+    await run("energy:submit", { usage: 11, account: 1 });
+    await run("energy:submit", { usage: 12, account: 2 });
+    await run("energy:reveal", { id: 2, account: 2 });
+
+    const result = await run("energy:indexer", { db, once: true });
+    expect(result).to.include({ records: 2, revealRequests: 1, reveals: 1 });
+    const store = new IndexerStore(db);
+    const { records } = store.listRecords({ status: "revealed" });
+    store.close();
+    expect(records.map((r) => [r.id, r.tenantUsage])).to.deep.eq([[2, 12]]);
+  });
+
+  it("attests and disputes readings as the verifier", async function () {
+    await run("energy:submit", { usage: 10, account: 1 });
+    await expect(
+      run("energy:attest", { id: 1, dispute: true }),
+    ).to.be.rejectedWith("Disputes need --reason");
+    await run("energy:attest", { id: 1, dispute: true, reason: 101 });
+    const history = await run("energy:attest", { id: 1, reason: 3 });
+    expect(
+      history.map((a: Attestation) => [a.verdict, a.reasonCode]),
+    ).to.deep.eq([
+      ["disputed", 101],
+      ["attested", 3],
+    ]);
+
+    const status = await run("energy:status", { id: 1 });
+    expect(status.attestations).to.have.lengthOf(2);
+  });
+
+  it("rejects tasks run by accounts without the required role", async function () {
+    await run("energy:submit", { usage: 10, account: 1 });
+    await expect(
+      run("energy:reveal", { id: 1, account: 2 }),
+    ).to.be.rejectedWith("Not the tenant");
+    await expect(
+      run("energy:status", { id: 1, account: 2, private: true }),
+    ).to.be.rejectedWith("was not submitted by");
+    await expect(
+      run("energy:load-sum", { reveal: true, account: 1 }),
+    ).to.be.rejectedWith("Only building manager");
+    await expect(
+      run("energy:allocate", { input: "missing.json", method: "equal" }),
+    ).to.be.rejectedWith("Unknown allocation method");
+    await expect(
+      run("energy:credit-period", {
+        tenant: signers.tenants[0].address,
+        baseline: 10,
+        account: 1,
+      }),
+    ).to.be.rejectedWith("Only building manager");
+    await expect(
+      run("energy:attest", { id: 1, account: 2 }),
+    ).to.be.rejectedWith("Only verifier");
+  });
+});
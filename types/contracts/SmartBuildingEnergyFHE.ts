@@ -0,0 +1,2210 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+import type {
+  BaseContract,
+  BigNumberish,
+  BytesLike,
+  FunctionFragment,
+  Result,
+  Interface,
+  EventFragment,
+  AddressLike,
+  ContractRunner,
+  ContractMethod,
+  Listener,
+} from "ethers";
+import type {
+  TypedContractEvent,
+  TypedDeferredTopicFilter,
+  TypedEventLog,
+  TypedLogDescription,
+  TypedListener,
+  TypedContractMethod,
+} from "../common";
+
+export interface SmartBuildingEnergyFHEInterface extends Interface {
+  getFunction(
+    nameOrSignature:
+      | "DECRYPTION_RETRY_DELAY"
+      | "DEFAULT_BILLING_EPOCH_DURATION"
+      | "MAX_ALLOCATION_TENANTS"
+      | "MAX_BATCH_SIZE"
+      | "MIN_LOAD_SUM_REVEAL_READINGS"
+      | "MIN_LOAD_SUM_REVEAL_TENANTS"
+      | "attestReading"
+      | "billingEpochDuration"
+      | "buildingManager"
+      | "checkSavingsAllocation"
+      | "closeBillingEpoch"
+      | "closeCreditPeriod"
+      | "currentBillingEpoch"
+      | "dataCount"
+      | "decryptEnergyData"
+      | "decryptEpochTotal"
+      | "decryptLoadSum"
+      | "decryptedData"
+      | "disputeReading"
+      | "encryptedData"
+      | "getAttestation"
+      | "getAttestationCount"
+      | "getBillingEpoch"
+      | "getCreditPeriod"
+      | "getDecryptedEnergyData"
+      | "getDecryptionStatus"
+      | "getEncryptedLoadSum"
+      | "getEpochLoadSum"
+      | "getEpochTenantUsage"
+      | "getEpochTotal"
+      | "getLoadSumReveal"
+      | "getLoadSumRevealCount"
+      | "getLoadSumRevealWindow"
+      | "getRevealedLoadSum"
+      | "getSavingsCredit"
+      | "getSavingsPeriod"
+      | "getSavingsPeriodCount"
+      | "getSystems"
+      | "getTariff"
+      | "getTariffCount"
+      | "getTenantSavings"
+      | "isSystemRegistered"
+      | "owner"
+      | "protocolId"
+      | "publishTariff"
+      | "recordSavingsAllocation"
+      | "registerSystem"
+      | "requestEnergyDataDecryption"
+      | "requestEpochTotalDecryption"
+      | "requestLoadSumDecryption"
+      | "requestSavingsCheck"
+      | "setBillingEpochDuration"
+      | "setBuildingManager"
+      | "setVerifier"
+      | "startCreditPeriod"
+      | "submitEncryptedEnergyData"
+      | "submitEncryptedEnergyDataBatch"
+      | "verifier"
+  ): FunctionFragment;
+
+  getEvent(
+    nameOrSignatureOrTopic:
+      | "BillingEpochClosed"
+      | "BillingEpochDurationUpdated"
+      | "BillingEpochStarted"
+      | "BuildingManagerUpdated"
+      | "CreditPeriodStarted"
+      | "DecryptionFulfilled"
+      | "DecryptionRequested"
+      | "EnergyDataBatchSubmitted"
+      | "EnergyDataDecrypted"
+      | "EnergyDataSubmitted"
+      | "EpochTotalDecryptionRequested"
+      | "EpochTotalRevealed"
+      | "LoadSumDecryptionRequested"
+      | "LoadSumRevealed"
+      | "ReadingAttested"
+      | "ReadingDisputed"
+      | "SavingsAllocated"
+      | "SavingsAllocationChecked"
+      | "SavingsCheckRequested"
+      | "SavingsCreditComputed"
+      | "SystemRegistered"
+      | "TariffPublished"
+      | "TenantSavingsAllocated"
+      | "VerifierUpdated"
+  ): EventFragment;
+
+  encodeFunctionData(
+    functionFragment: "DECRYPTION_RETRY_DELAY",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "DEFAULT_BILLING_EPOCH_DURATION",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "MAX_ALLOCATION_TENANTS",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "MAX_BATCH_SIZE",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "MIN_LOAD_SUM_REVEAL_READINGS",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "MIN_LOAD_SUM_REVEAL_TENANTS",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "attestReading",
+    values: [BigNumberish, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "billingEpochDuration",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "buildingManager",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "checkSavingsAllocation",
+    values: [BigNumberish, BytesLike, BytesLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "closeBillingEpoch",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "closeCreditPeriod",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "currentBillingEpoch",
+    values?: undefined
+  ): string;
+  encodeFunctionData(functionFragment: "dataCount", values?: undefined): string;
+  encodeFunctionData(
+    functionFragment: "decryptEnergyData",
+    values: [BigNumberish, BytesLike, BytesLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "decryptEpochTotal",
+    values: [BigNumberish, BytesLike, BytesLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "decryptLoadSum",
+    values: [BigNumberish, BytesLike, BytesLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "decryptedData",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "disputeReading",
+    values: [BigNumberish, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "encryptedData",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getAttestation",
+    values: [BigNumberish, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getAttestationCount",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getBillingEpoch",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getCreditPeriod",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getDecryptedEnergyData",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getDecryptionStatus",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getEncryptedLoadSum",
+    values: [string]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getEpochLoadSum",
+    values: [BigNumberish, string]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getEpochTenantUsage",
+    values: [BigNumberish, AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getEpochTotal",
+    values: [BigNumberish, string]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getLoadSumReveal",
+    values: [string, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getLoadSumRevealCount",
+    values: [string]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getLoadSumRevealWindow",
+    values: [string]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getRevealedLoadSum",
+    values: [string]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getSavingsCredit",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getSavingsPeriod",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getSavingsPeriodCount",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getSystems",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getTariff",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getTariffCount",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getTenantSavings",
+    values: [BigNumberish, AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "isSystemRegistered",
+    values: [string]
+  ): string;
+  encodeFunctionData(functionFragment: "owner", values?: undefined): string;
+  encodeFunctionData(
+    functionFragment: "protocolId",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "publishTariff",
+    values: [string, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "recordSavingsAllocation",
+    values: [
+      BigNumberish,
+      BigNumberish,
+      BigNumberish,
+      BigNumberish,
+      BigNumberish,
+      AddressLike[],
+      BytesLike[],
+      BytesLike
+    ]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "registerSystem",
+    values: [string]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "requestEnergyDataDecryption",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "requestEpochTotalDecryption",
+    values: [BigNumberish, string]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "requestLoadSumDecryption",
+    values: [string]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "requestSavingsCheck",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "setBillingEpochDuration",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "setBuildingManager",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "setVerifier",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "startCreditPeriod",
+    values: [AddressLike, BytesLike, BytesLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "submitEncryptedEnergyData",
+    values: [string, BytesLike, BytesLike, BytesLike, BytesLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "submitEncryptedEnergyDataBatch",
+    values: [string, BytesLike[], BytesLike[], BytesLike[], BytesLike]
+  ): string;
+  encodeFunctionData(functionFragment: "verifier", values?: undefined): string;
+
+  decodeFunctionResult(
+    functionFragment: "DECRYPTION_RETRY_DELAY",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "DEFAULT_BILLING_EPOCH_DURATION",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "MAX_ALLOCATION_TENANTS",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "MAX_BATCH_SIZE",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "MIN_LOAD_SUM_REVEAL_READINGS",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "MIN_LOAD_SUM_REVEAL_TENANTS",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "attestReading",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "billingEpochDuration",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "buildingManager",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "checkSavingsAllocation",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "closeBillingEpoch",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "closeCreditPeriod",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "currentBillingEpoch",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "dataCount", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "decryptEnergyData",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "decryptEpochTotal",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "decryptLoadSum",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "decryptedData",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "disputeReading",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "encryptedData",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getAttestation",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getAttestationCount",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getBillingEpoch",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getCreditPeriod",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getDecryptedEnergyData",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getDecryptionStatus",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getEncryptedLoadSum",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getEpochLoadSum",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getEpochTenantUsage",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getEpochTotal",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getLoadSumReveal",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getLoadSumRevealCount",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getLoadSumRevealWindow",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getRevealedLoadSum",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getSavingsCredit",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getSavingsPeriod",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getSavingsPeriodCount",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "getSystems", data: BytesLike): Result;
+  decodeFunctionResult(functionFragment: "getTariff", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "getTariffCount",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getTenantSavings",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "isSystemRegistered",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "owner", data: BytesLike): Result;
+  decodeFunctionResult(functionFragment: "protocolId", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "publishTariff",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "recordSavingsAllocation",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "registerSystem",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "requestEnergyDataDecryption",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "requestEpochTotalDecryption",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "requestLoadSumDecryption",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "requestSavingsCheck",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "setBillingEpochDuration",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "setBuildingManager",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "setVerifier",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "startCreditPeriod",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "submitEncryptedEnergyData",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "submitEncryptedEnergyDataBatch",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "verifier", data: BytesLike): Result;
+}
+
+export namespace BillingEpochClosedEvent {
+  export type InputTuple = [
+    epochId: BigNumberish,
+    startedAt: BigNumberish,
+    closedAt: BigNumberish
+  ];
+  export type OutputTuple = [
+    epochId: bigint,
+    startedAt: bigint,
+    closedAt: bigint
+  ];
+  export interface OutputObject {
+    epochId: bigint;
+    startedAt: bigint;
+    closedAt: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace BillingEpochDurationUpdatedEvent {
+  export type InputTuple = [duration: BigNumberish];
+  export type OutputTuple = [duration: bigint];
+  export interface OutputObject {
+    duration: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace BillingEpochStartedEvent {
+  export type InputTuple = [epochId: BigNumberish, startedAt: BigNumberish];
+  export type OutputTuple = [epochId: bigint, startedAt: bigint];
+  export interface OutputObject {
+    epochId: bigint;
+    startedAt: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace BuildingManagerUpdatedEvent {
+  export type InputTuple = [manager: AddressLike];
+  export type OutputTuple = [manager: string];
+  export interface OutputObject {
+    manager: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace CreditPeriodStartedEvent {
+  export type InputTuple = [tenant: AddressLike, startedAt: BigNumberish];
+  export type OutputTuple = [tenant: string, startedAt: bigint];
+  export interface OutputObject {
+    tenant: string;
+    startedAt: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace DecryptionFulfilledEvent {
+  export type InputTuple = [requestID: BigNumberish];
+  export type OutputTuple = [requestID: bigint];
+  export interface OutputObject {
+    requestID: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace DecryptionRequestedEvent {
+  export type InputTuple = [id: BigNumberish, requestId: BigNumberish];
+  export type OutputTuple = [id: bigint, requestId: bigint];
+  export interface OutputObject {
+    id: bigint;
+    requestId: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace EnergyDataBatchSubmittedEvent {
+  export type InputTuple = [
+    tenant: AddressLike,
+    systemKey: string,
+    firstId: BigNumberish,
+    lastId: BigNumberish,
+    timestamp: BigNumberish
+  ];
+  export type OutputTuple = [
+    tenant: string,
+    systemKey: string,
+    firstId: bigint,
+    lastId: bigint,
+    timestamp: bigint
+  ];
+  export interface OutputObject {
+    tenant: string;
+    systemKey: string;
+    firstId: bigint;
+    lastId: bigint;
+    timestamp: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace EnergyDataDecryptedEvent {
+  export type InputTuple = [id: BigNumberish, requestId: BigNumberish];
+  export type OutputTuple = [id: bigint, requestId: bigint];
+  export interface OutputObject {
+    id: bigint;
+    requestId: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace EnergyDataSubmittedEvent {
+  export type InputTuple = [
+    id: BigNumberish,
+    tenant: AddressLike,
+    systemKey: string,
+    timestamp: BigNumberish
+  ];
+  export type OutputTuple = [
+    id: bigint,
+    tenant: string,
+    systemKey: string,
+    timestamp: bigint
+  ];
+  export interface OutputObject {
+    id: bigint;
+    tenant: string;
+    systemKey: string;
+    timestamp: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace EpochTotalDecryptionRequestedEvent {
+  export type InputTuple = [
+    epochId: BigNumberish,
+    systemKey: string,
+    requestId: BigNumberish
+  ];
+  export type OutputTuple = [
+    epochId: bigint,
+    systemKey: string,
+    requestId: bigint
+  ];
+  export interface OutputObject {
+    epochId: bigint;
+    systemKey: string;
+    requestId: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace EpochTotalRevealedEvent {
+  export type InputTuple = [
+    epochId: BigNumberish,
+    systemKey: string,
+    sum: BigNumberish
+  ];
+  export type OutputTuple = [epochId: bigint, systemKey: string, sum: bigint];
+  export interface OutputObject {
+    epochId: bigint;
+    systemKey: string;
+    sum: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace LoadSumDecryptionRequestedEvent {
+  export type InputTuple = [systemKey: string, requestId: BigNumberish];
+  export type OutputTuple = [systemKey: string, requestId: bigint];
+  export interface OutputObject {
+    systemKey: string;
+    requestId: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace LoadSumRevealedEvent {
+  export type InputTuple = [
+    systemKey: string,
+    epoch: BigNumberish,
+    sum: BigNumberish,
+    revealedAt: BigNumberish
+  ];
+  export type OutputTuple = [
+    systemKey: string,
+    epoch: bigint,
+    sum: bigint,
+    revealedAt: bigint
+  ];
+  export interface OutputObject {
+    systemKey: string;
+    epoch: bigint;
+    sum: bigint;
+    revealedAt: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace ReadingAttestedEvent {
+  export type InputTuple = [
+    id: BigNumberish,
+    verifier: AddressLike,
+    reasonCode: BigNumberish
+  ];
+  export type OutputTuple = [id: bigint, verifier: string, reasonCode: bigint];
+  export interface OutputObject {
+    id: bigint;
+    verifier: string;
+    reasonCode: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace ReadingDisputedEvent {
+  export type InputTuple = [
+    id: BigNumberish,
+    verifier: AddressLike,
+    reasonCode: BigNumberish
+  ];
+  export type OutputTuple = [id: bigint, verifier: string, reasonCode: bigint];
+  export interface OutputObject {
+    id: bigint;
+    verifier: string;
+    reasonCode: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace SavingsAllocatedEvent {
+  export type InputTuple = [
+    periodId: BigNumberish,
+    periodStart: BigNumberish,
+    periodEnd: BigNumberish,
+    savingsKwh: BigNumberish,
+    method: BigNumberish
+  ];
+  export type OutputTuple = [
+    periodId: bigint,
+    periodStart: bigint,
+    periodEnd: bigint,
+    savingsKwh: bigint,
+    method: bigint
+  ];
+  export interface OutputObject {
+    periodId: bigint;
+    periodStart: bigint;
+    periodEnd: bigint;
+    savingsKwh: bigint;
+    method: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace SavingsAllocationCheckedEvent {
+  export type InputTuple = [periodId: BigNumberish, sharesMatch: boolean];
+  export type OutputTuple = [periodId: bigint, sharesMatch: boolean];
+  export interface OutputObject {
+    periodId: bigint;
+    sharesMatch: boolean;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace SavingsCheckRequestedEvent {
+  export type InputTuple = [periodId: BigNumberish, requestId: BigNumberish];
+  export type OutputTuple = [periodId: bigint, requestId: bigint];
+  export interface OutputObject {
+    periodId: bigint;
+    requestId: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace SavingsCreditComputedEvent {
+  export type InputTuple = [
+    tenant: AddressLike,
+    periodStart: BigNumberish,
+    computedAt: BigNumberish
+  ];
+  export type OutputTuple = [
+    tenant: string,
+    periodStart: bigint,
+    computedAt: bigint
+  ];
+  export interface OutputObject {
+    tenant: string;
+    periodStart: bigint;
+    computedAt: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace SystemRegisteredEvent {
+  export type InputTuple = [systemKey: string];
+  export type OutputTuple = [systemKey: string];
+  export interface OutputObject {
+    systemKey: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace TariffPublishedEvent {
+  export type InputTuple = [
+    tariffId: BigNumberish,
+    effectiveFrom: BigNumberish
+  ];
+  export type OutputTuple = [tariffId: bigint, effectiveFrom: bigint];
+  export interface OutputObject {
+    tariffId: bigint;
+    effectiveFrom: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace TenantSavingsAllocatedEvent {
+  export type InputTuple = [periodId: BigNumberish, tenant: AddressLike];
+  export type OutputTuple = [periodId: bigint, tenant: string];
+  export interface OutputObject {
+    periodId: bigint;
+    tenant: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace VerifierUpdatedEvent {
+  export type InputTuple = [verifier: AddressLike];
+  export type OutputTuple = [verifier: string];
+  export interface OutputObject {
+    verifier: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export interface SmartBuildingEnergyFHE extends BaseContract {
+  connect(runner?: ContractRunner | null): SmartBuildingEnergyFHE;
+  waitForDeployment(): Promise<this>;
+
+  interface: SmartBuildingEnergyFHEInterface;
+
+  queryFilter<TCEvent extends TypedContractEvent>(
+    event: TCEvent,
+    fromBlockOrBlockhash?: string | number | undefined,
+    toBlock?: string | number | undefined
+  ): Promise<Array<TypedEventLog<TCEvent>>>;
+  queryFilter<TCEvent extends TypedContractEvent>(
+    filter: TypedDeferredTopicFilter<TCEvent>,
+    fromBlockOrBlockhash?: string | number | undefined,
+    toBlock?: string | number | undefined
+  ): Promise<Array<TypedEventLog<TCEvent>>>;
+
+  on<TCEvent extends TypedContractEvent>(
+    event: TCEvent,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+  on<TCEvent extends TypedContractEvent>(
+    filter: TypedDeferredTopicFilter<TCEvent>,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+
+  once<TCEvent extends TypedContractEvent>(
+    event: TCEvent,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+  once<TCEvent extends TypedContractEvent>(
+    filter: TypedDeferredTopicFilter<TCEvent>,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+
+  listeners<TCEvent extends TypedContractEvent>(
+    event: TCEvent
+  ): Promise<Array<TypedListener<TCEvent>>>;
+  listeners(eventName?: string): Promise<Array<Listener>>;
+  removeAllListeners<TCEvent extends TypedContractEvent>(
+    event?: TCEvent
+  ): Promise<this>;
+
+  DECRYPTION_RETRY_DELAY: TypedContractMethod<[], [bigint], "view">;
+
+  DEFAULT_BILLING_EPOCH_DURATION: TypedContractMethod<[], [bigint], "view">;
+
+  MAX_ALLOCATION_TENANTS: TypedContractMethod<[], [bigint], "view">;
+
+  MAX_BATCH_SIZE: TypedContractMethod<[], [bigint], "view">;
+
+  MIN_LOAD_SUM_REVEAL_READINGS: TypedContractMethod<[], [bigint], "view">;
+
+  MIN_LOAD_SUM_REVEAL_TENANTS: TypedContractMethod<[], [bigint], "view">;
+
+  attestReading: TypedContractMethod<
+    [dataId: BigNumberish, reasonCode: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  billingEpochDuration: TypedContractMethod<[], [bigint], "view">;
+
+  buildingManager: TypedContractMethod<[], [string], "view">;
+
+  checkSavingsAllocation: TypedContractMethod<
+    [requestId: BigNumberish, cleartexts: BytesLike, proof: BytesLike],
+    [void],
+    "nonpayable"
+  >;
+
+  closeBillingEpoch: TypedContractMethod<[], [void], "nonpayable">;
+
+  closeCreditPeriod: TypedContractMethod<
+    [tenant: AddressLike],
+    [void],
+    "nonpayable"
+  >;
+
+  currentBillingEpoch: TypedContractMethod<[], [bigint], "view">;
+
+  dataCount: TypedContractMethod<[], [bigint], "view">;
+
+  decryptEnergyData: TypedContractMethod<
+    [requestId: BigNumberish, cleartexts: BytesLike, proof: BytesLike],
+    [void],
+    "nonpayable"
+  >;
+
+  decryptEpochTotal: TypedContractMethod<
+    [requestId: BigNumberish, cleartexts: BytesLike, proof: BytesLike],
+    [void],
+    "nonpayable"
+  >;
+
+  decryptLoadSum: TypedContractMethod<
+    [requestId: BigNumberish, cleartexts: BytesLike, proof: BytesLike],
+    [void],
+    "nonpayable"
+  >;
+
+  decryptedData: TypedContractMethod<
+    [arg0: BigNumberish],
+    [
+      [bigint, bigint, boolean] & {
+        tenantUsage: bigint;
+        systemLoad: bigint;
+        isRevealed: boolean;
+      }
+    ],
+    "view"
+  >;
+
+  disputeReading: TypedContractMethod<
+    [dataId: BigNumberish, reasonCode: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  encryptedData: TypedContractMethod<
+    [arg0: BigNumberish],
+    [
+      [bigint, string, string, string, string, string, bigint, bigint] & {
+        id: bigint;
+        tenant: string;
+        systemKey: string;
+        encryptedTenantUsage: string;
+        encryptedTimestamp: string;
+        encryptedSystemLoad: string;
+        timestamp: bigint;
+        billingEpoch: bigint;
+      }
+    ],
+    "view"
+  >;
+
+  getAttestation: TypedContractMethod<
+    [dataId: BigNumberish, index: BigNumberish],
+    [
+      [string, bigint, bigint, bigint] & {
+        attestedBy: string;
+        verdict: bigint;
+        reasonCode: bigint;
+        timestamp: bigint;
+      }
+    ],
+    "view"
+  >;
+
+  getAttestationCount: TypedContractMethod<
+    [dataId: BigNumberish],
+    [bigint],
+    "view"
+  >;
+
+  getBillingEpoch: TypedContractMethod<
+    [epochId: BigNumberish],
+    [[bigint, bigint] & { startedAt: bigint; closedAt: bigint }],
+    "view"
+  >;
+
+  getCreditPeriod: TypedContractMethod<
+    [tenant: AddressLike],
+    [
+      [string, string, bigint] & {
+        baseline: string;
+        usage: string;
+        startedAt: bigint;
+      }
+    ],
+    "view"
+  >;
+
+  getDecryptedEnergyData: TypedContractMethod<
+    [dataId: BigNumberish],
+    [
+      [bigint, bigint, boolean] & {
+        tenantUsage: bigint;
+        systemLoad: bigint;
+        isRevealed: boolean;
+      }
+    ],
+    "view"
+  >;
+
+  getDecryptionStatus: TypedContractMethod<
+    [dataId: BigNumberish],
+    [
+      [bigint, bigint, bigint, bigint] & {
+        status: bigint;
+        requestId: bigint;
+        requestedAt: bigint;
+        attempts: bigint;
+      }
+    ],
+    "view"
+  >;
+
+  getEncryptedLoadSum: TypedContractMethod<
+    [systemKey: string],
+    [string],
+    "view"
+  >;
+
+  getEpochLoadSum: TypedContractMethod<
+    [epochId: BigNumberish, systemKey: string],
+    [string],
+    "view"
+  >;
+
+  getEpochTenantUsage: TypedContractMethod<
+    [epochId: BigNumberish, tenant: AddressLike],
+    [string],
+    "view"
+  >;
+
+  getEpochTotal: TypedContractMethod<
+    [epochId: BigNumberish, systemKey: string],
+    [[bigint, boolean] & { sum: bigint; isRevealed: boolean }],
+    "view"
+  >;
+
+  getLoadSumReveal: TypedContractMethod<
+    [systemKey: string, epoch: BigNumberish],
+    [[bigint, bigint] & { sum: bigint; revealedAt: bigint }],
+    "view"
+  >;
+
+  getLoadSumRevealCount: TypedContractMethod<
+    [systemKey: string],
+    [bigint],
+    "view"
+  >;
+
+  getLoadSumRevealWindow: TypedContractMethod<
+    [systemKey: string],
+    [[bigint, bigint] & { readings: bigint; tenants: bigint }],
+    "view"
+  >;
+
+  getRevealedLoadSum: TypedContractMethod<
+    [systemKey: string],
+    [
+      [bigint, bigint, bigint] & {
+        sum: bigint;
+        revealedAt: bigint;
+        epoch: bigint;
+      }
+    ],
+    "view"
+  >;
+
+  getSavingsCredit: TypedContractMethod<
+    [tenant: AddressLike],
+    [
+      [string, string, bigint] & {
+        lastCredit: string;
+        totalCredits: string;
+        computedAt: bigint;
+      }
+    ],
+    "view"
+  >;
+
+  getSavingsPeriod: TypedContractMethod<
+    [periodId: BigNumberish],
+    [
+      [bigint, bigint, bigint, bigint, bigint, bigint, string[], bigint] & {
+        periodStart: bigint;
+        periodEnd: bigint;
+        baselineKwh: bigint;
+        actualKwh: bigint;
+        method: bigint;
+        recordedAt: bigint;
+        tenants: string[];
+        check: bigint;
+      }
+    ],
+    "view"
+  >;
+
+  getSavingsPeriodCount: TypedContractMethod<[], [bigint], "view">;
+
+  getSystems: TypedContractMethod<[], [string[]], "view">;
+
+  getTariff: TypedContractMethod<
+    [tariffId: BigNumberish],
+    [
+      [string, bigint, bigint] & {
+        config: string;
+        effectiveFrom: bigint;
+        publishedAt: bigint;
+      }
+    ],
+    "view"
+  >;
+
+  getTariffCount: TypedContractMethod<[], [bigint], "view">;
+
+  getTenantSavings: TypedContractMethod<
+    [periodId: BigNumberish, tenant: AddressLike],
+    [[string, boolean] & { savingsWh: string; allocated: boolean }],
+    "view"
+  >;
+
+  isSystemRegistered: TypedContractMethod<
+    [systemKey: string],
+    [boolean],
+    "view"
+  >;
+
+  owner: TypedContractMethod<[], [string], "view">;
+
+  protocolId: TypedContractMethod<[], [bigint], "view">;
+
+  publishTariff: TypedContractMethod<
+    [config: string, effectiveFrom: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  recordSavingsAllocation: TypedContractMethod<
+    [
+      periodStart: BigNumberish,
+      periodEnd: BigNumberish,
+      baselineKwh: BigNumberish,
+      actualKwh: BigNumberish,
+      method: BigNumberish,
+      tenants: AddressLike[],
+      savingsInputs: BytesLike[],
+      inputProof: BytesLike
+    ],
+    [void],
+    "nonpayable"
+  >;
+
+  registerSystem: TypedContractMethod<
+    [systemKey: string],
+    [void],
+    "nonpayable"
+  >;
+
+  requestEnergyDataDecryption: TypedContractMethod<
+    [dataId: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  requestEpochTotalDecryption: TypedContractMethod<
+    [epochId: BigNumberish, systemKey: string],
+    [void],
+    "nonpayable"
+  >;
+
+  requestLoadSumDecryption: TypedContractMethod<
+    [systemKey: string],
+    [void],
+    "nonpayable"
+  >;
+
+  requestSavingsCheck: TypedContractMethod<
+    [periodId: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  setBillingEpochDuration: TypedContractMethod<
+    [duration: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  setBuildingManager: TypedContractMethod<
+    [manager: AddressLike],
+    [void],
+    "nonpayable"
+  >;
+
+  setVerifier: TypedContractMethod<
+    [newVerifier: AddressLike],
+    [void],
+    "nonpayable"
+  >;
+
+  startCreditPeriod: TypedContractMethod<
+    [tenant: AddressLike, baselineInput: BytesLike, inputProof: BytesLike],
+    [void],
+    "nonpayable"
+  >;
+
+  submitEncryptedEnergyData: TypedContractMethod<
+    [
+      systemKey: string,
+      tenantUsageInput: BytesLike,
+      timestampInput: BytesLike,
+      systemLoadInput: BytesLike,
+      inputProof: BytesLike
+    ],
+    [void],
+    "nonpayable"
+  >;
+
+  submitEncryptedEnergyDataBatch: TypedContractMethod<
+    [
+      systemKey: string,
+      tenantUsageInputs: BytesLike[],
+      timestampInputs: BytesLike[],
+      systemLoadInputs: BytesLike[],
+      inputProof: BytesLike
+    ],
+    [void],
+    "nonpayable"
+  >;
+
+  verifier: TypedContractMethod<[], [string], "view">;
+
+  getFunction<T extends ContractMethod = ContractMethod>(
+    key: string | FunctionFragment
+  ): T;
+
+  getFunction(
+    nameOrSignature: "DECRYPTION_RETRY_DELAY"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "DEFAULT_BILLING_EPOCH_DURATION"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "MAX_ALLOCATION_TENANTS"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "MAX_BATCH_SIZE"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "MIN_LOAD_SUM_REVEAL_READINGS"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "MIN_LOAD_SUM_REVEAL_TENANTS"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "attestReading"
+  ): TypedContractMethod<
+    [dataId: BigNumberish, reasonCode: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "billingEpochDuration"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "buildingManager"
+  ): TypedContractMethod<[], [string], "view">;
+  getFunction(
+    nameOrSignature: "checkSavingsAllocation"
+  ): TypedContractMethod<
+    [requestId: BigNumberish, cleartexts: BytesLike, proof: BytesLike],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "closeBillingEpoch"
+  ): TypedContractMethod<[], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "closeCreditPeriod"
+  ): TypedContractMethod<[tenant: AddressLike], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "currentBillingEpoch"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "dataCount"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "decryptEnergyData"
+  ): TypedContractMethod<
+    [requestId: BigNumberish, cleartexts: BytesLike, proof: BytesLike],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "decryptEpochTotal"
+  ): TypedContractMethod<
+    [requestId: BigNumberish, cleartexts: BytesLike, proof: BytesLike],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "decryptLoadSum"
+  ): TypedContractMethod<
+    [requestId: BigNumberish, cleartexts: BytesLike, proof: BytesLike],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "decryptedData"
+  ): TypedContractMethod<
+    [arg0: BigNumberish],
+    [
+      [bigint, bigint, boolean] & {
+        tenantUsage: bigint;
+        systemLoad: bigint;
+        isRevealed: boolean;
+      }
+    ],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "disputeReading"
+  ): TypedContractMethod<
+    [dataId: BigNumberish, reasonCode: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "encryptedData"
+  ): TypedContractMethod<
+    [arg0: BigNumberish],
+    [
+      [bigint, string, string, string, string, string, bigint, bigint] & {
+        id: bigint;
+        tenant: string;
+        systemKey: string;
+        encryptedTenantUsage: string;
+        encryptedTimestamp: string;
+        encryptedSystemLoad: string;
+        timestamp: bigint;
+        billingEpoch: bigint;
+      }
+    ],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "getAttestation"
+  ): TypedContractMethod<
+    [dataId: BigNumberish, index: BigNumberish],
+    [
+      [string, bigint, bigint, bigint] & {
+        attestedBy: string;
+        verdict: bigint;
+        reasonCode: bigint;
+        timestamp: bigint;
+      }
+    ],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "getAttestationCount"
+  ): TypedContractMethod<[dataId: BigNumberish], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "getBillingEpoch"
+  ): TypedContractMethod<
+    [epochId: BigNumberish],
+    [[bigint, bigint] & { startedAt: bigint; closedAt: bigint }],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "getCreditPeriod"
+  ): TypedContractMethod<
+    [tenant: AddressLike],
+    [
+      [string, string, bigint] & {
+        baseline: string;
+        usage: string;
+        startedAt: bigint;
+      }
+    ],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "getDecryptedEnergyData"
+  ): TypedContractMethod<
+    [dataId: BigNumberish],
+    [
+      [bigint, bigint, boolean] & {
+        tenantUsage: bigint;
+        systemLoad: bigint;
+        isRevealed: boolean;
+      }
+    ],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "getDecryptionStatus"
+  ): TypedContractMethod<
+    [dataId: BigNumberish],
+    [
+      [bigint, bigint, bigint, bigint] & {
+        status: bigint;
+        requestId: bigint;
+        requestedAt: bigint;
+        attempts: bigint;
+      }
+    ],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "getEncryptedLoadSum"
+  ): TypedContractMethod<[systemKey: string], [string], "view">;
+  getFunction(
+    nameOrSignature: "getEpochLoadSum"
+  ): TypedContractMethod<
+    [epochId: BigNumberish, systemKey: string],
+    [string],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "getEpochTenantUsage"
+  ): TypedContractMethod<
+    [epochId: BigNumberish, tenant: AddressLike],
+    [string],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "getEpochTotal"
+  ): TypedContractMethod<
+    [epochId: BigNumberish, systemKey: string],
+    [[bigint, boolean] & { sum: bigint; isRevealed: boolean }],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "getLoadSumReveal"
+  ): TypedContractMethod<
+    [systemKey: string, epoch: BigNumberish],
+    [[bigint, bigint] & { sum: bigint; revealedAt: bigint }],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "getLoadSumRevealCount"
+  ): TypedContractMethod<[systemKey: string], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "getLoadSumRevealWindow"
+  ): TypedContractMethod<
+    [systemKey: string],
+    [[bigint, bigint] & { readings: bigint; tenants: bigint }],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "getRevealedLoadSum"
+  ): TypedContractMethod<
+    [systemKey: string],
+    [
+      [bigint, bigint, bigint] & {
+        sum: bigint;
+        revealedAt: bigint;
+        epoch: bigint;
+      }
+    ],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "getSavingsCredit"
+  ): TypedContractMethod<
+    [tenant: AddressLike],
+    [
+      [string, string, bigint] & {
+        lastCredit: string;
+        totalCredits: string;
+        computedAt: bigint;
+      }
+    ],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "getSavingsPeriod"
+  ): TypedContractMethod<
+    [periodId: BigNumberish],
+    [
+      [bigint, bigint, bigint, bigint, bigint, bigint, string[], bigint] & {
+        periodStart: bigint;
+        periodEnd: bigint;
+        baselineKwh: bigint;
+        actualKwh: bigint;
+        method: bigint;
+        recordedAt: bigint;
+        tenants: string[];
+        check: bigint;
+      }
+    ],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "getSavingsPeriodCount"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "getSystems"
+  ): TypedContractMethod<[], [string[]], "view">;
+  getFunction(
+    nameOrSignature: "getTariff"
+  ): TypedContractMethod<
+    [tariffId: BigNumberish],
+    [
+      [string, bigint, bigint] & {
+        config: string;
+        effectiveFrom: bigint;
+        publishedAt: bigint;
+      }
+    ],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "getTariffCount"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "getTenantSavings"
+  ): TypedContractMethod<
+    [periodId: BigNumberish, tenant: AddressLike],
+    [[string, boolean] & { savingsWh: string; allocated: boolean }],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "isSystemRegistered"
+  ): TypedContractMethod<[systemKey: string], [boolean], "view">;
+  getFunction(
+    nameOrSignature: "owner"
+  ): TypedContractMethod<[], [string], "view">;
+  getFunction(
+    nameOrSignature: "protocolId"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "publishTariff"
+  ): TypedContractMethod<
+    [config: string, effectiveFrom: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "recordSavingsAllocation"
+  ): TypedContractMethod<
+    [
+      periodStart: BigNumberish,
+      periodEnd: BigNumberish,
+      baselineKwh: BigNumberish,
+      actualKwh: BigNumberish,
+      method: BigNumberish,
+      tenants: AddressLike[],
+      savingsInputs: BytesLike[],
+      inputProof: BytesLike
+    ],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "registerSystem"
+  ): TypedContractMethod<[systemKey: string], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "requestEnergyDataDecryption"
+  ): TypedContractMethod<[dataId: BigNumberish], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "requestEpochTotalDecryption"
+  ): TypedContractMethod<
+    [epochId: BigNumberish, systemKey: string],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "requestLoadSumDecryption"
+  ): TypedContractMethod<[systemKey: string], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "requestSavingsCheck"
+  ): TypedContractMethod<[periodId: BigNumberish], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "setBillingEpochDuration"
+  ): TypedContractMethod<[duration: BigNumberish], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "setBuildingManager"
+  ): TypedContractMethod<[manager: AddressLike], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "setVerifier"
+  ): TypedContractMethod<[newVerifier: AddressLike], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "startCreditPeriod"
+  ): TypedContractMethod<
+    [tenant: AddressLike, baselineInput: BytesLike, inputProof: BytesLike],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "submitEncryptedEnergyData"
+  ): TypedContractMethod<
+    [
+      systemKey: string,
+      tenantUsageInput: BytesLike,
+      timestampInput: BytesLike,
+      systemLoadInput: BytesLike,
+      inputProof: BytesLike
+    ],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "submitEncryptedEnergyDataBatch"
+  ): TypedContractMethod<
+    [
+      systemKey: string,
+      tenantUsageInputs: BytesLike[],
+      timestampInputs: BytesLike[],
+      systemLoadInputs: BytesLike[],
+      inputProof: BytesLike
+    ],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "verifier"
+  ): TypedContractMethod<[], [string], "view">;
+
+  getEvent(
+    key: "BillingEpochClosed"
+  ): TypedContractEvent<
+    BillingEpochClosedEvent.InputTuple,
+    BillingEpochClosedEvent.OutputTuple,
+    BillingEpochClosedEvent.OutputObject
+  >;
+  getEvent(
+    key: "BillingEpochDurationUpdated"
+  ): TypedContractEvent<
+    BillingEpochDurationUpdatedEvent.InputTuple,
+    BillingEpochDurationUpdatedEvent.OutputTuple,
+    BillingEpochDurationUpdatedEvent.OutputObject
+  >;
+  getEvent(
+    key: "BillingEpochStarted"
+  ): TypedContractEvent<
+    BillingEpochStartedEvent.InputTuple,
+    BillingEpochStartedEvent.OutputTuple,
+    BillingEpochStartedEvent.OutputObject
+  >;
+  getEvent(
+    key: "BuildingManagerUpdated"
+  ): TypedContractEvent<
+    BuildingManagerUpdatedEvent.InputTuple,
+    BuildingManagerUpdatedEvent.OutputTuple,
+    BuildingManagerUpdatedEvent.OutputObject
+  >;
+  getEvent(
+    key: "CreditPeriodStarted"
+  ): TypedContractEvent<
+    CreditPeriodStartedEvent.InputTuple,
+    CreditPeriodStartedEvent.OutputTuple,
+    CreditPeriodStartedEvent.OutputObject
+  >;
+  getEvent(
+    key: "DecryptionFulfilled"
+  ): TypedContractEvent<
+    DecryptionFulfilledEvent.InputTuple,
+    DecryptionFulfilledEvent.OutputTuple,
+    DecryptionFulfilledEvent.OutputObject
+  >;
+  getEvent(
+    key: "DecryptionRequested"
+  ): TypedContractEvent<
+    DecryptionRequestedEvent.InputTuple,
+    DecryptionRequestedEvent.OutputTuple,
+    DecryptionRequestedEvent.OutputObject
+  >;
+  getEvent(
+    key: "EnergyDataBatchSubmitted"
+  ): TypedContractEvent<
+    EnergyDataBatchSubmittedEvent.InputTuple,
+    EnergyDataBatchSubmittedEvent.OutputTuple,
+    EnergyDataBatchSubmittedEvent.OutputObject
+  >;
+  getEvent(
+    key: "EnergyDataDecrypted"
+  ): TypedContractEvent<
+    EnergyDataDecryptedEvent.InputTuple,
+    EnergyDataDecryptedEvent.OutputTuple,
+    EnergyDataDecryptedEvent.OutputObject
+  >;
+  getEvent(
+    key: "EnergyDataSubmitted"
+  ): TypedContractEvent<
+    EnergyDataSubmittedEvent.InputTuple,
+    EnergyDataSubmittedEvent.OutputTuple,
+    EnergyDataSubmittedEvent.OutputObject
+  >;
+  getEvent(
+    key: "EpochTotalDecryptionRequested"
+  ): TypedContractEvent<
+    EpochTotalDecryptionRequestedEvent.InputTuple,
+    EpochTotalDecryptionRequestedEvent.OutputTuple,
+    EpochTotalDecryptionRequestedEvent.OutputObject
+  >;
+  getEvent(
+    key: "EpochTotalRevealed"
+  ): TypedContractEvent<
+    EpochTotalRevealedEvent.InputTuple,
+    EpochTotalRevealedEvent.OutputTuple,
+    EpochTotalRevealedEvent.OutputObject
+  >;
+  getEvent(
+    key: "LoadSumDecryptionRequested"
+  ): TypedContractEvent<
+    LoadSumDecryptionRequestedEvent.InputTuple,
+    LoadSumDecryptionRequestedEvent.OutputTuple,
+    LoadSumDecryptionRequestedEvent.OutputObject
+  >;
+  getEvent(
+    key: "LoadSumRevealed"
+  ): TypedContractEvent<
+    LoadSumRevealedEvent.InputTuple,
+    LoadSumRevealedEvent.OutputTuple,
+    LoadSumRevealedEvent.OutputObject
+  >;
+  getEvent(
+    key: "ReadingAttested"
+  ): TypedContractEvent<
+    ReadingAttestedEvent.InputTuple,
+    ReadingAttestedEvent.OutputTuple,
+    ReadingAttestedEvent.OutputObject
+  >;
+  getEvent(
+    key: "ReadingDisputed"
+  ): TypedContractEvent<
+    ReadingDisputedEvent.InputTuple,
+    ReadingDisputedEvent.OutputTuple,
+    ReadingDisputedEvent.OutputObject
+  >;
+  getEvent(
+    key: "SavingsAllocated"
+  ): TypedContractEvent<
+    SavingsAllocatedEvent.InputTuple,
+    SavingsAllocatedEvent.OutputTuple,
+    SavingsAllocatedEvent.OutputObject
+  >;
+  getEvent(
+    key: "SavingsAllocationChecked"
+  ): TypedContractEvent<
+    SavingsAllocationCheckedEvent.InputTuple,
+    SavingsAllocationCheckedEvent.OutputTuple,
+    SavingsAllocationCheckedEvent.OutputObject
+  >;
+  getEvent(
+    key: "SavingsCheckRequested"
+  ): TypedContractEvent<
+    SavingsCheckRequestedEvent.InputTuple,
+    SavingsCheckRequestedEvent.OutputTuple,
+    SavingsCheckRequestedEvent.OutputObject
+  >;
+  getEvent(
+    key: "SavingsCreditComputed"
+  ): TypedContractEvent<
+    SavingsCreditComputedEvent.InputTuple,
+    SavingsCreditComputedEvent.OutputTuple,
+    SavingsCreditComputedEvent.OutputObject
+  >;
+  getEvent(
+    key: "SystemRegistered"
+  ): TypedContractEvent<
+    SystemRegisteredEvent.InputTuple,
+    SystemRegisteredEvent.OutputTuple,
+    SystemRegisteredEvent.OutputObject
+  >;
+  getEvent(
+    key: "TariffPublished"
+  ): TypedContractEvent<
+    TariffPublishedEvent.InputTuple,
+    TariffPublishedEvent.OutputTuple,
+    TariffPublishedEvent.OutputObject
+  >;
+  getEvent(
+    key: "TenantSavingsAllocated"
+  ): TypedContractEvent<
+    TenantSavingsAllocatedEvent.InputTuple,
+    TenantSavingsAllocatedEvent.OutputTuple,
+    TenantSavingsAllocatedEvent.OutputObject
+  >;
+  getEvent(
+    key: "VerifierUpdated"
+  ): TypedContractEvent<
+    VerifierUpdatedEvent.InputTuple,
+    VerifierUpdatedEvent.OutputTuple,
+    VerifierUpdatedEvent.OutputObject
+  >;
+
+  filters: {
+    "BillingEpochClosed(uint256,uint256,uint256)": TypedContractEvent<
+      BillingEpochClosedEvent.InputTuple,
+      BillingEpochClosedEvent.OutputTuple,
+      BillingEpochClosedEvent.OutputObject
+    >;
+    BillingEpochClosed: TypedContractEvent<
+      BillingEpochClosedEvent.InputTuple,
+      BillingEpochClosedEvent.OutputTuple,
+      BillingEpochClosedEvent.OutputObject
+    >;
+
+    "BillingEpochDurationUpdated(uint256)": TypedContractEvent<
+      BillingEpochDurationUpdatedEvent.InputTuple,
+      BillingEpochDurationUpdatedEvent.OutputTuple,
+      BillingEpochDurationUpdatedEvent.OutputObject
+    >;
+    BillingEpochDurationUpdated: TypedContractEvent<
+      BillingEpochDurationUpdatedEvent.InputTuple,
+      BillingEpochDurationUpdatedEvent.OutputTuple,
+      BillingEpochDurationUpdatedEvent.OutputObject
+    >;
+
+    "BillingEpochStarted(uint256,uint256)": TypedContractEvent<
+      BillingEpochStartedEvent.InputTuple,
+      BillingEpochStartedEvent.OutputTuple,
+      BillingEpochStartedEvent.OutputObject
+    >;
+    BillingEpochStarted: TypedContractEvent<
+      BillingEpochStartedEvent.InputTuple,
+      BillingEpochStartedEvent.OutputTuple,
+      BillingEpochStartedEvent.OutputObject
+    >;
+
+    "BuildingManagerUpdated(address)": TypedContractEvent<
+      BuildingManagerUpdatedEvent.InputTuple,
+      BuildingManagerUpdatedEvent.OutputTuple,
+      BuildingManagerUpdatedEvent.OutputObject
+    >;
+    BuildingManagerUpdated: TypedContractEvent<
+      BuildingManagerUpdatedEvent.InputTuple,
+      BuildingManagerUpdatedEvent.OutputTuple,
+      BuildingManagerUpdatedEvent.OutputObject
+    >;
+
+    "CreditPeriodStarted(address,uint256)": TypedContractEvent<
+      CreditPeriodStartedEvent.InputTuple,
+      CreditPeriodStartedEvent.OutputTuple,
+      CreditPeriodStartedEvent.OutputObject
+    >;
+    CreditPeriodStarted: TypedContractEvent<
+      CreditPeriodStartedEvent.InputTuple,
+      CreditPeriodStartedEvent.OutputTuple,
+      CreditPeriodStartedEvent.OutputObject
+    >;
+
+    "DecryptionFulfilled(uint256)": TypedContractEvent<
+      DecryptionFulfilledEvent.InputTuple,
+      DecryptionFulfilledEvent.OutputTuple,
+      DecryptionFulfilledEvent.OutputObject
+    >;
+    DecryptionFulfilled: TypedContractEvent<
+      DecryptionFulfilledEvent.InputTuple,
+      DecryptionFulfilledEvent.OutputTuple,
+      DecryptionFulfilledEvent.OutputObject
+    >;
+
+    "DecryptionRequested(uint256,uint256)": TypedContractEvent<
+      DecryptionRequestedEvent.InputTuple,
+      DecryptionRequestedEvent.OutputTuple,
+      DecryptionRequestedEvent.OutputObject
+    >;
+    DecryptionRequested: TypedContractEvent<
+      DecryptionRequestedEvent.InputTuple,
+      DecryptionRequestedEvent.OutputTuple,
+      DecryptionRequestedEvent.OutputObject
+    >;
+
+    "EnergyDataBatchSubmitted(address,string,uint256,uint256,uint256)": TypedContractEvent<
+      EnergyDataBatchSubmittedEvent.InputTuple,
+      EnergyDataBatchSubmittedEvent.OutputTuple,
+      EnergyDataBatchSubmittedEvent.OutputObject
+    >;
+    EnergyDataBatchSubmitted: TypedContractEvent<
+      EnergyDataBatchSubmittedEvent.InputTuple,
+      EnergyDataBatchSubmittedEvent.OutputTuple,
+      EnergyDataBatchSubmittedEvent.OutputObject
+    >;
+
+    "EnergyDataDecrypted(uint256,uint256)": TypedContractEvent<
+      EnergyDataDecryptedEvent.InputTuple,
+      EnergyDataDecryptedEvent.OutputTuple,
+      EnergyDataDecryptedEvent.OutputObject
+    >;
+    EnergyDataDecrypted: TypedContractEvent<
+      EnergyDataDecryptedEvent.InputTuple,
+      EnergyDataDecryptedEvent.OutputTuple,
+      EnergyDataDecryptedEvent.OutputObject
+    >;
+
+    "EnergyDataSubmitted(uint256,address,string,uint256)": TypedContractEvent<
+      EnergyDataSubmittedEvent.InputTuple,
+      EnergyDataSubmittedEvent.OutputTuple,
+      EnergyDataSubmittedEvent.OutputObject
+    >;
+    EnergyDataSubmitted: TypedContractEvent<
+      EnergyDataSubmittedEvent.InputTuple,
+      EnergyDataSubmittedEvent.OutputTuple,
+      EnergyDataSubmittedEvent.OutputObject
+    >;
+
+    "EpochTotalDecryptionRequested(uint256,string,uint256)": TypedContractEvent<
+      EpochTotalDecryptionRequestedEvent.InputTuple,
+      EpochTotalDecryptionRequestedEvent.OutputTuple,
+      EpochTotalDecryptionRequestedEvent.OutputObject
+    >;
+    EpochTotalDecryptionRequested: TypedContractEvent<
+      EpochTotalDecryptionRequestedEvent.InputTuple,
+      EpochTotalDecryptionRequestedEvent.OutputTuple,
+      EpochTotalDecryptionRequestedEvent.OutputObject
+    >;
+
+    "EpochTotalRevealed(uint256,string,uint32)": TypedContractEvent<
+      EpochTotalRevealedEvent.InputTuple,
+      EpochTotalRevealedEvent.OutputTuple,
+      EpochTotalRevealedEvent.OutputObject
+    >;
+    EpochTotalRevealed: TypedContractEvent<
+      EpochTotalRevealedEvent.InputTuple,
+      EpochTotalRevealedEvent.OutputTuple,
+      EpochTotalRevealedEvent.OutputObject
+    >;
+
+    "LoadSumDecryptionRequested(string,uint256)": TypedContractEvent<
+      LoadSumDecryptionRequestedEvent.InputTuple,
+      LoadSumDecryptionRequestedEvent.OutputTuple,
+      LoadSumDecryptionRequestedEvent.OutputObject
+    >;
+    LoadSumDecryptionRequested: TypedContractEvent<
+      LoadSumDecryptionRequestedEvent.InputTuple,
+      LoadSumDecryptionRequestedEvent.OutputTuple,
+      LoadSumDecryptionRequestedEvent.OutputObject
+    >;
+
+    "LoadSumRevealed(string,uint256,uint32,uint256)": TypedContractEvent<
+      LoadSumRevealedEvent.InputTuple,
+      LoadSumRevealedEvent.OutputTuple,
+      LoadSumRevealedEvent.OutputObject
+    >;
+    LoadSumRevealed: TypedContractEvent<
+      LoadSumRevealedEvent.InputTuple,
+      LoadSumRevealedEvent.OutputTuple,
+      LoadSumRevealedEvent.OutputObject
+    >;
+
+    "ReadingAttested(uint256,address,uint16)": TypedContractEvent<
+      ReadingAttestedEvent.InputTuple,
+      ReadingAttestedEvent.OutputTuple,
+      ReadingAttestedEvent.OutputObject
+    >;
+    ReadingAttested: TypedContractEvent<
+      ReadingAttestedEvent.InputTuple,
+      ReadingAttestedEvent.OutputTuple,
+      ReadingAttestedEvent.OutputObject
+    >;
+
+    "ReadingDisputed(uint256,address,uint16)": TypedContractEvent<
+      ReadingDisputedEvent.InputTuple,
+      ReadingDisputedEvent.OutputTuple,
+      ReadingDisputedEvent.OutputObject
+    >;
+    ReadingDisputed: TypedContractEvent<
+      ReadingDisputedEvent.InputTuple,
+      ReadingDisputedEvent.OutputTuple,
+      ReadingDisputedEvent.OutputObject
+    >;
+
+    "SavingsAllocated(uint256,uint64,uint64,uint32,uint8)": TypedContractEvent<
+      SavingsAllocatedEvent.InputTuple,
+      SavingsAllocatedEvent.OutputTuple,
+      SavingsAllocatedEvent.OutputObject
+    >;
+    SavingsAllocated: TypedContractEvent<
+      SavingsAllocatedEvent.InputTuple,
+      SavingsAllocatedEvent.OutputTuple,
+      SavingsAllocatedEvent.OutputObject
+    >;
+
+    "SavingsAllocationChecked(uint256,bool)": TypedContractEvent<
+      SavingsAllocationCheckedEvent.InputTuple,
+      SavingsAllocationCheckedEvent.OutputTuple,
+      SavingsAllocationCheckedEvent.OutputObject
+    >;
+    SavingsAllocationChecked: TypedContractEvent<
+      SavingsAllocationCheckedEvent.InputTuple,
+      SavingsAllocationCheckedEvent.OutputTuple,
+      SavingsAllocationCheckedEvent.OutputObject
+    >;
+
+    "SavingsCheckRequested(uint256,uint256)": TypedContractEvent<
+      SavingsCheckRequestedEvent.InputTuple,
+      SavingsCheckRequestedEvent.OutputTuple,
+      SavingsCheckRequestedEvent.OutputObject
+    >;
+    SavingsCheckRequested: TypedContractEvent<
+      SavingsCheckRequestedEvent.InputTuple,
+      SavingsCheckRequestedEvent.OutputTuple,
+      SavingsCheckRequestedEvent.OutputObject
+    >;
+
+    "SavingsCreditComputed(address,uint256,uint256)": TypedContractEvent<
+      SavingsCreditComputedEvent.InputTuple,
+      SavingsCreditComputedEvent.OutputTuple,
+      SavingsCreditComputedEvent.OutputObject
+    >;
+    SavingsCreditComputed: TypedContractEvent<
+      SavingsCreditComputedEvent.InputTuple,
+      SavingsCreditComputedEvent.OutputTuple,
+      SavingsCreditComputedEvent.OutputObject
+    >;
+
+    "SystemRegistered(string)": TypedContractEvent<
+      SystemRegisteredEvent.InputTuple,
+      SystemRegisteredEvent.OutputTuple,
+      SystemRegisteredEvent.OutputObject
+    >;
+    SystemRegistered: TypedContractEvent<
+      SystemRegisteredEvent.InputTuple,
+      SystemRegisteredEvent.OutputTuple,
+      SystemRegisteredEvent.OutputObject
+    >;
+
+    "TariffPublished(uint256,uint64)": TypedContractEvent<
+      TariffPublishedEvent.InputTuple,
+      TariffPublishedEvent.OutputTuple,
+      TariffPublishedEvent.OutputObject
+    >;
+    TariffPublished: TypedContractEvent<
+      TariffPublishedEvent.InputTuple,
+      TariffPublishedEvent.OutputTuple,
+      TariffPublishedEvent.OutputObject
+    >;
+
+    "TenantSavingsAllocated(uint256,address)": TypedContractEvent<
+      TenantSavingsAllocatedEvent.InputTuple,
+      TenantSavingsAllocatedEvent.OutputTuple,
+      TenantSavingsAllocatedEvent.OutputObject
+    >;
+    TenantSavingsAllocated: TypedContractEvent<
+      TenantSavingsAllocatedEvent.InputTuple,
+      TenantSavingsAllocatedEvent.OutputTuple,
+      TenantSavingsAllocatedEvent.OutputObject
+    >;
+
+    "VerifierUpdated(address)": TypedContractEvent<
+      VerifierUpdatedEvent.InputTuple,
+      VerifierUpdatedEvent.OutputTuple,
+      VerifierUpdatedEvent.OutputObject
+    >;
+    VerifierUpdated: TypedContractEvent<
+      VerifierUpdatedEvent.InputTuple,
+      VerifierUpdatedEvent.OutputTuple,
+      VerifierUpdatedEvent.OutputObject
+    >;
+  };
+}
@@ -1,5 +1,4 @@
 /* Autogenerated file. Do not edit manually. */
 /* tslint:disable */
 /* eslint-disable */
-export type { UniversalAdapter } from "./UniversalAdapter";
-export type { VeterinaryFHERecordNetwork } from "./VeterinaryFHERecordNetwork";
+export type { SmartBuildingEnergyFHE } from "./SmartBuildingEnergyFHE";
@@ -0,0 +1,1849 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+import {
+  Contract,
+  ContractFactory,
+  ContractTransactionResponse,
+  Interface,
+} from "ethers";
+import type { Signer, ContractDeployTransaction, ContractRunner } from "ethers";
+import type { NonPayableOverrides } from "../../common";
+import type {
+  SmartBuildingEnergyFHE,
+  SmartBuildingEnergyFHEInterface,
+} from "../../contracts/SmartBuildingEnergyFHE";
+
+const _abi = [
+  {
+    inputs: [],
+    stateMutability: "nonpayable",
+    type: "constructor",
+  },
+  {
+    inputs: [],
+    name: "HandlesAlreadySavedForRequestID",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "InvalidKMSSignatures",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "NoHandleFoundForRequestID",
+    type: "error",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "epochId",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "startedAt",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "closedAt",
+        type: "uint256",
+      },
+    ],
+    name: "BillingEpochClosed",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "duration",
+        type: "uint256",
+      },
+    ],
+    name: "BillingEpochDurationUpdated",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "epochId",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "startedAt",
+        type: "uint256",
+      },
+    ],
+    name: "BillingEpochStarted",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "manager",
+        type: "address",
+      },
+    ],
+    name: "BuildingManagerUpdated",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "tenant",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "startedAt",
+        type: "uint256",
+      },
+    ],
+    name: "CreditPeriodStarted",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "requestID",
+        type: "uint256",
+      },
+    ],
+    name: "DecryptionFulfilled",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "id",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "requestId",
+        type: "uint256",
+      },
+    ],
+    name: "DecryptionRequested",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "tenant",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "string",
+        name: "systemKey",
+        type: "string",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "firstId",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "lastId",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "timestamp",
+        type: "uint256",
+      },
+    ],
+    name: "EnergyDataBatchSubmitted",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "id",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "requestId",
+        type: "uint256",
+      },
+    ],
+    name: "EnergyDataDecrypted",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "id",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "tenant",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "string",
+        name: "systemKey",
+        type: "string",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "timestamp",
+        type: "uint256",
+      },
+    ],
+    name: "EnergyDataSubmitted",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "epochId",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "string",
+        name: "systemKey",
+        type: "string",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "requestId",
+        type: "uint256",
+      },
+    ],
+    name: "EpochTotalDecryptionRequested",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "epochId",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "string",
+        name: "systemKey",
+        type: "string",
+      },
+      {
+        indexed: false,
+        internalType: "uint32",
+        name: "sum",
+        type: "uint32",
+      },
+    ],
+    name: "EpochTotalRevealed",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: false,
+        internalType: "string",
+        name: "systemKey",
+        type: "string",
+      },
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "requestId",
+        type: "uint256",
+      },
+    ],
+    name: "LoadSumDecryptionRequested",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: false,
+        internalType: "string",
+        name: "systemKey",
+        type: "string",
+      },
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "epoch",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint32",
+        name: "sum",
+        type: "uint32",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "revealedAt",
+        type: "uint256",
+      },
+    ],
+    name: "LoadSumRevealed",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "id",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "verifier",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "uint16",
+        name: "reasonCode",
+        type: "uint16",
+      },
+    ],
+    name: "ReadingAttested",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "id",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "verifier",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "uint16",
+        name: "reasonCode",
+        type: "uint16",
+      },
+    ],
+    name: "ReadingDisputed",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "periodId",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint64",
+        name: "periodStart",
+        type: "uint64",
+      },
+      {
+        indexed: false,
+        internalType: "uint64",
+        name: "periodEnd",
+        type: "uint64",
+      },
+      {
+        indexed: false,
+        internalType: "uint32",
+        name: "savingsKwh",
+        type: "uint32",
+      },
+      {
+        indexed: false,
+        internalType: "enum SmartBuildingEnergyFHE.AllocationMethod",
+        name: "method",
+        type: "uint8",
+      },
+    ],
+    name: "SavingsAllocated",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "periodId",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "bool",
+        name: "sharesMatch",
+        type: "bool",
+      },
+    ],
+    name: "SavingsAllocationChecked",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "periodId",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "requestId",
+        type: "uint256",
+      },
+    ],
+    name: "SavingsCheckRequested",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "tenant",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "periodStart",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "computedAt",
+        type: "uint256",
+      },
+    ],
+    name: "SavingsCreditComputed",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: false,
+        internalType: "string",
+        name: "systemKey",
+        type: "string",
+      },
+    ],
+    name: "SystemRegistered",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "tariffId",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint64",
+        name: "effectiveFrom",
+        type: "uint64",
+      },
+    ],
+    name: "TariffPublished",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "periodId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "tenant",
+        type: "address",
+      },
+    ],
+    name: "TenantSavingsAllocated",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "verifier",
+        type: "address",
+      },
+    ],
+    name: "VerifierUpdated",
+    type: "event",
+  },
+  {
+    inputs: [],
+    name: "DECRYPTION_RETRY_DELAY",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "DEFAULT_BILLING_EPOCH_DURATION",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "MAX_ALLOCATION_TENANTS",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "MAX_BATCH_SIZE",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "MIN_LOAD_SUM_REVEAL_READINGS",
+    outputs: [
+      {
+        internalType: "uint32",
+        name: "",
+        type: "uint32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "MIN_LOAD_SUM_REVEAL_TENANTS",
+    outputs: [
+      {
+        internalType: "uint32",
+        name: "",
+        type: "uint32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "dataId",
+        type: "uint256",
+      },
+      {
+        internalType: "uint16",
+        name: "reasonCode",
+        type: "uint16",
+      },
+    ],
+    name: "attestReading",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "billingEpochDuration",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "buildingManager",
+    outputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "requestId",
+        type: "uint256",
+      },
+      {
+        internalType: "bytes",
+        name: "cleartexts",
+        type: "bytes",
+      },
+      {
+        internalType: "bytes",
+        name: "proof",
+        type: "bytes",
+      },
+    ],
+    name: "checkSavingsAllocation",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "closeBillingEpoch",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "tenant",
+        type: "address",
+      },
+    ],
+    name: "closeCreditPeriod",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "currentBillingEpoch",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "dataCount",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "requestId",
+        type: "uint256",
+      },
+      {
+        internalType: "bytes",
+        name: "cleartexts",
+        type: "bytes",
+      },
+      {
+        internalType: "bytes",
+        name: "proof",
+        type: "bytes",
+      },
+    ],
+    name: "decryptEnergyData",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "requestId",
+        type: "uint256",
+      },
+      {
+        internalType: "bytes",
+        name: "cleartexts",
+        type: "bytes",
+      },
+      {
+        internalType: "bytes",
+        name: "proof",
+        type: "bytes",
+      },
+    ],
+    name: "decryptEpochTotal",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "requestId",
+        type: "uint256",
+      },
+      {
+        internalType: "bytes",
+        name: "cleartexts",
+        type: "bytes",
+      },
+      {
+        internalType: "bytes",
+        name: "proof",
+        type: "bytes",
+      },
+    ],
+    name: "decryptLoadSum",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    name: "decryptedData",
+    outputs: [
+      {
+        internalType: "uint32",
+        name: "tenantUsage",
+        type: "uint32",
+      },
+      {
+        internalType: "uint32",
+        name: "systemLoad",
+        type: "uint32",
+      },
+      {
+        internalType: "bool",
+        name: "isRevealed",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "dataId",
+        type: "uint256",
+      },
+      {
+        internalType: "uint16",
+        name: "reasonCode",
+        type: "uint16",
+      },
+    ],
+    name: "disputeReading",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    name: "encryptedData",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "id",
+        type: "uint256",
+      },
+      {
+        internalType: "address",
+        name: "tenant",
+        type: "address",
+      },
+      {
+        internalType: "string",
+        name: "systemKey",
+        type: "string",
+      },
+      {
+        internalType: "euint32",
+        name: "encryptedTenantUsage",
+        type: "bytes32",
+      },
+      {
+        internalType: "euint32",
+        name: "encryptedTimestamp",
+        type: "bytes32",
+      },
+      {
+        internalType: "euint32",
+        name: "encryptedSystemLoad",
+        type: "bytes32",
+      },
+      {
+        internalType: "uint256",
+        name: "timestamp",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "billingEpoch",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "dataId",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "index",
+        type: "uint256",
+      },
+    ],
+    name: "getAttestation",
+    outputs: [
+      {
+        internalType: "address",
+        name: "attestedBy",
+        type: "address",
+      },
+      {
+        internalType: "enum SmartBuildingEnergyFHE.AttestationVerdict",
+        name: "verdict",
+        type: "uint8",
+      },
+      {
+        internalType: "uint16",
+        name: "reasonCode",
+        type: "uint16",
+      },
+      {
+        internalType: "uint256",
+        name: "timestamp",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "dataId",
+        type: "uint256",
+      },
+    ],
+    name: "getAttestationCount",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "epochId",
+        type: "uint256",
+      },
+    ],
+    name: "getBillingEpoch",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "startedAt",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "closedAt",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "tenant",
+        type: "address",
+      },
+    ],
+    name: "getCreditPeriod",
+    outputs: [
+      {
+        internalType: "euint32",
+        name: "baseline",
+        type: "bytes32",
+      },
+      {
+        internalType: "euint64",
+        name: "usage",
+        type: "bytes32",
+      },
+      {
+        internalType: "uint256",
+        name: "startedAt",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "dataId",
+        type: "uint256",
+      },
+    ],
+    name: "getDecryptedEnergyData",
+    outputs: [
+      {
+        internalType: "uint32",
+        name: "tenantUsage",
+        type: "uint32",
+      },
+      {
+        internalType: "uint32",
+        name: "systemLoad",
+        type: "uint32",
+      },
+      {
+        internalType: "bool",
+        name: "isRevealed",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "dataId",
+        type: "uint256",
+      },
+    ],
+    name: "getDecryptionStatus",
+    outputs: [
+      {
+        internalType: "enum SmartBuildingEnergyFHE.DecryptionStatus",
+        name: "status",
+        type: "uint8",
+      },
+      {
+        internalType: "uint256",
+        name: "requestId",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "requestedAt",
+        type: "uint256",
+      },
+      {
+        internalType: "uint32",
+        name: "attempts",
+        type: "uint32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "string",
+        name: "systemKey",
+        type: "string",
+      },
+    ],
+    name: "getEncryptedLoadSum",
+    outputs: [
+      {
+        internalType: "euint32",
+        name: "",
+        type: "bytes32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "epochId",
+        type: "uint256",
+      },
+      {
+        internalType: "string",
+        name: "systemKey",
+        type: "string",
+      },
+    ],
+    name: "getEpochLoadSum",
+    outputs: [
+      {
+        internalType: "euint32",
+        name: "",
+        type: "bytes32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "epochId",
+        type: "uint256",
+      },
+      {
+        internalType: "address",
+        name: "tenant",
+        type: "address",
+      },
+    ],
+    name: "getEpochTenantUsage",
+    outputs: [
+      {
+        internalType: "euint32",
+        name: "",
+        type: "bytes32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "epochId",
+        type: "uint256",
+      },
+      {
+        internalType: "string",
+        name: "systemKey",
+        type: "string",
+      },
+    ],
+    name: "getEpochTotal",
+    outputs: [
+      {
+        internalType: "uint32",
+        name: "sum",
+        type: "uint32",
+      },
+      {
+        internalType: "bool",
+        name: "isRevealed",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "string",
+        name: "systemKey",
+        type: "string",
+      },
+      {
+        internalType: "uint256",
+        name: "epoch",
+        type: "uint256",
+      },
+    ],
+    name: "getLoadSumReveal",
+    outputs: [
+      {
+        internalType: "uint32",
+        name: "sum",
+        type: "uint32",
+      },
+      {
+        internalType: "uint256",
+        name: "revealedAt",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "string",
+        name: "systemKey",
+        type: "string",
+      },
+    ],
+    name: "getLoadSumRevealCount",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "string",
+        name: "systemKey",
+        type: "string",
+      },
+    ],
+    name: "getLoadSumRevealWindow",
+    outputs: [
+      {
+        internalType: "uint32",
+        name: "readings",
+        type: "uint32",
+      },
+      {
+        internalType: "uint32",
+        name: "tenants",
+        type: "uint32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "string",
+        name: "systemKey",
+        type: "string",
+      },
+    ],
+    name: "getRevealedLoadSum",
+    outputs: [
+      {
+        internalType: "uint32",
+        name: "sum",
+        type: "uint32",
+      },
+      {
+        internalType: "uint256",
+        name: "revealedAt",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "epoch",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "tenant",
+        type: "address",
+      },
+    ],
+    name: "getSavingsCredit",
+    outputs: [
+      {
+        internalType: "euint32",
+        name: "lastCredit",
+        type: "bytes32",
+      },
+      {
+        internalType: "euint32",
+        name: "totalCredits",
+        type: "bytes32",
+      },
+      {
+        internalType: "uint256",
+        name: "computedAt",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "periodId",
+        type: "uint256",
+      },
+    ],
+    name: "getSavingsPeriod",
+    outputs: [
+      {
+        internalType: "uint64",
+        name: "periodStart",
+        type: "uint64",
+      },
+      {
+        internalType: "uint64",
+        name: "periodEnd",
+        type: "uint64",
+      },
+      {
+        internalType: "uint32",
+        name: "baselineKwh",
+        type: "uint32",
+      },
+      {
+        internalType: "uint32",
+        name: "actualKwh",
+        type: "uint32",
+      },
+      {
+        internalType: "enum SmartBuildingEnergyFHE.AllocationMethod",
+        name: "method",
+        type: "uint8",
+      },
+      {
+        internalType: "uint256",
+        name: "recordedAt",
+        type: "uint256",
+      },
+      {
+        internalType: "address[]",
+        name: "tenants",
+        type: "address[]",
+      },
+      {
+        internalType: "enum SmartBuildingEnergyFHE.AllocationCheck",
+        name: "check",
+        type: "uint8",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "getSavingsPeriodCount",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "getSystems",
+    outputs: [
+      {
+        internalType: "string[]",
+        name: "",
+        type: "string[]",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "tariffId",
+        type: "uint256",
+      },
+    ],
+    name: "getTariff",
+    outputs: [
+      {
+        internalType: "string",
+        name: "config",
+        type: "string",
+      },
+      {
+        internalType: "uint64",
+        name: "effectiveFrom",
+        type: "uint64",
+      },
+      {
+        internalType: "uint256",
+        name: "publishedAt",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "getTariffCount",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "periodId",
+        type: "uint256",
+      },
+      {
+        internalType: "address",
+        name: "tenant",
+        type: "address",
+      },
+    ],
+    name: "getTenantSavings",
+    outputs: [
+      {
+        internalType: "euint64",
+        name: "savingsWh",
+        type: "bytes32",
+      },
+      {
+        internalType: "bool",
+        name: "allocated",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "string",
+        name: "systemKey",
+        type: "string",
+      },
+    ],
+    name: "isSystemRegistered",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "owner",
+    outputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "protocolId",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "pure",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "string",
+        name: "config",
+        type: "string",
+      },
+      {
+        internalType: "uint64",
+        name: "effectiveFrom",
+        type: "uint64",
+      },
+    ],
+    name: "publishTariff",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint64",
+        name: "periodStart",
+        type: "uint64",
+      },
+      {
+        internalType: "uint64",
+        name: "periodEnd",
+        type: "uint64",
+      },
+      {
+        internalType: "uint32",
+        name: "baselineKwh",
+        type: "uint32",
+      },
+      {
+        internalType: "uint32",
+        name: "actualKwh",
+        type: "uint32",
+      },
+      {
+        internalType: "enum SmartBuildingEnergyFHE.AllocationMethod",
+        name: "method",
+        type: "uint8",
+      },
+      {
+        internalType: "address[]",
+        name: "tenants",
+        type: "address[]",
+      },
+      {
+        internalType: "externalEuint64[]",
+        name: "savingsInputs",
+        type: "bytes32[]",
+      },
+      {
+        internalType: "bytes",
+        name: "inputProof",
+        type: "bytes",
+      },
+    ],
+    name: "recordSavingsAllocation",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "string",
+        name: "systemKey",
+        type: "string",
+      },
+    ],
+    name: "registerSystem",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "dataId",
+        type: "uint256",
+      },
+    ],
+    name: "requestEnergyDataDecryption",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "epochId",
+        type: "uint256",
+      },
+      {
+        internalType: "string",
+        name: "systemKey",
+        type: "string",
+      },
+    ],
+    name: "requestEpochTotalDecryption",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "string",
+        name: "systemKey",
+        type: "string",
+      },
+    ],
+    name: "requestLoadSumDecryption",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "periodId",
+        type: "uint256",
+      },
+    ],
+    name: "requestSavingsCheck",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "duration",
+        type: "uint256",
+      },
+    ],
+    name: "setBillingEpochDuration",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "manager",
+        type: "address",
+      },
+    ],
+    name: "setBuildingManager",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "newVerifier",
+        type: "address",
+      },
+    ],
+    name: "setVerifier",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "tenant",
+        type: "address",
+      },
+      {
+        internalType: "externalEuint32",
+        name: "baselineInput",
+        type: "bytes32",
+      },
+      {
+        internalType: "bytes",
+        name: "inputProof",
+        type: "bytes",
+      },
+    ],
+    name: "startCreditPeriod",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "string",
+        name: "systemKey",
+        type: "string",
+      },
+      {
+        internalType: "externalEuint32",
+        name: "tenantUsageInput",
+        type: "bytes32",
+      },
+      {
+        internalType: "externalEuint32",
+        name: "timestampInput",
+        type: "bytes32",
+      },
+      {
+        internalType: "externalEuint32",
+        name: "systemLoadInput",
+        type: "bytes32",
+      },
+      {
+        internalType: "bytes",
+        name: "inputProof",
+        type: "bytes",
+      },
+    ],
+    name: "submitEncryptedEnergyData",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "string",
+        name: "systemKey",
+        type: "string",
+      },
+      {
+        internalType: "externalEuint32[]",
+        name: "tenantUsageInputs",
+        type: "bytes32[]",
+      },
+      {
+        internalType: "externalEuint32[]",
+        name: "timestampInputs",
+        type: "bytes32[]",
+      },
+      {
+        internalType: "externalEuint32[]",
+        name: "systemLoadInputs",
+        type: "bytes32[]",
+      },
+      {
+        internalType: "bytes",
+        name: "inputProof",
+        type: "bytes",
+      },
+    ],
+    name: "submitEncryptedEnergyDataBatch",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "verifier",
+    outputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+] as const;
+
+const _bytecode =
+  "0x604060808152346200052b57620000156200052f565b5f81525f6060602092828482015282858201520152620000346200052f565b60607350157cffd6bbfa2dece204a89ec419c23ef5755d9182815273cd3ab3bd6bcc0c0bf3e27912a92043e817b1cf69808583015273a02cda4ca3a71d7c46997716f4283aa851c28812918287820152731364cbbf2cdf5032c47d8226a6f6fbd2afcdacac938491015260018060a01b0319937f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e464970090858254161790557f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e464970190848254161790557f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e464970290838254161790557f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e4649703908282541617905533815f5416175f556001903381835416178255337fddb22fe53dfba7160cf213ddc5e806baf401917548245801e0a536edcc10def25f80a233906002541617600255337fd24015cc99cc1700cafca3042840a1d8ac1e3964fd2e0e37ea29c654056ee3275f80a2620001bc6200054f565b90600e91600e8152838101926d63656e7472616c5f73797374656d60901b8452855190855f5b8281106200051857505050602e81600a600e60ff940152205416620004d457845184818351620002148183896200056f565b8101600a8152030190208260ff19825416179055600b5492680100000000000000009384811015620003bb5783810180600b55811015620003a757600b5f90815286902083519291016001600160401b038311620003bb578054928584811c94168015620004c9575b88851014620004b55783601f8a95116200045c575b5087601f8211600114620003db579181620002ee9594925f80516020620056a283398151915297945f91620003cf575b505f19600383901b1c191690881b1790555b8251938492898452518092818b860152858501906200056f565b601f01601f19168101030190a17fca281cacd226066bbfe32f515fad3e964259c2a8cf556b4bc41495bdf6ad1c878362278d00806010558651908152a1620003356200054f565b91428352838301905f8252600f5490811015620003bb5782810180600f55811015620003a757600f5f52845f2090831b0192518355519101557f84592659d3db45c3fa3ee9850d35d6e6c478be2ba613285ee543b0cc86cf9dba600f54918351428152a25161510f9081620005938239f35b634e487b7160e01b5f52603260045260245ffd5b634e487b7160e01b5f52604160045260245ffd5b90508401515f620002c2565b908691601f19821690845f528a5f20915f5b8c828210620004425750509183915f80516020620056a2833981519152999694620002ee999896941062000429575b5050811b019055620002d4565b8601515f1960f88460031b161c191690555f806200041c565b838b015185558e99508b96909401939283019201620003ed565b9091809394505f52875f20601f830160051c810191898410620004aa575b8a9594939291601f89920160051c01915b8281106200049b57505062000292565b5f81558b96508891016200048b565b90915081906200047a565b634e487b7160e01b5f52602260045260245ffd5b93607f16936200027d565b845162461bcd60e51b815260048101859052601960248201527f53797374656d20616c72656164792072656769737465726564000000000000006044820152606490fd5b81818601015181850152018690620001e2565b5f80fd5b60405190608082016001600160401b03811183821017620003bb57604052565b60408051919082016001600160401b03811183821017620003bb57604052565b5f5b838110620005815750505f910152565b81810151838201526020016200057156fe60806040526004361015610011575f80fd5b5f3560e01c806305caf5361461386e5780630d86ee5714612fdb5780631c1ec20f14612f8b5780631c31349714612f8b57806323f530c714612f7057806325dd96f314612f535780632a796f8014612f365780632b7ac3f314612f0e5780634697ea6914612ece57806347033e4714612b7a5780634fdeb95a14612b3157806351755c46146127ea57806352a5cfe7146126ab57806353009a9b1461268e5780635437988d146125e5578063585e50ab146125ce5780635da40c47146125b157806360e4c39314612589578063708d5b881461218957806379744276146121305780637a8867ce146120bf5780637b24c6711461207b57806380a75cbe14612064578063810726c014611f8d57806387b20c1514611f70578063882e9bc114611ed45780638c4ce1b614611eb85780638ceca0ff14611d925780638da5cb5b14611d6b57806392eb487414611bb35780639384cbba14611b985780639ae0427c146119f15780639c8450ed146118b35780639c8d52f2146117ce578063a05112fc14611736578063a29280b614611476578063a563ef2c146113ce578063b29d4ee7146111d0578063b44b91781461117d578063b88c3b801461112f578063bea81fa9146110a3578063bf26f66514611076578063c7523c2f1461105c578063c890a4cb14610eeb578063cfdbf25414610ed0578063d1379a1114610e73578063d2ea07b514610e56578063d40a1bc814610ab1578063da1f12ab14610a95578063dca633f914610a29578063e507615914610a10578063ee1967e314610952578063ef678ff6146108f6578063f8c304d414610791578063faf5d32e146106fa578063fc71113314610637578063fd08172e146102c55763ff1f94b514610297575f80fd5b346102c15760203660031901126102c1576004355f526018602052602060405f2054604051908152f35b5f80fd5b346102c1576020806003193601126102c1576102df613a75565b9060018060a01b036102f681600154163314613ccc565b80831690815f526014835260405f209060028201918254156105fa57600161031e825461500f565b91019081549080811591826105ea575b83156105da575b885f8051602061508383398151915294606488875416945f60405196879485936385362ee760e01b8552600485015260248401528160448401525af194851561051c5789925f966105a9575b50549092610599575b801561058b575b606486855416935f60405195869485936303056db360e31b8552600485015260248401528160448401525af1801561051c5787915f9161055c575b5060646103d7614f6a565b945f878654166040519788958694637702dcff60e01b86526004860152602485015260448401525af190811561051c5786925f92610527575b505f9360449154169160405194859384926307227b9160e21b84526004840152600460248401525af190811561051c575f916104ee575b50604083926104c26014977f086b94e25816f94df28ec543f392781b30ba257fd1d391d54cd84c8e848ad3d494865f52601589526104b782865f206104b160018201948554818115155f146104e75761049f91614bca565b86558083554260028401553090614e37565b54614e37565b6104b1308254614e37565b5481519081524286820152a25f52525f60026040822082815582600182015501555f80f35b905061049f565b90508381813d8311610515575b61050581836139a1565b810103126102c157516040610447565b503d6104fb565b6040513d5f823e3d90fd5b838195949293503d8311610555575b61054081836139a1565b810103126102c157915190918591905f610410565b503d610536565b82819392503d8311610584575b61057381836139a1565b810103126102c157869051896103cc565b503d610569565b50610594614f6a565b610391565b91506105a3614f6a565b9161038a565b8381949297503d83116105d3575b6105c181836139a1565b810103126102c157889151948b610381565b503d6105b7565b92506105e4614f6a565b92610335565b90506105f4614f6a565b9061032e565b60405162461bcd60e51b8152600481018690526015602482015274139bc81bdc195b8818dc99591a5d081c195c9a5bd9605a1b6044820152606490fd5b346102c15760403660031901126102c15760043560243590805f52601860205260405f20548210156106bd5760809161067a915f52601860205260405f20613cb3565b5080546001909101546040516001600160a01b03831681529161ffff9060a081901c60ff166106a881613c25565b602085015260a81c1660408301526060820152f35b60405162461bcd60e51b8152602060048201526015602482015274105d1d195cdd185d1a5bdb881b9bdd08199bdd5b99605a1b6044820152606490fd5b346102c15760203660031901126102c15760043561072260018060a01b035f5416331461405e565b8015610759576020817fca281cacd226066bbfe32f515fad3e964259c2a8cf556b4bc41495bdf6ad1c8792601055604051908152a1005b60405162461bcd60e51b815260206004820152601060248201526f24b73b30b634b210323ab930ba34b7b760811b6044820152606490fd5b346102c1576020806003193601126102c157600435801515806108ea575b6107b89061424d565b5f1981019081116108d6576107cc90613d10565b50908154916001600160401b039263ffffffff9260ff8260c01c169460019560018501549360ff6004600288019701541694604051928386895491828152019081995f52875f20908c5f5b8281106108ba57505050508461082e9103856139a1565b6040519861010093848b01968082168c528160401c16888c0152818160801c1660408c015260a01c1660608a015261086581613c25565b608089015260a088015260c087015251809152610120850193915f5b82811061089e578680878761089581613c07565b60e08301520390f35b83516001600160a01b0316865294810194928101928701610881565b83546001600160a01b03168552938a0193928101928101610817565b634e487b7160e01b5f52601160045260245ffd5b50600c548111156107af565b346102c15760203660031901126102c1576004356001600160401b0381116102c15761093f602061092c81933690600401613a07565b8160405193828580945193849201613ae7565b8101600681520301902054604051908152f35b346102c15760203660031901126102c15760043580151580610a04575b156109cc575f1981019081116108d65761098b6109bd91614380565b506001600160401b036001820154166109a8600283015492613b65565b91604051938493606085526060850190613b08565b91602084015260408301520390f35b60405162461bcd60e51b815260206004820152601060248201526f15185c9a5999881b9bdd08199bdd5b9960821b6044820152606490fd5b50600e5481111561096f565b346102c157610a27610a2136613aa1565b9161444c565b005b346102c15760203660031901126102c1576004356001600160401b0381116102c157610a726020610a606040933690600401613a07565b81845193828580945193849201613ae7565b810160088152030190205463ffffffff825191818116835260201c166020820152f35b346102c1575f3660031901126102c15760206040516127118152f35b346102c157610abf36613a25565b600180546001600160a01b0390610ad99082163314613ccc565b83151580610e4a575b610aeb90613c2f565b5f198481018581116108d657610b018491613c7b565b50015415610e0557845f526020926013845280610b2160405f2087613e2a565b610b3160ff8254881c1615613f8c565b0191825480158015610dec575b610b489150613fcc565b865f5260118552610b5c60405f2087613e2a565b5490610b69821515613e50565b60405191610b7683613958565b8383528683019087368337610b8a84613df3565b525f905f805160206150e383398151915293845497805f805160206150c38339815191525416803b156102c1575f6040518092637d6e912360e11b82528d6004830152818381610bdd602482018a614eb4565b03925af1801561051c57610dd9575b505f805160206150a38339815191525416803b15610dd557836040518092633263b83b60e01b82528b600483015260606024830152818381610c316064820189614eb4565b63585e50ab60e01b604483015203925af18015610dca57908491610db2575b508890525f80516020615063833981519152808a526040842054610da0578884528952604083209051916001600160401b038311610d8c57600160401b8311610d8c578154838355808410610d65575b5090835288832086845b848110610d535750505050508254918214610d3f575082610d369694927ff6772d6d8137356e7aa72b0cbb66f668e0a30bad4f33013c4920ff4f79da3388989694610d1f9301905560405190610cff82613958565b898252858201878152855f52601a875260405f2092518355519101613e8f565b429055604051938493604085526040850190613b08565b918301520390a2005b634e487b7160e01b81526011600452602490fd5b8b845194019381840155018790610caa565b82855287848c872092830192015b828110610d81575050610ca0565b5f8155018890610d73565b634e487b7160e01b84526041600452602484fd5b604051633f06d22b60e01b8152600490fd5b610dbb9061398e565b610dc657828c610c50565b8280fd5b6040513d86823e3d90fd5b8380fd5b610de491945061398e565b5f928c610bec565b5061012c81018091116108d657610b4890421015610b3e565b60405162461bcd60e51b815260206004820152601860248201527f42696c6c696e672065706f6368207374696c6c206f70656e00000000000000006044820152606490fd5b50600f54841115610ae2565b346102c1575f3660031901126102c1576020600e54604051908152f35b346102c15760203660031901126102c1576001600160a01b03610e94613a75565b165f52601560205260405f208054610ecc60026001840154930154604051938493846040919493926060820195825260208201520152565b0390f35b346102c1575f3660031901126102c157602060405160158152f35b346102c1575f3660031901126102c157600f545f1981018181116108d657610f1290613c7b565b505f546001600160a01b031633148015611045575b156110005760407f54d7379d470d2622df40d28d3b689d6a020aa3e7a61fb20e9ce567343233228d91426001820155548151908152426020820152a2604051610f6f81613958565b42815260208101905f8252600f54600160401b811015610fec57806001610f999201600f55613c7b565b929092610fd95760019151835551910155600f547f84592659d3db45c3fa3ee9850d35d6e6c478be2ba613285ee543b0cc86cf9dba6020604051428152a2005b634e487b7160e01b5f525f60045260245ffd5b634e487b7160e01b5f52604160045260245ffd5b60405162461bcd60e51b815260206004820152601b60248201527f42696c6c696e672065706f6368207374696c6c2072756e6e696e6700000000006044820152606490fd5b50805460105481018091116108d657421015610f27565b346102c1575f3660031901126102c1576020604051818152f35b346102c157602061109a61108936613a25565b905f526011835260405f2090613e2a565b54604051908152f35b346102c15760203660031901126102c15760805f6004355f52601760205260405f2090600560205260ff60405f205460401c165f1461111557506002905b80549063ffffffff6002600183015492015416916040519361110281613c07565b8452602084015260408301526060820152f35b9063ffffffff600282015416156110e157600191506110e1565b346102c15760203660031901126102c1576004356001600160401b0381116102c15760ff611167602061092c81943690600401613a07565b8101600a81520301902054166040519015158152f35b346102c15760203660031901126102c1576004356001600160401b0381116102c1576111b76111b26060923690600401613a07565b6143d2565b9063ffffffff6040519316835260208301526040820152f35b346102c1576111de36613a54565b6002546001600160a01b03929161ffff916111fc9085163314614022565b16918215611397578115158061138b575b1561135257815f5260046020523381600160405f200154161461130d57815f52601860205260405f206040519061124382613973565b33825260208201600181526040830186815260608401924284528054600160401b811015610fec5761127a91600182018155613cb3565b959095610fd9576001945116855492816001600160601b0360a01b8516178755516112a481613c25565b6112ad81613c25565b91516001600160b81b03199093161760a09190911b60ff60a01b161760a89190911b61ffff60a81b161783555191015560405191825233917ff5ee7bf8f362a7a91d7357132c94ccef64bf8ab4a55e1c5fbf38a2d8b1b42c2a90602090a3005b60405162461bcd60e51b815260206004820152601960248201527f43616e6e6f7420617474657374206f776e2072656164696e67000000000000006044820152606490fd5b60405162461bcd60e51b8152602060048201526011602482015270149958591a5b99c81b9bdd08199bdd5b99607a1b6044820152606490fd5b5060035482111561120d565b60405162461bcd60e51b815260206004820152600f60248201526e1499585cdbdb881c995c5d5a5c9959608a1b6044820152606490fd5b346102c15760203660031901126102c1576113e7613a75565b5f546001600160a01b039190611400908316331461405e565b16801561143f57600180546001600160a01b031916821790557fddb22fe53dfba7160cf213ddc5e806baf401917548245801e0a536edcc10def25f80a2005b60405162461bcd60e51b815260206004820152600f60248201526e24b73b30b634b21036b0b730b3b2b960891b6044820152606490fd5b346102c15760a03660031901126102c1576001600160401b036004358181116102c1576114a7903690600401613910565b6084359283116102c1576114c26114f8933690600401613910565b6040519491838587376114e860ff87868101600a81526020998a91030190205416613e50565b6064356044356024358688614a0f565b9190926115063683836139c2565b906040519180519287818184019561151f818389613ae7565b81016006815203019020541561170c575b611556856040518981855161154681838b613ae7565b8101600681520301902054614bca565b6040518881845161156881838a613ae7565b810160068152030190205561159a6040518881845161158881838a613ae7565b81016006815203019020543090614e37565b604051878183516115ac818389613ae7565b810160088152030190209485549563ffffffff966001888216018881116108d65788169063ffffffff1916178155604051898185516115ec81838b613ae7565b81016009815203019020335f52895260405f205490600181015495600187018097116108d6577fd9fb9a88f6ed2800c6028b70cab731cf1d49d8019e702e935b2d7297b98e0dbe988761168596611697998e96036116a5575b50505050505061165f8161165a3688876139c2565b614bf9565b6040519061166c82613958565b6001825288368184013761167f82613df3565b52614cab565b6040519260408452604084019161422d565b9342908201528033940390a3005b611701956116e0946116c292604051938492839251928391613ae7565b81016009815203019020335f528d5260405f205582548c1c1661400d565b67ffffffff0000000082549160201b169067ffffffff000000001916179055565b878980808080611645565b611714614fbd565b6040518881845161172681838a613ae7565b8101600681520301902055611530565b346102c15760203660031901126102c1576004355f52600460205260405f2080549060018060a01b036001820154169061177260028201613b65565b60038201549160048101546005820154906117b06007600685015494015494604051988998610100918a5260208a01528060408a0152880190613b08565b946060870152608086015260a085015260c084015260e08301520390f35b346102c1575f3660031901126102c157600b546117ea81613d49565b906117f860405192836139a1565b8082526020908183019081600b5f527f0175b7a638427703f0dbe7bb9bbf987a2551717b34e79f33b5b1008d1fa01db95f915b8383106118915750505050604051918083019381845251809452604083019360408160051b85010192915f955b8287106118655785850386f35b909192938280611881600193603f198a82030186528851613b08565b9601920196019592919092611858565b60018681926118a2859a999a613b65565b81520192019201919095949561182b565b346102c1576118c136613aa1565b90825f52602092601984526118ef6118db60405f20613b65565b936118e885511515614097565b8383614842565b5f526019835261190160405f206140d5565b82818051810103126102c15782611918910161411d565b6040518381845161192c8183858901613ae7565b810160078152030190209182549360018501948581116108d657604051906119538261393d565b63ffffffff80951691828152838101964288526040820192898452600160401b811015610fec57818a61198693556143b9565b929092610fd9577f33cbce9f97823f05084b8df575cc36d221cebba398d24685f6030cef63354185976119e297600293511663ffffffff1985541617845551600184015551910155604051938493606085526060850190613b08565b918301524260408301520390a2005b346102c15760403660031901126102c1576001600160401b036004358181116102c157611a22903690600401613910565b611a2d9291926138ca565b92611a4260018060a01b035f5416331461405e565b8115611b6257600e549081158015611b3c575b15611b0157611a729060405193611a6b8561393d565b36916139c2565b825282602083019416938481526040830191428352600160401b811015610fec57806001611aa39201600e55614380565b949094610fd957611ab76002945186613e8f565b600185019151166001600160401b0319825416179055519101557f9e8a99ff595325dff3c088d5f370ddf2c78c1649540ab2f282077ac921a77a526020600e5492604051908152a2005b60405162461bcd60e51b81526020600482015260136024820152722a30b934b3331037baba1037b31037b93232b960691b6044820152606490fd5b505f1982018281116108d6576001611b548692614380565b500154168486161015611a55565b60405162461bcd60e51b815260206004820152600e60248201526d24b73b30b634b2103a30b934b33360911b6044820152606490fd5b346102c1575f3660031901126102c157602060405160058152f35b346102c1576020806003193601126102c1576004356001600160401b0381116102c157611be4903690600401613a07565b611bf860018060a01b035f5416331461405e565b805115611d355760405160ff825191848181860194611c18818388613ae7565b8101600a8152030190205416611cf05782611c3e91604051809381928651928391613ae7565b8101600a815203019020600160ff19825416179055600b5491600160401b831015610fec576001830180600b55831015611cdc57611cc3827fbf4f7a6a1a7cd87338d9fa15225dcdcf65d748b8406adb1a463ea2822f06a3a694600b5f527f0175b7a638427703f0dbe7bb9bbf987a2551717b34e79f33b5b1008d1fa01db901613e8f565b611cd7604051928284938452830190613b08565b0390a1005b634e487b7160e01b5f52603260045260245ffd5b60405162461bcd60e51b815260048101849052601960248201527f53797374656d20616c72656164792072656769737465726564000000000000006044820152606490fd5b60405162461bcd60e51b815260048101839052600e60248201526d496e76616c69642073797374656d60901b6044820152606490fd5b346102c1575f3660031901126102c1575f546040516001600160a01b039091168152602090f35b346102c15760603660031901126102c157611dab613a75565b6044356001600160401b0381116102c157611dca903690600401613910565b9160018060a01b03611de181600154163314613ccc565b811692611def841515613db6565b835f52601460205260405f209260028401918254611e7357611e4794611e26611e1e6104b794879436916139c2565b602435614d39565b8155611e30614f6a565b93600182019485554290556104b181543090614e37565b7f5e850605db1aae6531fe5f8353ab392ab8010fe425e8b216a8d23467a9851aca6020604051428152a2005b60405162461bcd60e51b815260206004820152601a60248201527f43726564697420706572696f6420616c7265616479206f70656e0000000000006044820152606490fd5b346102c1575f3660031901126102c157602060405161012c8152f35b346102c15760203660031901126102c157600435611efd60018060a01b03600154163314613ccc565b80151580611f64575b611f0f9061424d565b5f1981018181116108d657611f2390613d10565b50611f3e60ff600483015416611f3881613c07565b15613f8c565b60058101549161012c83018093116108d657611f5f610a2793421015613fcc565b6145e0565b50600c54811115611f06565b346102c1575f3660031901126102c1576020600c54604051908152f35b346102c15760403660031901126102c1576004356001600160401b0381116102c157611fbd903690600401613a07565b611fd96020602435928160405193828580945193849201613ae7565b8101600781520301902081151580612059575b15612022575f1982019182116108d657604091612008916143b9565b50600163ffffffff82541691015482519182526020820152f35b60405162461bcd60e51b815260206004820152600f60248201526e115c1bd8da081b9bdd08199bdd5b99608a1b6044820152606490fd5b508054821115611fec565b346102c157610a2761207536613aa1565b9161428c565b346102c15760403660031901126102c157612094613a8b565b6004355f52601260205260405f209060018060a01b03165f52602052602060405f2054604051908152f35b346102c15760403660031901126102c1576004356120db613a8b565b9080151580612124575b6120ee9061424d565b5f52600d60205260405f209060018060a01b03165f526020526040805f2060ff6001825492015416825191825215156020820152f35b50600c548111156120e5565b346102c15760203660031901126102c1576001600160a01b03612151613a75565b165f52601460205260405f208054610ecc60026001840154930154604051938493846040919493926060820195825260208201520152565b346102c15760a03660031901126102c1576001600160401b036004358181116102c1576121ba903690600401613910565b6024358381116102c1576121d29036906004016138e0565b9290936044358181116102c1576121ed9036906004016138e0565b90956064358381116102c1576122079036906004016138e0565b936084359081116102c157612220903690600401613910565b9161224260ff6040518a8a82376020818c8101600a8152030190205416613e50565b8815612556576015891161251f5788851480612516575b156124d9576003549960018b018b116108d6575f966122778b613d60565b968b5f5b8b8d8383106124745791508f93508b8b63ffffffff9461229c3686866139c2565b92604051845190602081818801936122b5818387613ae7565b810160068152030190205415612449575b6122dd826040516020818951611546818389613ae7565b60405160208188516122f0818388613ae7565b81016006815203019020556123116040516020818851611588818388613ae7565b6040516020818751612324818387613ae7565b81016008815203019020928884549116898216018981116108d65789169063ffffffff1916178355604051602081875161235f818387613ae7565b81016009815203019020335f5260205260405f205492600181015495600187018097116108d6577f94a05b5b97038986898ab39242daa7bb067655824e4307ca03ee7eb47329c7b099876123cc986123c79703612401575b505050505061165a3687876139c2565b614cab565b60016123e7600354926040519460808652608086019161422d565b9401602083015260408201524260608201528033930390a2005b61241f602061243f966116e095604051938492839251928391613ae7565b81016009815203019020335f5260205260405f2055825460201c1661400d565b88808080806123b7565b612451614fbd565b6040516020818851612464818388613ae7565b81016006815203019020556122c6565b886124ab9289898d948f888c61249d828e61249660019f83906124a498613d92565b3597613d92565b3595613d92565b3593614a0f565b9b90508b826124cb5790505b9a6124c2828c613e00565b52018c9061227b565b6124d491614bca565b6124b7565b60405162461bcd60e51b8152602060048201526015602482015274084c2e8c6d040d8cadccee8d040dad2e6dac2e8c6d605b1b6044820152606490fd5b50888614612259565b60405162461bcd60e51b815260206004820152600f60248201526e426174636820746f6f206c6172676560881b6044820152606490fd5b60405162461bcd60e51b815260206004820152600b60248201526a08adae0e8f240c4c2e8c6d60ab1b6044820152606490fd5b346102c1575f3660031901126102c1576001546040516001600160a01b039091168152602090f35b346102c1575f3660031901126102c1576020600354604051908152f35b346102c157610a276125df36613aa1565b9161412e565b346102c15760203660031901126102c1576125fe613a75565b5f546001600160a01b039190612617908316331461405e565b16801561265657600280546001600160a01b031916821790557fd24015cc99cc1700cafca3042840a1d8ac1e3964fd2e0e37ea29c654056ee3275f80a2005b60405162461bcd60e51b815260206004820152601060248201526f24b73b30b634b2103b32b934b334b2b960811b6044820152606490fd5b346102c1575f3660031901126102c157602060405162278d008152f35b346102c1576126b936613a54565b9060018060a01b036126d081600254163314614022565b811515806127de575b1561135257815f5260046020523381600160405f200154161461130d57815f52601860205260405f206040519061270f82613973565b338252602082015f815261ffff6040840196169586815260608401924284528054600160401b811015610fec5761274b91600182018155613cb3565b959095610fd9576001945116855492816001600160601b0360a01b85161787555161277581613c25565b61277e81613c25565b91516001600160b81b03199093161760a09190911b60ff60a01b161760a89190911b61ffff60a81b161783555191015560405191825233917f727e5b3b7a1c2677329fdbd27158684d58988a76899634cca96d8d48e2cf54b190602090a3005b506003548211156126d9565b346102c1576020806003193601126102c157600435805f526004825260018060a01b0391600192808460405f200154163303612afb57825f526004825260405f20936005835261284460ff60405f205460401c1615613f8c565b835f526017835260405f2090600282019163ffffffff9182845416158015612ae2575b61287090613fcc565b60405161287c81613973565b60038152868101986060368b37600381015461289783613df3565b526004810154908251841015611cdc5760059160408401520154815160021015611cdc5760608201525f985f805160206150e383398151915291825497805f805160206150c38339815191525416803b156102c1575f6040518092637d6e912360e11b82528d6004830152818381612912602482018a614eb4565b03925af1801561051c57612acf575b508b905f805160206150a38339815191525416803b15612acb57816040518092633263b83b60e01b82528c600483015260606024830152818381612968606482018a614eb4565b634053ae5f60e11b604483015203925af18015612ac057612aa8575b508890525f80516020615063833981519152808a5260408c2054610da057888c52895260408b209051916001600160401b038311612a9457600160401b8311612a94578154838355838b8e838310612a6c575b50505050908b52888b20848c5b848110612a5a5750505050508054985f198a14610d3f5750817f81bca54e6c48c44ec959a5581796be73005cbde51156a29bae607f52e9baa16c9899019055845f52601686528760405f205584825542910155815490612a4581831661400d565b169063ffffffff1916179055604051908152a2005b8b8451940193818401550185906129e4565b85815220918201918791015b828110612a89575050838b8e6129d7565b5f8155018690612a78565b634e487b7160e01b8c52604160045260248cfd5b612ab19061398e565b612abc578a8c612984565b8a80fd5b6040513d84823e3d90fd5b5080fd5b612ada919c5061398e565b5f9a8c612921565b508082015461012c81018091116108d657421015612867565b60405162461bcd60e51b815260048101839052600e60248201526d139bdd081d1a19481d195b985b9d60921b6044820152606490fd5b346102c15760203660031901126102c1576004356001600160401b0381116102c157612b67602061092c81933690600401613a07565b8101600781520301902054604051908152f35b346102c1576020806003193601126102c1576001600160401b03906004358281116102c157612bad903690600401613a07565b60018060a01b03916001612bc5848254163314613ccc565b60405190612c0983855193818181890196612be181838a613ae7565b810160068152030190205493612bf8851515613e50565b604051809381928951928391613ae7565b81016008815203019020805463ffffffff600581831610159081612ebe575b5015612e795767ffffffffffffffff1916815581018054808301919082106108d6575560405195612c5887613958565b8187528387019284368537612c6c88613df3565b525f965f805160206150e383398151915293845497805f805160206150c38339815191525416803b156102c1575f6040518092637d6e912360e11b82528a6004830152818381612cbf602482018b614eb4565b03925af1801561051c57612e66575b5089905f805160206150a38339815191525416803b15612acb57816040518092633263b83b60e01b82528c600483015260606024830152818381612d15606482018b614eb4565b639c8450ed60e01b604483015203925af18015612ac057612e4e575b508890525f8051602061506383398151915280875260408a2054610da057888a528652604089209151928311612e3a57600160401b8311612e3a578154838355808410612e13575b5090885284882083895b848110612e0157505050505081545f198114612ded577f9132ffcf72a0afee289d47a83ac1b42fc41433a83ccb7ab04c11d8cb95a70da0959650019055835f5260198152612dd48260405f20613e8f565b612de8604051928284938452830190613b08565b0390a2005b634e487b7160e01b87526011600452602487fd5b87845194019381840155018490612d83565b828a528484888c2092830192015b828110612e2f575050612d79565b5f8155018590612e21565b634e487b7160e01b89526041600452602489fd5b612e579061398e565b612e6257888a612d31565b8880fd5b612e71919a5061398e565b5f988a612cce565b60405162461bcd60e51b815260048101869052601760248201527f4e6f7420656e6f756768206e65772072656164696e67730000000000000000006044820152606490fd5b6003915082871c16101589612c28565b346102c1576040612ef2612ee136613a25565b905f526013602052825f2090613e2a565b5460ff82519163ffffffff8116835260201c1615156020820152f35b346102c1575f3660031901126102c1576002546040516001600160a01b039091168152602090f35b346102c1575f3660031901126102c1576020601054604051908152f35b346102c1575f3660031901126102c1576020600f54604051908152f35b346102c1575f3660031901126102c157602060405160038152f35b346102c15760203660031901126102c1576004355f9081526005602090815260409182902054825163ffffffff808316825282841c1692810192909252821c60ff16151591810191909152606090f35b346102c1576101003660031901126102c1576004356001600160401b03811681036102c1576130086138ca565b9063ffffffff60443516604435036102c15763ffffffff60643516606435036102c157600260843510156102c15760a4356001600160401b0381116102c1576130559036906004016138e0565b9060c4356001600160401b0381116102c1576130759036906004016138e0565b93909460e4356001600160401b0381116102c157613097903690600401613910565b96906130ae60018060a01b03600154163314613ccc565b6001600160401b0383166001600160401b038516108061385b575b1561382557600c5497881580156137ef575b156137b55763ffffffff6044351663ffffffff606435161161377e578787036137395760208711613701576001890189116108d65763ffffffff6064351663ffffffff60443516039263ffffffff84116108d6576103e863ffffffff85160292836001600160401b038116036108d65761315489613d60565b995f5b8a8a8183106134285750505050505050600c54600160401b811015610fec578060016131869201600c55613d10565b50805463ffffffff60a01b60643560a01b1663ffffffff60801b60443560801b166fffffffffffffffff0000000000000000604088901b166001600160401b0389166001600160c01b03198516178117821783178555939a936131ea608435613c25565b60ff60c01b60843560c01b16936001600160401b038a169066ffffffffffffff60c81b16171717171788554260018901556001600160401b038711610fec57600160401b8711610fec5760028801548760028a0155808810613409575b5085600289015f5260205f20905f5b8981106133ee575050506001600160401b039161327460209261450e565b80156133dc575b5f805160206150838339815191525460405163f77f3f1d60e01b81526004810192909252919093166024840152600160f81b6044840152829060649082905f906001600160a01b03165af190811561051c575f916133a6575b5063ffffffff926132f4826001600160401b039360038b01553090614e37565b8160405195168552166020840152166040820152613313608435613c25565b60843560608201527fee30fc361b85d0bb374491bca9f254ca5ebe498ee8d8a377c428a0ce44fba94b60806001870192a25f5b82811061335a57610a2784600187016145e0565b6001906001600160a01b03613378613373838787613d92565b613da2565b168287017f7eb7b041dd5568436e4b975dc512884b0ddf43754a80018d7e8690dd6445709c5f80a301613346565b90506020813d6020116133d4575b816133c1602093836139a1565b810103126102c1575163ffffffff6132d4565b3d91506133b4565b5060646133e7614f6a565b905061327b565b60019060206133fc84613da2565b9301928185015501613256565b6134229060028a015f528860205f209182019101613e14565b89613247565b613440613373846134489460018060a01b0394613d92565b161515613db6565b60018d015f908152600d602052604090206001600160a01b0361346f613373848f8f613d92565b165f5260205260405f209060ff6001830154166136c9576134ec916020613497838689613d92565b356134a3368a896139c2565b9060018060a01b035f805160206150838339815191525416905f60405180988195829463196d0b9b60e01b84526004840152336024840152608060448401526084830190613b08565b6005606483015203925af192831561051c575f93613695575b505f805160206150c3833981519152546001600160a01b031692833b156102c157604051630f8e573b60e21b815260048101829052336024820152935f908590604490829084905af193841561051c576001600160401b0394613686575b50888115613670575b5f80516020615083833981519152546040516304559f7160e01b8152600481019390935294166024820152600160f81b604482015292602090849060649082905f906001600160a01b03165af1801561051c578d8f94918e925f91613631575b509461361761361c9361361161337388809660019b6135eb8389613e00565b52613600306135fa848a613e00565b51614e37565b61360a8288613e00565b5194613d92565b90614e37565b613e00565b5181558201805460ff19168317905501613157565b95505050506020833d602011613668575b8161364f602093836139a1565b810103126102c15791518d92908c908e906136176135cc565b3d9150613642565b60209150606461367e614f6a565b92505061356c565b61368f9061398e565b5f613563565b9092506020813d6020116136c1575b816136b1602093836139a1565b810103126102c15751918f613505565b3d91506136a4565b60405162461bcd60e51b815260206004820152601060248201526f111d5c1b1a58d85d19481d195b985b9d60821b6044820152606490fd5b60405162461bcd60e51b815260206004820152601060248201526f546f6f206d616e792074656e616e747360801b6044820152606490fd5b60405162461bcd60e51b815260206004820152601a60248201527f416c6c6f636174696f6e206c656e677468206d69736d617463680000000000006044820152606490fd5b60405162461bcd60e51b815260206004820152600f60248201526e496e76616c696420736176696e677360881b6044820152606490fd5b60405162461bcd60e51b815260206004820152601260248201527113dd995c9b185c1c1a5b99c81c195c9a5bd960721b6044820152606490fd5b50885f198101116108d6576001600160401b0361380e5f198b01613d10565b505460401c166001600160401b03861610156130db565b60405162461bcd60e51b815260206004820152600e60248201526d125b9d985b1a59081c195c9a5bd960921b6044820152606490fd5b50426001600160401b03841611156130c9565b346102c15760203660031901126102c157600435801515806138be575b61389490613c2f565b5f1981019081116108d6576138aa604091613c7b565b506001815491015482519182526020820152f35b50600f5481111561388b565b602435906001600160401b03821682036102c157565b9181601f840112156102c1578235916001600160401b0383116102c1576020808501948460051b0101116102c157565b9181601f840112156102c1578235916001600160401b0383116102c157602083818601950101116102c157565b606081019081106001600160401b03821117610fec57604052565b604081019081106001600160401b03821117610fec57604052565b608081019081106001600160401b03821117610fec57604052565b6001600160401b038111610fec57604052565b90601f801991011681019081106001600160401b03821117610fec57604052565b9291926001600160401b038211610fec57604051916139eb601f8201601f1916602001846139a1565b8294818452818301116102c1578281602093845f960137010152565b9080601f830112156102c157816020613a22933591016139c2565b90565b9060406003198301126102c15760043591602435906001600160401b0382116102c157613a2291600401613a07565b60409060031901126102c1576004359060243561ffff811681036102c15790565b600435906001600160a01b03821682036102c157565b602435906001600160a01b03821682036102c157565b60606003198201126102c157600435916001600160401b036024358181116102c15783613ad091600401613a07565b926044359182116102c157613a2291600401613a07565b5f5b838110613af85750505f910152565b8181015183820152602001613ae9565b90602091613b2181518092818552858086019101613ae7565b601f01601f1916010190565b90600182811c92168015613b5b575b6020831014613b4757565b634e487b7160e01b5f52602260045260245ffd5b91607f1691613b3c565b9060405191825f8254613b7781613b2d565b908184526020946001916001811690815f14613be55750600114613ba7575b505050613ba5925003836139a1565b565b5f90815285812095935091905b818310613bcd575050613ba593508201015f8080613b96565b85548884018501529485019487945091830191613bb4565b92505050613ba594925060ff191682840152151560051b8201015f8080613b96565b60031115613c1157565b634e487b7160e01b5f52602160045260245ffd5b60021115613c1157565b15613c3657565b60405162461bcd60e51b815260206004820152601760248201527f42696c6c696e672065706f6368206e6f7420666f756e640000000000000000006044820152606490fd5b600f54811015611cdc57600f5f5260011b7f8d1108e10bcb7c27dddfc02ed9d693a074039d026cf4ea4240b40f7d581ac80201905f90565b8054821015611cdc575f5260205f209060011b01905f90565b15613cd357565b60405162461bcd60e51b815260206004820152601560248201527427b7363c90313ab4b63234b7339036b0b730b3b2b960591b6044820152606490fd5b600c54811015611cdc57600690600c5f52027fdf6966c971051c3d54ec59162606531493a51404a002842f56009d7e5cf4a8c701905f90565b6001600160401b038111610fec5760051b60200190565b90613d6a82613d49565b613d7760405191826139a1565b8281528092613d88601f1991613d49565b0190602036910137565b9190811015611cdc5760051b0190565b356001600160a01b03811681036102c15790565b15613dbd57565b60405162461bcd60e51b815260206004820152600e60248201526d125b9d985b1a59081d195b985b9d60921b6044820152606490fd5b805115611cdc5760200190565b8051821015611cdc5760209160051b010190565b818110613e1f575050565b5f8155600101613e14565b602090613e44928260405194838680955193849201613ae7565b82019081520301902090565b15613e5757565b60405162461bcd60e51b815260206004820152601060248201526f14de5cdd195b481b9bdd08199bdd5b9960821b6044820152606490fd5b91909182516001600160401b038111610fec57613eac8254613b2d565b601f8111613f51575b50602080601f8311600114613ef05750819293945f92613ee5575b50508160011b915f199060031b1c1916179055565b015190505f80613ed0565b90601f19831695845f5260205f20925f905b888210613f3957505083600195969710613f21575b505050811b019055565b01515f1960f88460031b161c191690555f8080613f17565b80600185968294968601518155019501930190613f02565b613f7c90835f5260205f20601f840160051c81019160208510613f82575b601f0160051c0190613e14565b5f613eb5565b9091508190613f6f565b15613f9357565b60405162461bcd60e51b8152602060048201526011602482015270105b1c9958591e48191958dc9e5c1d1959607a1b6044820152606490fd5b15613fd357565b60405162461bcd60e51b815260206004820152601260248201527144656372797074696f6e2070656e64696e6760701b6044820152606490fd5b90600163ffffffff809316019182116108d657565b1561402957565b60405162461bcd60e51b815260206004820152600d60248201526c27b7363c903b32b934b334b2b960991b6044820152606490fd5b1561406557565b60405162461bcd60e51b815260206004820152600a60248201526927b7363c9037bbb732b960b11b6044820152606490fd5b1561409e57565b60405162461bcd60e51b815260206004820152600f60248201526e125b9d985b1a59081c995c5d595cdd608a1b6044820152606490fd5b6140df8154613b2d565b90816140e9575050565b81601f5f93116001146140fa575055565b908083918252614119601f60208420940160051c840160018501613e14565b5555565b519063ffffffff821682036102c157565b91825f526020601a8152604090815f20614159600184519261414f84613958565b8054845201613b65565b9582820196875261416c82511515614097565b81515f5260138352614181845f208851613e2a565b9460ff8654851c1661422357614198908783614842565b5f52601a82526141af6001845f205f8155016140d5565b81858051810103126102c15763ffffffff6141ec837fce68f249bec92aee6ee85c1b5b4f7e463793afb2b6517c8110655fb2d1e6df64970161411d565b16936401000000008564ffffffffff19835416171790555194519261421a8351948486958652850190613b08565b918301520390a2565b5050505050505050565b908060209392818452848401375f828201840152601f01601f1916010190565b1561425457565b60405162461bcd60e51b815260206004820152601060248201526f14195c9a5bd9081b9bdd08199bdd5b9960821b6044820152606490fd5b9190825f52601660205260405f2054926142a7841515614097565b835f52600560205260405f209260ff845460401c16614379576142cb908383614842565b6060828051810103126102c1577f30fa79d084bd4d7ed155bdea0b865c54808ce5a906a6bbff30c9c5c60eddd49e9261435a8363ffffffff6143296060614315602080990161411d565b936143226040820161411d565b500161411d565b911663ffffffff19845416178355829067ffffffff0000000082549160201b169067ffffffff000000001916179055565b805468ff00000000000000001916600160401b179055604051908152a2565b5050505050565b600e54811015611cdc57600390600e5f52027fbb7b4a454dc3493923482f07822329ed19e8244eff582cc204f8554c3620c3fd01905f90565b8054821015611cdc575f52600360205f20910201905f90565b60206143eb918160405193828580945193849201613ae7565b810160078152030190208054801561442a575f1981019081116108d657614411916143b9565b508054600182015460029092015463ffffffff90911692565b50505f905f905f90565b908160209103126102c1575180151581036102c15790565b805f52601b60205260405f205492614465841515614097565b5f1984018481116108d65761447b600491613d10565b50019060ff82541661448c81613c07565b6143795783836144c36144dd937f573ede008fc04189f87b4572ad9f8a4cac497959908bb052de137e046339151897602097614842565b5f52601b84525f6040812055838082518301019101614434565b9081156145075760015b6144f081613c07565b60ff801983541691161790556040519015158152a2565b60026144e7565b908151156145d65781515b6001808211156145c6575f5b82821c81106145755750808083161461454c575b5060018082018092116108d6571c614519565b5f1982018281116108d6578261456561456e9287613e00565b51921c85613e00565b525f614539565b80821b906001600160ff1b03811681036108d6576145938287613e00565b51918381018091116108d65783926145ae6145b59289613e00565b5190614e8b565b6145bf8288613e00565b5201614525565b5050906145d290613df3565b5190565b9050613a22614f6a565b91909160408051906145f182613958565b600190600183526020958684019287368537600382015461461186613df3565b525f5f805160206150e38339815191529182549560018060a01b0397885f805160206150c3833981519152541698893b156102c1578751637d6e912360e11b815260048082018f90529d9a818061466b6024820187614eb4565b03815a5f948591f1801561483857614825575b505f805160206150a38339815191525416803b15614821578751633263b83b60e01b8152808e018a90526060602482015290859082908183816146c46064820189614eb4565b63e507615960e01b604483015203925af1801561481757908591614803575b508890525f80516020615063833981519152808a52878520546147f35788855289528684209051916001600160401b0383116147e057600160401b83116147e05781548383558084106147b9575b50908452888420845b8381106147a85750505050508154905f19821461479557507f9ebd75e72b2282c887152b96d96927aed390fbe1151a27c83e3f948477296a6e969798506001019055825f52601b845285825f205560054291015551908152a2565b634e487b7160e01b815260118a52602490fd5b825182820155918a0191840161473a565b82865284848c882092830192015b8281106147d5575050614731565b5f81550185906147c7565b634e487b7160e01b855260418d52602485fd5b8751633f06d22b60e01b81528d90fd5b61480c9061398e565b610dd557835f6146e3565b88513d87823e3d90fd5b8480fd5b61483091955061398e565b5f935f61467e565b89513d5f823e3d90fd5b9190825f525f8051602061506383398151915291602091838352604093845f2054156149fe57855f528352835f209084518083868295549384815201905f52865f20925f5b888282106149e85750505061489e925003836139a1565b8051808501908186116108d65786018091116108d65761493f5f86946148ed8961495296815196816148d989935180928d8087019101613ae7565b8201908a82015203888101875201856139a1565b61496160018060a01b037f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e46497035416948a51988997889687956378542ead60e01b8752606060048801526064870190614eb4565b6003199384878303016024880152613b08565b91848303016044850152613b08565b03925af19182156149de575f926149b1575b5050156149a157507f1af0453083661051f6e56e5c070792320652e612154bf9af8637bb1e7655b99d5f80a2565b5163cf6c44e960e01b8152600490fd5b6149d09250803d106149d7575b6149c881836139a1565b810190614434565b5f80614973565b503d6149be565b83513d5f823e3d90fd5b8554845260019586019588955093019201614887565b845163d66ca67560e01b8152600490fd5b93909694614a2f90614a41614a35614a4995999699614a2f3689866139c2565b90614d39565b98614a2f3688856139c2565b9436916139c2565b90614a543086614e37565b614a5e3082614e37565b614a683083614e37565b614a723386614e37565b614a7c3382614e37565b614a863383614e37565b60035492600184018094116108d657836003558396600f549060409485519461010086018681106001600160401b03821117610fec57600795614ad7918952898852602088019433865236916139c2565b878701908152614b3e60608801918c83526080890193845260a0890194855260c089019542875260e08a019788528b5f5260046020528a5f2099518a5560018a019060018060a01b039051166001600160601b0360a01b8254161790555160028901613e8f565b5160038701555160048601555160058501555160068401555191015560ff60401b815192614b6b8461393d565b5f8085526020808601828152858701838152938352600582529185902095518654925167ffffffffffffffff1990931663ffffffff919091161791901b67ffffffff00000000161784555115158354921b169060ff60401b1916179055565b90613a22918015614beb575b81614ee7579050614be5614fbd565b90614ee7565b50614bf4614fbd565b614bd6565b90613ba591600f5490815f5260209260118452614c4e614c46604093614c21855f2082613e2a565b54848115614ca157614c3291614bca565b9182915b875f5260118952865f2090613e2a565b553090614e37565b5f838152601285528281203382528552829020548015614c985790614c7291614bca565b9283925b5f5260128152815f2090335f52525f2055614c913082614e37565b3390614e37565b50928392614c76565b9050918291614c36565b90335f52601460205260405f2090600282015415614d3457614ccd8351613d60565b905f5b8451811015614d005780614cef614ce960019388613e00565b5161500f565b614cf98286613e00565b5201614cd0565b509250614d2c614d226001613ba5940192614d1c84549161450e565b90614e8b565b8083553090614e37565b339054614e37565b915050565b5f805160206150838339815191525460405163196d0b9b60e01b81526004810192909252336024830152608060448301526001600160a01b03939260209183919086169082905f908290614d91906084830190613b08565b6004606483015203925af190811561051c575f91614e05575b5080925f805160206150c38339815191525416803b156102c157604051630f8e573b60e21b815260048101929092523360248301525f908290818381604481015b03925af1801561051c57614dfc5750565b613ba59061398e565b90506020813d602011614e2f575b81614e20602093836139a1565b810103126102c157515f614daa565b3d9150614e13565b5f805160206150c3833981519152546001600160a01b031691823b156102c157604051635ca4b5b160e11b815260048101929092526001600160a01b03166024820152905f90829081838160448101614deb565b90613a22918015614ea6575b81614ee7579050614be5614f6a565b50614eaf614f6a565b614e97565b9081518082526020808093019301915f5b828110614ed3575050505090565b835185529381019392810192600101614ec5565b90602090606460018060a01b035f805160206150838339815191525416935f604051958694859363022f65e760e31b8552600485015260248401528160448401525af190811561051c575f91614f3b575090565b90506020813d602011614f62575b81614f56602093836139a1565b810103126102c1575190565b3d9150614f49565b5f8051602061508383398151915254604051639cd07acb60e01b81525f60048201819052600560248301529091602091839160449183916001600160a01b03165af190811561051c575f91614f3b575090565b5f8051602061508383398151915254604051639cd07acb60e01b81525f600480830182905260248301529091602091839160449183916001600160a01b03165af190811561051c575f91614f3b575090565b5f80516020615083833981519152546040516307227b9160e21b8152600481019290925260056024830152602090829060449082905f906001600160a01b03165af190811561051c575f91614f3b57509056fe878245876662ba28a480c5ea71726db859fb50222b0a3d7cbbc21cfa336faf019e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e46497019e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e46497029e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e4649700878245876662ba28a480c5ea71726db859fb50222b0a3d7cbbc21cfa336faf00a164736f6c6343000818000abf4f7a6a1a7cd87338d9fa15225dcdcf65d748b8406adb1a463ea2822f06a3a6";
+
+type SmartBuildingEnergyFHEConstructorParams =
+  | [signer?: Signer]
+  | ConstructorParameters<typeof ContractFactory>;
+
+const isSuperArgs = (
+  xs: SmartBuildingEnergyFHEConstructorParams
+): xs is ConstructorParameters<typeof ContractFactory> => xs.length > 1;
+
+export class SmartBuildingEnergyFHE__factory extends ContractFactory {
+  constructor(...args: SmartBuildingEnergyFHEConstructorParams) {
+    if (isSuperArgs(args)) {
+      super(...args);
+    } else {
+      super(_abi, _bytecode, args[0]);
+    }
+  }
+
+  override getDeployTransaction(
+    overrides?: NonPayableOverrides & { from?: string }
+  ): Promise<ContractDeployTransaction> {
+    return super.getDeployTransaction(overrides || {});
+  }
+  override deploy(overrides?: NonPayableOverrides & { from?: string }) {
+    return super.deploy(overrides || {}) as Promise<
+      SmartBuildingEnergyFHE & {
+        deploymentTransaction(): ContractTransactionResponse;
+      }
+    >;
+  }
+  override connect(
+    runner: ContractRunner | null
+  ): SmartBuildingEnergyFHE__factory {
+    return super.connect(runner) as SmartBuildingEnergyFHE__factory;
+  }
+
+  static readonly bytecode = _bytecode;
+  static readonly abi = _abi;
+  static createInterface(): SmartBuildingEnergyFHEInterface {
+    return new Interface(_abi) as SmartBuildingEnergyFHEInterface;
+  }
+  static connect(
+    address: string,
+    runner?: ContractRunner | null
+  ): SmartBuildingEnergyFHE {
+    return new Contract(
+      address,
+      _abi,
+      runner
+    ) as unknown as SmartBuildingEnergyFHE;
+  }
+}
@@ -1,5 +1,4 @@
 /* Autogenerated file. Do not edit manually. */
 /* tslint:disable */
 /* eslint-disable */
-export { UniversalAdapter__factory } from "./UniversalAdapter__factory";
-export { VeterinaryFHERecordNetwork__factory } from "./VeterinaryFHERecordNetwork__factory";
+export { SmartBuildingEnergyFHE__factory } from "./SmartBuildingEnergyFHE__factory";
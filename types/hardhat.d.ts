@@ -46,13 +46,9 @@ declare module "hardhat/types/runtime" {
       signerOrOptions?: ethers.Signer | FactoryOptions
     ): Promise<Contracts.IInputVerifier__factory>;
     getContractFactory(
-      name: "UniversalAdapter",
+      name: "SmartBuildingEnergyFHE",
       signerOrOptions?: ethers.Signer | FactoryOptions
-    ): Promise<Contracts.UniversalAdapter__factory>;
-    getContractFactory(
-      name: "VeterinaryFHERecordNetwork",
-      signerOrOptions?: ethers.Signer | FactoryOptions
-    ): Promise<Contracts.VeterinaryFHERecordNetwork__factory>;
+    ): Promise<Contracts.SmartBuildingEnergyFHE__factory>;
 
     getContractAt(
       name: "EthereumConfig",
@@ -95,15 +91,10 @@ declare module "hardhat/types/runtime" {
       signer?: ethers.Signer
     ): Promise<Contracts.IInputVerifier>;
     getContractAt(
-      name: "UniversalAdapter",
-      address: string | ethers.Addressable,
-      signer?: ethers.Signer
-    ): Promise<Contracts.UniversalAdapter>;
-    getContractAt(
-      name: "VeterinaryFHERecordNetwork",
+      name: "SmartBuildingEnergyFHE",
       address: string | ethers.Addressable,
       signer?: ethers.Signer
-    ): Promise<Contracts.VeterinaryFHERecordNetwork>;
+    ): Promise<Contracts.SmartBuildingEnergyFHE>;
 
     deployContract(
       name: "EthereumConfig",
@@ -138,13 +129,9 @@ declare module "hardhat/types/runtime" {
       signerOrOptions?: ethers.Signer | DeployContractOptions
     ): Promise<Contracts.IInputVerifier>;
     deployContract(
-      name: "UniversalAdapter",
+      name: "SmartBuildingEnergyFHE",
       signerOrOptions?: ethers.Signer | DeployContractOptions
-    ): Promise<Contracts.UniversalAdapter>;
-    deployContract(
-      name: "VeterinaryFHERecordNetwork",
-      signerOrOptions?: ethers.Signer | DeployContractOptions
-    ): Promise<Contracts.VeterinaryFHERecordNetwork>;
+    ): Promise<Contracts.SmartBuildingEnergyFHE>;
 
     deployContract(
       name: "EthereumConfig",
@@ -187,15 +174,10 @@ declare module "hardhat/types/runtime" {
       signerOrOptions?: ethers.Signer | DeployContractOptions
     ): Promise<Contracts.IInputVerifier>;
     deployContract(
-      name: "UniversalAdapter",
-      args: any[],
-      signerOrOptions?: ethers.Signer | DeployContractOptions
-    ): Promise<Contracts.UniversalAdapter>;
-    deployContract(
-      name: "VeterinaryFHERecordNetwork",
+      name: "SmartBuildingEnergyFHE",
       args: any[],
       signerOrOptions?: ethers.Signer | DeployContractOptions
-    ): Promise<Contracts.VeterinaryFHERecordNetwork>;
+    ): Promise<Contracts.SmartBuildingEnergyFHE>;
 
     // default types
     getContractFactory(
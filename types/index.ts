@@ -22,7 +22,5 @@ export type { IFHEVMExecutor } from "./@fhevm/solidity/lib/Impl.sol/IFHEVMExecut
 export { IFHEVMExecutor__factory } from "./factories/@fhevm/solidity/lib/Impl.sol/IFHEVMExecutor__factory";
 export type { IInputVerifier } from "./@fhevm/solidity/lib/Impl.sol/IInputVerifier";
 export { IInputVerifier__factory } from "./factories/@fhevm/solidity/lib/Impl.sol/IInputVerifier__factory";
-export type { UniversalAdapter } from "./contracts/UniversalAdapter";
-export { UniversalAdapter__factory } from "./factories/contracts/UniversalAdapter__factory";
-export type { VeterinaryFHERecordNetwork } from "./contracts/VeterinaryFHERecordNetwork";
-export { VeterinaryFHERecordNetwork__factory } from "./factories/contracts/VeterinaryFHERecordNetwork__factory";
+export type { SmartBuildingEnergyFHE } from "./contracts/SmartBuildingEnergyFHE";
+export { SmartBuildingEnergyFHE__factory } from "./factories/contracts/SmartBuildingEnergyFHE__factory";